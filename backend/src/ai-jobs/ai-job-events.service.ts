@@ -0,0 +1,78 @@
+import { Injectable } from '@nestjs/common';
+import { Observable, Subject, filter } from 'rxjs';
+import { AiJobEventDto, AiJobProgressDto } from './dto/ai-job.dto';
+
+const TERMINAL_STATUSES: AiJobEventDto['status'][] = ['COMPLETED', 'FAILED', 'CANCELLED'];
+
+/**
+ * AI Job Events Service
+ *
+ * PROGRESS STREAMING: In-process hub for AI job status/progress events
+ * - AiJobsService publishes transitions and per-section progress
+ * - GET /ai/jobs/:jobId/events subscribes (see AiJobsService.streamJobEvents)
+ * - Latest progress per running job is kept so late subscribers see it
+ *
+ * Events only reach subscribers on the instance running the job.
+ * The SSE stream also re-reads the AIJob row periodically so status
+ * transitions from other instances still arrive.
+ */
+@Injectable()
+export class AiJobEventsService {
+  private readonly events = new Subject<AiJobEventDto>();
+  private readonly latestProgress = new Map<string, AiJobProgressDto>();
+
+  /**
+   * Publish a status transition
+   * Terminal statuses drop the cached progress for the job
+   */
+  publishStatus(
+    jobId: string,
+    status: AiJobEventDto['status'],
+    errorMessage: string | null = null,
+  ): void {
+    if (TERMINAL_STATUSES.includes(status)) {
+      this.latestProgress.delete(jobId);
+    }
+
+    this.events.next({
+      type: 'status',
+      jobId,
+      status,
+      errorMessage,
+      progress: this.latestProgress.get(jobId) ?? null,
+    });
+  }
+
+  /**
+   * Publish per-section progress of a RUNNING job
+   */
+  publishProgress(jobId: string, progress: AiJobProgressDto): void {
+    this.latestProgress.set(jobId, progress);
+
+    this.events.next({
+      type: 'progress',
+      jobId,
+      status: 'RUNNING',
+      errorMessage: null,
+      progress,
+    });
+  }
+
+  /**
+   * Last published progress for a job (null if none or finished)
+   */
+  getProgress(jobId: string): AiJobProgressDto | null {
+    return this.latestProgress.get(jobId) ?? null;
+  }
+
+  /**
+   * Live events for one job
+   */
+  forJob(jobId: string): Observable<AiJobEventDto> {
+    return this.events.asObservable().pipe(filter((event) => event.jobId === jobId));
+  }
+
+  static isTerminal(status: AiJobEventDto['status']): boolean {
+    return TERMINAL_STATUSES.includes(status);
+  }
+}
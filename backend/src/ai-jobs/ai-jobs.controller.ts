@@ -1,9 +1,10 @@
-import { Controller, Post, Get, Param, Body, UseGuards } from '@nestjs/common';
+import { Controller, Post, Get, Sse, Param, Body, UseGuards, MessageEvent } from '@nestjs/common';
+import { Observable } from 'rxjs';
 import { ClerkAuthGuard } from '../auth/guards/clerk-auth.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { AiJobsService } from './ai-jobs.service';
-import { StartAiTailoringDto, StartAiTailoringResponseDto, AiJobStatusDto, AiJobListItemDto } from './dto/ai-job.dto';
-import { AcceptProposalDto, AcceptProposalResponseDto, RejectProposalDto, RejectProposalResponseDto } from './dto/proposal.dto';
+import { StartAiTailoringDto, StartAiTailoringResponseDto, AiJobStatusDto, AiJobListItemDto, AiJobRefinementDto } from './dto/ai-job.dto';
+import { AcceptProposalDto, AcceptProposalResponseDto, RejectProposalDto, RejectProposalResponseDto, RefineProposalDto } from './dto/proposal.dto';
 import { GetProposalResponseDto } from './dto/get-proposal.dto';
 import { SendChatDto, ChatResponseDto } from './dto/chat.dto';
 
@@ -74,7 +75,7 @@ export class AiJobsController {
    * - Verifies user owns the job via project
    * 
    * Frontend behavior from apis.md:
-   * - Poll until COMPLETED or FAILED
+   * - Poll until COMPLETED, FAILED or CANCELLED
    */
   @Get('jobs/:jobId')
   async getJobStatus(
@@ -99,6 +100,60 @@ export class AiJobsController {
     return this.aiJobsService.getProposal(jobId, userId);
   }
 
+  /**
+   * GET /api/ai/jobs/:jobId/refinements
+   * GOAL 6: Refinement audit trail
+   * 
+   * Returns the refine chain ending at this job (oldest first),
+   * including the feedback that produced each refinement
+   */
+  @Get('jobs/:jobId/refinements')
+  async getRefinementHistory(
+    @Param('jobId') jobId: string,
+    @CurrentUser() userId: string,
+  ): Promise<AiJobRefinementDto[]> {
+    return this.aiJobsService.getRefinementHistory(jobId, userId);
+  }
+
+  /**
+   * GET /api/ai/jobs/:jobId/events
+   * PROGRESS STREAMING: Server-sent events for one AI job
+   * 
+   * Events:
+   * - status: { jobId, status, errorMessage, progress }
+   * - progress: per-section progress while RUNNING
+   *   e.g. { completedSections: 2, totalSections: 5, lastSection: 'EXPERIENCE' }
+   * 
+   * Stream closes after COMPLETED, FAILED or CANCELLED
+   * Replaces polling GET /ai/jobs/:jobId
+   */
+  @Sse('jobs/:jobId/events')
+  streamJobEvents(
+    @Param('jobId') jobId: string,
+    @CurrentUser() userId: string,
+  ): Observable<MessageEvent> {
+    return this.aiJobsService.streamJobEvents(jobId, userId);
+  }
+
+  /**
+   * POST /api/ai/jobs/:jobId/cancel
+   * Cancel a QUEUED or RUNNING AI job
+   *
+   * Behavior:
+   * - Marks the job CANCELLED immediately
+   * - A running job stops before its next section (no further provider calls)
+   * - No proposal is stored for a cancelled job
+   *
+   * Returns the updated job status
+   */
+  @Post('jobs/:jobId/cancel')
+  async cancelJob(
+    @Param('jobId') jobId: string,
+    @CurrentUser() userId: string,
+  ): Promise<AiJobStatusDto> {
+    return this.aiJobsService.cancelJob(jobId, userId);
+  }
+
   /**
    * POST /api/ai/proposal/accept
    * Accept AI proposal and create new resume version
@@ -148,13 +203,13 @@ export class AiJobsController {
    * - Takes user feedback as natural language
    * - Uses current proposal as context
    * - Generates new ProposedVersion with refinements
-   * - Maintains auditability
+   * - Maintains auditability (feedback + parentJobId stored on the new AIJob)
    * 
    * Returns new jobId for polling
    */
   @Post('proposal/refine')
   async refineProposal(
-    @Body() refineDto: { aiJobId: string; feedback: string },
+    @Body() refineDto: RefineProposalDto,
     @CurrentUser() userId: string,
   ): Promise<StartAiTailoringResponseDto> {
     return this.aiJobsService.refineProposal(refineDto.aiJobId, refineDto.feedback, userId);
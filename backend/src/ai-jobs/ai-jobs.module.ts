@@ -1,9 +1,8 @@
 import { Module } from '@nestjs/common';
 import { AiJobsController } from './ai-jobs.controller';
 import { AiJobsService } from './ai-jobs.service';
-import { DiffService } from './diff.service';
+import { AiJobEventsService } from './ai-job-events.service';
 import { VersionsModule } from '../versions/versions.module';
-import { ApiKeysModule } from '../api-keys/api-keys.module';
 
 /**
  * AI Jobs Module
@@ -12,11 +11,17 @@ import { ApiKeysModule } from '../api-keys/api-keys.module';
  * From apis.md Section 6
  * 
  * GOAL 3: Import VersionsModule for SectionsService access
+ * (DiffService is also provided through VersionsModule)
+ * 
+ * PROGRESS STREAMING: AiJobEventsService feeds the SSE endpoint
+ * 
+ * PAGE METRICS: FIT_TO_PAGE recompiles proposals with LatexCompilerService
+ * and ProjectAssetsService (both from VersionsModule)
  */
 @Module({
-  imports: [VersionsModule, ApiKeysModule],
+  imports: [VersionsModule],
   controllers: [AiJobsController],
-  providers: [AiJobsService, DiffService],
+  providers: [AiJobsService, AiJobEventsService],
   exports: [AiJobsService],
 })
 export class AiJobsModule {}
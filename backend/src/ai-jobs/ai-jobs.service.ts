@@ -1,17 +1,71 @@
-import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
+import { Injectable, NotFoundException, ForbiddenException, BadRequestException, OnModuleInit, OnApplicationBootstrap, MessageEvent } from '@nestjs/common';
+import { Observable, concat, defer, distinctUntilChanged, from, interval, map, merge, of, skip, startWith, switchMap, takeWhile } from 'rxjs';
 import { PrismaService } from '../prisma/prisma.service';
-import { StartAiTailoringDto, StartAiTailoringResponseDto, AiJobStatusDto, AiJobListItemDto } from './dto/ai-job.dto';
+import { StartAiTailoringDto, StartAiTailoringResponseDto, AiJobStatusDto, AiJobListItemDto, AiJobRefinementDto, AiJobEventDto } from './dto/ai-job.dto';
+import { AiJobEventsService } from './ai-job-events.service';
 import { SectionsService } from '../versions/sections.service';
 import { LatexParserService } from '../versions/latex-parser.service';
+import { LatexCompilerService, CompileSettings, PageMetrics } from '../versions/latex-compiler.service';
+import { ProjectAssetsService } from '../versions/project-assets.service';
 import { SectionType } from '../versions/dto/section.dto';
 import { SectionProposal } from './dto/proposal.dto';
+import { GetProposalResponseDto } from './dto/get-proposal.dto';
 import { SendChatDto, ChatResponseDto } from './dto/chat.dto';
-import OpenAI from 'openai';
-import ModelClient, { isUnexpected } from '@azure-rest/ai-inference';
-import { AzureKeyCredential } from '@azure/core-auth';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { AIModelProvider } from '@prisma/client';
-import { ApiKeysService } from '../api-keys/api-keys.service';
+import { AIModelProvider, JobDescription, Prisma, ResumeProject, ResumeSectionType } from '@prisma/client';
+import { AiCompletionService } from '../ai-providers/ai-completion.service';
+import { JobQueueService } from '../queue/job-queue.service';
+import { JobContext, UnrecoverableJobError } from '../queue/queue.types';
+
+/**
+ * Queue carrying AI tailoring/refinement jobs
+ */
+export const AI_TAILOR_QUEUE = 'ai-tailor';
+
+interface AiTailorJobPayload {
+  aiJobId: string;
+}
+
+/**
+ * How often an open event stream re-reads the AIJob row
+ * (catches transitions published on other instances)
+ */
+const STATUS_RECHECK_MS = 5000;
+
+/**
+ * PAGE METRICS: Shorten-and-recompile rounds of a FIT_TO_PAGE job
+ */
+const MAX_FIT_ROUNDS = 3;
+
+/**
+ * Thrown inside a running job once its AIJob row has been CANCELLED
+ * Unrecoverable so the queue does not retry it
+ */
+class AiJobCancelledError extends UnrecoverableJobError {
+  constructor(jobId: string) {
+    super(`AI job ${jobId} was cancelled`);
+    this.name = 'AiJobCancelledError';
+  }
+}
+
+/**
+ * GOAL 6: Refinement context for a single section
+ * previousContent is the parent job's proposal for this section
+ */
+interface SectionRefinement {
+  previousContent: string;
+  feedback: string;
+}
+
+/**
+ * PAGE METRICS: Page budget of one FIT_TO_PAGE round
+ * cutPercent is the share of text each section is asked to drop
+ */
+interface PageFitContext {
+  targetPages: number;
+  pageCount: number;
+  lastPageFill: number | null;
+  cutPercent: number;
+}
 
 /**
  * AI Jobs Service
@@ -25,30 +79,87 @@ import { ApiKeysService } from '../api-keys/api-keys.service';
  * - Section-level AI processing
  * - Locked sections excluded from AI prompts
  * 
+ * BACKGROUND JOBS: Tailoring runs on the AI_TAILOR_QUEUE (JobQueueService)
+ * - Concurrency limited by AI_JOB_CONCURRENCY (default 2)
+ * - Failed attempts retried with backoff
+ * - QUEUED/RUNNING AIJobs re-enqueued on boot
+ * - Cancellation is cooperative: checked before every section's provider call
+ * 
+ * PROGRESS STREAMING: Status transitions and per-section progress are
+ * published on AiJobEventsService and streamed over SSE
+ * 
+ * PAGE METRICS: FIT_TO_PAGE jobs shorten the least important bullets and
+ * recompile (LatexCompilerService) until the resume fits targetPages
+ * 
  * From apis.md Section 6
  */
 @Injectable()
-export class AiJobsService {
-  private readonly aiClient: OpenAI;
-
+export class AiJobsService implements OnModuleInit, OnApplicationBootstrap {
   constructor(
     private readonly prisma: PrismaService,
     private readonly sectionsService: SectionsService,
     private readonly latexParser: LatexParserService,
-    private readonly apiKeysService: ApiKeysService,
-  ) {
-    // Initialize default Nebius AI client
-    this.aiClient = new OpenAI({
-      baseURL: 'https://api.tokenfactory.nebius.com/v1/',
-      apiKey: process.env.NEBIUS_API_KEY,
-      timeout: 30000, // 30 second timeout
-      maxRetries: 2,
+    private readonly jobQueue: JobQueueService,
+    private readonly jobEvents: AiJobEventsService,
+    private readonly aiCompletion: AiCompletionService,
+    private readonly latexCompiler: LatexCompilerService,
+    private readonly projectAssets: ProjectAssetsService,
+  ) {}
+
+  /**
+   * Register the AI tailoring processor with the job queue
+   */
+  onModuleInit(): void {
+    this.jobQueue.registerProcessor<AiTailorJobPayload>(
+      AI_TAILOR_QUEUE,
+      (payload, context) => this.processAiJob(payload, context),
+      {
+        concurrency: parseInt(process.env.AI_JOB_CONCURRENCY || '2', 10),
+        maxAttempts: 3,
+        backoffMs: 5000,
+      },
+    );
+  }
+
+  /**
+   * Recover AIJobs orphaned by a restart
+   * 
+   * QUEUED/RUNNING rows without a live queue entry are enqueued again.
+   * Rows still owned by a live queue entry are left untouched (add() dedupes by key).
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    const orphaned = await this.prisma.aIJob.findMany({
+      where: { status: { in: ['QUEUED', 'RUNNING'] } },
+      select: { id: true, status: true },
     });
+
+    let recovered = 0;
+    for (const job of orphaned) {
+      const added = await this.jobQueue.add<AiTailorJobPayload>(
+        AI_TAILOR_QUEUE,
+        { aiJobId: job.id },
+        { key: job.id },
+      );
+
+      if (added) {
+        recovered++;
+        if (job.status === 'RUNNING') {
+          await this.prisma.aIJob.update({
+            where: { id: job.id },
+            data: { status: 'QUEUED' },
+          });
+        }
+      }
+    }
+
+    if (recovered > 0) {
+      console.log(`♻️ Re-enqueued ${recovered} orphaned AI job(s)`);
+    }
   }
 
   /**
    * Call AI completion API with the appropriate provider
-   * Supports Default Model (Nebius), Azure OpenAI, and Gemini
+   * AI PROVIDERS: Provider lookup and user credentials are resolved by AiCompletionService
    */
   private async callAiCompletion(
     userId: string,
@@ -56,131 +167,7 @@ export class AiJobsService {
     systemPrompt: string,
     userPrompt: string,
   ): Promise<string> {
-    const provider = modelProvider || AIModelProvider.QWEN;
-
-    if (provider === AIModelProvider.GEMINI) {
-      // Get user's Gemini API key
-      const apiKey = await this.apiKeysService.getUserApiKey(userId, AIModelProvider.GEMINI);
-      
-      if (!apiKey || !apiKey.isValid) {
-        throw new BadRequestException(
-          'Valid Gemini API key required. Please configure your API key in settings.',
-        );
-      }
-
-      try {
-        console.log(`[Gemini] Using model: gemini-2.5-flash-lite`);
-        console.log(`[Gemini] System prompt length: ${systemPrompt.length}`);
-        console.log(`[Gemini] User prompt length: ${userPrompt.length}`);
-        
-        const genAI = new GoogleGenerativeAI(apiKey.apiKey);
-        const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash-lite' });
-
-        const prompt = `${systemPrompt}\n\n${userPrompt}`;
-
-        console.log(`[Gemini] Starting API call...`);
-        const result = await model.generateContent(prompt);
-        const response = await result.response;
-        const content = response.text();
-
-        console.log(`[Gemini] Success, content length: ${content.length}`);
-        return content;
-      } catch (error) {
-        console.error(`[Gemini] Exception:`, error);
-        throw new BadRequestException(`Gemini API error: ${error.message}`);
-      }
-    } else if (provider === AIModelProvider.AZURE_OPENAI) {
-      // Get user's Azure OpenAI API key
-      const apiKey = await this.apiKeysService.getUserApiKey(userId, AIModelProvider.AZURE_OPENAI);
-      
-      if (!apiKey || !apiKey.isValid) {
-        throw new BadRequestException(
-          'Valid Azure OpenAI API key required. Please configure your API key in settings.',
-        );
-      }
-
-      try {
-        console.log(`[Azure OpenAI] Calling endpoint: ${apiKey.endpoint}`);
-        console.log(`[Azure OpenAI] Model: openai/gpt-5`);
-        console.log(`[Azure OpenAI] System prompt length: ${systemPrompt.length}`);
-        console.log(`[Azure OpenAI] User prompt length: ${userPrompt.length}`);
-        
-        const client = ModelClient(apiKey.endpoint, new AzureKeyCredential(apiKey.apiKey));
-
-        // Add timeout wrapper (30 seconds - GitHub Models should be fast)
-        const timeoutPromise = new Promise((_, reject) => {
-          setTimeout(() => {
-            console.error(`[Azure OpenAI] Request timed out after 30 seconds`);
-            reject(new Error('Request timeout after 30 seconds'));
-          }, 30000);
-        });
-
-        console.log(`[Azure OpenAI] Starting API call...`);
-        const apiCallPromise = client.path('/chat/completions').post({
-          body: {
-            messages: [
-              { role: 'system', content: systemPrompt },
-              { role: 'user', content: userPrompt },
-            ],
-            model: 'openai/gpt-5',
-            max_completion_tokens: 8000,
-          }as any,
-        });
-
-        const response = await Promise.race([apiCallPromise, timeoutPromise]) as any;
-
-        console.log(`[Azure OpenAI] Response received`);
-        console.log(`[Azure OpenAI] Response status: ${response.status}`);
-
-        if (isUnexpected(response)) {
-          const errorMsg = response.body?.error?.message || 'Azure OpenAI API call failed';
-          console.error(`[Azure OpenAI] Error: ${errorMsg}`);
-          throw new Error(errorMsg);
-        }
-
-        const content = response.body.choices[0]?.message?.content || '';
-        console.log(`[Azure OpenAI] Success, content length: ${content.length}`);
-        return content;
-      } catch (error) {
-        console.error(`[Azure OpenAI] Exception:`, error);
-        throw new BadRequestException(`Azure OpenAI API error: ${error.message}`);
-      }
-    } else {
-      // Default Model (Nebius) - default provider
-      try {
-        console.log(`[Default Model] Using model: openai/gpt-oss-120b`);
-        console.log(`[Default Model] System prompt length: ${systemPrompt.length}`);
-        console.log(`[Default Model] User prompt length: ${userPrompt.length}`);
-        
-        const response = await this.aiClient.chat.completions.create({
-          model: 'openai/gpt-oss-120b',
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userPrompt },
-          ],
-          temperature: 0.7,
-          max_tokens: 4000,
-        });
-
-        // Standard instruct model returns content in the 'content' field
-        const message = response.choices[0]?.message as any;
-        const content = message?.content || '';
-        
-        console.log(`[Default Model] Extracted content length: ${content.length}`);
-        if (content.length > 0) {
-          console.log(`[Default Model] Content preview:`, content.substring(0, 200));
-        }
-        return content;
-      } catch (error) {
-        console.error(`[Default Model] Exception:`, error);
-        console.error(`[Default Model] Error details:`, {
-          message: error.message,
-          status: error.status,
-          type: error.type,
-        });
-        throw new BadRequestException(`Default Model API error: ${error.message}`);
-      }
-    }
+    return this.aiCompletion.complete(userId, modelProvider, { systemPrompt, userPrompt });
   }
 
   /**
@@ -253,18 +240,67 @@ export class AiJobsService {
         mode,
         status: 'QUEUED',
         errorMessage: null,
+        modelProvider: startTailoringDto.modelProvider || null,
+        userInstructions: userInstructions || null,
+        lockedSections: (startTailoringDto.lockedSections ?? []) as ResumeSectionType[],
+        targetPages: mode === 'FIT_TO_PAGE' ? startTailoringDto.targetPages ?? 1 : null,
       },
     });
 
-    // PHASE 6: Execute AI job immediately (synchronous for now)
-    // TODO: Move to background queue in future phase
-    await this.executeAiJob(aiJob.id, userId, startTailoringDto.modelProvider, userInstructions);
+    // BACKGROUND JOBS: Processing happens on the queue; frontend polls status
+    await this.jobQueue.add<AiTailorJobPayload>(
+      AI_TAILOR_QUEUE,
+      { aiJobId: aiJob.id },
+      { key: aiJob.id },
+    );
 
     return {
       jobId: aiJob.id,
     };
   }
 
+  /**
+   * Queue handler for AI_TAILOR_QUEUE
+   * BACKGROUND JOBS: Maps execution errors onto the AIJob row
+   * 
+   * - Final attempt (or unrecoverable error): AIJob → FAILED
+   * - Otherwise: AIJob → QUEUED with the error, queue retries after backoff
+   * - Cancelled jobs end quietly; a CANCELLED row is never overwritten
+   */
+  private async processAiJob(payload: AiTailorJobPayload, context: JobContext): Promise<void> {
+    try {
+      await this.executeAiJob(payload.aiJobId);
+    } catch (error) {
+      if (error instanceof AiJobCancelledError) {
+        console.log(`🛑 AI job ${payload.aiJobId} stopped after cancellation`);
+        return;
+      }
+
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const isFinal = context.isFinalAttempt || error instanceof UnrecoverableJobError;
+
+      const data = isFinal
+        ? { status: 'FAILED' as const, errorMessage: message }
+        : {
+            status: 'QUEUED' as const,
+            errorMessage: `${message} (attempt ${context.attempt} of ${context.maxAttempts}, retrying)`,
+          };
+
+      await this.prisma.aIJob.updateMany({
+        where: { id: payload.aiJobId, status: { in: ['QUEUED', 'RUNNING'] } },
+        data,
+      }).then((result) => {
+        if (result.count > 0) {
+          this.jobEvents.publishStatus(payload.aiJobId, data.status, data.errorMessage);
+        }
+      }).catch((updateError) => {
+        console.error(`Failed to update AI job ${payload.aiJobId} status:`, updateError);
+      });
+
+      throw error;
+    }
+  }
+
   /**
    * Execute AI job and generate proposed resume
    * PHASE 6: AI RESUME TAILORING (PROPOSAL ONLY)
@@ -283,107 +319,362 @@ export class AiJobsService {
    * - Locked sections preserved byte-for-byte in proposal
    * - Section-level diff enables granular accept/reject
    * 
+   * SECTION LOCKS: A section is locked if it is locked on the base version
+   * OR listed in the job's lockedSections (per-job override)
+   * 
+   * GOAL 6: If the job is a refinement (parentJobId + feedback), the parent's
+   * section proposals and the feedback are included in each section prompt
+   * 
+   * BACKGROUND JOBS: Everything needed (owner, provider, instructions) is read
+   * from the AIJob row so the job can run after a restart. Errors are thrown
+   * to the queue handler (processAiJob); reruns overwrite the proposal.
+   * 
+   * Cancellation: the job only moves QUEUED/RUNNING → RUNNING → COMPLETED,
+   * so a CANCELLED row stops it before it starts, between sections, or
+   * before the proposal is stored.
+   * 
    * @param jobId - AI job ID
-   * @param userId - User ID for API key lookup
-   * @param modelProvider - Optional AI model provider (defaults to QWEN)
-   * @param userInstructions - Optional custom instructions from Edit Mode
    */
-  private async executeAiJob(
-    jobId: string,
-    userId: string,
-    modelProvider?: AIModelProvider,
-    userInstructions?: string,
-  ): Promise<void> {
-    try {
-      // Update status to RUNNING
-      await this.prisma.aIJob.update({
-        where: { id: jobId },
-        data: { status: 'RUNNING' },
-      });
+  private async executeAiJob(jobId: string): Promise<void> {
+    // Update status to RUNNING (unless cancelled while queued)
+    const started = await this.prisma.aIJob.updateMany({
+      where: { id: jobId, status: { in: ['QUEUED', 'RUNNING'] } },
+      data: { status: 'RUNNING' },
+    });
 
-      // Load AIJob with relations
-      const aiJob = await this.prisma.aIJob.findUnique({
-        where: { id: jobId },
-        include: {
-          baseVersion: true,
-          jd: true,
+    if (started.count === 0) {
+      const existing = await this.prisma.aIJob.findUnique({ where: { id: jobId } });
+      if (!existing) {
+        throw new UnrecoverableJobError('AIJob not found');
+      }
+      throw new AiJobCancelledError(jobId);
+    }
+
+    this.jobEvents.publishStatus(jobId, 'RUNNING');
+
+    // Load AIJob with relations
+    const aiJob = await this.prisma.aIJob.findUnique({
+      where: { id: jobId },
+      include: {
+        project: true,
+        baseVersion: true,
+        jd: true,
+        parentJob: {
+          include: { proposedVersion: true },
         },
-      });
+      },
+    });
+
+    if (!aiJob) {
+      throw new UnrecoverableJobError('AIJob not found');
+    }
 
-      if (!aiJob) {
-        throw new Error('AIJob not found');
+    // User ID for API key lookup, provider and instructions as requested at creation
+    const userId = aiJob.project.userId;
+    const modelProvider = aiJob.modelProvider ?? undefined;
+    const userInstructions = aiJob.userInstructions ?? undefined;
+
+    // GOAL 6: Previous proposal per section, keyed by section type
+    // Taken from the snapshot made by refineProposal (older refinements: the live parent proposal)
+    let refinements: Map<SectionType, SectionRefinement> | undefined;
+    if (aiJob.feedback) {
+      const previousProposals = (aiJob.refinedProposals ??
+        aiJob.parentJob?.proposedVersion?.sectionProposals) as unknown as SectionProposal[] | undefined;
+
+      if (!previousProposals) {
+        // Running without the previous proposal would silently ignore the feedback
+        throw new UnrecoverableJobError('The proposal being refined no longer exists');
       }
 
-      // GOAL 3: Extract sections from base version (triggers lazy extraction if needed)
-      const allSections = await this.sectionsService.extractAndStoreSections(
-        aiJob.baseVersionId,
+      refinements = new Map(
+        previousProposals.map((proposal) => [
+          proposal.sectionType,
+          { previousContent: proposal.after, feedback: aiJob.feedback! },
+        ]),
       );
+    }
 
-      // GOAL 3: Get only unlocked sections for AI processing
-      const unlockedSections = await this.sectionsService.getUnlockedSections(
-        aiJob.baseVersionId,
-      );
+    // GOAL 3: Extract sections from base version (triggers lazy extraction if needed)
+    // SECTION LOCKS: Apply the job's lock overrides on top of the stored locks
+    const jobLocks = new Set<string>(aiJob.lockedSections);
+    const allSections = (
+      await this.sectionsService.extractAndStoreSections(aiJob.baseVersionId)
+    ).map((section) => ({
+      ...section,
+      isLocked: section.isLocked || jobLocks.has(section.sectionType),
+    }));
 
-      if (unlockedSections.length === 0) {
-        // No unlocked sections - nothing for AI to modify
-        throw new Error('No unlocked sections available for AI modification');
-      }
+    // GOAL 3: Get only unlocked sections for AI processing
+    const unlockedSections = allSections.filter((section) => !section.isLocked);
+
+    if (unlockedSections.length === 0) {
+      // No unlocked sections - nothing for AI to modify (retrying cannot help)
+      throw new UnrecoverableJobError('No unlocked sections available for AI modification');
+    }
+
+    this.jobEvents.publishProgress(jobId, {
+      completedSections: 0,
+      totalSections: unlockedSections.length,
+      lastSection: null,
+    });
+
+    const jdContext = aiJob.jd ? this.buildJdContext(aiJob.jd) : null;
+    const lockedSections = new Set<SectionType>(
+      allSections.filter((section) => section.isLocked).map((section) => section.sectionType),
+    );
 
+    let sectionProposals: SectionProposal[];
+    let proposedLatexContent: string;
+    let pageFit: { pageCount: number; fitsTarget: boolean } | null = null;
+
+    if (aiJob.mode === 'FIT_TO_PAGE') {
+      // PAGE METRICS: Shorten and recompile until the resume fits the page budget
+      const fitted = await this.generateFittingProposals(
+        jobId,
+        aiJob.project,
+        aiJob.baseVersion.id,
+        aiJob.baseVersion.latexContent,
+        aiJob.targetPages ?? 1,
+        unlockedSections,
+        allSections,
+        lockedSections,
+        jdContext,
+        userId,
+        modelProvider,
+        userInstructions,
+        refinements,
+      );
+      ({ sectionProposals, proposedLatexContent } = fitted);
+      pageFit = { pageCount: fitted.pageCount, fitsTarget: fitted.fitsTarget };
+    } else {
       // GOAL 3: Generate section-level proposals
-      const sectionProposals = await this.generateSectionProposals(
+      sectionProposals = await this.generateSectionProposals(
+        jobId,
         unlockedSections,
         allSections,
-        aiJob.jd?.rawText || null,
+        jdContext,
         aiJob.mode,
         userId,
         modelProvider,
         userInstructions,
+        refinements,
       );
 
       // GOAL 3: Assemble full LaTeX with proposed changes
-      const proposedLatexContent = await this.assembleProposedLatex(
+      proposedLatexContent = await this.assembleProposedLatex(
         aiJob.baseVersionId,
         sectionProposals,
+        lockedSections,
       );
+    }
 
-      // Store proposal in ProposedVersion table
-      await this.prisma.proposedVersion.upsert({
-        where: { aiJobId: jobId },
-        create: {
-          aiJobId: jobId,
-          proposedLatexContent,
-          sectionProposals: JSON.parse(JSON.stringify(sectionProposals)), // Convert to plain object
-        },
-        update: {
-          proposedLatexContent,
-          sectionProposals: JSON.parse(JSON.stringify(sectionProposals)),
-        },
-      });
-
-      // Update AIJob status to COMPLETED
-      await this.prisma.aIJob.update({
-        where: { id: jobId },
+    // Complete the job and store the proposal atomically. The status guard locks the
+    // AIJob row, so a cancel either lands first (no proposal is stored) or waits
+    // and finds the job COMPLETED.
+    const completed = await this.prisma.$transaction(async (tx) => {
+      const transitioned = await tx.aIJob.updateMany({
+        where: { id: jobId, status: 'RUNNING' },
         data: {
           status: 'COMPLETED',
           errorMessage: null,
         },
       });
-    } catch (error) {
-      // Update AIJob status to FAILED
-      await this.prisma.aIJob.update({
-        where: { id: jobId },
-        data: {
-          status: 'FAILED',
-          errorMessage: error instanceof Error ? error.message : 'Unknown error',
-        },
+
+      if (transitioned.count === 0) {
+        return false;
+      }
+
+      // Store proposal in ProposedVersion table
+      const proposal = {
+        proposedLatexContent,
+        sectionProposals: JSON.parse(JSON.stringify(sectionProposals)), // Convert to plain object
+        pageCount: pageFit?.pageCount ?? null,
+        fitsTarget: pageFit?.fitsTarget ?? null,
+      };
+      await tx.proposedVersion.upsert({
+        where: { aiJobId: jobId },
+        create: { aiJobId: jobId, ...proposal },
+        update: proposal,
       });
+
+      return true;
+    });
+
+    // Cancelled during the last section: the result is discarded
+    if (!completed) {
+      throw new AiJobCancelledError(jobId);
+    }
+
+    this.jobEvents.publishStatus(jobId, 'COMPLETED');
+  }
+
+  /**
+   * PAGE METRICS: FIT_TO_PAGE pipeline
+   *
+   * 1. Compile the base version with the project's engine settings and assets
+   * 2. Already within targetPages: no AI calls, every section unchanged
+   * 3. Ask each unlocked section to shrink by the measured overflow, reassemble
+   *    and recompile; later rounds shorten the previous round's output further
+   * 4. Stop once it fits, after MAX_FIT_ROUNDS, or when a round makes no cuts
+   *
+   * The proposal is always the last one that compiled (a round that breaks the
+   * build is discarded); fitsTarget tells whether it reached the page budget.
+   * Progress restarts for every round.
+   */
+  private async generateFittingProposals(
+    jobId: string,
+    project: ResumeProject,
+    baseVersionId: string,
+    baseLatexContent: string,
+    targetPages: number,
+    unlockedSections: any[],
+    allSections: any[],
+    lockedSections: Set<SectionType>,
+    jdRawText: string | null,
+    userId: string,
+    modelProvider?: AIModelProvider,
+    userInstructions?: string,
+    refinements?: Map<SectionType, SectionRefinement>,
+  ): Promise<{ sectionProposals: SectionProposal[]; proposedLatexContent: string; pageCount: number; fitsTarget: boolean }> {
+    const settings: CompileSettings = {
+      engine: project.latexEngine,
+      bibliographyTool: project.bibliographyTool,
+    };
+    const files = await this.projectAssets.loadFiles(await this.projectAssets.findForProject(project.id));
+
+    const base = await this.latexCompiler.compile(baseLatexContent, settings, files);
+    if (!base.pdf || base.metrics.pageCount === null) {
+      throw new UnrecoverableJobError(
+        `Base version does not compile: ${base.errors[0] ?? 'PDF file was not generated'}`,
+      );
+    }
+
+    let metrics: PageMetrics = base.metrics;
+    let best = {
+      sectionProposals: allSections.map((section): SectionProposal => ({
+        sectionType: section.sectionType,
+        before: section.content,
+        after: section.content,
+        changeType: 'unchanged',
+      })),
+      proposedLatexContent: baseLatexContent,
+      pageCount: metrics.pageCount,
+      fitsTarget: metrics.pageCount <= targetPages,
+    };
+
+    for (let round = 1; round <= MAX_FIT_ROUNDS && !best.fitsTarget; round++) {
+      const fit: PageFitContext = {
+        targetPages,
+        pageCount: metrics.pageCount,
+        lastPageFill: metrics.lastPageFill,
+        cutPercent: this.fitCutPercent(metrics, targetPages),
+      };
+      console.log(`📏 AI job ${jobId} fit round ${round}: ${fit.pageCount} pages for ${targetPages}, cutting ~${fit.cutPercent}%`);
+
+      // Sections as shortened by the previous round (the base content in round 1)
+      const currentSections = allSections.map((section, i) => ({
+        ...section,
+        content: best.sectionProposals[i].after,
+      }));
+
+      const roundProposals = await this.generateSectionProposals(
+        jobId,
+        unlockedSections,
+        currentSections,
+        jdRawText,
+        'FIT_TO_PAGE',
+        userId,
+        modelProvider,
+        userInstructions,
+        round === 1 ? refinements : undefined,
+        fit,
+      );
+
+      if (roundProposals.every((proposal) => proposal.changeType === 'unchanged')) {
+        console.warn(`⚠️ AI job ${jobId} fit round ${round} made no cuts, stopping`);
+        break;
+      }
+
+      // Diffs stay relative to the base version
+      const sectionProposals = roundProposals.map((proposal, i): SectionProposal => ({
+        ...proposal,
+        before: allSections[i].content,
+        changeType: proposal.after !== allSections[i].content ? 'modified' : 'unchanged',
+      }));
+      const proposedLatexContent = await this.assembleProposedLatex(baseVersionId, sectionProposals, lockedSections);
+
+      await this.throwIfCancelled(jobId);
+      const result = await this.latexCompiler.compile(proposedLatexContent, settings, files);
+      if (!result.pdf || result.metrics.pageCount === null) {
+        console.warn(`⚠️ AI job ${jobId} fit round ${round} does not compile, keeping the previous proposal`);
+        break;
+      }
+
+      metrics = result.metrics;
+      best = {
+        sectionProposals,
+        proposedLatexContent,
+        pageCount: metrics.pageCount,
+        fitsTarget: metrics.pageCount <= targetPages,
+      };
+    }
+
+    console.log(`📏 AI job ${jobId}: ${best.pageCount} page(s), ${best.fitsTarget ? 'fits' : 'does not fit'} ${targetPages}`);
+    return best;
+  }
+
+  /**
+   * Share of the text to cut for the resume to fit targetPages:
+   * pages beyond the target over all used pages, plus a margin (10-50%)
+   */
+  private fitCutPercent(metrics: PageMetrics, targetPages: number): number {
+    const usedPages = metrics.pageCount - 1 + (metrics.lastPageFill ?? 1);
+    const overflow = Math.max(usedPages - targetPages, 0);
+    return Math.min(50, Math.max(10, Math.ceil((overflow / usedPages) * 100) + 5));
+  }
+
+  /**
+   * Cooperative cancellation check
+   * Throws AiJobCancelledError if the AIJob row was cancelled (or deleted)
+   */
+  private async throwIfCancelled(jobId: string): Promise<void> {
+    const job = await this.prisma.aIJob.findUnique({
+      where: { id: jobId },
+      select: { status: true },
+    });
+
+    if (!job || job.status === 'CANCELLED') {
+      throw new AiJobCancelledError(jobId);
     }
   }
 
+  /**
+   * Build JD text for prompts
+   * JD ANALYSIS: Prefixes the raw JD with its structured analysis when available
+   * so the model sees required skills and role type explicitly
+   */
+  private buildJdContext(jd: JobDescription): string {
+    if (jd.analysisStatus !== 'COMPLETED') {
+      return jd.rawText;
+    }
+
+    const skills = (jd.extractedSkills ?? {}) as { required?: string[]; niceToHave?: string[] };
+    const keywords = Array.isArray(jd.keywords) ? (jd.keywords as string[]) : [];
+    const lines = [
+      `Role: ${jd.roleType || 'OTHER'}${jd.seniority ? ` (${jd.seniority})` : ''}`,
+      skills.required?.length ? `Required skills: ${skills.required.join(', ')}` : null,
+      skills.niceToHave?.length ? `Nice-to-have skills: ${skills.niceToHave.join(', ')}` : null,
+      keywords.length ? `Keywords: ${keywords.join(', ')}` : null,
+    ].filter((line): line is string => line !== null);
+
+    return `${lines.join('\n')}\n\n${jd.rawText}`;
+  }
+
   /**
    * Get mode-specific instructions for AI
+   * FIT_TO_PAGE includes the measured overflow of the current round
    */
-  private getModeInstructions(mode: string): string {
+  private getModeInstructions(mode: string, fit?: PageFitContext): string {
     switch (mode) {
       case 'MINIMAL':
         return `Optimization Level: MINIMAL
@@ -407,6 +698,16 @@ export class AiJobsService {
 - Reorder sections if beneficial
 - Change 50-70% of content`;
 
+      case 'FIT_TO_PAGE':
+        return `Optimization Level: FIT TO PAGE
+- The compiled resume is ${fit ? `${fit.pageCount} pages long` : 'too long'} and must fit on ${fit?.targetPages ?? 1} page(s)
+- Shorten this section by roughly ${fit?.cutPercent ?? 20}% of its text
+- Cut the least important content first: bullets least relevant to the job description, older roles, repeated points
+- Prefer tightening wordy bullets; delete a whole \\item only when tightening is not enough
+- Exception to LaTeX safety rule 1: you MAY delete an entire \\item line (the command together with its text)
+- Never delete headings, entry commands, names, dates or the last bullet of an entry
+- Never add content or rephrase beyond shortening`;
+
       default:
         return 'Optimization Level: BALANCED';
     }
@@ -501,7 +802,10 @@ export class AiJobsService {
    * - Locked sections never included in AI prompt
    * - AI returns per-section modifications
    * - Unchanged sections marked as 'unchanged'
+   * - Cancellation checked before each AI call (stops a long job early)
+   * - Progress published after each AI call (PROGRESS STREAMING)
    * 
+   * @param jobId - AI job ID (for cancellation checks)
    * @param unlockedSections - Sections AI can modify
    * @param allSections - All sections (for context/order)
    * @param jdRawText - Job description
@@ -509,8 +813,11 @@ export class AiJobsService {
    * @param userId - User ID for API key lookup
    * @param modelProvider - AI model provider to use
    * @param userInstructions - Custom instructions from Edit Mode
+   * @param refinements - GOAL 6: Previous proposal + feedback per section (refine jobs only)
+   * @param fit - PAGE METRICS: Page budget of the current FIT_TO_PAGE round
    */
   private async generateSectionProposals(
+    jobId: string,
     unlockedSections: any[],
     allSections: any[],
     jdRawText: string | null,
@@ -518,8 +825,11 @@ export class AiJobsService {
     userId: string,
     modelProvider?: AIModelProvider,
     userInstructions?: string,
+    refinements?: Map<SectionType, SectionRefinement>,
+    fit?: PageFitContext,
   ): Promise<SectionProposal[]> {
     const proposals: SectionProposal[] = [];
+    let completedSections = 0;
 
     // Build section-specific prompts for each unlocked section
     for (let i = 0; i < allSections.length; i++) {
@@ -540,6 +850,9 @@ export class AiJobsService {
         if (i > 0 && proposals.some(p => p.changeType === 'modified')) {
           await new Promise(resolve => setTimeout(resolve, 500));
         }
+
+        // Stop before calling the provider if the user cancelled the job
+        await this.throwIfCancelled(jobId);
         
         // Unlocked section: send to AI
         const modifiedContent = await this.generateSectionContent(
@@ -550,6 +863,8 @@ export class AiJobsService {
           userId,
           modelProvider,
           userInstructions,
+          refinements?.get(sectionType),
+          fit,
         );
 
         proposals.push({
@@ -558,6 +873,13 @@ export class AiJobsService {
           after: modifiedContent,
           changeType: modifiedContent !== section.content ? 'modified' : 'unchanged',
         });
+
+        completedSections++;
+        this.jobEvents.publishProgress(jobId, {
+          completedSections,
+          totalSections: unlockedSections.length,
+          lastSection: sectionType,
+        });
       }
     }
 
@@ -571,6 +893,8 @@ export class AiJobsService {
    * This enables section-level isolation and better prompt control
    * 
    * @param userInstructions - Custom instructions from Edit Mode (optional)
+   * @param refinement - GOAL 6: Previous proposal and user feedback (optional)
+   * @param fit - PAGE METRICS: Page budget (FIT_TO_PAGE only)
    */
   private async generateSectionContent(
     originalContent: string,
@@ -580,9 +904,11 @@ export class AiJobsService {
     userId: string,
     modelProvider?: AIModelProvider,
     userInstructions?: string,
+    refinement?: SectionRefinement,
+    fit?: PageFitContext,
   ): Promise<string> {
     try {
-      const modeInstructions = this.getModeInstructions(mode);
+      const modeInstructions = this.getModeInstructions(mode, fit);
 
       // Build custom instructions context if provided
       const customInstructionsContext = userInstructions 
@@ -729,12 +1055,17 @@ ${modeInstructions}${customInstructionsContext}`;
         ? `Job Description:\n\`\`\`\n${jdRawText}\n\`\`\`\n\n`
         : '';
 
+      // GOAL 6: Refinement context - previous proposal and what the user wants changed
+      const refinementContext = refinement
+        ? `\n\nPrevious Proposal for this section:\n\`\`\`latex\n${refinement.previousContent}\n\`\`\`\n\nUser Feedback on the previous proposal:\n${refinement.feedback}\n\nRevise the previous proposal according to this feedback. The original section above remains the source of truth for all facts.`
+        : '';
+
       const userPrompt = `${jdContext}Current ${sectionType} Section:
 \`\`\`latex
 ${originalContent}
 \`\`\`
 
-Optimize this section${jdRawText ? ' to better match the job description' : ''}. Return ONLY the LaTeX code for this section. Preserve ALL LaTeX commands exactly.`;
+${fit ? 'Shorten this section to fit the page budget' : `Optimize this section${jdRawText ? ' to better match the job description' : ''}`}. Return ONLY the LaTeX code for this section. Preserve ALL LaTeX commands exactly.${refinementContext}`;
 
       // Call AI with appropriate provider
       console.log(`Calling AI for section: ${sectionType}, content length: ${originalContent.length}`);
@@ -763,10 +1094,12 @@ Optimize this section${jdRawText ? ' to better match the job description' : ''}.
       }
 
       // Safety check: If AI removed too much content, use original
+      // (FIT_TO_PAGE may drop whole \item lines, so it gets more room)
       const originalCommands = (originalContent.match(/\\/g) || []).length;
       const generatedCommands = (cleanedContent.match(/\\/g) || []).length;
+      const minCommandRatio = mode === 'FIT_TO_PAGE' ? 0.5 : 0.7;
       
-      if (generatedCommands < originalCommands * 0.7) {
+      if (generatedCommands < originalCommands * minCommandRatio) {
         console.warn(`AI removed too many LaTeX commands for ${sectionType} (${generatedCommands} vs ${originalCommands}), using original`);
         return originalContent;
       }
@@ -793,10 +1126,13 @@ Optimize this section${jdRawText ? ' to better match the job description' : ''}.
    * 
    * Uses SectionsService to reassemble with modifications
    * Locked sections use original content (guaranteed)
+   * 
+   * @param lockedSections - Effective locks for the job (version locks + job overrides)
    */
   private async assembleProposedLatex(
     baseVersionId: string,
     sectionProposals: SectionProposal[],
+    lockedSections: Set<SectionType>,
   ): Promise<string> {
     // Build modifications map (only changed sections)
     const modifications = new Map<SectionType, string>();
@@ -807,16 +1143,6 @@ Optimize this section${jdRawText ? ' to better match the job description' : ''}.
       }
     }
 
-    // Get all sections from base version
-    const allSections = await this.sectionsService.extractAndStoreSections(baseVersionId);
-    
-    // Build locked sections set
-    const lockedSections = new Set<SectionType>(
-      allSections
-        .filter(s => s.isLocked)
-        .map(s => s.sectionType)
-    );
-
     // Get base version to extract preamble/postamble
     const baseVersion = await this.prisma.resumeVersion.findUnique({
       where: { id: baseVersionId },
@@ -884,7 +1210,7 @@ Optimize this section${jdRawText ? ' to better match the job description' : ''}.
    * - Verifies ownership via project relationship
    * 
    * Frontend behavior from apis.md:
-   * - Poll until COMPLETED or FAILED
+   * - Poll until COMPLETED, FAILED or CANCELLED
    */
   async getJobStatus(jobId: string, userId: string): Promise<AiJobStatusDto> {
     const aiJob = await this.prisma.aIJob.findUnique({
@@ -906,6 +1232,96 @@ Optimize this section${jdRawText ? ' to better match the job description' : ''}.
       status: aiJob.status,
       newVersionId: null, // TODO: Link to created version in future phase
       errorMessage: aiJob.errorMessage,
+      parentJobId: aiJob.parentJobId,
+    };
+  }
+
+  /**
+   * Cancel AI job
+   * 
+   * - Only QUEUED/RUNNING jobs can be cancelled
+   * - Row flips to CANCELLED immediately; a running worker notices before
+   *   its next section (see throwIfCancelled) and stores no proposal
+   * - A job still waiting on the queue is skipped when claimed
+   */
+  async cancelJob(jobId: string, userId: string): Promise<AiJobStatusDto> {
+    const aiJob = await this.prisma.aIJob.findFirst({
+      where: {
+        id: jobId,
+        project: { userId },
+      },
+    });
+
+    if (!aiJob) {
+      throw new NotFoundException('AI job not found or access denied');
+    }
+
+    // Conditional update: the worker may have finished in the meantime
+    const cancelled = await this.prisma.aIJob.updateMany({
+      where: { id: jobId, status: { in: ['QUEUED', 'RUNNING'] } },
+      data: { status: 'CANCELLED', errorMessage: null },
+    });
+
+    if (cancelled.count === 0) {
+      const current = await this.prisma.aIJob.findUnique({ where: { id: jobId } });
+      throw new BadRequestException(
+        `Cannot cancel a job that is ${current?.status ?? aiJob.status}`,
+      );
+    }
+
+    console.log(`🛑 AI job ${jobId} cancelled by user`);
+    this.jobEvents.publishStatus(jobId, 'CANCELLED');
+
+    return this.getJobStatus(jobId, userId);
+  }
+
+  /**
+   * Stream AI job events
+   * PROGRESS STREAMING: Backs GET /ai/jobs/:jobId/events (SSE)
+   * 
+   * - First event is a snapshot of the current status (and progress)
+   * - Then live 'status'/'progress' events, plus a periodic re-read of the
+   *   AIJob row for transitions made on other instances
+   * - Completes after the first terminal status
+   * 
+   * Ownership/not-found errors are delivered as an SSE 'error' event
+   * (headers are already sent when the observable runs)
+   */
+  streamJobEvents(jobId: string, userId: string): Observable<MessageEvent> {
+    const snapshot = () =>
+      from(this.getJobStatus(jobId, userId)).pipe(map((status) => this.toStatusEvent(status)));
+
+    return defer(snapshot).pipe(
+      switchMap((initial) => {
+        if (AiJobEventsService.isTerminal(initial.status)) {
+          return of(initial);
+        }
+
+        const rechecked = interval(STATUS_RECHECK_MS).pipe(
+          switchMap(() => snapshot()),
+          startWith(initial),
+          distinctUntilChanged(
+            (previous, current) =>
+              previous.status === current.status && previous.errorMessage === current.errorMessage,
+          ),
+          skip(1),
+        );
+
+        return concat(of(initial), merge(this.jobEvents.forJob(jobId), rechecked)).pipe(
+          takeWhile((event) => !AiJobEventsService.isTerminal(event.status), true),
+        );
+      }),
+      map((event) => ({ type: event.type, data: event })),
+    );
+  }
+
+  private toStatusEvent(status: AiJobStatusDto): AiJobEventDto {
+    return {
+      type: 'status',
+      jobId: status.jobId,
+      status: status.status,
+      errorMessage: status.errorMessage,
+      progress: status.status === 'RUNNING' ? this.jobEvents.getProgress(status.jobId) : null,
     };
   }
 
@@ -915,7 +1331,7 @@ Optimize this section${jdRawText ? ' to better match the job description' : ''}.
    * GOAL 3: Support selective section acceptance
    * 
    * Creates new AI_GENERATED ResumeVersion from ProposedVersion
-   * Sets parentVersionId to baseVersionId
+   * Sets parentVersionId to baseVersionId and sourceAiJobId to the job (version tree)
    * Returns new versionId
    * 
    * Supports selective section acceptance via acceptedSections param
@@ -989,33 +1405,28 @@ Optimize this section${jdRawText ? ' to better match the job description' : ''}.
       finalLatexContent = aiJob.proposedVersion.proposedLatexContent;
     }
 
-    // CRITICAL FIX: Use transaction to atomically transfer ACTIVE status
-    // - Demote current ACTIVE version to DRAFT
-    // - Create new AI_GENERATED version as ACTIVE
+    // Use transaction so the new version, the active pointer and proposal cleanup land together
+    // - Create new AI_GENERATED version
+    // - Point ResumeProject.activeVersionId at it
     // - Delete proposal
     const newVersion = await this.prisma.$transaction(async (tx) => {
-      // Step 1: Demote current ACTIVE version to DRAFT
-      await tx.resumeVersion.updateMany({
-        where: {
-          projectId: acceptProposalDto.projectId,
-          status: 'ACTIVE',
-        },
-        data: {
-          status: 'DRAFT',
-        },
-      });
-
-      // Step 2: Create new AI_GENERATED version with ACTIVE status
+      // Step 1: Create new AI_GENERATED version
       const version = await tx.resumeVersion.create({
         data: {
           projectId: acceptProposalDto.projectId,
           parentVersionId: aiJob.baseVersionId,
           type: 'AI_GENERATED',
-          status: 'ACTIVE', // New version is now ACTIVE
           latexContent: finalLatexContent,
+          sourceAiJobId: aiJob.id,
         },
       });
 
+      // Step 2: New version becomes the project's active version
+      await tx.resumeProject.update({
+        where: { id: acceptProposalDto.projectId },
+        data: { activeVersionId: version.id },
+      });
+
       // Step 3: Delete the proposal (cleanup)
       await tx.proposedVersion.delete({
         where: { id: aiJob.proposedVersion.id },
@@ -1075,9 +1486,9 @@ Optimize this section${jdRawText ? ' to better match the job description' : ''}.
    * 
    * Workflow:
    * 1. Fetch current proposal
-   * 2. Create new AI job with feedback context
-   * 3. Include chat history in AI prompt
-   * 4. Generate refined proposal
+   * 2. Create new AI job recording feedback and parentJobId
+   * 3. Include previous proposal + feedback in AI prompt
+   * 4. Generate refined proposal with the original provider/instructions
    * 
    * Returns new jobId for polling
    */
@@ -1108,10 +1519,10 @@ Optimize this section${jdRawText ? ' to better match the job description' : ''}.
     }
 
     if (originalJob.status !== 'COMPLETED') {
-      throw new Error('Cannot refine incomplete proposal');
+      throw new BadRequestException('Cannot refine incomplete proposal');
     }
 
-    // Create new AI job for refinement
+    // Create new AI job for refinement, linked to the job it refines
     const newJob = await this.prisma.aIJob.create({
       data: {
         projectId: originalJob.projectId,
@@ -1119,31 +1530,70 @@ Optimize this section${jdRawText ? ' to better match the job description' : ''}.
         jdId: originalJob.jdId,
         mode: originalJob.mode,
         status: 'QUEUED',
+        modelProvider: originalJob.modelProvider,
+        userInstructions: originalJob.userInstructions,
+        lockedSections: originalJob.lockedSections,
+        targetPages: originalJob.targetPages,
+        parentJobId: originalJob.id,
+        feedback,
+        // Snapshot: the parent proposal may be accepted or rejected before this job runs
+        refinedProposals: originalJob.proposedVersion.sectionProposals as Prisma.InputJsonValue,
       },
     });
 
-    // Start async processing with chat context
-    // TODO: GOAL 6 - Store feedback in AIJob for auditability
-    // For now, we reuse existing processing but with modified prompt
-    this.executeAiJob(newJob.id, userId)
-      .catch((error) => {
-        console.error(`AI job ${newJob.id} failed:`, error);
-        this.prisma.aIJob
-          .update({
-            where: { id: newJob.id },
-            data: {
-              status: 'FAILED',
-              errorMessage: error.message || 'Unknown error during refinement',
-            },
-          })
-          .catch((updateError) => {
-            console.error(`Failed to update job ${newJob.id} status:`, updateError);
-          });
-      });
+    // Queue processing; executeAiJob reads the original provider/instructions,
+    // the parent proposal and the feedback from the job row
+    await this.jobQueue.add<AiTailorJobPayload>(
+      AI_TAILOR_QUEUE,
+      { aiJobId: newJob.id },
+      { key: newJob.id },
+    );
 
     return { jobId: newJob.id };
   }
 
+  /**
+   * Get the refine chain ending at a job
+   * GOAL 6: Refinement audit trail
+   * 
+   * Walks parentJobId links from the given job back to the original
+   * tailoring job. Returned oldest first so the UI can replay feedback.
+   */
+  async getRefinementHistory(
+    jobId: string,
+    userId: string,
+  ): Promise<AiJobRefinementDto[]> {
+    const chain: AiJobRefinementDto[] = [];
+    let currentId: string | null = jobId;
+
+    while (currentId) {
+      const job = await this.prisma.aIJob.findFirst({
+        where: {
+          id: currentId,
+          project: { userId },
+        },
+      });
+
+      if (!job) {
+        if (currentId === jobId) {
+          throw new NotFoundException('AI job not found or access denied');
+        }
+        break;
+      }
+
+      chain.unshift({
+        jobId: job.id,
+        parentJobId: job.parentJobId,
+        feedback: job.feedback,
+        status: job.status,
+        createdAt: job.createdAt.toISOString(),
+      });
+      currentId = job.parentJobId;
+    }
+
+    return chain;
+  }
+
   /**
    * Get proposal content for completed AI job
    * PHASE 6: Proposal retrieval
@@ -1152,11 +1602,12 @@ Optimize this section${jdRawText ? ' to better match the job description' : ''}.
    * Returns:
    * - proposedLatexContent (full assembled LaTeX)
    * - sectionProposals (array of per-section diffs)
+   * - pageCount / fitsTarget (FIT_TO_PAGE jobs, null otherwise)
    */
   async getProposal(
     jobId: string,
     userId: string,
-  ): Promise<{ proposedLatexContent: string; sectionProposals: SectionProposal[] }> {
+  ): Promise<GetProposalResponseDto> {
     // Fetch AI job with ownership verification
     const aiJob = await this.prisma.aIJob.findFirst({
       where: {
@@ -1184,6 +1635,8 @@ Optimize this section${jdRawText ? ' to better match the job description' : ''}.
     return {
       proposedLatexContent: aiJob.proposedVersion.proposedLatexContent,
       sectionProposals: aiJob.proposedVersion.sectionProposals as unknown as SectionProposal[],
+      pageCount: aiJob.proposedVersion.pageCount,
+      fitsTarget: aiJob.proposedVersion.fitsTarget,
     };
   }
 
@@ -1238,7 +1691,7 @@ Optimize this section${jdRawText ? ' to better match the job description' : ''}.
    * It's informational only - advice, suggestions, brainstorming.
    */
   async chat(chatDto: SendChatDto, userId: string): Promise<ChatResponseDto> {
-    const { projectId, message, resumeContext, jdContext, conversationHistory } = chatDto;
+    const { projectId, message, resumeContext, jdContext, conversationHistory, modelProvider } = chatDto;
 
     // Verify user owns the project
     const project = await this.prisma.resumeProject.findUnique({
@@ -1317,10 +1770,11 @@ Be helpful, specific, and actionable. Use examples when helpful.`;
         content: contextualMessage,
       });
 
-      // Call AI (chat always uses Default Model for now)
+      // Call AI with the provider picked in the panel (default provider if none),
+      // so resume context only goes to the user's chosen endpoint
       const assistantMessage = await this.callAiCompletion(
         userId,
-        AIModelProvider.QWEN,
+        modelProvider,
         systemPrompt,
         contextualMessage,
       );
@@ -1337,6 +1791,10 @@ Be helpful, specific, and actionable. Use examples when helpful.`;
       console.error('Chat error details:', error);
       
       // Provide more specific error messages
+      if (error.message?.includes('API key required')) {
+        throw new BadRequestException(error.message);
+      }
+
       if (error.message?.includes('API key')) {
         throw new BadRequestException('AI service authentication failed');
       }
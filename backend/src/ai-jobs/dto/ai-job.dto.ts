@@ -1,5 +1,6 @@
-import { IsUUID, IsEnum, IsArray, IsOptional, IsString } from 'class-validator';
+import { IsUUID, IsEnum, IsArray, IsOptional, IsString, IsInt, Min, Max } from 'class-validator';
 import { AIModelProvider } from '@prisma/client';
+import { SectionType } from '../../versions/dto/section.dto';
 
 /**
  * DTO for starting AI tailoring job
@@ -16,12 +17,21 @@ export class StartAiTailoringDto {
   @IsOptional()
   jdId?: string;
 
-  @IsEnum(['MINIMAL', 'BALANCED', 'AGGRESSIVE'])
-  mode: 'MINIMAL' | 'BALANCED' | 'AGGRESSIVE';
+  @IsEnum(['MINIMAL', 'BALANCED', 'AGGRESSIVE', 'FIT_TO_PAGE'])
+  mode: 'MINIMAL' | 'BALANCED' | 'AGGRESSIVE' | 'FIT_TO_PAGE';
 
+  // PAGE METRICS: Page budget for FIT_TO_PAGE (default 1, ignored by other modes)
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  @IsOptional()
+  targetPages?: number;
+
+  // SECTION LOCKS: Locked for this job only, on top of the version's section locks
   @IsArray()
+  @IsEnum(SectionType, { each: true })
   @IsOptional()
-  lockedSections?: string[];
+  lockedSections?: SectionType[];
 
   @IsString()
   @IsOptional()
@@ -46,9 +56,10 @@ export class StartAiTailoringResponseDto {
  */
 export class AiJobStatusDto {
   jobId: string;
-  status: 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+  status: 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
   newVersionId: string | null;
   errorMessage: string | null;
+  parentJobId: string | null;
 }
 
 /**
@@ -60,7 +71,41 @@ export class AiJobListItemDto {
   projectId: string;
   jdId: string;
   baseVersionId: string;
-  status: 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+  status: 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
   createdAt: string;
   updatedAt: string;
 }
+
+/**
+ * Response DTO for one entry of a refine chain
+ * GOAL 6: Refinement audit trail
+ */
+export class AiJobRefinementDto {
+  jobId: string;
+  parentJobId: string | null;
+  feedback: string | null;
+  status: 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+  createdAt: string;
+}
+
+/**
+ * Per-section progress of a running AI job
+ * PROGRESS STREAMING: Counts only sections sent to the AI (unlocked)
+ */
+export class AiJobProgressDto {
+  completedSections: number;
+  totalSections: number;
+  lastSection: string | null; // Section type finished most recently
+}
+
+/**
+ * Event pushed on GET /ai/jobs/:jobId/events
+ * PROGRESS STREAMING: 'status' for transitions, 'progress' after each section
+ */
+export class AiJobEventDto {
+  type: 'status' | 'progress';
+  jobId: string;
+  status: 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+  errorMessage: string | null;
+  progress: AiJobProgressDto | null;
+}
@@ -1,4 +1,5 @@
-import { IsArray, IsString, IsOptional, IsUUID } from 'class-validator';
+import { IsArray, IsEnum, IsString, IsOptional, IsUUID } from 'class-validator';
+import { AIModelProvider } from '@prisma/client';
 
 /**
  * DTO for chat message
@@ -32,6 +33,10 @@ export class SendChatDto {
   @IsArray()
   @IsOptional()
   conversationHistory?: ChatMessageDto[]; // Previous messages for context
+
+  @IsEnum(AIModelProvider)
+  @IsOptional()
+  modelProvider?: AIModelProvider; // Same providers as tailoring jobs (default provider if omitted)
 }
 
 /**
@@ -9,4 +9,6 @@ import { SectionProposal } from './proposal.dto';
 export class GetProposalResponseDto {
   proposedLatexContent: string;      // Full assembled LaTeX (backward compat)
   sectionProposals: SectionProposal[]; // Section-level diffs (GOAL 3)
+  pageCount: number | null;          // PAGE METRICS: pages of the recompiled proposal (FIT_TO_PAGE only)
+  fitsTarget: boolean | null;        // Whether pageCount is within the job's targetPages
 }
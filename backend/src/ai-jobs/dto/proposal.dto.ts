@@ -1,4 +1,4 @@
-import { IsUUID, IsArray, IsOptional } from 'class-validator';
+import { IsUUID, IsArray, IsOptional, IsString, IsNotEmpty } from 'class-validator';
 import { SectionType } from '../../versions/dto/section.dto';
 
 /**
@@ -52,3 +52,16 @@ export class RejectProposalDto {
 export class RejectProposalResponseDto {
   success: boolean;
 }
+
+/**
+ * DTO for refining AI proposal
+ * GOAL 6: Chat-driven iteration
+ */
+export class RefineProposalDto {
+  @IsUUID()
+  aiJobId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  feedback: string;
+}
@@ -0,0 +1,50 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { AIModelProvider } from '@prisma/client';
+import { ApiKeysService } from '../api-keys/api-keys.service';
+import { AiProviderRegistry } from './ai-provider.registry';
+import { AiCompletionRequest, AiProviderCredentials, DEFAULT_AI_PROVIDER } from './ai-provider.types';
+
+/**
+ * AI Completion Service
+ *
+ * AI PROVIDERS: Runs a completion for a user with the provider they picked
+ * - Provider lookup, models and limits live in AiProviderRegistry
+ * - User credentials are loaded here for providers that require them
+ *
+ * Used by AiJobsService (tailoring, chat) and JdAnalysisService.
+ */
+@Injectable()
+export class AiCompletionService {
+  constructor(
+    private readonly aiProviders: AiProviderRegistry,
+    private readonly apiKeysService: ApiKeysService,
+  ) {}
+
+  async complete(
+    userId: string,
+    modelProvider: AIModelProvider | null | undefined,
+    request: AiCompletionRequest,
+  ): Promise<string> {
+    const provider = this.aiProviders.get(modelProvider || DEFAULT_AI_PROVIDER);
+
+    let credentials: AiProviderCredentials | null = null;
+    if (provider.requiresUserKey) {
+      const apiKey = await this.apiKeysService.getUserApiKey(userId, provider.id);
+
+      if (!apiKey || !apiKey.isValid) {
+        throw new BadRequestException(
+          `Valid ${provider.displayName} API key required. Please configure your API key in settings.`,
+        );
+      }
+
+      credentials = { apiKey: apiKey.apiKey, endpoint: apiKey.endpoint, model: apiKey.model };
+    }
+
+    try {
+      return await provider.complete(request, credentials);
+    } catch (error) {
+      console.error(`[${provider.displayName}] Exception:`, error);
+      throw new BadRequestException(`${provider.displayName} API error: ${error.message}`);
+    }
+  }
+}
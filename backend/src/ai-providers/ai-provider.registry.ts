@@ -0,0 +1,46 @@
+import { Inject, Injectable, BadRequestException } from '@nestjs/common';
+import { AIModelProvider } from '@prisma/client';
+import { AI_PROVIDERS, AiProvider } from './ai-provider.types';
+
+/**
+ * AI Provider Registry
+ *
+ * AI PROVIDERS: Looks up the AiProvider for an AIModelProvider value
+ * - Providers listed in AiProvidersModule are registered on construction
+ * - register() replaces an existing entry (tests can swap in a fake provider)
+ */
+@Injectable()
+export class AiProviderRegistry {
+  private readonly providers = new Map<AIModelProvider, AiProvider>();
+
+  constructor(@Inject(AI_PROVIDERS) providers: AiProvider[]) {
+    for (const provider of providers) {
+      this.register(provider);
+    }
+  }
+
+  register(provider: AiProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  has(id: AIModelProvider): boolean {
+    return this.providers.has(id);
+  }
+
+  /**
+   * Get a provider, or BadRequest if none is registered for it
+   */
+  get(id: AIModelProvider): AiProvider {
+    const provider = this.providers.get(id);
+
+    if (!provider) {
+      throw new BadRequestException(`Unsupported AI provider: ${id}`);
+    }
+
+    return provider;
+  }
+
+  list(): AiProvider[] {
+    return Array.from(this.providers.values());
+  }
+}
@@ -0,0 +1,73 @@
+import { AIModelProvider } from '@prisma/client';
+
+/**
+ * AI provider types
+ *
+ * AI PROVIDERS: Shared contract between AiProviderRegistry and each provider
+ */
+
+/**
+ * Injection token for the list of registered AiProviders
+ */
+export const AI_PROVIDERS = 'AI_PROVIDERS';
+
+/**
+ * Provider used when a job or chat does not pick one
+ */
+export const DEFAULT_AI_PROVIDER: AIModelProvider = AIModelProvider.QWEN;
+
+/**
+ * Per-provider request limits
+ */
+export interface AiProviderLimits {
+  timeoutMs: number;
+  maxOutputTokens: number;
+}
+
+/**
+ * User credentials from UserAPIKey (null for system-credential providers)
+ */
+export interface AiProviderCredentials {
+  apiKey: string;
+  endpoint: string | null;
+  model: string | null; // User-chosen model (providers with requiresModel)
+}
+
+export interface AiCompletionRequest {
+  systemPrompt: string;
+  userPrompt: string;
+}
+
+export interface AiProviderValidationResult {
+  isValid: boolean;
+  validationError: string | null;
+}
+
+/**
+ * A model backend the tailoring engine can call
+ *
+ * Implementations:
+ * - NebiusProvider (QWEN): default model, system credentials
+ * - GeminiProvider (GEMINI): user API key
+ * - AzureOpenAiProvider (AZURE_OPENAI): user API key + endpoint
+ * - OpenAiCompatibleProvider (OPENAI_COMPATIBLE): user base URL + model, e.g. Ollama/llama.cpp
+ *
+ * complete() throws on failure; callers wrap the error for the API response.
+ */
+export interface AiProvider {
+  readonly id: AIModelProvider;
+  readonly displayName: string;
+  readonly requiresUserKey: boolean;
+  readonly requiresEndpoint: boolean;
+  readonly requiresModel: boolean;
+  readonly models: string[];
+  readonly defaultModel: string | null; // null when the user picks the model
+  readonly limits: AiProviderLimits;
+
+  complete(request: AiCompletionRequest, credentials: AiProviderCredentials | null): Promise<string>;
+
+  /**
+   * Check user credentials with a minimal provider request
+   */
+  validate(credentials: AiProviderCredentials): Promise<AiProviderValidationResult>;
+}
@@ -0,0 +1,38 @@
+import { Global, Module } from '@nestjs/common';
+import { ApiKeysModule } from '../api-keys/api-keys.module';
+import { AiProviderRegistry } from './ai-provider.registry';
+import { AiCompletionService } from './ai-completion.service';
+import { AI_PROVIDERS, AiProvider } from './ai-provider.types';
+import { NebiusProvider } from './providers/nebius.provider';
+import { GeminiProvider } from './providers/gemini.provider';
+import { AzureOpenAiProvider } from './providers/azure-openai.provider';
+import { OpenAiCompatibleProvider } from './providers/openai-compatible.provider';
+
+/**
+ * AI Providers Module
+ *
+ * AI PROVIDERS: Provides AiProviderRegistry and AiCompletionService to the whole application
+ * - AiJobsService and JdAnalysisService run completions through AiCompletionService
+ * - ApiKeysService uses the registry for key validation
+ *
+ * Adding a provider: implement AiProvider and list the class below
+ */
+@Global()
+@Module({
+  imports: [ApiKeysModule],
+  providers: [
+    NebiusProvider,
+    GeminiProvider,
+    AzureOpenAiProvider,
+    OpenAiCompatibleProvider,
+    {
+      provide: AI_PROVIDERS,
+      inject: [NebiusProvider, GeminiProvider, AzureOpenAiProvider, OpenAiCompatibleProvider],
+      useFactory: (...providers: AiProvider[]): AiProvider[] => providers,
+    },
+    AiProviderRegistry,
+    AiCompletionService,
+  ],
+  exports: [AiProviderRegistry, AiCompletionService],
+})
+export class AiProvidersModule {}
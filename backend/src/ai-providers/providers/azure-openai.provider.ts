@@ -0,0 +1,101 @@
+import { Injectable } from '@nestjs/common';
+import { AIModelProvider } from '@prisma/client';
+import ModelClient, { isUnexpected } from '@azure-rest/ai-inference';
+import { AzureKeyCredential } from '@azure/core-auth';
+import {
+  AiProvider,
+  AiCompletionRequest,
+  AiProviderCredentials,
+  AiProviderValidationResult,
+} from '../ai-provider.types';
+
+/**
+ * Azure OpenAI
+ *
+ * Provider for AIModelProvider.AZURE_OPENAI (user API key + endpoint)
+ * Also works with GitHub Models endpoints
+ */
+@Injectable()
+export class AzureOpenAiProvider implements AiProvider {
+  readonly id = AIModelProvider.AZURE_OPENAI;
+  readonly displayName = 'Azure OpenAI';
+  readonly requiresUserKey = true;
+  readonly requiresEndpoint = true;
+  readonly requiresModel = false;
+  readonly models = ['openai/gpt-5'];
+  readonly defaultModel = 'openai/gpt-5';
+  readonly limits = { timeoutMs: 30000, maxOutputTokens: 8000 };
+
+  async complete(request: AiCompletionRequest, credentials: AiProviderCredentials): Promise<string> {
+    console.log(`[Azure OpenAI] Calling endpoint: ${credentials.endpoint}`);
+    console.log(`[Azure OpenAI] Model: ${this.defaultModel}`);
+    console.log(`[Azure OpenAI] System prompt length: ${request.systemPrompt.length}`);
+    console.log(`[Azure OpenAI] User prompt length: ${request.userPrompt.length}`);
+
+    const client = ModelClient(credentials.endpoint, new AzureKeyCredential(credentials.apiKey));
+
+    let timeout: NodeJS.Timeout;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timeout = setTimeout(() => {
+        console.error(`[Azure OpenAI] Request timed out after ${this.limits.timeoutMs / 1000} seconds`);
+        reject(new Error(`Request timeout after ${this.limits.timeoutMs / 1000} seconds`));
+      }, this.limits.timeoutMs);
+    });
+
+    console.log(`[Azure OpenAI] Starting API call...`);
+    const apiCallPromise = client.path('/chat/completions').post({
+      body: {
+        messages: [
+          { role: 'system', content: request.systemPrompt },
+          { role: 'user', content: request.userPrompt },
+        ],
+        model: this.defaultModel,
+        max_completion_tokens: this.limits.maxOutputTokens,
+      } as any,
+    });
+
+    const response = await Promise.race([apiCallPromise, timeoutPromise]).finally(() => clearTimeout(timeout));
+
+    console.log(`[Azure OpenAI] Response received`);
+    console.log(`[Azure OpenAI] Response status: ${response.status}`);
+
+    if (isUnexpected(response)) {
+      const errorMsg = response.body?.error?.message || 'Azure OpenAI API call failed';
+      console.error(`[Azure OpenAI] Error: ${errorMsg}`);
+      throw new Error(errorMsg);
+    }
+
+    const content = response.body.choices[0]?.message?.content || '';
+    console.log(`[Azure OpenAI] Success, content length: ${content.length}`);
+    return content;
+  }
+
+  async validate(credentials: AiProviderCredentials): Promise<AiProviderValidationResult> {
+    try {
+      // Validate Azure OpenAI key by making a test request
+      const client = ModelClient(credentials.endpoint, new AzureKeyCredential(credentials.apiKey));
+
+      const response = await client.path('/chat/completions').post({
+        body: {
+          messages: [{ role: 'user', content: 'test' }],
+          model: this.defaultModel,
+          max_completion_tokens: 1,
+        } as any,
+      });
+
+      if (isUnexpected(response)) {
+        return {
+          isValid: false,
+          validationError: response.body?.error?.message || 'API key validation failed',
+        };
+      }
+
+      return { isValid: true, validationError: null };
+    } catch (error) {
+      return {
+        isValid: false,
+        validationError: error.message || 'Failed to validate API key',
+      };
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import { after, before, describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { AddressResolver, BlockedEndpointError, checkEndpoint, guardedFetch, isInternalAddress } from './endpoint-guard';
+
+const NONE = new Set<string>();
+
+/**
+ * Resolver answering every hostname with fixed addresses (no real DNS)
+ */
+const resolveTo = (...addresses: string[]): AddressResolver => (_hostname, _options, callback) =>
+  callback(null, addresses.map((address) => ({ address, family: address.includes(':') ? 6 : 4 })));
+
+describe('endpoint guard', () => {
+  it('classifies internal addresses', () => {
+    assert.equal(isInternalAddress('127.0.0.1'), true);
+    assert.equal(isInternalAddress('::1'), true);
+    assert.equal(isInternalAddress('169.254.169.254'), true);
+    assert.equal(isInternalAddress('fe80::1'), true);
+    assert.equal(isInternalAddress('10.1.2.3'), true);
+    assert.equal(isInternalAddress('::ffff:127.0.0.1'), true);
+    assert.equal(isInternalAddress('::ffff:a00:1'), true);
+    assert.equal(isInternalAddress('8.8.8.8'), false);
+    assert.equal(isInternalAddress('::ffff:8.8.8.8'), false);
+  });
+
+  it('rejects loopback, link-local and IPv6-mapped IPv4 literals', async () => {
+    for (const endpoint of [
+      'http://127.0.0.1:11434/v1',
+      'http://[::1]/v1',
+      'http://169.254.169.254/latest',
+      'http://[::ffff:10.0.0.1]/v1',
+    ]) {
+      await assert.rejects(checkEndpoint(endpoint, NONE), BlockedEndpointError, endpoint);
+    }
+  });
+
+  it('rejects hostnames resolving to an internal address', async () => {
+    await assert.rejects(
+      checkEndpoint('https://rebind.example/v1', NONE, resolveTo('203.0.113.5', '127.0.0.1')),
+      BlockedEndpointError,
+    );
+    await checkEndpoint('https://api.example/v1', NONE, resolveTo('203.0.113.5'));
+  });
+
+  it('rejects non-http schemes', async () => {
+    await assert.rejects(checkEndpoint('file:///etc/passwd', NONE), BlockedEndpointError);
+  });
+
+  it('lets allow-listed hosts through', async () => {
+    await checkEndpoint('http://ollama:11434/v1', new Set(['ollama']), resolveTo('172.18.0.3'));
+    await checkEndpoint('http://127.0.0.1:11434/v1', new Set(['127.0.0.1']));
+  });
+
+  describe('guardedFetch', () => {
+    let server: Server;
+    let port: number;
+
+    before(async () => {
+      server = createServer((request, response) => {
+        if (request.url === '/redirect') {
+          response.writeHead(302, { location: 'http://169.254.169.254/latest' });
+          response.end();
+          return;
+        }
+        response.writeHead(200, { 'content-type': 'application/json' });
+        response.end(JSON.stringify({ method: request.method }));
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      port = (server.address() as AddressInfo).port;
+    });
+
+    after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+    it('refuses to connect to an internal address', async () => {
+      await assert.rejects(guardedFetch(NONE)(`http://127.0.0.1:${port}/`), BlockedEndpointError);
+      await assert.rejects(guardedFetch(NONE)(`http://localhost:${port}/`), BlockedEndpointError);
+    });
+
+    it('calls allow-listed hosts and does not follow redirects', async () => {
+      const fetchAllowed = guardedFetch(new Set(['127.0.0.1']));
+
+      const response = await fetchAllowed(`http://127.0.0.1:${port}/v1/models`, { method: 'POST', body: '{}' });
+      assert.equal(response.status, 200);
+      assert.deepEqual(await response.json(), { method: 'POST' });
+
+      const redirect = await fetchAllowed(`http://127.0.0.1:${port}/redirect`);
+      assert.equal(redirect.status, 302);
+      assert.equal(redirect.headers.get('location'), 'http://169.254.169.254/latest');
+    });
+  });
+});
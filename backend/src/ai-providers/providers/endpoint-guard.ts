@@ -0,0 +1,191 @@
+import { lookup as dnsLookup, LookupAddress, LookupAllOptions } from 'dns';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { Readable } from 'stream';
+
+/**
+ * Endpoint guard for user-supplied AI endpoints
+ *
+ * AI PROVIDERS: Keeps OPENAI_COMPATIBLE requests off the backend's own network
+ * - Every connection resolves the host through guardedLookup, which rejects
+ *   private, loopback and link-local addresses; the socket connects to the
+ *   address that was checked, so a DNS answer cannot change in between
+ * - Redirects are never followed (3xx responses are returned as errors)
+ * - Hosts in the allow list (OPENAI_COMPATIBLE_ALLOWED_HOSTS) skip the address check
+ */
+
+const INTERNAL_ADDRESSES = new BlockList();
+INTERNAL_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');
+INTERNAL_ADDRESSES.addAddress('::', 'ipv6');
+INTERNAL_ADDRESSES.addAddress('::1', 'ipv6');
+INTERNAL_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');
+INTERNAL_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+
+/**
+ * Resolver used by guardedLookup (dns.lookup with all: true)
+ */
+export type AddressResolver = (
+  hostname: string,
+  options: LookupAllOptions,
+  callback: (error: NodeJS.ErrnoException | null, addresses: LookupAddress[]) => void,
+) => void;
+
+/**
+ * Thrown for endpoints the backend may not call
+ */
+export class BlockedEndpointError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BlockedEndpointError';
+  }
+}
+
+/**
+ * Whether an address is private, loopback or link-local
+ * BlockList matches IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) against the IPv4 subnets
+ */
+export function isInternalAddress(address: string): boolean {
+  const family = isIP(address);
+  return family !== 0 && INTERNAL_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Parse an endpoint URL and check everything that does not need DNS:
+ * http(s) only, and IP literals (which never go through a lookup)
+ */
+export function parseEndpoint(endpoint: string, allowedHosts: ReadonlySet<string>): URL {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    throw new BlockedEndpointError(`Invalid endpoint URL: ${endpoint}`);
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new BlockedEndpointError('Endpoint must use http or https');
+  }
+
+  const hostname = normalizeHostname(url.hostname);
+  if (!allowedHosts.has(hostname) && isInternalAddress(hostname)) {
+    throw blockedError(url.host);
+  }
+
+  return url;
+}
+
+/**
+ * DNS lookup for http(s) agents that refuses internal addresses
+ */
+export function guardedLookup(
+  allowedHosts: ReadonlySet<string>,
+  resolve: AddressResolver = dnsLookup,
+): LookupFunction {
+  return (hostname, options, callback) => {
+    resolve(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) {
+        callback(error, '', 0);
+        return;
+      }
+
+      if (!allowedHosts.has(normalizeHostname(hostname))) {
+        const internal = addresses.find(({ address }) => isInternalAddress(address));
+        if (internal) {
+          callback(blockedError(hostname), '', 0);
+          return;
+        }
+      }
+
+      if (options.all) {
+        (callback as (error: null, addresses: LookupAddress[]) => void)(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  };
+}
+
+/**
+ * Resolve an endpoint's host once and reject it if it is internal
+ * Gives a clear error before any request; guardedFetch checks again on every connect
+ */
+export async function checkEndpoint(
+  endpoint: string,
+  allowedHosts: ReadonlySet<string>,
+  resolve: AddressResolver = dnsLookup,
+): Promise<void> {
+  const url = parseEndpoint(endpoint, allowedHosts);
+  const hostname = normalizeHostname(url.hostname);
+  if (isIP(hostname)) return;
+
+  await new Promise<void>((done, fail) => {
+    guardedLookup(allowedHosts, resolve)(hostname, { all: true }, (error) => (error ? fail(error) : done()));
+  });
+}
+
+/**
+ * fetch implementation for the OpenAI client that connects only through guardedLookup
+ * Supports what the client sends for JSON endpoints (string or byte bodies)
+ */
+export function guardedFetch(allowedHosts: ReadonlySet<string>): typeof fetch {
+  const lookup = guardedLookup(allowedHosts);
+
+  return async (input: string | URL | Request, init: RequestInit = {}) => {
+    const url = parseEndpoint(input instanceof Request ? input.url : input.toString(), allowedHosts);
+    const method = (init.method ?? 'GET').toUpperCase();
+    const body = init.body ?? null;
+
+    if (body !== null && typeof body !== 'string' && !(body instanceof Uint8Array)) {
+      throw new BlockedEndpointError('Unsupported request body for a custom endpoint');
+    }
+
+    const headers = new Headers(init.headers);
+    headers.set('accept-encoding', 'identity'); // Responses are passed through undecoded
+
+    return new Promise<Response>((resolve, reject) => {
+      const request = (url.protocol === 'https:' ? httpsRequest : httpRequest)(
+        url,
+        { method, headers: Object.fromEntries(headers.entries()), lookup, signal: init.signal ?? undefined },
+        (response) => {
+          const responseHeaders = new Headers();
+          for (const [name, value] of Object.entries(response.headers)) {
+            for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+              responseHeaders.append(name, item);
+            }
+          }
+
+          const status = response.statusCode ?? 502;
+          const hasBody = method !== 'HEAD' && status !== 204 && status !== 304;
+          if (!hasBody) response.resume();
+
+          resolve(
+            new Response(hasBody ? (Readable.toWeb(response) as ReadableStream<Uint8Array>) : null, {
+              status,
+              statusText: response.statusMessage,
+              headers: responseHeaders,
+            }),
+          );
+        },
+      );
+
+      request.on('error', reject);
+      request.end(body ?? undefined);
+    });
+  };
+}
+
+function normalizeHostname(hostname: string): string {
+  return hostname.replace(/^\[|\]$/g, '').toLowerCase();
+}
+
+function blockedError(host: string): BlockedEndpointError {
+  return new BlockedEndpointError(
+    `Endpoint ${host} resolves to a private or local address; ask an administrator to add it to OPENAI_COMPATIBLE_ALLOWED_HOSTS`,
+  );
+}
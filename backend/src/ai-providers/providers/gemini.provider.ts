@@ -0,0 +1,70 @@
+import { Injectable } from '@nestjs/common';
+import { AIModelProvider } from '@prisma/client';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import {
+  AiProvider,
+  AiCompletionRequest,
+  AiProviderCredentials,
+  AiProviderValidationResult,
+} from '../ai-provider.types';
+
+/**
+ * Gemini
+ *
+ * Provider for AIModelProvider.GEMINI (user API key)
+ * Gemini takes a single prompt, so system and user prompts are concatenated
+ */
+@Injectable()
+export class GeminiProvider implements AiProvider {
+  readonly id = AIModelProvider.GEMINI;
+  readonly displayName = 'Gemini';
+  readonly requiresUserKey = true;
+  readonly requiresEndpoint = false;
+  readonly requiresModel = false;
+  readonly models = ['gemini-2.5-flash-lite'];
+  readonly defaultModel = 'gemini-2.5-flash-lite';
+  readonly limits = { timeoutMs: 30000, maxOutputTokens: 8000 };
+
+  async complete(request: AiCompletionRequest, credentials: AiProviderCredentials): Promise<string> {
+    console.log(`[Gemini] Using model: ${this.defaultModel}`);
+    console.log(`[Gemini] System prompt length: ${request.systemPrompt.length}`);
+    console.log(`[Gemini] User prompt length: ${request.userPrompt.length}`);
+
+    const model = this.getModel(credentials.apiKey);
+    const prompt = `${request.systemPrompt}\n\n${request.userPrompt}`;
+
+    console.log(`[Gemini] Starting API call...`);
+    const result = await model.generateContent(prompt, { timeout: this.limits.timeoutMs });
+    const response = await result.response;
+    const content = response.text();
+
+    console.log(`[Gemini] Success, content length: ${content.length}`);
+    return content;
+  }
+
+  async validate(credentials: AiProviderCredentials): Promise<AiProviderValidationResult> {
+    try {
+      // Validate Gemini API key by making a test request
+      const model = this.getModel(credentials.apiKey);
+
+      const result = await model.generateContent('test', { timeout: this.limits.timeoutMs });
+      const response = await result.response;
+      response.text(); // Will throw if invalid
+
+      return { isValid: true, validationError: null };
+    } catch (error) {
+      return {
+        isValid: false,
+        validationError: error.message || 'Failed to validate API key',
+      };
+    }
+  }
+
+  private getModel(apiKey: string) {
+    const genAI = new GoogleGenerativeAI(apiKey);
+    return genAI.getGenerativeModel({
+      model: this.defaultModel,
+      generationConfig: { maxOutputTokens: this.limits.maxOutputTokens },
+    });
+  }
+}
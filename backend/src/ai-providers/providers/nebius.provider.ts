@@ -0,0 +1,70 @@
+import { Injectable } from '@nestjs/common';
+import OpenAI from 'openai';
+import { AIModelProvider } from '@prisma/client';
+import {
+  AiProvider,
+  AiCompletionRequest,
+  AiProviderValidationResult,
+} from '../ai-provider.types';
+
+/**
+ * Default Model (Nebius)
+ *
+ * Provider for AIModelProvider.QWEN
+ * Uses system credentials (NEBIUS_API_KEY); users do not store keys for it
+ */
+@Injectable()
+export class NebiusProvider implements AiProvider {
+  readonly id = AIModelProvider.QWEN;
+  readonly displayName = 'Default Model';
+  readonly requiresUserKey = false;
+  readonly requiresEndpoint = false;
+  readonly requiresModel = false;
+  readonly models = ['openai/gpt-oss-120b'];
+  readonly defaultModel = 'openai/gpt-oss-120b';
+  readonly limits = { timeoutMs: 30000, maxOutputTokens: 4000 };
+
+  private readonly client: OpenAI;
+
+  constructor() {
+    this.client = new OpenAI({
+      baseURL: 'https://api.tokenfactory.nebius.com/v1/',
+      apiKey: process.env.NEBIUS_API_KEY,
+      timeout: this.limits.timeoutMs,
+      maxRetries: 2,
+    });
+  }
+
+  async complete(request: AiCompletionRequest): Promise<string> {
+    console.log(`[Default Model] Using model: ${this.defaultModel}`);
+    console.log(`[Default Model] System prompt length: ${request.systemPrompt.length}`);
+    console.log(`[Default Model] User prompt length: ${request.userPrompt.length}`);
+
+    const response = await this.client.chat.completions.create({
+      model: this.defaultModel,
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.userPrompt },
+      ],
+      temperature: 0.7,
+      max_tokens: this.limits.maxOutputTokens,
+    });
+
+    // Standard instruct model returns content in the 'content' field
+    const message = response.choices[0]?.message as any;
+    const content = message?.content || '';
+
+    console.log(`[Default Model] Extracted content length: ${content.length}`);
+    if (content.length > 0) {
+      console.log(`[Default Model] Content preview:`, content.substring(0, 200));
+    }
+    return content;
+  }
+
+  async validate(): Promise<AiProviderValidationResult> {
+    return {
+      isValid: false,
+      validationError: 'QWEN provider does not require user API keys',
+    };
+  }
+}
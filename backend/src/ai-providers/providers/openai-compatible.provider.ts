@@ -0,0 +1,117 @@
+import { Injectable } from '@nestjs/common';
+import OpenAI from 'openai';
+import { AIModelProvider } from '@prisma/client';
+import {
+  AiProvider,
+  AiCompletionRequest,
+  AiProviderCredentials,
+  AiProviderValidationResult,
+} from '../ai-provider.types';
+import { checkEndpoint, guardedFetch } from './endpoint-guard';
+
+/**
+ * OpenAI-compatible
+ *
+ * Provider for AIModelProvider.OPENAI_COMPATIBLE
+ * Talks to any server implementing the OpenAI chat completions API:
+ * - Self-hosted Ollama (http://localhost:11434/v1)
+ * - llama.cpp server (http://localhost:8080/v1)
+ * - vLLM, LM Studio, hosted gateways
+ *
+ * endpoint is the base URL and model is chosen by the user, so resumes
+ * only go where the user points them (nothing falls back to the default model).
+ *
+ * Endpoints resolving to private, loopback or link-local addresses are rejected
+ * (the backend must not be usable to reach its own network) unless the host is
+ * listed in OPENAI_COMPATIBLE_ALLOWED_HOSTS, e.g. an Ollama container next to it.
+ * The check runs on every connection and redirects are not followed (endpoint-guard).
+ */
+@Injectable()
+export class OpenAiCompatibleProvider implements AiProvider {
+  readonly id = AIModelProvider.OPENAI_COMPATIBLE;
+  readonly displayName = 'OpenAI-compatible';
+  readonly requiresUserKey = true;
+  readonly requiresEndpoint = true;
+  readonly requiresModel = true;
+  readonly models: string[] = [];
+  readonly defaultModel = null;
+  // Local models on CPU can be slow, so allow more time than hosted providers
+  readonly limits = { timeoutMs: 120000, maxOutputTokens: 4000 };
+
+  private readonly allowedHosts = new Set(
+    (process.env.OPENAI_COMPATIBLE_ALLOWED_HOSTS || '')
+      .split(',')
+      .map((host) => host.trim().toLowerCase())
+      .filter(Boolean),
+  );
+  private readonly fetch = guardedFetch(this.allowedHosts);
+
+  async complete(request: AiCompletionRequest, credentials: AiProviderCredentials): Promise<string> {
+    await checkEndpoint(credentials.endpoint, this.allowedHosts);
+
+    console.log(`[OpenAI-compatible] Calling endpoint: ${credentials.endpoint}`);
+    console.log(`[OpenAI-compatible] Model: ${credentials.model}`);
+    console.log(`[OpenAI-compatible] System prompt length: ${request.systemPrompt.length}`);
+    console.log(`[OpenAI-compatible] User prompt length: ${request.userPrompt.length}`);
+
+    const response = await this.getClient(credentials).chat.completions.create({
+      model: credentials.model,
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.userPrompt },
+      ],
+      temperature: 0.7,
+      max_tokens: this.limits.maxOutputTokens,
+    });
+
+    const content = response.choices[0]?.message?.content || '';
+    console.log(`[OpenAI-compatible] Success, content length: ${content.length}`);
+    return content;
+  }
+
+  /**
+   * Probe GET {endpoint}/models and check the chosen model is served
+   * Servers that list no models (some proxies) are accepted as-is
+   */
+  async validate(credentials: AiProviderCredentials): Promise<AiProviderValidationResult> {
+    if (!credentials.endpoint || !credentials.model) {
+      return {
+        isValid: false,
+        validationError: 'endpoint and model are required for OPENAI_COMPATIBLE provider',
+      };
+    }
+
+    try {
+      await checkEndpoint(credentials.endpoint, this.allowedHosts);
+
+      const available: string[] = [];
+      for await (const model of this.getClient(credentials).models.list()) {
+        available.push(model.id);
+      }
+
+      if (available.length > 0 && !available.includes(credentials.model)) {
+        return {
+          isValid: false,
+          validationError: `Model "${credentials.model}" is not served by ${credentials.endpoint} (available: ${available.join(', ')})`,
+        };
+      }
+
+      return { isValid: true, validationError: null };
+    } catch (error) {
+      return {
+        isValid: false,
+        validationError: error.message || `Could not reach ${credentials.endpoint}/models`,
+      };
+    }
+  }
+
+  private getClient(credentials: AiProviderCredentials): OpenAI {
+    return new OpenAI({
+      baseURL: credentials.endpoint.replace(/\/+$/, ''),
+      apiKey: credentials.apiKey,
+      timeout: this.limits.timeoutMs,
+      maxRetries: 1,
+      fetch: this.fetch,
+    });
+  }
+}
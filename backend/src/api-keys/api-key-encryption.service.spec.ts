@@ -0,0 +1,110 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { InternalServerErrorException } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { ApiKeyEncryptionService, ApiKeyOwner } from './api-key-encryption.service';
+import { ApiKeysService } from './api-keys.service';
+
+const KEY_1 = randomBytes(32).toString('base64');
+const KEY_2 = randomBytes(32).toString('base64');
+
+const OWNER: ApiKeyOwner = { userId: 'user-1', provider: 'OPENAI_COMPATIBLE' };
+
+/**
+ * Service configured with the given API_KEY_MASTER_KEYS value
+ */
+function withMasterKeys(config: string): ApiKeyEncryptionService {
+  const previous = process.env.API_KEY_MASTER_KEYS;
+  process.env.API_KEY_MASTER_KEYS = config;
+  try {
+    return new ApiKeyEncryptionService();
+  } finally {
+    if (previous === undefined) delete process.env.API_KEY_MASTER_KEYS;
+    else process.env.API_KEY_MASTER_KEYS = previous;
+  }
+}
+
+/**
+ * Flip one byte of the ciphertext part of a sealed "iv.authTag.ciphertext" value
+ */
+function tamper(sealed: string): string {
+  const parts = sealed.split('.');
+  const ciphertext = Buffer.from(parts[2], 'base64');
+  ciphertext[0] ^= 0xff;
+  return [parts[0], parts[1], ciphertext.toString('base64')].join('.');
+}
+
+describe('ApiKeyEncryptionService', () => {
+  it('round-trips a key with the current master key version', () => {
+    const encryption = withMasterKeys(`1:${KEY_1}`);
+
+    const encrypted = encryption.encrypt('sk-secret', OWNER);
+
+    assert.equal(encrypted.keyVersion, 1);
+    assert.ok(!encrypted.ciphertext.includes('sk-secret'));
+    assert.notEqual(encryption.encrypt('sk-secret', OWNER).ciphertext, encrypted.ciphertext);
+    assert.equal(encryption.decrypt(encrypted, OWNER), 'sk-secret');
+  });
+
+  it('rewraps data keys to a new master key version', () => {
+    const encrypted = withMasterKeys(`1:${KEY_1}`).encrypt('sk-secret', OWNER);
+    const rotating = withMasterKeys(`2:${KEY_2},1:${KEY_1}`);
+
+    const rewrapped = rotating.rewrap(encrypted.encryptedDataKey, encrypted.keyVersion, OWNER);
+    assert.equal(rewrapped.keyVersion, 2);
+
+    // The API key ciphertext is unchanged; the old master key is no longer needed
+    const rotated = withMasterKeys(`2:${KEY_2}`);
+    assert.equal(rotated.decrypt({ ...encrypted, ...rewrapped }, OWNER), 'sk-secret');
+    assert.throws(() => rotated.decrypt(encrypted, OWNER), InternalServerErrorException);
+  });
+
+  it('rejects tampered ciphertexts and data keys', () => {
+    const encryption = withMasterKeys(`1:${KEY_1}`);
+    const encrypted = encryption.encrypt('sk-secret', OWNER);
+
+    assert.throws(() => encryption.decrypt({ ...encrypted, ciphertext: tamper(encrypted.ciphertext) }, OWNER));
+    assert.throws(() =>
+      encryption.decrypt({ ...encrypted, encryptedDataKey: tamper(encrypted.encryptedDataKey) }, OWNER),
+    );
+  });
+
+  it('rejects keys moved to another user or provider', () => {
+    const encryption = withMasterKeys(`1:${KEY_1}`);
+    const encrypted = encryption.encrypt('sk-secret', OWNER);
+
+    assert.throws(() => encryption.decrypt(encrypted, { ...OWNER, userId: 'user-2' }));
+    assert.throws(() => encryption.decrypt(encrypted, { ...OWNER, provider: 'GEMINI' }));
+    assert.throws(() => encryption.rewrap(encrypted.encryptedDataKey, 1, { ...OWNER, userId: 'user-2' }));
+  });
+
+  describe('ApiKeysService.getUserApiKey', () => {
+    afterEach(() => {
+      mock.restoreAll();
+    });
+
+    function serviceReturning(row: object, encryption: ApiKeyEncryptionService): ApiKeysService {
+      const prisma = { userAPIKey: { findUnique: async () => row } };
+      return new ApiKeysService(prisma as any, null as any, encryption);
+    }
+
+    it('decrypts encrypted rows with their owner', async () => {
+      const encryption = withMasterKeys(`1:${KEY_1}`);
+      const encrypted = encryption.encrypt('sk-secret', OWNER);
+      const row = { id: 'key-1', ...OWNER, apiKey: encrypted.ciphertext, encryptedDataKey: encrypted.encryptedDataKey, keyVersion: 1 };
+
+      const apiKey = await serviceReturning(row, encryption).getUserApiKey(OWNER.userId, OWNER.provider);
+      assert.equal(apiKey.apiKey, 'sk-secret');
+    });
+
+    it('returns plaintext rows (keyVersion null) as stored', async () => {
+      const encryption = withMasterKeys(`1:${KEY_1}`);
+      const decrypt = mock.method(encryption, 'decrypt');
+      const row = { id: 'key-1', ...OWNER, apiKey: 'sk-plain', encryptedDataKey: null, keyVersion: null };
+
+      const apiKey = await serviceReturning(row, encryption).getUserApiKey(OWNER.userId, OWNER.provider);
+      assert.equal(apiKey.apiKey, 'sk-plain');
+      assert.equal(decrypt.mock.callCount(), 0);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { Injectable, InternalServerErrorException } from '@nestjs/common';
+import { AIModelProvider } from '@prisma/client';
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const KEY_BYTES = 32;
+
+/**
+ * Encrypted form of one API key, as stored on UserAPIKey
+ */
+export interface EncryptedApiKey {
+  ciphertext: string;       // UserAPIKey.apiKey
+  encryptedDataKey: string; // Data key wrapped with the master key
+  keyVersion: number;       // Master key version that wrapped the data key
+}
+
+/**
+ * Row an API key belongs to (authenticated as GCM additional data)
+ */
+export interface ApiKeyOwner {
+  userId: string;
+  provider: AIModelProvider;
+}
+
+/**
+ * API Key Encryption Service
+ *
+ * KEY ENCRYPTION: Envelope encryption for stored provider API keys
+ * - Each key is encrypted with its own random data key (AES-256-GCM)
+ * - The data key is wrapped with a versioned master key (AES-256-GCM)
+ * - Rotating the master key only re-wraps data keys (rewrap), API keys stay untouched
+ * - Both layers authenticate the owner (userId, provider) as additional data, so a
+ *   ciphertext copied to another user's or provider's row fails to decrypt
+ *
+ * Config (API_KEY_MASTER_KEYS):
+ * - Comma-separated "version:base64key" pairs, e.g. "2:newKey,1:oldKey"
+ * - Keys are 32 random bytes (openssl rand -base64 32)
+ * - Highest version wraps new data keys; older versions are kept for reading until rewrapped
+ *
+ * Kept free of DI dependencies so scripts/encrypt-api-keys can construct it directly.
+ */
+@Injectable()
+export class ApiKeyEncryptionService {
+  private readonly masterKeys = new Map<number, Buffer>();
+  private readonly currentVersion: number | null;
+
+  constructor() {
+    const config = process.env.API_KEY_MASTER_KEYS || '';
+
+    for (const entry of config.split(',').map((part) => part.trim()).filter(Boolean)) {
+      const separator = entry.indexOf(':');
+      const version = parseInt(entry.slice(0, separator), 10);
+      const key = Buffer.from(entry.slice(separator + 1), 'base64');
+
+      if (separator === -1 || !Number.isInteger(version) || version < 1) {
+        throw new Error('API_KEY_MASTER_KEYS entries must look like "<version>:<base64 key>"');
+      }
+
+      if (key.length !== KEY_BYTES) {
+        throw new Error(`API_KEY_MASTER_KEYS version ${version} must be ${KEY_BYTES} bytes (base64)`);
+      }
+
+      this.masterKeys.set(version, key);
+    }
+
+    this.currentVersion = this.masterKeys.size > 0 ? Math.max(...this.masterKeys.keys()) : null;
+
+    if (this.currentVersion === null) {
+      console.warn('⚠️ API_KEY_MASTER_KEYS is not set: provider API keys cannot be stored');
+    }
+  }
+
+  /**
+   * Master key version used for new data keys
+   */
+  getCurrentVersion(): number | null {
+    return this.currentVersion;
+  }
+
+  encrypt(plaintext: string, owner: ApiKeyOwner): EncryptedApiKey {
+    const keyVersion = this.requireCurrentVersion();
+    const dataKey = randomBytes(KEY_BYTES);
+    const aad = this.ownerData(owner);
+
+    return {
+      ciphertext: this.seal(dataKey, Buffer.from(plaintext, 'utf8'), aad),
+      encryptedDataKey: this.seal(this.getMasterKey(keyVersion), dataKey, aad),
+      keyVersion,
+    };
+  }
+
+  decrypt(encrypted: EncryptedApiKey, owner: ApiKeyOwner): string {
+    const aad = this.ownerData(owner);
+    const dataKey = this.open(this.getMasterKey(encrypted.keyVersion), encrypted.encryptedDataKey, aad);
+    return this.open(dataKey, encrypted.ciphertext, aad).toString('utf8');
+  }
+
+  /**
+   * Re-wrap a data key with the current master key (master key rotation)
+   */
+  rewrap(
+    encryptedDataKey: string,
+    keyVersion: number,
+    owner: ApiKeyOwner,
+  ): Pick<EncryptedApiKey, 'encryptedDataKey' | 'keyVersion'> {
+    const aad = this.ownerData(owner);
+    const dataKey = this.open(this.getMasterKey(keyVersion), encryptedDataKey, aad);
+    const currentVersion = this.requireCurrentVersion();
+
+    return {
+      encryptedDataKey: this.seal(this.getMasterKey(currentVersion), dataKey, aad),
+      keyVersion: currentVersion,
+    };
+  }
+
+  private requireCurrentVersion(): number {
+    if (this.currentVersion === null) {
+      throw new InternalServerErrorException('API key encryption is not configured (API_KEY_MASTER_KEYS)');
+    }
+
+    return this.currentVersion;
+  }
+
+  private getMasterKey(version: number): Buffer {
+    const key = this.masterKeys.get(version);
+
+    if (!key) {
+      throw new InternalServerErrorException(`Master key version ${version} is not configured (API_KEY_MASTER_KEYS)`);
+    }
+
+    return key;
+  }
+
+  private ownerData(owner: ApiKeyOwner): Buffer {
+    return Buffer.from(`${owner.userId}\0${owner.provider}`, 'utf8');
+  }
+
+  /**
+   * AES-256-GCM; output is base64 "iv.authTag.ciphertext"
+   */
+  private seal(key: Buffer, plaintext: Buffer, aad: Buffer): string {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv(ALGORITHM, key, iv);
+    cipher.setAAD(aad);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+    return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64')).join('.');
+  }
+
+  private open(key: Buffer, sealed: string, aad: Buffer): Buffer {
+    const [iv, authTag, ciphertext] = sealed.split('.').map((part) => Buffer.from(part, 'base64'));
+
+    const decipher = createDecipheriv(ALGORITHM, key, iv);
+    decipher.setAAD(aad);
+    decipher.setAuthTag(authTag);
+
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  }
+}
@@ -12,7 +12,7 @@ import {
 import { ClerkAuthGuard } from '../auth/guards/clerk-auth.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { ApiKeysService } from './api-keys.service';
-import { StoreApiKeyDto, ApiKeyResponseDto, ValidateApiKeyResponseDto } from './dto/api-key.dto';
+import { StoreApiKeyDto, ApiKeyResponseDto, ValidateApiKeyResponseDto, AiProviderInfoDto } from './dto/api-key.dto';
 
 @Controller('api-keys')
 @UseGuards(ClerkAuthGuard)
@@ -32,6 +32,11 @@ export class ApiKeysController {
     return this.apiKeysService.listUserApiKeys(userId);
   }
 
+  @Get('providers')
+  listProviders(): AiProviderInfoDto[] {
+    return this.apiKeysService.listProviders();
+  }
+
   @Post(':id/validate')
   async validateApiKey(
     @CurrentUser() userId: string,
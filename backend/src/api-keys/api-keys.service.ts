@@ -1,23 +1,36 @@
-import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException, ConflictException, InternalServerErrorException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { AIModelProvider } from '@prisma/client';
-import { StoreApiKeyDto, ApiKeyResponseDto, ValidateApiKeyResponseDto } from './dto/api-key.dto';
-import ModelClient, { isUnexpected } from '@azure-rest/ai-inference';
-import { AzureKeyCredential } from '@azure/core-auth';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-
+import { AIModelProvider, UserAPIKey } from '@prisma/client';
+import { StoreApiKeyDto, ApiKeyResponseDto, ValidateApiKeyResponseDto, AiProviderInfoDto } from './dto/api-key.dto';
+import { AiProviderRegistry } from '../ai-providers/ai-provider.registry';
+import { ApiKeyEncryptionService } from './api-key-encryption.service';
+
+/**
+ * API Keys Service
+ *
+ * KEY ENCRYPTION: Keys are stored encrypted (see ApiKeyEncryptionService)
+ * and only decrypted inside getUserApiKey
+ */
 @Injectable()
 export class ApiKeysService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private aiProviders: AiProviderRegistry,
+    private encryption: ApiKeyEncryptionService,
+  ) {}
 
   async storeApiKey(userId: string, dto: StoreApiKeyDto): Promise<ApiKeyResponseDto> {
     // Validate required fields based on provider
-    if (dto.provider === AIModelProvider.AZURE_OPENAI && !dto.endpoint) {
-      throw new BadRequestException('endpoint is required for AZURE_OPENAI provider');
+    if (this.aiProviders.get(dto.provider).requiresEndpoint && !dto.endpoint) {
+      throw new BadRequestException(`endpoint is required for ${dto.provider} provider`);
+    }
+
+    if (this.aiProviders.get(dto.provider).requiresModel && !dto.model) {
+      throw new BadRequestException(`model is required for ${dto.provider} provider`);
     }
 
     // Validate the API key before storing
-    const validation = await this.validateApiKeyCredentials(dto.provider, dto.apiKey, dto.endpoint);
+    const validation = await this.validateApiKeyCredentials(dto.provider, dto.apiKey, dto.endpoint, dto.model);
     
     if (!validation.isValid) {
       throw new BadRequestException(`Invalid API key: ${validation.validationError}`);
@@ -37,13 +50,17 @@ export class ApiKeysService {
       throw new ConflictException(`API key for ${dto.provider} already exists. Delete the existing key first.`);
     }
 
-    // Store the API key
+    // Store the API key (encrypted)
+    const encrypted = this.encryption.encrypt(dto.apiKey, { userId, provider: dto.provider });
     const apiKey = await this.prisma.userAPIKey.create({
       data: {
         userId,
         provider: dto.provider,
-        apiKey: dto.apiKey,
+        apiKey: encrypted.ciphertext,
+        encryptedDataKey: encrypted.encryptedDataKey,
+        keyVersion: encrypted.keyVersion,
         endpoint: dto.endpoint,
+        model: dto.model,
         isValid: validation.isValid,
         lastValidated: validation.lastValidated,
         validationError: validation.validationError,
@@ -71,10 +88,12 @@ export class ApiKeysService {
       throw new NotFoundException('API key not found');
     }
 
+    const decrypted = await this.getUserApiKey(userId, apiKey.provider);
     const validation = await this.validateApiKeyCredentials(
       apiKey.provider,
-      apiKey.apiKey,
+      decrypted.apiKey,
       apiKey.endpoint,
+      apiKey.model,
     );
 
     // Update validation status
@@ -104,8 +123,13 @@ export class ApiKeysService {
     });
   }
 
+  /**
+   * Load a user's key for a provider with apiKey decrypted
+   * The only place stored keys are decrypted; rows with keyVersion null
+   * predate encryption and are returned as stored until migrated
+   */
   async getUserApiKey(userId: string, provider: AIModelProvider) {
-    return this.prisma.userAPIKey.findUnique({
+    const apiKey = await this.prisma.userAPIKey.findUnique({
       where: {
         userId_provider: {
           userId,
@@ -113,95 +137,77 @@ export class ApiKeysService {
         },
       },
     });
+
+    if (!apiKey || apiKey.keyVersion === null) {
+      return apiKey;
+    }
+
+    try {
+      return {
+        ...apiKey,
+        apiKey: this.encryption.decrypt({
+          ciphertext: apiKey.apiKey,
+          encryptedDataKey: apiKey.encryptedDataKey,
+          keyVersion: apiKey.keyVersion,
+        }, apiKey),
+      };
+    } catch (error) {
+      if (error instanceof InternalServerErrorException) {
+        throw error;
+      }
+
+      console.error(`❌ Failed to decrypt API key ${apiKey.id}:`, error.message);
+      throw new InternalServerErrorException('Stored API key could not be decrypted');
+    }
+  }
+
+  /**
+   * AI PROVIDERS: Metadata for every registered provider (models, key requirements)
+   */
+  listProviders(): AiProviderInfoDto[] {
+    return this.aiProviders.list().map((provider) => ({
+      provider: provider.id,
+      displayName: provider.displayName,
+      requiresUserKey: provider.requiresUserKey,
+      requiresEndpoint: provider.requiresEndpoint,
+      requiresModel: provider.requiresModel,
+      models: provider.models,
+      defaultModel: provider.defaultModel,
+    }));
   }
 
   private async validateApiKeyCredentials(
     provider: AIModelProvider,
     apiKey: string,
     endpoint?: string,
+    model?: string,
   ): Promise<ValidateApiKeyResponseDto> {
     const now = new Date();
 
-    if (provider === AIModelProvider.QWEN) {
-      // QWEN uses system credentials, user keys not supported
+    if (!this.aiProviders.has(provider)) {
       return {
         isValid: false,
-        validationError: 'QWEN provider does not require user API keys',
+        validationError: 'Unsupported provider',
         lastValidated: now,
       };
     }
 
-    if (provider === AIModelProvider.GEMINI) {
-      try {
-        // Validate Gemini API key by making a test request
-        const genAI = new GoogleGenerativeAI(apiKey);
-        const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash-lite' });
-
-        const result = await model.generateContent('test');
-        const response = await result.response;
-        response.text(); // Will throw if invalid
-
-        return {
-          isValid: true,
-          validationError: null,
-          lastValidated: now,
-        };
-      } catch (error) {
-        return {
-          isValid: false,
-          validationError: error.message || 'Failed to validate API key',
-          lastValidated: now,
-        };
-      }
-    }
-
-    if (provider === AIModelProvider.AZURE_OPENAI) {
-      try {
-        // Validate Azure OpenAI key by making a test request
-        const client = ModelClient(endpoint, new AzureKeyCredential(apiKey));
-
-        const response = await client.path('/chat/completions').post({
-          body: {
-            messages: [{ role: 'user', content: 'test' }],
-            model: 'openai/gpt-5',
-            max_completion_tokens: 1,
-          } as any,
-        });
-
-        if (isUnexpected(response)) {
-          return {
-            isValid: false,
-            validationError: response.body?.error?.message || 'API key validation failed',
-            lastValidated: now,
-          };
-        }
-
-        return {
-          isValid: true,
-          validationError: null,
-          lastValidated: now,
-        };
-      } catch (error) {
-        return {
-          isValid: false,
-          validationError: error.message || 'Failed to validate API key',
-          lastValidated: now,
-        };
-      }
-    }
+    const result = await this.aiProviders
+      .get(provider)
+      .validate({ apiKey, endpoint: endpoint ?? null, model: model ?? null });
 
     return {
-      isValid: false,
-      validationError: 'Unsupported provider',
+      ...result,
       lastValidated: now,
     };
   }
 
-  private toResponseDto(apiKey: any): ApiKeyResponseDto {
+  private toResponseDto(apiKey: UserAPIKey): ApiKeyResponseDto {
     return {
       id: apiKey.id,
       provider: apiKey.provider,
       endpoint: apiKey.endpoint,
+      model: apiKey.model,
       isValid: apiKey.isValid,
       lastValidated: apiKey.lastValidated,
       validationError: apiKey.validationError,
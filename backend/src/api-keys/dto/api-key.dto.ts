@@ -13,12 +13,17 @@ export class StoreApiKeyDto {
   @IsString()
   @IsOptional()
   endpoint?: string;
+
+  @IsString()
+  @IsOptional()
+  model?: string;
 }
 
 export class ApiKeyResponseDto {
   id: string;
   provider: AIModelProvider;
   endpoint: string | null;
+  model: string | null;
   isValid: boolean;
   lastValidated: Date | null;
   validationError: string | null;
@@ -30,3 +35,13 @@ export class ValidateApiKeyResponseDto {
   validationError: string | null;
   lastValidated: Date;
 }
+
+export class AiProviderInfoDto {
+  provider: AIModelProvider;
+  displayName: string;
+  requiresUserKey: boolean;
+  requiresEndpoint: boolean;
+  requiresModel: boolean;
+  models: string[];
+  defaultModel: string | null;
+}
@@ -8,6 +8,9 @@ import { AuthModule } from './auth/auth.module';
 import { PrismaModule } from './prisma/prisma.module';
 import { UsersModule } from './users/users.module';
 import { ApiKeysModule } from './api-keys/api-keys.module';
+import { QueueModule } from './queue/queue.module';
+import { AiProvidersModule } from './ai-providers/ai-providers.module';
+import { StorageModule } from './storage/storage.module';
 
 /**
  * App Module
@@ -27,6 +30,9 @@ import { ApiKeysModule } from './api-keys/api-keys.module';
  * - Auth (Section 2)
  * - Prisma (database layer)
  * - Users (internal user persistence)
+ * - Queue (background job processing, global)
+ * - AI Providers (model backends, global)
+ * - Storage (compiled PDF storage, global)
  */
 @Module({
   imports: [
@@ -41,6 +47,9 @@ import { ApiKeysModule } from './api-keys/api-keys.module';
     
     // Core modules
     UsersModule, // User persistence (internal, no API endpoints)
+    QueueModule, // Global module providing JobQueueService
+    AiProvidersModule, // Global module providing AiProviderRegistry and AiCompletionService
+    StorageModule, // Global module providing StorageService
     
     // Feature modules
     AuthModule,
@@ -49,8 +58,6 @@ import { ApiKeysModule } from './api-keys/api-keys.module';
     JdModule,
     AiJobsModule,
     ApiKeysModule,
-    
-    // TODO (PHASE 4+): Add background job processing module (Bull/BullMQ)
   ],
 })
 export class AppModule {}
@@ -1,8 +1,11 @@
-import { IsString, IsUUID } from 'class-validator';
+import { IsEnum, IsOptional, IsString, IsUUID } from 'class-validator';
+import { AIModelProvider } from '@prisma/client';
 
 /**
  * DTO for submitting a job description
  * From apis.md Section 5.1
+ *
+ * AI PROVIDERS: modelProvider picks the provider the analysis runs with
  */
 export class SubmitJdDto {
   @IsUUID()
@@ -10,6 +13,20 @@ export class SubmitJdDto {
 
   @IsString()
   rawText: string;
+
+  @IsEnum(AIModelProvider)
+  @IsOptional()
+  modelProvider?: AIModelProvider;
+}
+
+/**
+ * DTO for re-running JD analysis
+ * Omitting modelProvider keeps the provider the JD was submitted with
+ */
+export class AnalyzeJdDto {
+  @IsEnum(AIModelProvider)
+  @IsOptional()
+  modelProvider?: AIModelProvider;
 }
 
 /**
@@ -20,15 +37,62 @@ export class SubmitJdResponseDto {
   jdId: string;
 }
 
+/**
+ * Structured skills extracted from a job description
+ * JD ANALYSIS: Stored in JobDescription.extractedSkills
+ */
+export interface JdExtractedSkills {
+  required: string[];
+  niceToHave: string[];
+}
+
+/**
+ * Normalized role types produced by JD analysis
+ */
+export const JD_ROLE_TYPES = [
+  'SOFTWARE_ENGINEER',
+  'FRONTEND_ENGINEER',
+  'BACKEND_ENGINEER',
+  'FULLSTACK_ENGINEER',
+  'MOBILE_ENGINEER',
+  'DEVOPS_ENGINEER',
+  'DATA_ENGINEER',
+  'DATA_SCIENTIST',
+  'ML_ENGINEER',
+  'QA_ENGINEER',
+  'SECURITY_ENGINEER',
+  'PRODUCT_MANAGER',
+  'DESIGNER',
+  'OTHER',
+] as const;
+
+/**
+ * Normalized seniority levels produced by JD analysis
+ */
+export const JD_SENIORITY_LEVELS = [
+  'INTERN',
+  'JUNIOR',
+  'MID',
+  'SENIOR',
+  'LEAD',
+  'PRINCIPAL',
+] as const;
+
 /**
  * Response DTO for getting a job description
  * From apis.md Section 5.2
  * 
- * PHASE 4: Returns rawText only (no AI fields)
+ * JD ANALYSIS: Includes structured analysis once analysisStatus is COMPLETED
  */
 export class JobDescriptionDto {
   jdId: string;
   projectId: string;
   rawText: string;
+  analysisStatus: 'NOT_STARTED' | 'PENDING' | 'COMPLETED' | 'FAILED';
+  analysisError: string | null;
+  extractedSkills: JdExtractedSkills;
+  keywords: string[];
+  roleType: string | null;
+  seniority: string | null;
   createdAt: string;
 }
@@ -0,0 +1,264 @@
+import { Injectable, OnApplicationBootstrap, OnModuleInit } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { AIModelProvider } from '@prisma/client';
+import { AiCompletionService } from '../ai-providers/ai-completion.service';
+import { JobQueueService } from '../queue/job-queue.service';
+import { JobContext, UnrecoverableJobError } from '../queue/queue.types';
+import { JdExtractedSkills, JD_ROLE_TYPES, JD_SENIORITY_LEVELS } from './dto/jd.dto';
+
+/**
+ * Queue carrying JD analysis jobs
+ */
+export const JD_ANALYSIS_QUEUE = 'jd-analysis';
+
+interface JdAnalysisJobPayload {
+  jdId: string;
+}
+
+/**
+ * Structured result of a JD analysis run
+ */
+export interface JdAnalysisResult {
+  extractedSkills: JdExtractedSkills;
+  keywords: string[];
+  roleType: string;
+  seniority: string | null;
+}
+
+/**
+ * JD Analysis Service
+ *
+ * JD ANALYSIS: Extracts structured intelligence from raw JD text
+ * - Required vs nice-to-have skills
+ * - ATS keywords
+ * - Normalized role type and seniority
+ *
+ * Output is stored on JobDescription, not recomputed (database.md Section 4.5).
+ *
+ * AI PROVIDERS: Runs with the provider picked when the JD was submitted
+ * (JobDescription.modelProvider, default provider if none) and the project
+ * owner's credentials, through AiCompletionService.
+ *
+ * BACKGROUND JOBS: Analyses run on the JD_ANALYSIS_QUEUE (JobQueueService)
+ * - POST /jd only marks the JD PENDING and enqueues it (never blocks on the AI)
+ * - Failed attempts retried with backoff; the final failure marks the JD FAILED
+ * - PENDING JDs re-enqueued on boot (restarts mid-analysis, rows marked
+ *   PENDING by the schema default before analysis was queued)
+ */
+@Injectable()
+export class JdAnalysisService implements OnModuleInit, OnApplicationBootstrap {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly jobQueue: JobQueueService,
+    private readonly aiCompletion: AiCompletionService,
+  ) {}
+
+  /**
+   * Register the JD analysis processor with the job queue
+   */
+  onModuleInit(): void {
+    this.jobQueue.registerProcessor<JdAnalysisJobPayload>(
+      JD_ANALYSIS_QUEUE,
+      (payload, context) => this.processAnalysisJob(payload, context),
+      {
+        concurrency: parseInt(process.env.JD_ANALYSIS_CONCURRENCY || '2', 10),
+        maxAttempts: 3,
+        backoffMs: 5000,
+      },
+    );
+  }
+
+  /**
+   * Recover PENDING analyses orphaned by a restart
+   * Rows still owned by a live queue entry are left untouched (add() dedupes by key)
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    const pending = await this.prisma.jobDescription.findMany({
+      where: { analysisStatus: 'PENDING' },
+      select: { id: true },
+    });
+
+    let recovered = 0;
+    for (const jd of pending) {
+      if (await this.enqueueAnalysis(jd.id)) {
+        recovered++;
+      }
+    }
+
+    if (recovered > 0) {
+      console.log(`♻️ Re-enqueued ${recovered} pending JD analysis job(s)`);
+    }
+  }
+
+  /**
+   * Queue analysis of a job description
+   * The caller marks the JD PENDING; returns false if it is already queued
+   */
+  async enqueueAnalysis(jdId: string): Promise<boolean> {
+    return this.jobQueue.add<JdAnalysisJobPayload>(JD_ANALYSIS_QUEUE, { jdId }, { key: jdId });
+  }
+
+  /**
+   * Queue handler for JD_ANALYSIS_QUEUE
+   *
+   * - Final attempt (or unrecoverable error): analysisStatus → FAILED so the UI
+   *   can show the error and offer a retry
+   * - Otherwise: JD stays PENDING with the error, queue retries after backoff
+   */
+  private async processAnalysisJob(payload: JdAnalysisJobPayload, context: JobContext): Promise<void> {
+    const { jdId } = payload;
+
+    try {
+      const jobDescription = await this.prisma.jobDescription.findUnique({
+        where: { id: jdId },
+        include: { project: { select: { userId: true } } },
+      });
+
+      if (!jobDescription) {
+        throw new UnrecoverableJobError(`Job description ${jdId} not found`);
+      }
+
+      if (jobDescription.analysisStatus !== 'PENDING') {
+        return;
+      }
+
+      const analysis = await this.runAnalysis(
+        jobDescription.project.userId,
+        jobDescription.modelProvider,
+        jobDescription.rawText,
+      );
+
+      await this.prisma.jobDescription.update({
+        where: { id: jdId },
+        data: {
+          extractedSkills: JSON.parse(JSON.stringify(analysis.extractedSkills)),
+          keywords: analysis.keywords,
+          roleType: analysis.roleType,
+          seniority: analysis.seniority,
+          analysisStatus: 'COMPLETED',
+          analysisError: null,
+        },
+      });
+
+      console.log(`✅ JD ${jdId} analyzed: ${analysis.roleType} (${analysis.seniority ?? 'unknown seniority'})`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const isFinal = context.isFinalAttempt || error instanceof UnrecoverableJobError;
+
+      await this.prisma.jobDescription
+        .updateMany({
+          where: { id: jdId, analysisStatus: 'PENDING' },
+          data: isFinal
+            ? { analysisStatus: 'FAILED', analysisError: message }
+            : { analysisError: `${message} (attempt ${context.attempt} of ${context.maxAttempts}, retrying)` },
+        })
+        .catch((updateError) => {
+          console.error(`Failed to update JD ${jdId} analysis status:`, updateError);
+        });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Ask the AI for a JSON analysis and normalize it
+   */
+  private async runAnalysis(
+    userId: string,
+    modelProvider: AIModelProvider | null,
+    rawText: string,
+  ): Promise<JdAnalysisResult> {
+    const systemPrompt = `You analyze job descriptions for a resume tailoring tool.
+Return ONLY a JSON object, no markdown and no explanations, with this exact shape:
+{
+  "requiredSkills": string[],
+  "niceToHaveSkills": string[],
+  "keywords": string[],
+  "roleType": one of ${JD_ROLE_TYPES.join(', ')},
+  "seniority": one of ${JD_SENIORITY_LEVELS.join(', ')} or null
+}
+
+Rules:
+- Only list skills and keywords that appear in the job description
+- requiredSkills are explicitly required ("must have", "required", "you have")
+- niceToHaveSkills are optional ("nice to have", "bonus", "preferred", "plus")
+- keywords are short ATS terms (technologies, methodologies, domain terms), at most 25
+- Use null for seniority if the description does not indicate a level`;
+
+    const content = await this.aiCompletion.complete(userId, modelProvider, {
+      systemPrompt,
+      userPrompt: `Job Description:\n\`\`\`\n${rawText}\n\`\`\``,
+    });
+
+    if (!content) {
+      throw new Error('AI returned an empty analysis');
+    }
+
+    return this.normalizeAnalysis(this.parseJson(content));
+  }
+
+  /**
+   * Extract the JSON object from the AI response (tolerates code fences)
+   */
+  private parseJson(content: string): unknown {
+    const start = content.indexOf('{');
+    const end = content.lastIndexOf('}');
+
+    if (start === -1 || end <= start) {
+      throw new Error('AI analysis did not contain a JSON object');
+    }
+
+    try {
+      return JSON.parse(content.substring(start, end + 1));
+    } catch {
+      throw new Error('AI analysis returned invalid JSON');
+    }
+  }
+
+  /**
+   * Coerce raw AI output into the stored shape
+   * Unknown role types map to OTHER; unknown seniority maps to null
+   */
+  private normalizeAnalysis(raw: unknown): JdAnalysisResult {
+    const toStringList = (value: unknown): string[] => {
+      if (!Array.isArray(value)) return [];
+      const seen = new Set<string>();
+      const result: string[] = [];
+      for (const item of value) {
+        if (typeof item !== 'string') continue;
+        const trimmed = item.trim();
+        const key = trimmed.toLowerCase();
+        if (trimmed && !seen.has(key)) {
+          seen.add(key);
+          result.push(trimmed);
+        }
+      }
+      return result;
+    };
+
+    const normalizeEnum = (value: unknown, allowed: readonly string[]): string | null => {
+      if (typeof value !== 'string') return null;
+      const normalized = value.trim().toUpperCase().replace(/[\s-]+/g, '_');
+      return allowed.includes(normalized) ? normalized : null;
+    };
+
+    const fields: Record<string, unknown> =
+      typeof raw === 'object' && raw !== null && !Array.isArray(raw) ? (raw as Record<string, unknown>) : {};
+
+    const required = toStringList(fields.requiredSkills);
+    const requiredKeys = new Set(required.map((skill) => skill.toLowerCase()));
+
+    return {
+      extractedSkills: {
+        required,
+        // A skill listed as required is never also nice-to-have
+        niceToHave: toStringList(fields.niceToHaveSkills).filter(
+          (skill) => !requiredKeys.has(skill.toLowerCase()),
+        ),
+      },
+      keywords: toStringList(fields.keywords).slice(0, 25),
+      roleType: normalizeEnum(fields.roleType, JD_ROLE_TYPES) ?? 'OTHER',
+      seniority: normalizeEnum(fields.seniority, JD_SENIORITY_LEVELS),
+    };
+  }
+}
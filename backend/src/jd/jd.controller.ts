@@ -2,7 +2,7 @@ import { Controller, Get, Post, Body, Param, UseGuards } from '@nestjs/common';
 import { ClerkAuthGuard } from '../auth/guards/clerk-auth.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { JdService } from './jd.service';
-import { SubmitJdDto, SubmitJdResponseDto, JobDescriptionDto } from './dto/jd.dto';
+import { SubmitJdDto, SubmitJdResponseDto, AnalyzeJdDto, JobDescriptionDto } from './dto/jd.dto';
 
 /**
  * Job Description Controller
@@ -25,10 +25,10 @@ export class JdController {
    * Submit job description for storage
    * From apis.md Section 5.1
    * 
-   * PHASE 4: Database persistence ONLY
+   * PHASE 4: Database persistence
    * - Stores rawText exactly as provided
    * - Verifies user owns the project
-   * - NO AI analysis in this phase
+   * - JD analysis starts in the background (analysisStatus=PENDING)
    */
   @Post()
   async submitJd(
@@ -43,8 +43,8 @@ export class JdController {
    * Get job description by ID
    * From apis.md Section 5.2
    * 
-   * PHASE 4: Database retrieval ONLY
-   * - Returns rawText only (no AI fields)
+   * PHASE 4: Database retrieval
+   * - Returns rawText plus analysis (skills, keywords, roleType, seniority)
    * - Verifies user owns the project
    */
   @Get(':jdId')
@@ -60,8 +60,8 @@ export class JdController {
    * List job descriptions for project
    * From apis.md Section 5.3
    * 
-   * PHASE 4: Database retrieval ONLY
-   * - Returns rawText only (no AI fields)
+   * PHASE 4: Database retrieval
+   * - Returns rawText plus analysis fields
    * - Verifies user owns the project
    * - Sorted by createdAt DESC
    */
@@ -72,4 +72,21 @@ export class JdController {
   ): Promise<JobDescriptionDto[]> {
     return this.jdService.listJdsForProject(projectId, userId);
   }
+
+  /**
+   * POST /api/jd/:jdId/analyze
+   * Re-run JD analysis
+   * 
+   * JD ANALYSIS: Retries a FAILED analysis or backfills older JDs
+   * - Optional body { modelProvider } switches the provider used
+   * - Returns immediately with analysisStatus=PENDING
+   */
+  @Post(':jdId/analyze')
+  async reanalyzeJd(
+    @Param('jdId') jdId: string,
+    @Body() analyzeJdDto: AnalyzeJdDto,
+    @CurrentUser() userId: string,
+  ): Promise<JobDescriptionDto> {
+    return this.jdService.reanalyzeJd(jdId, analyzeJdDto, userId);
+  }
 }
@@ -2,6 +2,7 @@ import { Module } from '@nestjs/common';
 import { PrismaModule } from '../prisma/prisma.module';
 import { JdController } from './jd.controller';
 import { JdService } from './jd.service';
+import { JdAnalysisService } from './jd-analysis.service';
 
 /**
  * Job Description Module
@@ -11,11 +12,13 @@ import { JdService } from './jd.service';
  * 
  * PHASE 4: JD INTAKE (DATA ONLY)
  * - Imports PrismaModule for database operations
+ * 
+ * JD ANALYSIS: JdAnalysisService fills skills/keywords/roleType asynchronously
  */
 @Module({
   imports: [PrismaModule],
   controllers: [JdController],
-  providers: [JdService],
+  providers: [JdService, JdAnalysisService],
   exports: [JdService],
 })
 export class JdModule {}
@@ -1,6 +1,8 @@
 import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { JobDescription } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
-import { SubmitJdDto, SubmitJdResponseDto, JobDescriptionDto } from './dto/jd.dto';
+import { SubmitJdDto, SubmitJdResponseDto, AnalyzeJdDto, JobDescriptionDto, JdExtractedSkills } from './dto/jd.dto';
+import { JdAnalysisService } from './jd-analysis.service';
 
 /**
  * Job Description Service
@@ -8,27 +10,31 @@ import { SubmitJdDto, SubmitJdResponseDto, JobDescriptionDto } from './dto/jd.dt
  * PHASE 4: JD INTAKE (DATA ONLY)
  * - Real database operations
  * - Ownership enforcement
- * - NO AI analysis (future phase)
+ * 
+ * JD ANALYSIS: Structured analysis runs on the job queue after submission
+ * (JdAnalysisService) and is returned with every JD
  * 
  * From apis.md Section 5
  */
 @Injectable()
 export class JdService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly jdAnalysisService: JdAnalysisService,
+  ) {}
 
   /**
    * Submit job description for storage
    * From apis.md Section 5.1
    * 
-   * PHASE 4: Database persistence ONLY
+   * PHASE 4: Database persistence
    * - Creates JobDescription entity
    * - Stores rawText exactly as provided
    * - Verifies user owns the project
-   * - extractedSkills, keywords, roleType remain empty/null (AI analysis in future phase)
    * 
-   * Per apis.md:
-   * - JD analysis happens internally (but NOT in this phase)
-   * - Frontend does not process JD data
+   * JD ANALYSIS: Queues analysis in the background (analysisStatus=PENDING)
+   * - Response does not wait for the AI
+   * - Frontend reads results via GET /jd/:jdId
    */
   async submitJd(submitJdDto: SubmitJdDto, userId: string): Promise<SubmitJdResponseDto> {
     // Verify user owns the project
@@ -44,18 +50,22 @@ export class JdService {
       throw new ForbiddenException('You do not have access to this project');
     }
 
-    // Create JobDescription with rawText ONLY
-    // extractedSkills, keywords, roleType are populated by AI analysis in future phase
+    // Create JobDescription; analysis fields are filled by JdAnalysisService
     const jobDescription = await this.prisma.jobDescription.create({
       data: {
         projectId: submitJdDto.projectId,
         rawText: submitJdDto.rawText,
-        extractedSkills: {}, // Empty JSON object (placeholder for future AI analysis)
-        keywords: {},        // Empty JSON object (placeholder for future AI analysis)
-        roleType: '',        // Empty string (placeholder for future AI analysis)
+        extractedSkills: { required: [], niceToHave: [] },
+        keywords: [],
+        roleType: '',
+        analysisStatus: 'PENDING',
+        modelProvider: submitJdDto.modelProvider ?? null,
       },
     });
 
+    // BACKGROUND JOBS: The queue handler records the result or failure on the JD
+    await this.jdAnalysisService.enqueueAnalysis(jobDescription.id);
+
     return {
       jdId: jobDescription.id,
     };
@@ -65,9 +75,9 @@ export class JdService {
    * Get Job Description by ID
    * From apis.md Section 5.2
    * 
-   * PHASE 4: Database retrieval ONLY
+   * PHASE 4: Database retrieval
    * - Fetches JobDescription entity
-   * - Returns rawText only (no AI fields)
+   * - Returns rawText plus analysis fields
    * - Verifies user owns the project
    */
   async getJd(jdId: string, userId: string): Promise<JobDescriptionDto> {
@@ -85,21 +95,52 @@ export class JdService {
       throw new ForbiddenException('You do not have access to this job description');
     }
 
-    return {
-      jdId: jobDescription.id,
-      projectId: jobDescription.projectId,
-      rawText: jobDescription.rawText,
-      createdAt: jobDescription.createdAt.toISOString(),
-    };
+    return this.toDto(jobDescription);
+  }
+
+  /**
+   * Re-run analysis for a Job Description
+   * JD ANALYSIS: Used to retry FAILED or stuck PENDING analyses and to
+   * analyze JDs submitted before analysis existed (NOT_STARTED)
+   * 
+   * Resets analysisStatus to PENDING and returns immediately
+   * (a PENDING JD whose job is still queued is not enqueued twice)
+   */
+  async reanalyzeJd(jdId: string, analyzeJdDto: AnalyzeJdDto, userId: string): Promise<JobDescriptionDto> {
+    const jobDescription = await this.prisma.jobDescription.findUnique({
+      where: { id: jdId },
+      include: { project: true },
+    });
+
+    if (!jobDescription) {
+      throw new NotFoundException(`Job description ${jdId} not found`);
+    }
+
+    if (jobDescription.project.userId !== userId) {
+      throw new ForbiddenException('You do not have access to this job description');
+    }
+
+    const updated = await this.prisma.jobDescription.update({
+      where: { id: jdId },
+      data: {
+        analysisStatus: 'PENDING',
+        analysisError: null,
+        ...(analyzeJdDto.modelProvider ? { modelProvider: analyzeJdDto.modelProvider } : {}),
+      },
+    });
+
+    await this.jdAnalysisService.enqueueAnalysis(jdId);
+
+    return this.toDto(updated);
   }
 
   /**
    * List Job Descriptions for Project
    * From apis.md Section 5.3
    * 
-   * PHASE 4: Database retrieval ONLY
+   * PHASE 4: Database retrieval
    * - Fetches all JobDescriptions for project
-   * - Returns rawText only (no AI fields)
+   * - Returns rawText plus analysis fields
    * - Verifies user owns the project
    * - Sorted by createdAt DESC
    */
@@ -123,11 +164,30 @@ export class JdService {
       orderBy: { createdAt: 'desc' },
     });
 
-    return jobDescriptions.map(jd => ({
+    return jobDescriptions.map(jd => this.toDto(jd));
+  }
+
+  /**
+   * Map JobDescription entity to response DTO
+   * Tolerates legacy rows that stored {} / '' before analysis existed
+   */
+  private toDto(jd: JobDescription): JobDescriptionDto {
+    const skills = (jd.extractedSkills ?? {}) as Partial<JdExtractedSkills>;
+
+    return {
       jdId: jd.id,
       projectId: jd.projectId,
       rawText: jd.rawText,
+      analysisStatus: jd.analysisStatus,
+      analysisError: jd.analysisError,
+      extractedSkills: {
+        required: Array.isArray(skills.required) ? skills.required : [],
+        niceToHave: Array.isArray(skills.niceToHave) ? skills.niceToHave : [],
+      },
+      keywords: Array.isArray(jd.keywords) ? (jd.keywords as string[]) : [],
+      roleType: jd.roleType || null,
+      seniority: jd.seniority,
       createdAt: jd.createdAt.toISOString(),
-    }));
+    };
   }
 }
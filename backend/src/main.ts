@@ -13,6 +13,9 @@ import { AppModule } from './app.module';
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
   
+  // Release in-flight queue jobs on SIGTERM/SIGINT (JobQueueService)
+  app.enableShutdownHooks();
+
   // Global prefix for all routes
   app.setGlobalPrefix('api');
   
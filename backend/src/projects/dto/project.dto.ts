@@ -1,4 +1,5 @@
-import { IsString, IsNotEmpty } from 'class-validator';
+import { IsString, IsNotEmpty, IsEnum, IsOptional } from 'class-validator';
+import { BibliographyTool, LatexEngine } from '@prisma/client';
 
 /**
  * DTO for creating a resume project
@@ -15,6 +16,15 @@ export class CreateProjectDto {
  */
 export class CreateProjectResponseDto {
   projectId: string;
+  skippedFiles?: SkippedFileDto[]; // Zip import: files left out of the project assets
+}
+
+/**
+ * File of an imported zip that was not added to the project
+ */
+export class SkippedFileDto {
+  path: string;
+  reason: string;
 }
 
 /**
@@ -37,4 +47,34 @@ export class ProjectListItemDto {
   createdAt: string;
   updatedAt: string;
   versionCount: number;
+  activeVersionId: string | null;
+  latexEngine: LatexEngine;
+  bibliographyTool: BibliographyTool;
+  thumbnailVersionId: string | null; // THUMBNAILS: active version, else newest version with a thumbnail
+}
+
+/**
+ * DTO for changing a project's compile settings
+ * From apis.md Section 3.5
+ *
+ * Omitted fields keep their current value
+ */
+export class UpdateProjectSettingsDto {
+  @IsEnum(LatexEngine)
+  @IsOptional()
+  latexEngine?: LatexEngine;
+
+  @IsEnum(BibliographyTool)
+  @IsOptional()
+  bibliographyTool?: BibliographyTool;
+}
+
+/**
+ * Response DTO for project compile settings
+ * From apis.md Section 3.5
+ */
+export class ProjectSettingsDto {
+  projectId: string;
+  latexEngine: LatexEngine;
+  bibliographyTool: BibliographyTool;
 }
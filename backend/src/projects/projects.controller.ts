@@ -1,9 +1,21 @@
-import { Controller, Get, Post, Body, UseGuards, UseInterceptors, UploadedFile, BadRequestException } from '@nestjs/common';
+import { Controller, Get, Post, Patch, Delete, HttpCode, HttpStatus, Body, Param, Res, UseGuards, UseInterceptors, UploadedFile, BadRequestException } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
+import { Response } from 'express';
 import { ProjectsService } from './projects.service';
-import { CreateProjectDto, CreateProjectResponseDto, ProjectListItemDto, UploadResumeDto } from './dto/project.dto';
+import {
+  CreateProjectDto,
+  CreateProjectResponseDto,
+  ProjectListItemDto,
+  ProjectSettingsDto,
+  UpdateProjectSettingsDto,
+  UploadResumeDto,
+} from './dto/project.dto';
 import { ClerkAuthGuard } from '../auth/guards/clerk-auth.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { PreviewService } from '../versions/preview.service';
+import { PreviewCompileDto, PreviewCompileResponseDto } from '../versions/dto/version.dto';
+import { ProjectAssetsService, MAX_ASSET_BYTES } from '../versions/project-assets.service';
+import { ProjectAssetDto, UploadAssetDto } from '../versions/dto/asset.dto';
 
 /**
  * Projects Controller
@@ -21,6 +33,8 @@ import { CurrentUser } from '../auth/decorators/current-user.decorator';
 export class ProjectsController {
   constructor(
     private readonly projectsService: ProjectsService,
+    private readonly previewService: PreviewService,
+    private readonly projectAssetsService: ProjectAssetsService,
   ) {}
 
   /**
@@ -45,22 +59,23 @@ export class ProjectsController {
    * PHASE 8: Resume upload functionality
    * - LaTeX: Store as-is
    * - PDF: Extract text, use AI to reconstruct LaTeX
+   * - Zip: Overleaf-style project, other files become project assets
    * - Creates BASE version
    */
   @Post('upload')
   @UseInterceptors(FileInterceptor('file', {
     limits: {
-      fileSize: 10 * 1024 * 1024, // 10MB max
+      fileSize: 20 * 1024 * 1024, // 20MB max (zip imports carry fonts and images)
     },
     fileFilter: (req, file, callback) => {
-      const allowedMimes = ['application/pdf', 'application/x-tex', 'text/x-tex', 'text/plain'];
-      const allowedExtensions = ['.pdf', '.tex'];
+      const allowedMimes = ['application/pdf', 'application/x-tex', 'text/x-tex', 'text/plain', 'application/zip', 'application/x-zip-compressed'];
+      const allowedExtensions = ['.pdf', '.tex', '.zip'];
       const fileExtension = file.originalname.toLowerCase().substring(file.originalname.lastIndexOf('.'));
       
       if (allowedMimes.includes(file.mimetype) || allowedExtensions.includes(fileExtension)) {
         callback(null, true);
       } else {
-        callback(new BadRequestException('Only PDF and LaTeX (.tex) files are allowed'), false);
+        callback(new BadRequestException('Only PDF, LaTeX (.tex) and zip files are allowed'), false);
       }
     },
   }))
@@ -89,4 +104,109 @@ export class ProjectsController {
   ): Promise<ProjectListItemDto[]> {
     return this.projectsService.listProjects(userId);
   }
+
+  /**
+   * PATCH /api/projects/:projectId/settings
+   * Change the project's compile settings (TeX engine, bibliography tool)
+   * From apis.md Section 3.5
+   */
+  @Patch(':projectId/settings')
+  async updateSettings(
+    @Param('projectId') projectId: string,
+    @Body() updateDto: UpdateProjectSettingsDto,
+    @CurrentUser() userId: string,
+  ): Promise<ProjectSettingsDto> {
+    return this.projectsService.updateSettings(projectId, updateDto, userId);
+  }
+
+  /**
+   * POST /api/projects/:projectId/preview
+   * Compile an unsaved draft without creating a version
+   * From apis.md Section 3.3
+   * 
+   * DRAFT PREVIEW: Returns diagnostics and a short-lived previewId
+   */
+  @Post(':projectId/preview')
+  async createPreview(
+    @Param('projectId') projectId: string,
+    @Body() previewDto: PreviewCompileDto,
+    @CurrentUser() userId: string,
+  ): Promise<PreviewCompileResponseDto> {
+    return this.previewService.createPreview(projectId, previewDto.latexContent, userId);
+  }
+
+  /**
+   * GET /api/projects/:projectId/preview/:previewId
+   * Get the PDF of a draft preview
+   * From apis.md Section 3.4
+   */
+  @Get(':projectId/preview/:previewId')
+  async getPreviewPdf(
+    @Param('projectId') projectId: string,
+    @Param('previewId') previewId: string,
+    @CurrentUser() userId: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    const pdf = await this.previewService.getPreviewPdf(projectId, previewId, userId);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', 'inline; filename="preview.pdf"');
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.send(pdf);
+  }
+
+  /**
+   * GET /api/projects/:projectId/assets
+   * List the project's asset files
+   * From apis.md Section 3.6
+   */
+  @Get(':projectId/assets')
+  async listAssets(
+    @Param('projectId') projectId: string,
+    @CurrentUser() userId: string,
+  ): Promise<ProjectAssetDto[]> {
+    return this.projectAssetsService.listAssets(projectId, userId);
+  }
+
+  /**
+   * POST /api/projects/:projectId/assets
+   * Upload an asset (class, style, bibliography, image, font)
+   * From apis.md Section 3.7
+   *
+   * PROJECT ASSETS: Replaces an existing asset at the same path
+   */
+  @Post(':projectId/assets')
+  @UseInterceptors(FileInterceptor('file', {
+    limits: {
+      fileSize: MAX_ASSET_BYTES,
+    },
+  }))
+  async uploadAsset(
+    @Param('projectId') projectId: string,
+    @UploadedFile() file: any, // Express.Multer.File type
+    @Body() uploadDto: UploadAssetDto,
+    @CurrentUser() userId: string,
+  ): Promise<ProjectAssetDto> {
+    if (!file) {
+      throw new BadRequestException('File is required');
+    }
+
+    return this.projectAssetsService.uploadAsset(projectId, uploadDto.path || file.originalname, file.buffer, userId);
+  }
+
+  /**
+   * DELETE /api/projects/:projectId/assets/:assetId
+   * Delete an asset
+   * From apis.md Section 3.8
+   */
+  @Delete(':projectId/assets/:assetId')
+  @HttpCode(HttpStatus.OK)
+  async deleteAsset(
+    @Param('projectId') projectId: string,
+    @Param('assetId') assetId: string,
+    @CurrentUser() userId: string,
+  ): Promise<{ success: boolean }> {
+    await this.projectAssetsService.deleteAsset(projectId, assetId, userId);
+    return { success: true };
+  }
 }
@@ -1,8 +1,26 @@
-import { Injectable, BadRequestException } from '@nestjs/common';
+import { Injectable, BadRequestException, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
 import { PrismaService } from '../prisma/prisma.service';
-import { CreateProjectDto, CreateProjectResponseDto, ProjectListItemDto } from './dto/project.dto';
+import { AssetFile, ProjectAssetsService } from '../versions/project-assets.service';
+import { readZipArchive, ZipArchiveError } from './zip-archive';
+import {
+  CreateProjectDto,
+  CreateProjectResponseDto,
+  ProjectListItemDto,
+  ProjectSettingsDto,
+  UpdateProjectSettingsDto,
+} from './dto/project.dto';
 import OpenAI from 'openai';
 
+/**
+ * Zip import limits (the asset quota is checked again by ProjectAssetsService)
+ */
+const ZIP_MAX_ENTRIES = 500;
+const ZIP_MAX_TOTAL_BYTES = 60 * 1024 * 1024;
+
+// Build output and editor files that Overleaf / local projects may carry
+const ZIP_SKIPPED_FILES = /\.(?:aux|log|out|toc|fls|fdb_latexmk|synctex(?:\.gz)?|blg|bcf|run\.xml|xdv)$/;
+
 /**
  * Projects Service
  * 
@@ -23,6 +41,7 @@ export class ProjectsService {
 
   constructor(
     private readonly prisma: PrismaService,
+    private readonly projectAssets: ProjectAssetsService,
   ) {
     // Initialize OpenAI client for PDF to LaTeX conversion
     this.openai = new OpenAI({
@@ -61,17 +80,22 @@ export class ProjectsService {
 
       // Create base version atomically
       // If this fails, entire transaction rolls back
-      await tx.resumeVersion.create({
+      const baseVersion = await tx.resumeVersion.create({
         data: {
           projectId: project.id,
           parentVersionId: null, // Base version has no parent
           type: 'BASE',
-          status: 'ACTIVE', // PHASE 2: Set to ACTIVE so editor can load it
           latexContent: '\\documentclass{article}\n\\begin{document}\n% Your resume content here\n\\end{document}',
           pdfUrl: null,
         },
       });
 
+      // Base version is the active version so the editor can load it
+      await tx.resumeProject.update({
+        where: { id: project.id },
+        data: { activeVersionId: baseVersion.id },
+      });
+
       return project;
     });
 
@@ -97,8 +121,10 @@ export class ProjectsService {
       include: {
         versions: {
           select: {
-            id: true, // Only need count, not full data
+            id: true,
+            thumbnailKey: true, // THUMBNAILS: no content, only which versions have one
           },
+          orderBy: { createdAt: 'desc' },
         },
       },
       orderBy: {
@@ -106,13 +132,62 @@ export class ProjectsService {
       },
     });
 
-    return projects.map((project) => ({
-      projectId: project.id,
-      name: project.name,
-      createdAt: project.createdAt.toISOString(),
-      updatedAt: project.updatedAt.toISOString(),
-      versionCount: project.versions.length,
-    }));
+    return projects.map((project) => {
+      const withThumbnail = project.versions.filter((version) => version.thumbnailKey);
+      const thumbnailVersion = withThumbnail.find((version) => version.id === project.activeVersionId)
+        ?? withThumbnail[0];
+
+      return {
+        projectId: project.id,
+        name: project.name,
+        createdAt: project.createdAt.toISOString(),
+        updatedAt: project.updatedAt.toISOString(),
+        versionCount: project.versions.length,
+        activeVersionId: project.activeVersionId,
+        latexEngine: project.latexEngine,
+        bibliographyTool: project.bibliographyTool,
+        thumbnailVersionId: thumbnailVersion?.id ?? null,
+      };
+    });
+  }
+
+  /**
+   * Change the project's compile settings
+   * From apis.md Section 3.5
+   *
+   * ENGINE SETTINGS: Applies to compiles started afterwards (queued jobs keep their
+   * settings); versions compiled with other settings are rebuilt on their next compile
+   */
+  async updateSettings(
+    projectId: string,
+    updateDto: UpdateProjectSettingsDto,
+    userId: string,
+  ): Promise<ProjectSettingsDto> {
+    const project = await this.prisma.resumeProject.findUnique({
+      where: { id: projectId },
+    });
+
+    if (!project) {
+      throw new NotFoundException(`Project ${projectId} not found`);
+    }
+
+    if (project.userId !== userId) {
+      throw new ForbiddenException('You do not have access to this project');
+    }
+
+    const updated = await this.prisma.resumeProject.update({
+      where: { id: projectId },
+      data: {
+        latexEngine: updateDto.latexEngine,
+        bibliographyTool: updateDto.bibliographyTool,
+      },
+    });
+
+    return {
+      projectId: updated.id,
+      latexEngine: updated.latexEngine,
+      bibliographyTool: updated.bibliographyTool,
+    };
   }
 
   /**
@@ -122,6 +197,7 @@ export class ProjectsService {
    * Handles:
    * - LaTeX (.tex): Store as-is
    * - PDF: Extract text → AI converts to LaTeX
+   * - Zip (Overleaf-style project): main .tex becomes the version, other files project assets
    * - Creates BASE version with uploaded/converted content
    */
   async createProjectFromUpload(
@@ -130,12 +206,17 @@ export class ProjectsService {
     file: any, // Express.Multer.File type
   ): Promise<CreateProjectResponseDto> {
     let latexContent: string;
+    let assetFiles: AssetFile[] = [];
 
+    const isZip = file.originalname.toLowerCase().endsWith('.zip') ||
+                   ['application/zip', 'application/x-zip-compressed'].includes(file.mimetype);
     const isPdf = file.mimetype === 'application/pdf' || file.originalname.toLowerCase().endsWith('.pdf');
     const isTex = file.originalname.toLowerCase().endsWith('.tex') || 
                    ['application/x-tex', 'text/x-tex', 'text/plain'].includes(file.mimetype);
 
-    if (isPdf) {
+    if (isZip) {
+      ({ latexContent, assetFiles } = this.extractZipProject(file.buffer));
+    } else if (isPdf) {
       // Extract text from PDF using pdf.js-extract
       const { PDFExtract } = require('pdf.js-extract');
       const pdfExtract = new PDFExtract();
@@ -170,36 +251,117 @@ export class ProjectsService {
         throw new BadRequestException('Uploaded file does not appear to be valid LaTeX. Please check the file content.');
       }
     } else {
-      throw new BadRequestException('Unsupported file type. Please upload a PDF or LaTeX (.tex) file.');
+      throw new BadRequestException('Unsupported file type. Please upload a PDF, LaTeX (.tex) or zip file.');
     }
 
+    // Assets are stored before the transaction and removed again if it fails
+    const projectId = randomUUID();
+    const { prepared: preparedAssets, skipped: skippedFiles } = assetFiles.length > 0
+      ? await this.projectAssets.prepareImport(projectId, assetFiles)
+      : { prepared: [], skipped: [] };
+
     // Create project with uploaded content
     const result = await this.prisma.$transaction(async (tx) => {
       // Create project
       const project = await tx.resumeProject.create({
         data: {
+          id: projectId,
           userId,
           name: projectName,
         },
       });
 
+      if (preparedAssets.length > 0) {
+        await tx.projectAsset.createMany({ data: preparedAssets });
+      }
+
       // Create BASE version with uploaded/converted content
-      await tx.resumeVersion.create({
+      const baseVersion = await tx.resumeVersion.create({
         data: {
           projectId: project.id,
           parentVersionId: null,
           type: 'BASE',
-          status: 'ACTIVE',
           latexContent: latexContent,
           pdfUrl: null,
         },
       });
 
+      await tx.resumeProject.update({
+        where: { id: project.id },
+        data: { activeVersionId: baseVersion.id },
+      });
+
       return project;
+    }).catch(async (error) => {
+      await this.projectAssets.discardPrepared(preparedAssets);
+      throw error;
     });
 
+    if (preparedAssets.length > 0) {
+      console.log(`📦 Imported project ${result.id} with ${preparedAssets.length} asset(s)`);
+    }
+    if (skippedFiles.length > 0) {
+      console.warn(`📦 Skipped ${skippedFiles.length} file(s) importing project ${result.id}:`, skippedFiles);
+    }
+
     return {
       projectId: result.id,
+      ...(skippedFiles.length > 0 && { skippedFiles }),
+    };
+  }
+
+  /**
+   * Split an uploaded zip into the main document and project assets
+   * PROJECT ASSETS: Overleaf-style import
+   *
+   * - Hidden files, __MACOSX and build output are skipped
+   * - A single top-level folder (GitHub-style download) is stripped
+   * - Main document: top-level .tex with \documentclass (main.tex, then resume.tex,
+   *   then the first by name)
+   * - Files the assets cannot hold (e.g. a resume.tex next to main.tex, which the
+   *   compiler writes itself) are skipped by prepareImport and reported in the response
+   */
+  private extractZipProject(archive: Buffer): { latexContent: string; assetFiles: AssetFile[] } {
+    let entries: AssetFile[];
+    try {
+      entries = readZipArchive(archive, { maxEntries: ZIP_MAX_ENTRIES, maxTotalBytes: ZIP_MAX_TOTAL_BYTES });
+    } catch (error) {
+      if (error instanceof ZipArchiveError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+
+    entries = entries.filter((entry) =>
+      !entry.path.split('/').some((segment) => segment.startsWith('.') || segment === '__MACOSX') &&
+      !ZIP_SKIPPED_FILES.test(entry.path),
+    );
+
+    const topLevel = new Set(entries.map((entry) => entry.path.split('/')[0]));
+    if (topLevel.size === 1 && entries.every((entry) => entry.path.includes('/'))) {
+      const prefix = `${[...topLevel][0]}/`;
+      entries = entries.map((entry) => ({ ...entry, path: entry.path.slice(prefix.length) }));
+    }
+
+    const candidates = entries
+      .filter((entry) =>
+        !entry.path.includes('/') &&
+        entry.path.toLowerCase().endsWith('.tex') &&
+        entry.content.toString('utf-8').includes('\\documentclass'),
+      )
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+    const main = candidates.find((entry) => entry.path === 'main.tex')
+      ?? candidates.find((entry) => entry.path === 'resume.tex')
+      ?? candidates[0];
+
+    if (!main) {
+      throw new BadRequestException('No top-level .tex file with \\documentclass found in the zip archive');
+    }
+
+    return {
+      latexContent: main.content.toString('utf-8'),
+      assetFiles: entries.filter((entry) => entry !== main),
     };
   }
 
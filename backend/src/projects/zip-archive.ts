@@ -0,0 +1,133 @@
+import { inflateRawSync } from 'zlib';
+
+/**
+ * File extracted from a zip archive
+ */
+export interface ZipEntry {
+  path: string;
+  content: Buffer;
+}
+
+/**
+ * Extraction limits (zip bombs, huge archives)
+ */
+export interface ZipLimits {
+  maxEntries: number;
+  maxTotalBytes: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_ENCRYPTED = 0x1;
+
+/**
+ * Thrown for archives that cannot or may not be extracted
+ */
+export class ZipArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipArchiveError';
+  }
+}
+
+/**
+ * Read the files of a zip archive (Overleaf / GitHub project download)
+ *
+ * PROJECT ASSETS: Minimal reader for the central directory
+ * - Stored and deflated entries; encrypted and ZIP64 archives are refused
+ * - Directory entries are skipped
+ * - Inflated sizes are capped while decompressing (declared sizes are not trusted)
+ */
+export function readZipArchive(archive: Buffer, limits: ZipLimits): ZipEntry[] {
+  const eocdOffset = findEndOfCentralDirectory(archive);
+  const entryCount = archive.readUInt16LE(eocdOffset + 10);
+  const directoryOffset = archive.readUInt32LE(eocdOffset + 16);
+
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new ZipArchiveError('ZIP64 archives are not supported');
+  }
+
+  if (entryCount > limits.maxEntries) {
+    throw new ZipArchiveError(`Archive has more than ${limits.maxEntries} files`);
+  }
+
+  const entries: ZipEntry[] = [];
+  let totalBytes = 0;
+  let offset = directoryOffset;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new ZipArchiveError('Corrupt zip archive (central directory)');
+    }
+
+    const flags = archive.readUInt16LE(offset + 8);
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localHeaderOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf-8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+
+    if (flags & FLAG_ENCRYPTED) {
+      throw new ZipArchiveError(`Encrypted entry "${name}" is not supported`);
+    }
+
+    if (localHeaderOffset + 30 > archive.length || archive.readUInt32LE(localHeaderOffset) !== LOCAL_FILE_HEADER) {
+      throw new ZipArchiveError(`Corrupt zip archive (entry "${name}")`);
+    }
+
+    const dataStart = localHeaderOffset + 30
+      + archive.readUInt16LE(localHeaderOffset + 26)
+      + archive.readUInt16LE(localHeaderOffset + 28);
+    const data = archive.subarray(dataStart, dataStart + compressedSize);
+    const remaining = limits.maxTotalBytes - totalBytes;
+
+    let content: Buffer;
+    if (method === METHOD_STORED) {
+      content = Buffer.from(data);
+    } else if (method === METHOD_DEFLATE) {
+      try {
+        content = inflateRawSync(data, { maxOutputLength: Math.max(remaining, 1) });
+      } catch (error) {
+        if (error instanceof RangeError || error?.code === 'ERR_BUFFER_TOO_LARGE') {
+          throw new ZipArchiveError(`Archive exceeds ${limits.maxTotalBytes / 1024 / 1024} MB uncompressed`);
+        }
+        throw new ZipArchiveError(`Corrupt zip archive (entry "${name}")`);
+      }
+    } else {
+      throw new ZipArchiveError(`Entry "${name}" uses an unsupported compression method`);
+    }
+
+    totalBytes += content.length;
+    if (totalBytes > limits.maxTotalBytes) {
+      throw new ZipArchiveError(`Archive exceeds ${limits.maxTotalBytes / 1024 / 1024} MB uncompressed`);
+    }
+
+    entries.push({ path: name, content });
+  }
+
+  return entries;
+}
+
+/**
+ * The end-of-central-directory record sits in the last 22 + 65535 (comment) bytes
+ */
+function findEndOfCentralDirectory(archive: Buffer): number {
+  const lowest = Math.max(0, archive.length - 22 - 0xffff);
+
+  for (let offset = archive.length - 22; offset >= lowest; offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+
+  throw new ZipArchiveError('Not a zip archive');
+}
@@ -0,0 +1,129 @@
+import { randomUUID } from 'crypto';
+import { QueueDriver, QueueJobRecord, EnqueueOptions } from '../queue.types';
+
+interface MemoryJob extends QueueJobRecord {
+  status: 'PENDING' | 'ACTIVE' | 'COMPLETED' | 'FAILED';
+  runAt: number;
+  lockedAt: number | null;
+}
+
+/**
+ * In-process queue driver
+ *
+ * BACKGROUND JOBS: Keeps jobs in memory only.
+ * - No external services (development and tests)
+ * - Jobs are lost on restart; callers recover their own rows on boot
+ *   (e.g. AiJobsService re-enqueues QUEUED/RUNNING AIJobs)
+ */
+export class MemoryQueueDriver implements QueueDriver {
+  private readonly jobs = new Map<string, MemoryJob>();
+
+  async enqueue(
+    queue: string,
+    payload: unknown,
+    options: Required<Pick<EnqueueOptions, 'maxAttempts'>> & EnqueueOptions,
+  ): Promise<boolean> {
+    if (options.key) {
+      for (const job of this.jobs.values()) {
+        if (
+          job.queue === queue &&
+          job.key === options.key &&
+          (job.status === 'PENDING' || job.status === 'ACTIVE')
+        ) {
+          return false;
+        }
+      }
+    }
+
+    const id = randomUUID();
+    this.jobs.set(id, {
+      id,
+      queue,
+      key: options.key ?? null,
+      payload,
+      attempts: 0,
+      maxAttempts: options.maxAttempts,
+      status: 'PENDING',
+      runAt: Date.now() + (options.delayMs ?? 0),
+      lockedAt: null,
+    });
+    return true;
+  }
+
+  async claim(queue: string): Promise<QueueJobRecord | null> {
+    const now = Date.now();
+    let next: MemoryJob | null = null;
+
+    for (const job of this.jobs.values()) {
+      if (job.queue !== queue || job.status !== 'PENDING' || job.runAt > now) continue;
+      if (!next || job.runAt < next.runAt) next = job;
+    }
+
+    if (!next) return null;
+
+    next.status = 'ACTIVE';
+    next.lockedAt = now;
+    next.attempts += 1;
+    return this.toRecord(next);
+  }
+
+  async complete(jobId: string): Promise<void> {
+    // Finished jobs are not kept in memory
+    this.jobs.delete(jobId);
+  }
+
+  async fail(jobId: string, _error: string, retryAt: Date | null): Promise<void> {
+    const job = this.jobs.get(jobId);
+    if (!job) return;
+
+    if (!retryAt) {
+      this.jobs.delete(jobId);
+      return;
+    }
+
+    job.status = 'PENDING';
+    job.lockedAt = null;
+    job.runAt = retryAt.getTime();
+  }
+
+  async release(jobIds: string[]): Promise<void> {
+    for (const jobId of jobIds) {
+      const job = this.jobs.get(jobId);
+      if (!job) continue;
+      job.status = 'PENDING';
+      job.lockedAt = null;
+      job.attempts = Math.max(0, job.attempts - 1);
+    }
+  }
+
+  async heartbeat(jobIds: string[]): Promise<void> {
+    const now = Date.now();
+    for (const jobId of jobIds) {
+      const job = this.jobs.get(jobId);
+      if (job) job.lockedAt = now;
+    }
+  }
+
+  async recoverStale(staleBefore: Date): Promise<number> {
+    let recovered = 0;
+    for (const job of this.jobs.values()) {
+      if (job.status === 'ACTIVE' && job.lockedAt !== null && job.lockedAt < staleBefore.getTime()) {
+        job.status = 'PENDING';
+        job.lockedAt = null;
+        recovered++;
+      }
+    }
+    return recovered;
+  }
+
+  private toRecord(job: MemoryJob): QueueJobRecord {
+    return {
+      id: job.id,
+      queue: job.queue,
+      key: job.key,
+      payload: job.payload,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+    };
+  }
+}
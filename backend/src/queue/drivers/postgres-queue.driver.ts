@@ -0,0 +1,132 @@
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { QueueDriver, QueueJobRecord, EnqueueOptions } from '../queue.types';
+
+/**
+ * Postgres queue driver
+ *
+ * BACKGROUND JOBS: Stores jobs in the QueueJob table.
+ * - Survives restarts (no Redis required)
+ * - Claims use FOR UPDATE SKIP LOCKED so several instances can share a queue
+ * - Locks are refreshed by heartbeat; stale locks are recovered on boot and periodically
+ */
+export class PostgresQueueDriver implements QueueDriver {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async enqueue(
+    queue: string,
+    payload: unknown,
+    options: Required<Pick<EnqueueOptions, 'maxAttempts'>> & EnqueueOptions,
+  ): Promise<boolean> {
+    const runAt = new Date(Date.now() + (options.delayMs ?? 0));
+    const data = {
+      payload: payload as Prisma.InputJsonValue,
+      status: 'PENDING' as const,
+      attempts: 0,
+      maxAttempts: options.maxAttempts,
+      runAt,
+      lockedAt: null,
+      lockedBy: null,
+      lastError: null,
+    };
+
+    if (!options.key) {
+      await this.prisma.queueJob.create({ data: { queue, ...data } });
+      return true;
+    }
+
+    const existing = await this.prisma.queueJob.findUnique({
+      where: { queue_key: { queue, key: options.key } },
+    });
+
+    if (existing && (existing.status === 'PENDING' || existing.status === 'ACTIVE')) {
+      return false;
+    }
+
+    try {
+      if (existing) {
+        // Finished entry for the same key: run it again
+        await this.prisma.queueJob.update({ where: { id: existing.id }, data });
+      } else {
+        await this.prisma.queueJob.create({ data: { queue, key: options.key, ...data } });
+      }
+      return true;
+    } catch (error) {
+      // Another request enqueued the same key concurrently
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async claim(queue: string, workerId: string): Promise<QueueJobRecord | null> {
+    const rows = await this.prisma.$queryRaw<QueueJobRecord[]>`
+      UPDATE "QueueJob"
+      SET "status" = 'ACTIVE',
+          "lockedAt" = NOW(),
+          "lockedBy" = ${workerId},
+          "attempts" = "attempts" + 1,
+          "updatedAt" = NOW()
+      WHERE "id" = (
+        SELECT "id" FROM "QueueJob"
+        WHERE "queue" = ${queue}
+          AND "status" = 'PENDING'
+          AND "runAt" <= NOW()
+        ORDER BY "runAt" ASC
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+      )
+      RETURNING "id", "queue", "key", "payload", "attempts", "maxAttempts"
+    `;
+
+    return rows[0] ?? null;
+  }
+
+  async complete(jobId: string): Promise<void> {
+    await this.prisma.queueJob.update({
+      where: { id: jobId },
+      data: { status: 'COMPLETED', lockedAt: null, lockedBy: null },
+    });
+  }
+
+  async fail(jobId: string, error: string, retryAt: Date | null): Promise<void> {
+    await this.prisma.queueJob.update({
+      where: { id: jobId },
+      data: retryAt
+        ? { status: 'PENDING', runAt: retryAt, lockedAt: null, lockedBy: null, lastError: error }
+        : { status: 'FAILED', lockedAt: null, lockedBy: null, lastError: error },
+    });
+  }
+
+  async release(jobIds: string[]): Promise<void> {
+    if (jobIds.length === 0) return;
+
+    await this.prisma.queueJob.updateMany({
+      where: { id: { in: jobIds }, status: 'ACTIVE' },
+      data: {
+        status: 'PENDING',
+        lockedAt: null,
+        lockedBy: null,
+        attempts: { decrement: 1 },
+      },
+    });
+  }
+
+  async heartbeat(jobIds: string[], workerId: string): Promise<void> {
+    if (jobIds.length === 0) return;
+
+    await this.prisma.queueJob.updateMany({
+      where: { id: { in: jobIds }, lockedBy: workerId, status: 'ACTIVE' },
+      data: { lockedAt: new Date() },
+    });
+  }
+
+  async recoverStale(staleBefore: Date): Promise<number> {
+    const result = await this.prisma.queueJob.updateMany({
+      where: { status: 'ACTIVE', lockedAt: { lt: staleBefore } },
+      data: { status: 'PENDING', lockedAt: null, lockedBy: null },
+    });
+    return result.count;
+  }
+}
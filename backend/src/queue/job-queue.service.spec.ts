@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { JobQueueService } from './job-queue.service';
+import { MemoryQueueDriver } from './drivers/memory-queue.driver';
+
+const QUEUE = 'test-queue';
+
+/**
+ * Let claims started by timers (setImmediate + driver promises) settle
+ */
+const flush = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+/**
+ * Advance the mocked clock one poll tick at a time
+ */
+async function advance(ms: number, onTick?: () => Promise<void>): Promise<void> {
+  for (let elapsed = 0; elapsed < ms; elapsed += 1000) {
+    mock.timers.tick(1000);
+    if (onTick) await onTick();
+    await flush();
+    await flush();
+  }
+}
+
+/**
+ * Simulate a worker that claimed a job and then died (no release, no heartbeat)
+ */
+async function claimWithDeadWorker(driver: MemoryQueueDriver, key: string): Promise<string> {
+  await driver.enqueue(QUEUE, { key }, { key, maxAttempts: 3 });
+  const job = await driver.claim(QUEUE);
+  assert.ok(job);
+  return job.id;
+}
+
+describe('JobQueueService stale lock recovery', () => {
+  let driver: MemoryQueueDriver;
+  let service: JobQueueService;
+  let handled: string[];
+
+  beforeEach(async () => {
+    mock.timers.enable({ apis: ['setInterval', 'Date'], now: 0 });
+    mock.method(console, 'log', () => undefined);
+
+    driver = new MemoryQueueDriver();
+    handled = [];
+    service = new JobQueueService(driver);
+    service.registerProcessor<{ key: string }>(
+      QUEUE,
+      async (payload) => {
+        handled.push(payload.key);
+      },
+      { concurrency: 1, maxAttempts: 3, backoffMs: 1000 },
+    );
+  });
+
+  afterEach(async () => {
+    await service.onApplicationShutdown();
+    mock.timers.reset();
+    mock.restoreAll();
+  });
+
+  it('re-runs a job left ACTIVE by a worker that crashed and restarted within the stale window', async () => {
+    await claimWithDeadWorker(driver, 'job-1');
+
+    // Restart 10 seconds after the crash: the lock is not stale yet
+    await advance(10 * 1000);
+    await service.onApplicationBootstrap();
+
+    // Callers re-enqueueing on boot are deduped against the orphaned row
+    assert.equal(await service.add(QUEUE, { key: 'job-1' }, { key: 'job-1' }), false);
+    await advance(60 * 1000);
+    assert.deepEqual(handled, []);
+
+    // Periodic recovery picks it up once the lock goes stale
+    await advance(2 * 60 * 1000);
+    assert.deepEqual(handled, ['job-1']);
+  });
+
+  it('leaves heartbeating jobs alone and recovers them once heartbeats stop', async () => {
+    const jobId = await claimWithDeadWorker(driver, 'job-2');
+    await service.onApplicationBootstrap();
+
+    // Owner keeps heartbeating for 5 minutes: never stolen
+    await advance(5 * 60 * 1000, () => driver.heartbeat([jobId]));
+    assert.deepEqual(handled, []);
+
+    // Heartbeats stop: recovered after the stale window
+    await advance(60 * 1000);
+    assert.deepEqual(handled, []);
+    await advance(2 * 60 * 1000);
+    assert.deepEqual(handled, ['job-2']);
+  });
+});
@@ -0,0 +1,215 @@
+import { Inject, Injectable, OnApplicationBootstrap, OnApplicationShutdown } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import {
+  QUEUE_DRIVER,
+  QueueDriver,
+  QueueJobRecord,
+  EnqueueOptions,
+  JobHandler,
+  ProcessorOptions,
+  UnrecoverableJobError,
+} from './queue.types';
+
+const POLL_INTERVAL_MS = 1000;
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const STALE_LOCK_MS = 2 * 60 * 1000; // Locks not refreshed for 2 minutes are considered orphaned
+const RECOVERY_INTERVAL_MS = 30 * 1000;
+
+interface RegisteredProcessor {
+  handler: JobHandler<any>;
+  options: ProcessorOptions;
+  activeJobIds: Set<string>;
+  isClaiming: boolean;
+}
+
+/**
+ * Job Queue Service
+ *
+ * BACKGROUND JOBS: Durable job processing inside the backend process
+ * - Named queues with a handler each (registerProcessor)
+ * - Concurrency limit per queue
+ * - Retries with exponential backoff (UnrecoverableJobError skips retries)
+ * - Orphaned jobs (stale locks) recovered on boot and periodically while running,
+ *   so jobs locked by a crashed worker are picked up even after a quick restart
+ *
+ * Storage is pluggable via QUEUE_DRIVER (memory | postgres), see QueueModule.
+ *
+ * Forbidden:
+ * - No business logic here (handlers own their domain rows)
+ */
+@Injectable()
+export class JobQueueService implements OnApplicationBootstrap, OnApplicationShutdown {
+  private readonly workerId = `${hostname()}-${process.pid}-${randomUUID().substring(0, 8)}`;
+  private readonly processors = new Map<string, RegisteredProcessor>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private lastRecoveryAt = 0;
+  private isRecovering = false;
+  private isStarted = false;
+  private isStopping = false;
+
+  constructor(@Inject(QUEUE_DRIVER) private readonly driver: QueueDriver) {}
+
+  /**
+   * Register the handler for a queue
+   * Must be called during module init (before the application bootstraps)
+   */
+  registerProcessor<TPayload>(
+    queue: string,
+    handler: JobHandler<TPayload>,
+    options: ProcessorOptions,
+  ): void {
+    if (this.processors.has(queue)) {
+      throw new Error(`Processor for queue "${queue}" is already registered`);
+    }
+
+    this.processors.set(queue, {
+      handler,
+      options,
+      activeJobIds: new Set(),
+      isClaiming: false,
+    });
+  }
+
+  /**
+   * Add a job to a queue
+   * Returns false if a live job with the same key already exists
+   */
+  async add<TPayload>(queue: string, payload: TPayload, options: EnqueueOptions = {}): Promise<boolean> {
+    const processor = this.processors.get(queue);
+    const added = await this.driver.enqueue(queue, payload, {
+      ...options,
+      maxAttempts: options.maxAttempts ?? processor?.options.maxAttempts ?? 1,
+    });
+
+    // Wake up local workers instead of waiting for the next poll
+    if (added && this.isStarted && !options.delayMs) {
+      setImmediate(() => this.claimJobs(queue));
+    }
+
+    return added;
+  }
+
+  async onApplicationBootstrap(): Promise<void> {
+    await this.recoverStaleJobs();
+
+    this.isStarted = true;
+    this.pollTimer = setInterval(() => {
+      if (Date.now() - this.lastRecoveryAt >= RECOVERY_INTERVAL_MS) {
+        void this.recoverStaleJobs();
+      }
+      for (const queue of this.processors.keys()) {
+        this.claimJobs(queue);
+      }
+    }, POLL_INTERVAL_MS);
+    this.heartbeatTimer = setInterval(() => this.sendHeartbeat(), HEARTBEAT_INTERVAL_MS);
+
+    console.log(`📬 Job queue started (worker ${this.workerId}, queues: ${[...this.processors.keys()].join(', ') || 'none'})`);
+  }
+
+  async onApplicationShutdown(): Promise<void> {
+    this.isStopping = true;
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+
+    // Hand in-flight jobs back so the next instance picks them up immediately
+    const inFlight = [...this.processors.values()].flatMap((processor) => [...processor.activeJobIds]);
+    if (inFlight.length > 0) {
+      await this.driver.release(inFlight).catch((error) => {
+        console.error('Failed to release in-flight jobs:', error);
+      });
+    }
+  }
+
+  /**
+   * Claim jobs until the queue's concurrency limit is reached
+   */
+  private async claimJobs(queue: string): Promise<void> {
+    const processor = this.processors.get(queue);
+    if (!processor || processor.isClaiming || this.isStopping) return;
+
+    processor.isClaiming = true;
+    try {
+      while (!this.isStopping && processor.activeJobIds.size < processor.options.concurrency) {
+        const job = await this.driver.claim(queue, this.workerId);
+        if (!job) break;
+
+        processor.activeJobIds.add(job.id);
+        void this.runJob(queue, processor, job);
+      }
+    } catch (error) {
+      console.error(`Failed to claim jobs from queue "${queue}":`, error);
+    } finally {
+      processor.isClaiming = false;
+    }
+  }
+
+  /**
+   * Run one job and record the outcome
+   */
+  private async runJob(queue: string, processor: RegisteredProcessor, job: QueueJobRecord): Promise<void> {
+    const isFinalAttempt = job.attempts >= job.maxAttempts;
+
+    try {
+      await processor.handler(job.payload, {
+        jobId: job.id,
+        attempt: job.attempts,
+        maxAttempts: job.maxAttempts,
+        isFinalAttempt,
+      });
+      await this.driver.complete(job.id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const willRetry = !isFinalAttempt && !(error instanceof UnrecoverableJobError);
+      const retryAt = willRetry
+        ? new Date(Date.now() + processor.options.backoffMs * 2 ** (job.attempts - 1))
+        : null;
+
+      console.error(
+        `Job ${job.id} on "${queue}" failed (attempt ${job.attempts}/${job.maxAttempts})${willRetry ? ', retrying' : ''}: ${message}`,
+      );
+
+      await this.driver.fail(job.id, message, retryAt).catch((failError) => {
+        console.error(`Failed to record failure for job ${job.id}:`, failError);
+      });
+    } finally {
+      processor.activeJobIds.delete(job.id);
+      if (!this.isStopping) {
+        setImmediate(() => this.claimJobs(queue));
+      }
+    }
+  }
+
+  /**
+   * Return jobs whose worker stopped heartbeating to PENDING
+   * Runs on boot and from the poll loop: a worker that crashed and restarted
+   * before its locks went stale would otherwise leave them ACTIVE forever
+   */
+  private async recoverStaleJobs(): Promise<void> {
+    if (this.isRecovering) return;
+
+    this.isRecovering = true;
+    this.lastRecoveryAt = Date.now();
+    try {
+      const recovered = await this.driver.recoverStale(new Date(Date.now() - STALE_LOCK_MS));
+      if (recovered > 0) {
+        console.log(`♻️ Recovered ${recovered} orphaned queue job(s)`);
+        for (const queue of this.processors.keys()) {
+          setImmediate(() => this.claimJobs(queue));
+        }
+      }
+    } catch (error) {
+      console.error('Failed to recover stale queue jobs:', error);
+    } finally {
+      this.isRecovering = false;
+    }
+  }
+
+  private async sendHeartbeat(): Promise<void> {
+    const active = [...this.processors.values()].flatMap((processor) => [...processor.activeJobIds]);
+    await this.driver.heartbeat(active, this.workerId).catch((error) => {
+      console.error('Queue heartbeat failed:', error);
+    });
+  }
+}
@@ -0,0 +1,43 @@
+import { Global, Module } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { JobQueueService } from './job-queue.service';
+import { QUEUE_DRIVER, QueueDriver } from './queue.types';
+import { MemoryQueueDriver } from './drivers/memory-queue.driver';
+import { PostgresQueueDriver } from './drivers/postgres-queue.driver';
+
+/**
+ * Queue Module
+ *
+ * BACKGROUND JOBS: Provides JobQueueService to the whole application
+ *
+ * Driver selection (QUEUE_DRIVER env):
+ * - postgres (default): QueueJob table, durable across restarts
+ * - memory: in-process only, for development and tests without a queue table
+ */
+@Global()
+@Module({
+  providers: [
+    {
+      provide: QUEUE_DRIVER,
+      inject: [PrismaService],
+      useFactory: (prisma: PrismaService): QueueDriver => {
+        const driver = (process.env.QUEUE_DRIVER || 'postgres').toLowerCase();
+
+        if (driver === 'memory') {
+          console.log('📬 Using in-memory queue driver');
+          return new MemoryQueueDriver();
+        }
+
+        if (driver !== 'postgres') {
+          throw new Error(`Unknown QUEUE_DRIVER "${driver}" (expected "memory" or "postgres")`);
+        }
+
+        console.log('📬 Using Postgres queue driver');
+        return new PostgresQueueDriver(prisma);
+      },
+    },
+    JobQueueService,
+  ],
+  exports: [JobQueueService],
+})
+export class QueueModule {}
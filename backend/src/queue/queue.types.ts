@@ -0,0 +1,107 @@
+/**
+ * Queue types
+ *
+ * BACKGROUND JOBS: Shared contracts between JobQueueService and its drivers
+ */
+
+/**
+ * Injection token for the active QueueDriver
+ */
+export const QUEUE_DRIVER = 'QUEUE_DRIVER';
+
+/**
+ * A job claimed by a worker
+ */
+export interface QueueJobRecord<TPayload = unknown> {
+  id: string;
+  queue: string;
+  key: string | null;
+  payload: TPayload;
+  attempts: number; // Includes the current attempt
+  maxAttempts: number;
+}
+
+/**
+ * Options for adding a job
+ */
+export interface EnqueueOptions {
+  key?: string;        // Deduplication key (one live job per key per queue)
+  maxAttempts?: number;
+  delayMs?: number;
+}
+
+/**
+ * Storage backend for the job queue
+ *
+ * Implementations:
+ * - MemoryQueueDriver: in-process, no persistence (dev/tests)
+ * - PostgresQueueDriver: QueueJob table, safe across restarts and instances
+ */
+export interface QueueDriver {
+  /**
+   * Add a job. Returns false if a PENDING/ACTIVE job with the same key exists.
+   */
+  enqueue(queue: string, payload: unknown, options: Required<Pick<EnqueueOptions, 'maxAttempts'>> & EnqueueOptions): Promise<boolean>;
+
+  /**
+   * Atomically claim the next due job for this worker (or null)
+   */
+  claim(queue: string, workerId: string): Promise<QueueJobRecord | null>;
+
+  /**
+   * Mark a claimed job as done
+   */
+  complete(jobId: string): Promise<void>;
+
+  /**
+   * Record a failed attempt. retryAt = null means no more attempts.
+   */
+  fail(jobId: string, error: string, retryAt: Date | null): Promise<void>;
+
+  /**
+   * Return claimed jobs to PENDING without counting an attempt (graceful shutdown)
+   */
+  release(jobIds: string[]): Promise<void>;
+
+  /**
+   * Refresh locks of jobs this worker is still processing
+   */
+  heartbeat(jobIds: string[], workerId: string): Promise<void>;
+
+  /**
+   * Return ACTIVE jobs whose lock is older than staleBefore to PENDING
+   * Returns number of recovered jobs
+   */
+  recoverStale(staleBefore: Date): Promise<number>;
+}
+
+/**
+ * Context passed to job handlers
+ */
+export interface JobContext {
+  jobId: string;
+  attempt: number;
+  maxAttempts: number;
+  isFinalAttempt: boolean;
+}
+
+export type JobHandler<TPayload> = (payload: TPayload, context: JobContext) => Promise<void>;
+
+/**
+ * Per-queue processing options
+ */
+export interface ProcessorOptions {
+  concurrency: number;
+  maxAttempts: number;
+  backoffMs: number; // Base delay, doubled on every retry
+}
+
+/**
+ * Thrown by handlers for failures that retrying cannot fix
+ */
+export class UnrecoverableJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnrecoverableJobError';
+  }
+}
@@ -0,0 +1,72 @@
+import { PrismaClient } from '@prisma/client';
+import { ApiKeyEncryptionService } from '../api-keys/api-key-encryption.service';
+
+/**
+ * Encrypt / re-wrap stored provider API keys
+ *
+ * KEY ENCRYPTION: One-off migration and master key rotation command
+ * - Rows with keyVersion null (plaintext) are encrypted
+ * - Rows wrapped with an older master key version are re-wrapped with the current one
+ *   (only the data key changes; API keys are never decrypted here)
+ *
+ * Usage (after npm run build):
+ *   npm run api-keys:encrypt
+ *
+ * Rotation: add "<newVersion>:<newKey>" to API_KEY_MASTER_KEYS, run this,
+ * then remove the old version from API_KEY_MASTER_KEYS.
+ */
+async function main() {
+  const prisma = new PrismaClient();
+  const encryption = new ApiKeyEncryptionService();
+  const currentVersion = encryption.getCurrentVersion();
+
+  if (currentVersion === null) {
+    throw new Error('API_KEY_MASTER_KEYS must be set');
+  }
+
+  try {
+    const rows = await prisma.userAPIKey.findMany({
+      where: {
+        OR: [{ keyVersion: null }, { keyVersion: { not: currentVersion } }],
+      },
+      select: { id: true, userId: true, provider: true, apiKey: true, encryptedDataKey: true, keyVersion: true },
+    });
+
+    let encrypted = 0;
+    let rewrapped = 0;
+
+    for (const row of rows) {
+      if (row.keyVersion === null) {
+        const result = encryption.encrypt(row.apiKey, row);
+
+        // Guard on keyVersion so a concurrent run cannot double-encrypt
+        const { count } = await prisma.userAPIKey.updateMany({
+          where: { id: row.id, keyVersion: null },
+          data: {
+            apiKey: result.ciphertext,
+            encryptedDataKey: result.encryptedDataKey,
+            keyVersion: result.keyVersion,
+          },
+        });
+        encrypted += count;
+      } else {
+        const result = encryption.rewrap(row.encryptedDataKey, row.keyVersion, row);
+
+        const { count } = await prisma.userAPIKey.updateMany({
+          where: { id: row.id, keyVersion: row.keyVersion },
+          data: result,
+        });
+        rewrapped += count;
+      }
+    }
+
+    console.log(`🔐 Encrypted ${encrypted} plaintext API key(s), re-wrapped ${rewrapped} with master key v${currentVersion}`);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ API key encryption failed:', error.message);
+  process.exit(1);
+});
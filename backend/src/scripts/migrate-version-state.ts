@@ -0,0 +1,86 @@
+import { PrismaClient } from '@prisma/client';
+
+/**
+ * Migrate legacy ResumeVersion.status into compileStatus + ResumeProject.activeVersionId
+ *
+ * ACTIVE VERSION: One-off data migration
+ * The old status column mixed lifecycle (ACTIVE/DRAFT) with build state (COMPILED/ERROR),
+ * and compiling overwrote ACTIVE with COMPILED. This command:
+ * 1. Sets compileStatus from the legacy status (or from a stored PDF)
+ * 2. Points each project without an active version at its legacy ACTIVE version,
+ *    or at its newest version when compiling had erased ACTIVE
+ * 3. Clears the legacy status so re-runs are no-ops
+ *
+ * Usage (after the schema change is applied and npm run build):
+ *   npm run versions:migrate-state
+ */
+async function main() {
+  const prisma = new PrismaClient();
+
+  try {
+    // Step 1: compile state
+    const compiled = await prisma.resumeVersion.updateMany({
+      where: {
+        compileStatus: 'NOT_COMPILED',
+        OR: [
+          { legacyStatus: 'COMPILED' },
+          { legacyStatus: { not: 'ERROR' }, pdfUrl: { not: null } },
+          { legacyStatus: { not: 'ERROR' }, pdfStorageKey: { not: null } },
+        ],
+      },
+      data: { compileStatus: 'COMPILED' },
+    });
+
+    const failed = await prisma.resumeVersion.updateMany({
+      where: { compileStatus: 'NOT_COMPILED', legacyStatus: 'ERROR' },
+      data: { compileStatus: 'ERROR' },
+    });
+
+    // Step 2: active version pointer
+    const projects = await prisma.resumeProject.findMany({
+      where: { activeVersionId: null },
+      select: { id: true },
+    });
+
+    let activated = 0;
+    for (const project of projects) {
+      const active =
+        (await prisma.resumeVersion.findFirst({
+          where: { projectId: project.id, legacyStatus: 'ACTIVE' },
+          orderBy: { createdAt: 'desc' },
+          select: { id: true },
+        })) ??
+        (await prisma.resumeVersion.findFirst({
+          where: { projectId: project.id },
+          orderBy: { createdAt: 'desc' },
+          select: { id: true },
+        }));
+
+      if (active) {
+        await prisma.resumeProject.update({
+          where: { id: project.id },
+          data: { activeVersionId: active.id },
+        });
+        activated++;
+      }
+    }
+
+    // Step 3: legacy column no longer needed
+    await prisma.resumeVersion.updateMany({
+      where: { legacyStatus: { not: null } },
+      data: { legacyStatus: null },
+    });
+
+    console.log(
+      `🔁 Marked ${compiled.count} version(s) COMPILED and ${failed.count} ERROR; ` +
+      `set the active version of ${activated} project(s)`,
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Version state migration failed:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,75 @@
+import { Readable } from 'stream';
+import { v2 as cloudinary } from 'cloudinary';
+import { StorageDriver, StorageObjectNotFoundError } from '../storage.types';
+
+/**
+ * Cloudinary storage driver
+ *
+ * FILE STORAGE: Objects are Cloudinary raw uploads; the key (minus extension) is the public_id
+ * Config: CLOUDINARY_URL, or CLOUDINARY_CLOUD_NAME + CLOUDINARY_API_KEY + CLOUDINARY_API_SECRET
+ */
+export class CloudinaryStorageDriver implements StorageDriver {
+  readonly name = 'cloudinary';
+
+  constructor() {
+    if (process.env.CLOUDINARY_URL) {
+      console.log('✅ Using CLOUDINARY_URL');
+      cloudinary.config({
+        cloudinary_url: process.env.CLOUDINARY_URL,
+      });
+    } else {
+      console.log('⚠️ Using individual config keys');
+      cloudinary.config({
+        cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
+        api_key: process.env.CLOUDINARY_API_KEY,
+        api_secret: process.env.CLOUDINARY_API_SECRET,
+      });
+    }
+
+    // Log final config (without secrets)
+    const config = cloudinary.config();
+    console.log('📦 Final Cloudinary config:', {
+      cloud_name: config.cloud_name,
+      api_key: config.api_key ? 'SET' : 'NOT SET',
+      api_secret: config.api_secret ? 'SET' : 'NOT SET',
+    });
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      const upload = cloudinary.uploader.upload_stream(
+        {
+          resource_type: 'raw',
+          public_id: this.toPublicId(key),
+          overwrite: true,
+        },
+        (error) => (error ? reject(error) : resolve()),
+      );
+
+      upload.end(body);
+    });
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    const url = cloudinary.url(this.toPublicId(key), { resource_type: 'raw', secure: true });
+    const response = await fetch(url);
+
+    if (response.status === 404) {
+      throw new StorageObjectNotFoundError(key);
+    }
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Cloudinary download failed with status ${response.status}`);
+    }
+
+    return Readable.fromWeb(response.body as any);
+  }
+
+  async delete(key: string): Promise<void> {
+    await cloudinary.uploader.destroy(this.toPublicId(key), { resource_type: 'raw' });
+  }
+
+  private toPublicId(key: string): string {
+    return key.replace(/\.[^/.]+$/, '');
+  }
+}
@@ -0,0 +1,56 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { StorageDriver, StorageObjectNotFoundError } from '../storage.types';
+
+/**
+ * Local filesystem storage driver
+ *
+ * FILE STORAGE: Objects are files under rootDir (STORAGE_LOCAL_DIR)
+ * Only suitable when every backend instance shares that directory.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+
+  constructor(private readonly rootDir: string) {}
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Write then rename so readers never see a partial file
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.promises.writeFile(tempPath, body);
+    await fs.promises.rename(tempPath, filePath);
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    const filePath = this.resolve(key);
+
+    try {
+      await fs.promises.access(filePath, fs.constants.R_OK);
+    } catch {
+      throw new StorageObjectNotFoundError(key);
+    }
+
+    return fs.createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  /**
+   * Map a key to a path, refusing keys that escape rootDir
+   */
+  private resolve(key: string): string {
+    const root = path.resolve(this.rootDir);
+    const filePath = path.resolve(root, key);
+
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    return filePath;
+  }
+}
@@ -0,0 +1,121 @@
+import { createHash, createHmac } from 'crypto';
+import { Readable } from 'stream';
+import { StorageDriver, StorageObjectNotFoundError } from '../storage.types';
+
+export interface S3StorageConfig {
+  endpoint: string;        // e.g. https://s3.us-east-1.amazonaws.com or http://localhost:9000 (MinIO)
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean; // MinIO needs path-style URLs (endpoint/bucket/key)
+}
+
+/**
+ * S3-compatible storage driver (AWS S3, MinIO, R2, ...)
+ *
+ * FILE STORAGE: Plain REST calls signed with AWS Signature V4
+ * Only PUT/GET/DELETE object are needed, so no SDK dependency.
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3';
+
+  constructor(private readonly config: S3StorageConfig) {}
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const response = await this.request('PUT', key, body, { 'content-type': contentType });
+
+    if (!response.ok) {
+      throw new Error(`S3 upload failed with status ${response.status}: ${await response.text()}`);
+    }
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    const response = await this.request('GET', key);
+
+    if (response.status === 404) {
+      throw new StorageObjectNotFoundError(key);
+    }
+
+    if (!response.ok || !response.body) {
+      throw new Error(`S3 download failed with status ${response.status}`);
+    }
+
+    return Readable.fromWeb(response.body as any);
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 delete failed with status ${response.status}`);
+    }
+  }
+
+  /**
+   * Send a SigV4-signed request for one object
+   */
+  private async request(
+    method: 'PUT' | 'GET' | 'DELETE',
+    key: string,
+    body?: Buffer,
+    extraHeaders: Record<string, string> = {},
+  ): Promise<Response> {
+    const url = this.objectUrl(key);
+    const payloadHash = this.sha256(body ?? '');
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      ...extraHeaders,
+    };
+
+    const signedHeaderNames = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      signedHeaderNames.map((name) => `${name}:${headers[name].trim()}\n`).join(''),
+      signedHeaderNames.join(';'),
+      payloadHash,
+    ].join('\n');
+
+    const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, this.sha256(canonicalRequest)].join('\n');
+
+    let signingKey = this.hmac(`AWS4${this.config.secretAccessKey}`, dateStamp);
+    for (const part of [this.config.region, 's3', 'aws4_request']) {
+      signingKey = this.hmac(signingKey, part);
+    }
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    headers.authorization =
+      `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, ` +
+      `SignedHeaders=${signedHeaderNames.join(';')}, Signature=${signature}`;
+    delete headers.host; // fetch sets it
+
+    return fetch(url, { method, headers, body: body ? new Uint8Array(body) : undefined });
+  }
+
+  private objectUrl(key: string): URL {
+    const endpoint = new URL(this.config.endpoint);
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+
+    if (this.config.forcePathStyle) {
+      return new URL(`${endpoint.origin}/${this.config.bucket}/${encodedKey}`);
+    }
+
+    return new URL(`${endpoint.protocol}//${this.config.bucket}.${endpoint.host}/${encodedKey}`);
+  }
+
+  private sha256(data: string | Buffer): string {
+    return createHash('sha256').update(data).digest('hex');
+  }
+
+  private hmac(key: string | Buffer, data: string): Buffer {
+    return createHmac('sha256', key).update(data).digest();
+  }
+}
@@ -0,0 +1,68 @@
+import { Global, Module } from '@nestjs/common';
+import { StorageService } from './storage.service';
+import { STORAGE_DRIVER, StorageDriver } from './storage.types';
+import { LocalStorageDriver } from './drivers/local-storage.driver';
+import { S3StorageDriver } from './drivers/s3-storage.driver';
+import { CloudinaryStorageDriver } from './drivers/cloudinary-storage.driver';
+
+/**
+ * Storage Module
+ *
+ * FILE STORAGE: Provides StorageService to the whole application
+ *
+ * Driver selection (STORAGE_DRIVER env):
+ * - local: files under STORAGE_LOCAL_DIR (default ./storage)
+ * - s3: S3-compatible bucket (S3_ENDPOINT, S3_REGION, S3_BUCKET, S3_ACCESS_KEY_ID,
+ *   S3_SECRET_ACCESS_KEY, S3_FORCE_PATH_STYLE)
+ * - cloudinary: Cloudinary raw uploads
+ * Default: cloudinary if Cloudinary credentials are set, otherwise local
+ */
+@Global()
+@Module({
+  providers: [
+    {
+      provide: STORAGE_DRIVER,
+      useFactory: (): StorageDriver => {
+        const hasCloudinary = !!(process.env.CLOUDINARY_URL || process.env.CLOUDINARY_CLOUD_NAME);
+        const driver = (process.env.STORAGE_DRIVER || (hasCloudinary ? 'cloudinary' : 'local')).toLowerCase();
+
+        if (driver === 'local') {
+          const rootDir = process.env.STORAGE_LOCAL_DIR || './storage';
+          console.log(`🗄️ Using local storage driver (${rootDir})`);
+          return new LocalStorageDriver(rootDir);
+        }
+
+        if (driver === 's3') {
+          const bucket = process.env.S3_BUCKET;
+          const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+          const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+
+          if (!bucket || !accessKeyId || !secretAccessKey) {
+            throw new Error('STORAGE_DRIVER=s3 requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+          }
+
+          const region = process.env.S3_REGION || 'us-east-1';
+          console.log(`🗄️ Using S3 storage driver (bucket ${bucket})`);
+          return new S3StorageDriver({
+            endpoint: process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+            region,
+            bucket,
+            accessKeyId,
+            secretAccessKey,
+            forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+          });
+        }
+
+        if (driver === 'cloudinary') {
+          console.log('🗄️ Using Cloudinary storage driver');
+          return new CloudinaryStorageDriver();
+        }
+
+        throw new Error(`Unknown STORAGE_DRIVER "${driver}" (expected "local", "s3" or "cloudinary")`);
+      },
+    },
+    StorageService,
+  ],
+  exports: [StorageService],
+})
+export class StorageModule {}
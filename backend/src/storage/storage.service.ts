@@ -0,0 +1,39 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { Readable } from 'stream';
+import { STORAGE_DRIVER, StorageDriver } from './storage.types';
+
+/**
+ * Storage Service
+ *
+ * FILE STORAGE: Driver-independent access to stored files
+ * The driver is chosen by STORAGE_DRIVER (see StorageModule)
+ */
+@Injectable()
+export class StorageService {
+  constructor(@Inject(STORAGE_DRIVER) private readonly driver: StorageDriver) {}
+
+  get driverName(): string {
+    return this.driver.name;
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.driver.put(key, body, contentType);
+    console.log(`💾 Stored ${key} (${this.driver.name})`);
+  }
+
+  getStream(key: string): Promise<Readable> {
+    return this.driver.getStream(key);
+  }
+
+  async getBuffer(key: string): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of await this.driver.getStream(key)) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  delete(key: string): Promise<void> {
+    return this.driver.delete(key);
+  }
+}
@@ -0,0 +1,52 @@
+import { Readable } from 'stream';
+
+/**
+ * Storage types
+ *
+ * FILE STORAGE: Shared contract between StorageService and its drivers
+ */
+
+/**
+ * Injection token for the active StorageDriver
+ */
+export const STORAGE_DRIVER = 'STORAGE_DRIVER';
+
+/**
+ * Thrown by drivers when a key does not exist
+ */
+export class StorageObjectNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Stored object ${key} not found`);
+    this.name = 'StorageObjectNotFoundError';
+  }
+}
+
+/**
+ * Backend for generated files (compiled PDFs)
+ *
+ * Implementations:
+ * - LocalStorageDriver: files under STORAGE_LOCAL_DIR (single instance / development)
+ * - S3StorageDriver: any S3-compatible bucket (AWS S3, MinIO)
+ * - CloudinaryStorageDriver: Cloudinary raw uploads
+ *
+ * Keys are driver-agnostic paths like "resumes/resume-<versionId>.pdf".
+ * Objects are never served directly; the API streams them to authorized users.
+ */
+export interface StorageDriver {
+  readonly name: string;
+
+  /**
+   * Store (or overwrite) an object
+   */
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Read an object. Rejects with StorageObjectNotFoundError if missing.
+   */
+  getStream(key: string): Promise<Readable>;
+
+  /**
+   * Remove an object (no-op if missing)
+   */
+  delete(key: string): Promise<void>;
+}
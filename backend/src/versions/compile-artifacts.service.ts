@@ -0,0 +1,212 @@
+import { Injectable, OnApplicationBootstrap, OnApplicationShutdown } from '@nestjs/common';
+import { CompileArtifact, Prisma } from '@prisma/client';
+import { createHash, randomUUID } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { StorageService } from '../storage/storage.service';
+import { CompileSettings, LatexCompileResult, LatexCompilerService } from './latex-compiler.service';
+
+const GC_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Unreferenced artifacts are kept this long before collection
+ * (covers a compile that created the artifact but has not linked it yet)
+ */
+const GC_GRACE_MS = parseInt(process.env.COMPILE_ARTIFACT_GC_GRACE_MS || String(60 * 60 * 1000), 10);
+
+const GC_BATCH_SIZE = 100;
+
+// Storage keys outside this prefix are per-version PDFs/thumbnails from before the cache
+const ARTIFACT_KEY_PREFIX = 'artifacts/';
+
+/**
+ * Compile Artifacts Service
+ *
+ * COMPILE CACHE: Compiled PDFs keyed by a hash of the LaTeX source, compiler settings and project assets
+ * - Versions with identical content share one artifact (instant compile on a hit)
+ * - Stored once under artifacts/<artifactId>.pdf, first-page thumbnail under artifacts/<artifactId>.png
+ * - refCount tracks linked versions; moved in the same transaction as the version link
+ * - Unreferenced artifacts older than COMPILE_ARTIFACT_GC_GRACE_MS are collected hourly
+ *
+ * Forbidden:
+ * - No compiling here (CompileJobsService runs the sandbox)
+ */
+@Injectable()
+export class CompileArtifactsService implements OnApplicationBootstrap, OnApplicationShutdown {
+  private gcTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly storage: StorageService,
+    private readonly latexCompiler: LatexCompilerService,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    this.gcTimer = setInterval(() => {
+      this.collectGarbage().catch((error) => {
+        console.error('Compile artifact GC failed:', error);
+      });
+    }, GC_INTERVAL_MS);
+  }
+
+  onApplicationShutdown(): void {
+    if (this.gcTimer) clearInterval(this.gcTimer);
+  }
+
+  /**
+   * Cache key of a LaTeX source under the given compile settings (engine, bibliography tool)
+   * and project assets (ProjectAssetsService.fingerprint, '' without assets)
+   */
+  computeContentHash(latexContent: string, settings: CompileSettings, assetsFingerprint = ''): string {
+    const hash = createHash('sha256')
+      .update(this.latexCompiler.settingsFingerprint(settings))
+      .update('\0')
+      .update(latexContent);
+
+    if (assetsFingerprint) {
+      hash.update('\0assets\0').update(assetsFingerprint);
+    }
+
+    return hash.digest('hex');
+  }
+
+  findByHash(contentHash: string): Promise<CompileArtifact | null> {
+    return this.prisma.compileArtifact.findUnique({ where: { contentHash } });
+  }
+
+  /**
+   * Store a successful compile (PDF and optional thumbnail) as an artifact
+   * If another compile created the same artifact meanwhile, that one is returned
+   * (and these uploads removed)
+   */
+  async createArtifact(
+    contentHash: string,
+    result: LatexCompileResult,
+    thumbnail: Buffer | null,
+  ): Promise<CompileArtifact> {
+    const id = randomUUID();
+    const storageKey = `${ARTIFACT_KEY_PREFIX}${id}.pdf`;
+    const thumbnailKey = thumbnail ? `${ARTIFACT_KEY_PREFIX}${id}.png` : null;
+    await this.storage.put(storageKey, result.pdf, 'application/pdf');
+    if (thumbnail) {
+      await this.storage.put(thumbnailKey, thumbnail, 'image/png');
+    }
+
+    try {
+      return await this.prisma.compileArtifact.create({
+        data: {
+          id,
+          contentHash,
+          storageKey,
+          thumbnailKey,
+          engine: result.engine,
+          errors: result.errors,
+          diagnostics: result.diagnostics as unknown as Prisma.InputJsonValue,
+          ...result.metrics,
+        },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        await this.deleteStored({ storageKey, thumbnailKey });
+        return this.findByHash(contentHash);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Operations that point a version at an artifact and move reference counts
+   * Run inside the caller's transaction (together with its CompileJob update),
+   * then call deleteReplacedFiles() once it has committed
+   */
+  linkOperations(
+    version: { id: string; artifactId: string | null },
+    artifact: CompileArtifact,
+  ): Prisma.PrismaPromise<unknown>[] {
+    const operations: Prisma.PrismaPromise<unknown>[] = [
+      this.prisma.resumeVersion.update({
+        where: { id: version.id },
+        data: {
+          artifactId: artifact.id,
+          pdfStorageKey: artifact.storageKey,
+          thumbnailKey: artifact.thumbnailKey,
+          pdfUrl: null,
+          compileStatus: 'COMPILED',
+        },
+      }),
+    ];
+
+    if (version.artifactId !== artifact.id) {
+      operations.push(
+        this.prisma.compileArtifact.update({
+          where: { id: artifact.id },
+          data: { refCount: { increment: 1 } },
+        }),
+      );
+
+      if (version.artifactId) {
+        operations.push(
+          this.prisma.compileArtifact.update({
+            where: { id: version.artifactId },
+            data: { refCount: { decrement: 1 } },
+          }),
+        );
+      }
+    }
+
+    return operations;
+  }
+
+  /**
+   * Delete the pre-cache PDF and thumbnail a link replaced
+   * Artifact files are left alone (shared, collected by collectGarbage)
+   */
+  async deleteReplacedFiles(version: { pdfStorageKey: string | null; thumbnailKey: string | null }): Promise<void> {
+    for (const key of [version.pdfStorageKey, version.thumbnailKey]) {
+      if (!key || key.startsWith(ARTIFACT_KEY_PREFIX)) continue;
+
+      await this.storage.delete(key).catch((error) => {
+        console.error(`Failed to delete replaced version file ${key}:`, error);
+      });
+    }
+  }
+
+  /**
+   * Delete unreferenced artifacts past the grace period
+   * The row is removed first (conditionally), so a concurrent link either
+   * wins and keeps the artifact or fails and recompiles
+   */
+  async collectGarbage(): Promise<number> {
+    const candidates = await this.prisma.compileArtifact.findMany({
+      where: {
+        refCount: { lte: 0 },
+        updatedAt: { lt: new Date(Date.now() - GC_GRACE_MS) },
+      },
+      take: GC_BATCH_SIZE,
+    });
+
+    let collected = 0;
+    for (const artifact of candidates) {
+      const deleted = await this.prisma.compileArtifact.deleteMany({
+        where: { id: artifact.id, refCount: { lte: 0 } },
+      });
+      if (deleted.count === 0) continue;
+
+      await this.deleteStored(artifact);
+      collected++;
+    }
+
+    if (collected > 0) {
+      console.log(`🧹 Collected ${collected} unreferenced compile artifact(s)`);
+    }
+
+    return collected;
+  }
+
+  private async deleteStored(artifact: { storageKey: string; thumbnailKey: string | null }): Promise<void> {
+    for (const key of [artifact.storageKey, artifact.thumbnailKey].filter(Boolean)) {
+      await this.storage.delete(key).catch((error) => {
+        console.error(`Failed to delete stored artifact file ${key}:`, error);
+      });
+    }
+  }
+}
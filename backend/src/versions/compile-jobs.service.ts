@@ -0,0 +1,455 @@
+import { Injectable, NotFoundException, ForbiddenException, OnModuleInit, OnApplicationBootstrap } from '@nestjs/common';
+import { CompileArtifact, CompileJob, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { StorageService } from '../storage/storage.service';
+import { JobQueueService } from '../queue/job-queue.service';
+import { JobContext } from '../queue/queue.types';
+import { LatexCompilerService, CompileDiagnostic, CompileSettings } from './latex-compiler.service';
+import { CompileArtifactsService } from './compile-artifacts.service';
+import { ProjectAssetsService } from './project-assets.service';
+import { CompileResumeResponseDto, CompileJobStatusDto, CompileDiagnosticDto } from './dto/version.dto';
+
+/**
+ * Queue carrying LaTeX compile jobs
+ */
+export const LATEX_COMPILE_QUEUE = 'latex-compile';
+
+/**
+ * RUNNING compiles older than this when the server boots are failed if their queue
+ * entry is still locked by the previous process (a build never runs this long)
+ */
+const ORPHANED_COMPILE_MS = 10 * 60 * 1000;
+
+interface LatexCompileJobPayload {
+  compileJobId: string;
+}
+
+/**
+ * Compile Jobs Service
+ *
+ * PHASE 8: COMPILATION & OUTPUT
+ * - LaTeX → PDF compilation with the project's engine (LatexCompilerService sandbox)
+ * - PDF stored through StorageService (local, S3-compatible or Cloudinary)
+ * - Version immutability (no new versions, only PDF reference and compileStatus)
+ *
+ * BACKGROUND JOBS: Compiles run on the LATEX_COMPILE_QUEUE (JobQueueService)
+ * - POST /versions/:versionId/compile only creates a CompileJob (QUEUED)
+ * - Concurrency limited by COMPILE_CONCURRENCY (default 2), shared with previews and
+ *   AI jobs through LatexCompilerService
+ * - One QUEUED/RUNNING job per version (a second request returns the live job); the
+ *   check and the insert run under a per-version advisory lock, so concurrent
+ *   requests cannot both create one
+ * - LaTeX errors fail the job without retry; storage errors are retried once
+ *
+ * COMPILE CACHE: Output is shared through CompileArtifactsService, so a version whose
+ * content was already compiled (with the same settings) completes instantly
+ * - QUEUED/RUNNING CompileJobs re-enqueued on boot
+ *
+ * ENGINE SETTINGS: Each job copies the project's latexEngine / bibliographyTool when
+ * created and records the engine of its result
+ *
+ * PAGE METRICS: Completed jobs report page count, last page fill and overfull boxes
+ * (stored on the artifact, so cache hits report them too)
+ *
+ * PROJECT ASSETS: The project's assets are written next to resume.tex and are part of
+ * the cache key, so changing an asset rebuilds versions on their next compile
+ *
+ * From apis.md Sections 4.3 and 4.7
+ */
+@Injectable()
+export class CompileJobsService implements OnModuleInit, OnApplicationBootstrap {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly storage: StorageService,
+    private readonly jobQueue: JobQueueService,
+    private readonly latexCompiler: LatexCompilerService,
+    private readonly artifacts: CompileArtifactsService,
+    private readonly projectAssets: ProjectAssetsService,
+  ) {}
+
+  /**
+   * Register the compile processor with the job queue
+   */
+  onModuleInit(): void {
+    this.jobQueue.registerProcessor<LatexCompileJobPayload>(
+      LATEX_COMPILE_QUEUE,
+      (payload, context) => this.processCompileJob(payload, context),
+      {
+        concurrency: parseInt(process.env.COMPILE_CONCURRENCY || '2', 10),
+        maxAttempts: 2,
+        backoffMs: 2000,
+      },
+    );
+  }
+
+  /**
+   * Recover CompileJobs orphaned by a restart
+   * Rows still owned by a live queue entry are left untouched (add() dedupes by key),
+   * unless they have been RUNNING for longer than ORPHANED_COMPILE_MS: those are
+   * failed so the version does not show a compile in progress forever
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    const orphaned = await this.prisma.compileJob.findMany({
+      where: { status: { in: ['QUEUED', 'RUNNING'] } },
+      select: { id: true, versionId: true, status: true, startedAt: true },
+    });
+
+    const runningBefore = Date.now() - ORPHANED_COMPILE_MS;
+    let recovered = 0;
+    let failed = 0;
+    for (const job of orphaned) {
+      const added = await this.jobQueue.add<LatexCompileJobPayload>(
+        LATEX_COMPILE_QUEUE,
+        { compileJobId: job.id },
+        { key: job.id },
+      );
+
+      if (added) {
+        recovered++;
+        if (job.status === 'RUNNING') {
+          await this.prisma.compileJob.update({
+            where: { id: job.id },
+            data: { status: 'QUEUED' },
+          });
+        }
+      } else if (job.status === 'RUNNING' && job.startedAt && job.startedAt.getTime() < runningBefore) {
+        await this.failJob(job.id, job.versionId, [], [], 'Compile was interrupted by a server restart');
+        failed++;
+      }
+    }
+
+    if (recovered > 0) {
+      console.log(`♻️ Re-enqueued ${recovered} orphaned compile job(s)`);
+    }
+    if (failed > 0) {
+      console.log(`🛑 Failed ${failed} compile job(s) stuck since before the restart`);
+    }
+  }
+
+  /**
+   * Start compiling a resume version
+   * From apis.md Section 4.3
+   *
+   * - Already compiled with the current settings: a COMPLETED job is recorded and
+   *   returned (idempotent), carrying the diagnostics of the compile that built the PDF
+   *   (after an engine change the version is compiled again)
+   * - Compile already QUEUED/RUNNING for this version: that job is returned
+   * - Same content already compiled (artifact cache hit): linked and COMPLETED at once
+   * - Otherwise: CompileJob created with status=QUEUED and enqueued
+   */
+  async startCompile(versionId: string, userId: string): Promise<CompileResumeResponseDto> {
+    const version = await this.prisma.resumeVersion.findUnique({
+      where: { id: versionId },
+      include: { project: true, artifact: true },
+    });
+
+    if (!version) {
+      throw new NotFoundException(`Version ${versionId} not found`);
+    }
+
+    if (version.project.userId !== userId) {
+      throw new ForbiddenException('You do not have access to this version');
+    }
+
+    const settings: CompileSettings = {
+      engine: version.project.latexEngine,
+      bibliographyTool: version.project.bibliographyTool,
+    };
+    const assetsFingerprint = this.projectAssets.fingerprint(await this.projectAssets.findForProject(version.projectId));
+    const contentHash = this.artifacts.computeContentHash(version.latexContent, settings, assetsFingerprint);
+
+    // PDFs from before the compile cache were built with the default settings and no assets
+    const upToDate = version.artifact
+      ? version.artifact.contentHash === contentHash
+      : this.latexCompiler.settingsFingerprint(settings) === this.latexCompiler.settingsFingerprint() && !assetsFingerprint;
+
+    if (version.compileStatus === 'COMPILED' && (version.pdfStorageKey || version.pdfUrl) && upToDate) {
+      console.log('ℹ️ Already compiled, returning cached result');
+      const previous = await this.prisma.compileJob.findFirst({
+        where: { versionId, status: 'COMPLETED' },
+        orderBy: { createdAt: 'desc' },
+      });
+      const job = await this.prisma.compileJob.create({
+        data: {
+          versionId,
+          status: 'COMPLETED',
+          engine: version.artifact?.engine ?? 'PDFLATEX',
+          bibliographyTool: settings.bibliographyTool,
+          errors: previous?.errors ?? [],
+          diagnostics: (previous?.diagnostics ?? []) as Prisma.InputJsonValue,
+          pageCount: version.artifact?.pageCount ?? previous?.pageCount ?? null,
+          lastPageFill: version.artifact?.lastPageFill ?? previous?.lastPageFill ?? null,
+          overfullBoxes: version.artifact?.overfullBoxes ?? previous?.overfullBoxes ?? 0,
+          finishedAt: new Date(),
+        },
+      });
+      return { jobId: job.id, status: job.status };
+    }
+
+    const artifact = await this.artifacts.findByHash(contentHash);
+
+    // Cache hits are created RUNNING and completed right after the transaction
+    const { job, created } = await this.prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`compile-job:${versionId}`}))`;
+
+      const live = await tx.compileJob.findFirst({
+        where: { versionId, status: { in: ['QUEUED', 'RUNNING'] } },
+        orderBy: { createdAt: 'desc' },
+      });
+      if (live) {
+        return { job: live, created: false };
+      }
+
+      const job = await tx.compileJob.create({
+        data: artifact
+          ? { versionId, status: 'RUNNING', ...settings, startedAt: new Date() }
+          : { versionId, status: 'QUEUED', ...settings },
+      });
+      return { job, created: true };
+    });
+
+    if (!created) {
+      return { jobId: job.id, status: job.status };
+    }
+
+    if (artifact) {
+      try {
+        await this.completeFromArtifact(job.id, version, artifact);
+        console.log(`⚡ Compile cache hit for version ${versionId}`);
+        return { jobId: job.id, status: 'COMPLETED' };
+      } catch (error) {
+        // Artifact collected in between: compile normally
+        console.warn(`⚠️ Compile cache link failed for version ${versionId}:`, error.message);
+        await this.prisma.compileJob.update({
+          where: { id: job.id },
+          data: { status: 'QUEUED', startedAt: null },
+        });
+      }
+    }
+
+    await this.jobQueue.add<LatexCompileJobPayload>(
+      LATEX_COMPILE_QUEUE,
+      { compileJobId: job.id },
+      { key: job.id },
+    );
+
+    console.log(`🚀 Compile job ${job.id} queued for version ${versionId} (${settings.engine.toLowerCase()})`);
+
+    return { jobId: job.id, status: 'QUEUED' };
+  }
+
+  /**
+   * Get compile job status
+   * From apis.md Section 4.7
+   *
+   * Frontend polls until COMPLETED or FAILED
+   */
+  async getJobStatus(jobId: string, userId: string): Promise<CompileJobStatusDto> {
+    const job = await this.prisma.compileJob.findUnique({
+      where: { id: jobId },
+      include: { version: { include: { project: true } } },
+    });
+
+    if (!job) {
+      throw new NotFoundException(`Compile job ${jobId} not found`);
+    }
+
+    if (job.version.project.userId !== userId) {
+      throw new ForbiddenException('You do not have access to this compile job');
+    }
+
+    return this.toStatusDto(job);
+  }
+
+  /**
+   * Queue handler for LATEX_COMPILE_QUEUE
+   *
+   * Flow:
+   * 1. Claim the CompileJob (QUEUED → RUNNING)
+   * 2. Artifact for the same content exists: link it and finish
+   * 3. Compile the version's LaTeX and the project's assets in the sandbox with the job's engine settings
+   * 4. No PDF: job FAILED, version compileStatus ERROR (no retry)
+   * 5. Render the first-page thumbnail, store PDF and thumbnail as a CompileArtifact
+   *    (artifacts/<artifactId>.pdf / .png)
+   * 6. Link version to the artifact (pdfStorageKey, thumbnailKey, compileStatus COMPILED), job COMPLETED
+   *
+   * Infrastructure errors (storage, database) are thrown so the queue retries;
+   * on the final attempt the job is FAILED and the version marked ERROR.
+   */
+  private async processCompileJob(payload: LatexCompileJobPayload, context: JobContext): Promise<void> {
+    const { compileJobId } = payload;
+
+    const claimed = await this.prisma.compileJob.updateMany({
+      where: { id: compileJobId, status: { in: ['QUEUED', 'RUNNING'] } },
+      data: { status: 'RUNNING', startedAt: new Date() },
+    });
+
+    if (claimed.count === 0) {
+      return;
+    }
+
+    const job = await this.prisma.compileJob.findUnique({
+      where: { id: compileJobId },
+      include: { version: true },
+    });
+
+    if (!job?.version) {
+      // Version deleted since the job was queued
+      return;
+    }
+
+    const version = job.version;
+    const settings: CompileSettings = { engine: job.engine, bibliographyTool: job.bibliographyTool };
+
+    try {
+      const assets = await this.projectAssets.findForProject(version.projectId);
+      const contentHash = this.artifacts.computeContentHash(
+        version.latexContent,
+        settings,
+        this.projectAssets.fingerprint(assets),
+      );
+      const cached = await this.artifacts.findByHash(contentHash);
+      if (cached) {
+        await this.completeFromArtifact(compileJobId, version, cached);
+        console.log(`⚡ Compile cache hit for version ${version.id}`);
+        return;
+      }
+
+      console.log(`🔨 Compiling version ${version.id} with ${settings.engine.toLowerCase()} (job ${compileJobId})...`);
+      const files = await this.projectAssets.loadFiles(assets);
+      const result = await this.latexCompiler.compile(version.latexContent, settings, files);
+
+      if (!result.pdf) {
+        console.error(`❌ PDF was not generated for version ${version.id}`);
+        await this.failJob(
+          compileJobId,
+          version.id,
+          result.errors.length > 0 ? result.errors : ['PDF file was not generated'],
+          result.diagnostics,
+        );
+        return;
+      }
+
+      if (result.errors.length > 0) {
+        console.warn('⚠️ PDF created with warnings:', result.errors.join(', '));
+      }
+
+      // THUMBNAILS: First page as PNG for the dashboard and version picker
+      const thumbnail = await this.latexCompiler.renderThumbnail(result.pdf);
+
+      // Store PDF and thumbnail once per content (local disk, S3-compatible bucket or Cloudinary)
+      console.log(`Storing PDF (${this.storage.driverName})...`);
+      const artifact = await this.artifacts.createArtifact(contentHash, result, thumbnail);
+
+      // Per rules.md: Compilation ONLY updates the PDF reference and compile status
+      await this.completeFromArtifact(compileJobId, version, artifact);
+
+      console.log(`✅ Version ${version.id} compiled (${result.passes} pass${result.passes === 1 ? '' : 'es'})`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ Compile job ${compileJobId} failed:`, message);
+
+      if (context.isFinalAttempt) {
+        await this.failJob(compileJobId, version.id, [], [], message).catch((updateError) => {
+          console.error(`Failed to update compile job ${compileJobId} status:`, updateError);
+        });
+      } else {
+        await this.prisma.compileJob.update({
+          where: { id: compileJobId },
+          data: {
+            status: 'QUEUED',
+            errorMessage: `${message} (attempt ${context.attempt} of ${context.maxAttempts}, retrying)`,
+          },
+        }).catch((updateError) => {
+          console.error(`Failed to update compile job ${compileJobId} status:`, updateError);
+        });
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Link a version to a compiled artifact and complete the job
+   * The job reports the diagnostics and page metrics of the compile that produced the artifact
+   */
+  private async completeFromArtifact(
+    compileJobId: string,
+    version: { id: string; artifactId: string | null; pdfStorageKey: string | null; thumbnailKey: string | null },
+    artifact: CompileArtifact,
+  ): Promise<void> {
+    await this.prisma.$transaction([
+      ...this.artifacts.linkOperations(version, artifact),
+      this.prisma.compileJob.update({
+        where: { id: compileJobId },
+        data: {
+          status: 'COMPLETED',
+          engine: artifact.engine,
+          errors: artifact.errors,
+          diagnostics: artifact.diagnostics as Prisma.InputJsonValue,
+          pageCount: artifact.pageCount,
+          lastPageFill: artifact.lastPageFill,
+          overfullBoxes: artifact.overfullBoxes,
+          errorMessage: null,
+          finishedAt: new Date(),
+        },
+      }),
+    ]);
+
+    // Versions compiled before the cache owned their files; nothing references them now
+    await this.artifacts.deleteReplacedFiles(version);
+  }
+
+  /**
+   * Record a failed compile on the job and the version
+   */
+  private async failJob(
+    compileJobId: string,
+    versionId: string,
+    errors: string[],
+    diagnostics: CompileDiagnostic[],
+    errorMessage: string | null = null,
+  ): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.resumeVersion.update({
+        where: { id: versionId },
+        data: { compileStatus: 'ERROR' },
+      }),
+      this.prisma.compileJob.update({
+        where: { id: compileJobId },
+        data: {
+          status: 'FAILED',
+          errors,
+          diagnostics: diagnostics as unknown as Prisma.InputJsonValue,
+          errorMessage,
+          finishedAt: new Date(),
+        },
+      }),
+    ]);
+  }
+
+  private toStatusDto(job: CompileJob): CompileJobStatusDto {
+    let result: CompileJobStatusDto['result'] = null;
+    if (job.status === 'COMPLETED') {
+      result = job.errors.length > 0 ? 'warning' : 'success';
+    } else if (job.status === 'FAILED') {
+      result = 'error';
+    }
+
+    return {
+      jobId: job.id,
+      versionId: job.versionId,
+      status: job.status,
+      engine: job.engine,
+      result,
+      errors: job.errors,
+      diagnostics: job.diagnostics as unknown as CompileDiagnosticDto[],
+      pageCount: job.pageCount,
+      lastPageFill: job.lastPageFill,
+      overfullBoxes: job.overfullBoxes,
+      errorMessage: job.errorMessage,
+      createdAt: job.createdAt.toISOString(),
+      finishedAt: job.finishedAt?.toISOString() ?? null,
+    };
+  }
+}
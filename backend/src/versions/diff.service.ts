@@ -9,6 +9,10 @@ import * as Diff from 'diff';
  * - No semantic interpretation
  * - Line-based text comparison only
  * 
+ * PHASE 4: VERSION DIFF
+ * - Bullet-level diff used by GET /versions/diff
+ * - Adjacent removed/added runs are paired as rewrites
+ * 
  * Forbidden:
  * - No auto-accept
  * - No resume mutation
@@ -20,6 +24,12 @@ export interface DiffResult {
   unchanged: string[];
 }
 
+export interface BulletDiffResult {
+  added: string[];
+  removed: string[];
+  rewritten: Array<{ before: string; after: string }>;
+}
+
 @Injectable()
 export class DiffService {
   /**
@@ -109,4 +119,61 @@ export class DiffService {
       unchangedLines: diff.unchanged.length,
     };
   }
+
+  /**
+   * Generate bullet-level diff between two versions of a section
+   * 
+   * Each meaningful line is treated as a bullet. Structural lines
+   * (\begin/\end, bare macros, comments) are ignored so that only
+   * content changes are reported.
+   * 
+   * A removed run immediately followed by an added run is reported
+   * as rewritten pairs; any surplus lines stay added/removed.
+   * 
+   * @param beforeContent - Section content in the older version
+   * @param afterContent - Section content in the newer version
+   * @returns Added, removed and rewritten bullets
+   */
+  generateBulletDiff(beforeContent: string, afterContent: string): BulletDiffResult {
+    const changes = Diff.diffArrays(
+      this.extractBullets(beforeContent),
+      this.extractBullets(afterContent),
+    );
+
+    const result: BulletDiffResult = { added: [], removed: [], rewritten: [] };
+
+    for (let i = 0; i < changes.length; i++) {
+      const change = changes[i];
+      const next = changes[i + 1];
+
+      if (change.removed && next?.added) {
+        const pairCount = Math.min(change.value.length, next.value.length);
+        for (let j = 0; j < pairCount; j++) {
+          result.rewritten.push({ before: change.value[j], after: next.value[j] });
+        }
+        result.removed.push(...change.value.slice(pairCount));
+        result.added.push(...next.value.slice(pairCount));
+        i++; // Added run already consumed
+      } else if (change.added) {
+        result.added.push(...change.value);
+      } else if (change.removed) {
+        result.removed.push(...change.value);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Split section content into comparable bullet lines
+   */
+  private extractBullets(content: string): string[] {
+    return content
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0)
+      .filter(line => !line.startsWith('%'))
+      .filter(line => !/^\\(begin|end)\{[^}]*\}(\[[^\]]*\])?$/.test(line))
+      .filter(line => !/^\\[a-zA-Z]+\*?$/.test(line));
+  }
 }
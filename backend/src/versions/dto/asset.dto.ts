@@ -0,0 +1,31 @@
+import { IsString, IsOptional } from 'class-validator';
+
+/**
+ * Asset DTOs for ProjectAsset operations
+ *
+ * PROJECT ASSETS: Support files placed next to resume.tex at compile time
+ */
+
+/**
+ * Multipart fields of an asset upload (the file itself is the "file" part)
+ * From apis.md Section 3.7
+ *
+ * path defaults to the uploaded file name
+ */
+export class UploadAssetDto {
+  @IsString()
+  @IsOptional()
+  path?: string;
+}
+
+/**
+ * Response DTO for a project asset
+ * From apis.md Sections 3.6 and 3.7
+ */
+export class ProjectAssetDto {
+  assetId: string;
+  path: string;        // Relative to resume.tex, e.g. "fonts/Lato.ttf"
+  contentType: string;
+  size: number;        // Bytes
+  updatedAt: string;
+}
@@ -66,6 +66,15 @@ export class UpdateSectionDto {
   orderIndex?: number;
 }
 
+/**
+ * Lock/unlock request (PATCH /sections/:sectionId)
+ * SECTION LOCKS: Content is immutable, only the lock flag can change
+ */
+export class UpdateSectionLockDto {
+  @IsBoolean()
+  isLocked: boolean;
+}
+
 /**
  * Helper: Convert Prisma enum to DTO enum
  */
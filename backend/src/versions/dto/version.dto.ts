@@ -1,4 +1,13 @@
-import { IsString } from 'class-validator';
+import { IsString, IsOptional, IsIn, IsUUID, IsArray, IsBoolean, ValidateNested, MaxLength } from 'class-validator';
+import { Type } from 'class-transformer';
+import { SectionType } from './section.dto';
+
+/**
+ * Length limits of version annotations
+ */
+export const VERSION_MESSAGE_MAX_LENGTH = 500;
+export const VERSION_LABEL_MAX_LENGTH = 80;
+export const VERSION_NOTES_MAX_LENGTH = 5000;
 
 /**
  * Response DTO for getting a resume version
@@ -7,20 +16,80 @@ import { IsString } from 'class-validator';
 export class ResumeVersionDto {
   versionId: string;
   projectId: string;
-  type: 'BASE' | 'MANUAL' | 'AI_GENERATED';
-  status: 'DRAFT' | 'COMPILED' | 'ERROR' | 'ACTIVE';
+  type: 'BASE' | 'MANUAL' | 'AI_GENERATED' | 'RESTORED' | 'MERGED';
+  compileStatus: 'NOT_COMPILED' | 'COMPILED' | 'ERROR';
+  isActive: boolean; // ResumeProject.activeVersionId === versionId
+  activeVersionId: string | null; // Project's active version when read (sent back as expectedActiveVersionId on save)
   latexContent: string;
-  pdfUrl: string | null;
+  pdfUrl: string | null; // Legacy Cloudinary URL (versions compiled before pluggable storage)
+  hasPdf: boolean;        // PDF available via GET /versions/:versionId/download/pdf
+  message: string | null; // Commit message given on save
+  label: string | null;
+  notes: string | null;
   createdAt: string;
 }
 
 /**
  * DTO for saving manual resume edit
  * From apis.md Section 4.2
+ *
+ * STALE PARENT: expectedActiveVersionId is the active version the edit was based on;
+ * the save fails with 409 (SaveEditConflictDto) if another version became active meanwhile
  */
 export class SaveResumeEditDto {
   @IsString()
   latexContent: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(VERSION_MESSAGE_MAX_LENGTH)
+  message?: string; // Optional commit message (blank = none)
+
+  @IsUUID()
+  @IsOptional()
+  expectedActiveVersionId?: string; // Omitted: no check (the save always becomes active)
+
+  @IsBoolean()
+  @IsOptional()
+  activate?: boolean; // false: save as a branch, the active version stays as it is (default true)
+}
+
+/**
+ * DTO for editing the annotations of a version
+ * From apis.md Section 4.10
+ *
+ * Omitted fields are left unchanged; null or blank clears them.
+ * The LaTeX content of a version can never be changed.
+ */
+export class UpdateVersionAnnotationsDto {
+  @IsString()
+  @IsOptional()
+  @MaxLength(VERSION_LABEL_MAX_LENGTH)
+  label?: string | null;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(VERSION_NOTES_MAX_LENGTH)
+  notes?: string | null;
+}
+
+/**
+ * Query parameters for listing versions
+ * From apis.md Section 4.4
+ */
+export class ListVersionsQueryDto {
+  @IsString()
+  @IsOptional()
+  @MaxLength(200)
+  q?: string; // Case-insensitive search in message, label and notes
+
+  @IsIn(['true', 'false'])
+  @IsOptional()
+  labeled?: string; // "true": only labeled versions, "false": only unlabeled
+
+  @IsIn(['BASE', 'MANUAL', 'AI_GENERATED', 'RESTORED', 'MERGED'])
+  @IsOptional()
+  type?: 'BASE' | 'MANUAL' | 'AI_GENERATED' | 'RESTORED' | 'MERGED';
 }
 
 /**
@@ -31,13 +100,180 @@ export class SaveResumeEditResponseDto {
   newVersionId: string;
 }
 
+/**
+ * 409 response body of a stale save
+ * From apis.md Section 4.2
+ *
+ * Nothing was saved; activeVersion is the version that became active meanwhile
+ */
+export class SaveEditConflictDto {
+  statusCode: 409;
+  error: 'Conflict';
+  message: string;
+  expectedActiveVersionId: string;
+  activeVersionId: string | null;
+  activeVersion: VersionListItemDto | null;
+}
+
+/**
+ * Response DTO for restoring a version
+ * From apis.md Section 4.9
+ */
+export class RestoreVersionResponseDto {
+  newVersionId: string;
+  restoredFromVersionId: string;
+}
+
+/**
+ * DTO for merging two versions
+ * From apis.md Section 4.11
+ *
+ * theirs is merged into ours (ours becomes the first parent of the MERGED version).
+ * resolutions are only read by POST /versions/merge/apply.
+ */
+export class MergeVersionsDto {
+  @IsUUID()
+  oursVersionId: string;
+
+  @IsUUID()
+  theirsVersionId: string;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => MergeResolutionDto)
+  resolutions?: MergeResolutionDto[]; // One per CONFLICT section
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(VERSION_MESSAGE_MAX_LENGTH)
+  message?: string; // Commit message of the MERGED version (default: "Merge ...")
+}
+
+/**
+ * Content chosen for a conflicting section (empty string drops the section)
+ */
+export class MergeResolutionDto {
+  @IsString()
+  key: string; // MergeSectionDto.key
+
+  @IsString()
+  content: string;
+}
+
+/**
+ * Response DTO for a merge preview
+ * From apis.md Section 4.11
+ *
+ * mergedLatex is null while conflicts remain
+ */
+export class MergeResultDto {
+  oursVersionId: string;
+  theirsVersionId: string;
+  baseVersionId: string | null; // Common ancestor (null: no shared history, everything differing conflicts)
+  sections: MergeSectionDto[];
+  conflicts: string[]; // Keys of the CONFLICT sections
+  mergedLatex: string | null;
+}
+
+/**
+ * One unit of the three-way merge (preamble, a resume section or the postamble)
+ *
+ * - UNCHANGED: same in all three
+ * - OURS / THEIRS: changed on one side only, that side is taken
+ * - BOTH: changed identically on both sides
+ * - CONFLICT: changed differently on both sides (merged is null)
+ * null content = unit absent from that version
+ */
+export class MergeSectionDto {
+  key: string; // "PREAMBLE", "POSTAMBLE", sectionType, or "OTHER#2" for repeated types
+  sectionType: SectionType | null; // null for PREAMBLE / POSTAMBLE
+  status: 'UNCHANGED' | 'OURS' | 'THEIRS' | 'BOTH' | 'CONFLICT';
+  base: string | null;
+  ours: string | null;
+  theirs: string | null;
+  merged: string | null;
+}
+
+/**
+ * Response DTO for applying a merge
+ * From apis.md Section 4.11
+ */
+export class MergeVersionsResponseDto {
+  newVersionId: string;
+  baseVersionId: string | null;
+}
+
 /**
  * Response DTO for compiling a resume version
  * From apis.md Section 4.3
+ *
+ * Compilation runs asynchronously; poll GET /versions/compile-jobs/:jobId
  */
 export class CompileResumeResponseDto {
-  status: 'success' | 'warning' | 'error';
+  jobId: string;
+  status: 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+}
+
+/**
+ * Response DTO for getting compile job status
+ * From apis.md Section 4.7
+ */
+export class CompileJobStatusDto {
+  jobId: string;
+  versionId: string;
+  status: 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+  engine: 'PDFLATEX' | 'XELATEX' | 'LUALATEX'; // TeX engine the result is built with
+  result: 'success' | 'warning' | 'error' | null; // null while QUEUED/RUNNING
+  errors: string[];            // LaTeX log errors (warnings when result is 'warning')
+  diagnostics: CompileDiagnosticDto[];
+  pageCount: number | null;    // Pages of the PDF (null until COMPLETED)
+  lastPageFill: number | null; // 0-1, how far content reaches down the last page
+  overfullBoxes: number;       // Overfull \hbox/\vbox warnings (content sticking out)
+  errorMessage: string | null; // Infrastructure failure (storage, retries)
+  createdAt: string;
+  finishedAt: string | null;
+}
+
+/**
+ * Problem parsed from the pdflatex log
+ * From apis.md Section 4.7
+ *
+ * line is a line of the version's LaTeX (null when it points into a package)
+ */
+export class CompileDiagnosticDto {
+  line: number | null;
+  severity: 'error' | 'warning';
+  message: string;
+  context: string | null;
+}
+
+/**
+ * DTO for compiling an unsaved draft
+ * From apis.md Section 3.3
+ */
+export class PreviewCompileDto {
+  @IsString()
+  latexContent: string;
+}
+
+/**
+ * Response DTO for a draft preview compile
+ * From apis.md Section 3.3
+ *
+ * PDF available via GET /projects/:projectId/preview/:previewId until expiresAt
+ */
+export class PreviewCompileResponseDto {
+  previewId: string;
+  engine: 'PDFLATEX' | 'XELATEX' | 'LUALATEX';
+  result: 'success' | 'warning' | 'error';
+  hasPdf: boolean;
   errors: string[];
+  diagnostics: CompileDiagnosticDto[];
+  pageCount: number | null;
+  lastPageFill: number | null;
+  overfullBoxes: number;
+  expiresAt: string;
 }
 
 /**
@@ -45,6 +281,20 @@ export class CompileResumeResponseDto {
  * From apis.md Section 7.1
  */
 export class VersionDiffDto {
+  fromVersionId: string;
+  toVersionId: string;
+  added: string[];
+  removed: string[];
+  rewritten: Array<{ before: string; after: string }>;
+  sections: SectionDiffDto[];
+}
+
+/**
+ * Per-section breakdown of a version diff
+ * PHASE 4: Section-aware diff (only sections with changes are listed)
+ */
+export class SectionDiffDto {
+  sectionType: SectionType;
   added: string[];
   removed: string[];
   rewritten: Array<{ before: string; after: string }>;
@@ -57,8 +307,66 @@ export class VersionDiffDto {
 export class VersionListItemDto {
   versionId: string;
   projectId: string;
-  type: 'BASE' | 'MANUAL' | 'AI_GENERATED';
-  status: 'DRAFT' | 'COMPILED' | 'ERROR' | 'ACTIVE';
+  type: 'BASE' | 'MANUAL' | 'AI_GENERATED' | 'RESTORED' | 'MERGED';
+  compileStatus: 'NOT_COMPILED' | 'COMPILED' | 'ERROR';
+  isActive: boolean; // ResumeProject.activeVersionId === versionId
+  createdAt: string;
+  parentVersionId: string | null;
+  hasThumbnail: boolean; // First-page PNG via GET /versions/:versionId/thumbnail
+  message: string | null;
+  label: string | null;
+  notes: string | null;
+}
+
+/**
+ * Response DTO for the version tree of a project
+ * From apis.md Section 4.8
+ *
+ * nodes are ordered oldest first; every edge points from a parent to its child
+ * (restores and merge second parents are not edges: see VersionTreeNodeDto
+ * restoredFromVersionId / mergedFromVersionId)
+ */
+export class VersionTreeDto {
+  projectId: string;
+  activeVersionId: string | null;
+  nodes: VersionTreeNodeDto[];
+  edges: VersionTreeEdgeDto[];
+}
+
+/**
+ * Version in the tree (fields of 4.4 plus where AI versions came from)
+ */
+export class VersionTreeNodeDto {
+  versionId: string;
+  type: 'BASE' | 'MANUAL' | 'AI_GENERATED' | 'RESTORED' | 'MERGED';
+  compileStatus: 'NOT_COMPILED' | 'COMPILED' | 'ERROR';
+  isActive: boolean;
   createdAt: string;
   parentVersionId: string | null;
+  hasThumbnail: boolean;
+  message: string | null;
+  label: string | null;
+  notes: string | null;
+  restoredFromVersionId: string | null; // RESTORED versions: whose content they bring back
+  mergedFromVersionId: string | null;   // MERGED versions: second parent, merged into parentVersionId
+  aiJob: VersionTreeAiJobDto | null; // null for non-AI versions and AI versions accepted before the link existed
+}
+
+/**
+ * AI job (and its JD) an AI_GENERATED version was accepted from
+ */
+export class VersionTreeAiJobDto {
+  aiJobId: string;
+  mode: 'MINIMAL' | 'BALANCED' | 'AGGRESSIVE' | 'FIT_TO_PAGE';
+  jdId: string | null;
+  jdRoleType: string | null;  // From the JD analysis, e.g. "Backend Engineer"
+  jdSeniority: string | null;
+}
+
+/**
+ * parentVersionId link between two versions
+ */
+export class VersionTreeEdgeDto {
+  fromVersionId: string; // Parent
+  toVersionId: string;   // Child
 }
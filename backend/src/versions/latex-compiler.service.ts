@@ -0,0 +1,652 @@
+import { Injectable } from '@nestjs/common';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { BibliographyTool, LatexEngine } from '@prisma/client';
+
+/**
+ * One problem found in the TeX (or bibliography) log
+ * line is a line of the compiled source (null if it points into a package or is unknown)
+ */
+export interface CompileDiagnostic {
+  line: number | null;
+  severity: 'error' | 'warning';
+  message: string;
+  context: string | null; // Source text up to the error (TeX "l.<n>" line)
+}
+
+/**
+ * Project compile settings (ResumeProject.latexEngine / bibliographyTool)
+ */
+export interface CompileSettings {
+  engine: LatexEngine;
+  bibliographyTool: BibliographyTool;
+}
+
+/**
+ * Extra file written next to resume.tex (project asset)
+ * path is relative and already validated (ProjectAssetsService)
+ */
+export interface CompileInputFile {
+  path: string;
+  content: Buffer;
+}
+
+/**
+ * Page layout of a compiled PDF
+ * pageCount is null without PDF, lastPageFill (0-1) null when it could not be measured
+ */
+export interface PageMetrics {
+  pageCount: number | null;
+  lastPageFill: number | null;
+  overfullBoxes: number;
+}
+
+export const DEFAULT_COMPILE_SETTINGS: CompileSettings = {
+  engine: 'PDFLATEX',
+  bibliographyTool: 'NONE',
+};
+
+/**
+ * Result of one sandboxed compile
+ * pdf is null when the engine produced no PDF
+ * errors lists the error diagnostics as text (kept for the compile job's errors column)
+ * engine is the TeX engine used, passes the number of engine runs
+ * metrics describes the page layout of the final run
+ */
+export interface LatexCompileResult {
+  pdf: Buffer | null;
+  errors: string[];
+  diagnostics: CompileDiagnostic[];
+  timedOut: boolean;
+  engine: LatexEngine;
+  passes: number;
+  metrics: PageMetrics;
+}
+
+/**
+ * Sandbox limits (env, per compile)
+ */
+interface SandboxLimits {
+  timeoutMs: number;
+  cpuSeconds: number;
+  memoryMb: number;
+  maxOutputMb: number;
+}
+
+/**
+ * Runs the command given as "$@" after applying resource limits
+ * (POSIX sh: -t CPU seconds, -v address space in KB, -f file size in 512-byte blocks)
+ */
+const LIMITED_EXEC_SCRIPT = 'ulimit -t "$1" && ulimit -v "$2" && ulimit -f "$3" || exit 125; shift 3; exec "$@"';
+
+const ENGINE_COMMANDS: Record<LatexEngine, string> = {
+  PDFLATEX: 'pdflatex',
+  XELATEX: 'xelatex',
+  LUALATEX: 'lualatex',
+};
+
+/**
+ * PAGE METRICS: Reports how full the last page is when the document ends
+ * (\penalty moves the pending material onto the page so \pagetotal is current)
+ */
+const METRICS_HOOK = '\\AtEndDocument{\\par\\penalty10000\\typeout{RESUME-METRICS: used=\\the\\pagetotal; goal=\\the\\pagegoal}}';
+
+const ENGINE_ARGS = [
+  '-interaction=nonstopmode',
+  '-no-shell-escape',
+  '-file-line-error',
+  '-output-directory=.',
+  '-jobname=resume',
+  `${METRICS_HOOK}\\input{resume.tex}`,
+];
+
+const BIBLIOGRAPHY_COMMANDS: Record<Exclude<BibliographyTool, 'NONE'>, string> = {
+  BIBTEX: 'bibtex',
+  BIBER: 'biber',
+};
+
+/**
+ * THUMBNAILS: First page rendered to PNG by pdftoppm (poppler-utils)
+ */
+const THUMBNAIL_COMMAND = 'pdftoppm';
+const THUMBNAIL_WIDTH_PX = 480;
+const THUMBNAIL_TIMEOUT_MS = 10000;
+
+/**
+ * Upper bound on engine runs per compile (first run + reruns)
+ */
+const MAX_ENGINE_PASSES = parseInt(process.env.COMPILE_MAX_PASSES || '5', 10);
+
+const MAX_DIAGNOSTICS = 50;
+
+// Exit codes of the sandbox wrapper
+const EXIT_LIMITS_FAILED = 125;
+const EXIT_COMMAND_NOT_FOUND = 127;
+
+// Rerun requests in the engine log (LaTeX kernel, rerunfilecheck, biblatex, lastpage)
+const RERUN_REQUIRED = /Rerun to get|Label\(s\) may have changed|rerun LaTeX/i;
+
+// Bibliography inputs
+const BIBTEX_DATABASE = /\\bibdata\{/;
+const BIBER_DATASOURCE = /<bcf:datasource[^>]*>([^<]*)<\/bcf:datasource>/g;
+// Relative path like a project asset path; ":" and "\" are refused too (URLs, drive letters)
+const LOCAL_FILE_NAME = /^(?:[^./:\\\u0000-\u001f][^/:\\\u0000-\u001f]*\/)*[^./:\\\u0000-\u001f][^/:\\\u0000-\u001f]*$/;
+
+// Bibliography log (.blg) problems: biber "ERROR - "/"WARN - ", bibtex "Warning--" and fatal messages
+const BLG_ERROR = /^(?:ERROR - (.*)|(I couldn't .*|I found no .*))$/;
+const BLG_WARNING = /^(?:WARN - (.*)|Warning--(.*))$/;
+
+// Log line patterns (-file-line-error, max_print_line raised so lines are not wrapped)
+const MAIN_FILE_ERROR = /^(?:\.\/)?resume\.tex:(\d+): (.*)$/;
+const OTHER_FILE_ERROR = /^(\S+\.(?:sty|cls|def|cfg|clo|fd|tex)):(\d+): (.*)$/;
+const BARE_ERROR = /^! (.*)$/;
+const CONTEXT_LINE = /^l\.(\d+) (.*)$/;
+const BOX_WARNING = /^(Overfull \\[hv]box \([^)]*\))(?: in (?:paragraph|alignment) at lines (\d+)--\d+| detected at line (\d+)|.*)/;
+const GENERIC_WARNING = /^((?:LaTeX|Package \S+|Class \S+)(?: Font)? Warning: .*)$/;
+const MISSING_FILE = /File `([^']+)' not found/;
+const INPUT_LINE = /on input line (\d+)\.?/;
+
+// Page metrics ("Output written on resume.pdf (2 pages, 51234 bytes)." and METRICS_HOOK)
+const OUTPUT_WRITTEN = /^Output written on \S+ \((\d+) pages?/m;
+const PAGE_FILL = /^RESUME-METRICS: used=(-?[\d.]+)pt; goal=([\d.]+)pt$/m;
+const OVERFULL_BOX = /^Overfull \\[hv]box/gm;
+const MAX_DIMEN_PT = 16383;
+
+/**
+ * LaTeX Compiler Service
+ *
+ * COMPILE SANDBOX: Runs pdflatex / xelatex / lualatex on untrusted user LaTeX
+ * - Fresh mkdtemp directory per compile (concurrent compiles never share files),
+ *   project assets written next to resume.tex
+ * - kpathsea paranoid mode: openin_any=p / openout_any=p, so \input{/etc/passwd},
+ *   dot files and parent directories are refused; shell_escape=f
+ * - Minimal environment (no backend secrets), HOME/TEXMFOUTPUT inside the sandbox
+ * - CPU, memory and output size limits via ulimit per process, one wall-clock
+ *   timeout for the whole build kills the process group
+ *
+ * MULTI-PASS BUILDS: latexmk-style
+ * - Engine run, then bibtex/biber when the project enables it and the document uses it
+ * - Engine rerun after a bibliography pass, and while the log asks for a rerun
+ *   (cross-references, \pageref{LastPage}), at most COMPILE_MAX_PASSES runs
+ * - biber data sources must be plain files in the sandbox (biber ignores kpathsea paranoia)
+ *
+ * PAGE METRICS: Page count, last page fill and overfull boxes are read from the final log
+ *
+ * THUMBNAILS: renderThumbnail() rasterizes the first page of a compiled PDF in its own sandbox
+ *
+ * CONCURRENCY: At most COMPILE_CONCURRENCY compiles run at once per backend instance,
+ * whoever calls (compile queue, draft previews, FIT_TO_PAGE AI jobs); further compiles
+ * wait for a slot (first come, first served) and their timeout starts once they run
+ *
+ * Forbidden:
+ * - No database or storage access here (CompileJobsService owns the rows)
+ */
+@Injectable()
+export class LatexCompilerService {
+  private readonly limits: SandboxLimits = {
+    timeoutMs: parseInt(process.env.COMPILE_TIMEOUT_MS || '30000', 10),
+    cpuSeconds: parseInt(process.env.COMPILE_CPU_SECONDS || '20', 10),
+    memoryMb: parseInt(process.env.COMPILE_MEMORY_MB || '1024', 10),
+    maxOutputMb: parseInt(process.env.COMPILE_MAX_OUTPUT_MB || '50', 10),
+  };
+  private readonly maxConcurrent = parseInt(process.env.COMPILE_CONCURRENCY || '2', 10);
+  private running = 0;
+  private readonly waiting: Array<() => void> = [];
+
+  /**
+   * Everything besides the source that changes the produced PDF
+   * COMPILE CACHE: part of the artifact content hash
+   */
+  settingsFingerprint(settings: CompileSettings = DEFAULT_COMPILE_SETTINGS): string {
+    const parts = [ENGINE_COMMANDS[settings.engine], ...ENGINE_ARGS];
+    if (settings.bibliographyTool !== 'NONE') {
+      parts.push(`+${BIBLIOGRAPHY_COMMANDS[settings.bibliographyTool]}`);
+    }
+    return parts.join(' ');
+  }
+
+  /**
+   * Compile LaTeX source to PDF inside a throwaway sandbox directory
+   * Waits for a compile slot; the directory is always removed afterwards
+   */
+  async compile(
+    latexContent: string,
+    settings: CompileSettings = DEFAULT_COMPILE_SETTINGS,
+    files: CompileInputFile[] = [],
+  ): Promise<LatexCompileResult> {
+    await this.acquireSlot();
+    try {
+      return await this.runCompile(latexContent, settings, files);
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  private async runCompile(
+    latexContent: string,
+    settings: CompileSettings,
+    files: CompileInputFile[],
+  ): Promise<LatexCompileResult> {
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'resume-compile-'));
+    const texFilePath = path.join(workDir, 'resume.tex');
+    const pdfFilePath = path.join(workDir, 'resume.pdf');
+    const logFilePath = path.join(workDir, 'resume.log');
+    const engineCommand = ENGINE_COMMANDS[settings.engine];
+    const deadline = Date.now() + this.limits.timeoutMs;
+
+    try {
+      for (const file of files) {
+        const filePath = path.resolve(workDir, file.path);
+        if (!filePath.startsWith(workDir + path.sep)) {
+          throw new Error(`Asset path escapes the sandbox: ${file.path}`);
+        }
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(filePath, file.content);
+      }
+
+      await fs.promises.writeFile(texFilePath, latexContent, 'utf-8');
+
+      let { exitCode, timedOut } = await this.runSandboxed(workDir, engineCommand, ENGINE_ARGS, deadline);
+      let passes = 1;
+      let rerun = false;
+      let bibliographyDiagnostics: CompileDiagnostic[] = [];
+
+      if (exitCode === 0 && settings.bibliographyTool !== 'NONE') {
+        const bibliography = await this.runBibliography(workDir, settings.bibliographyTool, deadline);
+        bibliographyDiagnostics = bibliography.diagnostics;
+        timedOut = bibliography.timedOut;
+        rerun = bibliography.ran;
+      }
+
+      // Reruns only help a successful run (errors do not go away on a second pass)
+      while (exitCode === 0 && !timedOut && passes < MAX_ENGINE_PASSES) {
+        if (!rerun) {
+          const log = await fs.promises.readFile(logFilePath, 'utf-8').catch(() => '');
+          if (!RERUN_REQUIRED.test(log)) break;
+        }
+
+        ({ exitCode, timedOut } = await this.runSandboxed(workDir, engineCommand, ENGINE_ARGS, deadline));
+        passes++;
+        rerun = false;
+      }
+
+      const pdf = await fs.promises.readFile(pdfFilePath).catch(() => null);
+      const logContent = await fs.promises.readFile(logFilePath, 'utf-8').catch(() => null);
+      const diagnostics = [
+        ...(logContent ? this.parseDiagnostics(logContent) : []),
+        ...bibliographyDiagnostics,
+      ].slice(0, MAX_DIAGNOSTICS);
+      let errors: string[] = [];
+
+      if (timedOut) {
+        errors = [`Compilation timed out after ${Math.round(this.limits.timeoutMs / 1000)} seconds`];
+      } else if (exitCode === EXIT_LIMITS_FAILED) {
+        errors = ['Could not apply compile sandbox limits'];
+      } else if (exitCode === EXIT_COMMAND_NOT_FOUND) {
+        errors = [`${engineCommand} is not installed on the compile server`];
+      } else if (exitCode !== 0) {
+        errors = diagnostics
+          .filter((diagnostic) => diagnostic.severity === 'error')
+          .slice(0, 5)
+          .map((diagnostic) => diagnostic.line ? `Line ${diagnostic.line}: ${diagnostic.message}` : diagnostic.message);
+
+        if (errors.length === 0) {
+          errors = [logContent ? 'LaTeX compilation failed. Check your syntax.' : 'Could not read compilation log'];
+        }
+      } else {
+        // PDF built, but a failed bibliography pass leaves citations undefined
+        errors = bibliographyDiagnostics
+          .filter((diagnostic) => diagnostic.severity === 'error')
+          .slice(0, 5)
+          .map((diagnostic) => diagnostic.message);
+      }
+
+      return {
+        pdf: timedOut ? null : pdf,
+        errors,
+        diagnostics,
+        timedOut,
+        engine: settings.engine,
+        passes,
+        metrics: this.parsePageMetrics(logContent ?? '', !timedOut && !!pdf),
+      };
+    } finally {
+      await fs.promises.rm(workDir, { recursive: true, force: true }).catch((error) => {
+        console.error(`Failed to clean up compile sandbox ${workDir}:`, error);
+      });
+    }
+  }
+
+  private async acquireSlot(): Promise<void> {
+    if (this.running < this.maxConcurrent) {
+      this.running++;
+      return;
+    }
+    await new Promise<void>((resolve) => this.waiting.push(resolve));
+  }
+
+  private releaseSlot(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next(); // Slot handed over, running count unchanged
+    } else {
+      this.running--;
+    }
+  }
+
+  /**
+   * Render the first page of a PDF as a PNG thumbnail (THUMBNAIL_WIDTH_PX wide)
+   * Returns null if rendering fails or pdftoppm is missing; a thumbnail never fails a compile
+   */
+  async renderThumbnail(pdf: Buffer): Promise<Buffer | null> {
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'resume-thumbnail-'));
+
+    try {
+      await fs.promises.writeFile(path.join(workDir, 'resume.pdf'), pdf);
+
+      const { exitCode, timedOut } = await this.runSandboxed(
+        workDir,
+        THUMBNAIL_COMMAND,
+        ['-png', '-f', '1', '-l', '1', '-singlefile', '-scale-to-x', String(THUMBNAIL_WIDTH_PX), '-scale-to-y', '-1', 'resume.pdf', 'resume.thumb'],
+        Date.now() + THUMBNAIL_TIMEOUT_MS,
+      );
+
+      if (exitCode !== 0 || timedOut) {
+        console.warn(`⚠️ Thumbnail rendering failed (${timedOut ? 'timeout' : `exit code ${exitCode}`})`);
+        return null;
+      }
+
+      return await fs.promises.readFile(path.join(workDir, 'resume.thumb.png')).catch(() => null);
+    } finally {
+      await fs.promises.rm(workDir, { recursive: true, force: true }).catch((error) => {
+        console.error(`Failed to clean up thumbnail sandbox ${workDir}:`, error);
+      });
+    }
+  }
+
+  /**
+   * Run bibtex or biber on resume.aux / resume.bcf
+   * Skipped (ran: false) when the document has no bibliography for that tool
+   */
+  private async runBibliography(
+    workDir: string,
+    tool: Exclude<BibliographyTool, 'NONE'>,
+    deadline: number,
+  ): Promise<{ ran: boolean; timedOut: boolean; diagnostics: CompileDiagnostic[] }> {
+    const command = BIBLIOGRAPHY_COMMANDS[tool];
+
+    if (tool === 'BIBTEX') {
+      const aux = await fs.promises.readFile(path.join(workDir, 'resume.aux'), 'utf-8').catch(() => '');
+      if (!BIBTEX_DATABASE.test(aux)) {
+        return { ran: false, timedOut: false, diagnostics: [] };
+      }
+    } else {
+      const bcf = await fs.promises.readFile(path.join(workDir, 'resume.bcf'), 'utf-8').catch(() => null);
+      if (bcf === null) {
+        return { ran: false, timedOut: false, diagnostics: [] };
+      }
+
+      const outside = [...bcf.matchAll(BIBER_DATASOURCE)]
+        .map((match) => match[1].trim())
+        .find((source) => !LOCAL_FILE_NAME.test(source));
+      if (outside !== undefined) {
+        return {
+          ran: false,
+          timedOut: false,
+          diagnostics: [{
+            line: null,
+            severity: 'error',
+            message: `biber: bibliography "${outside}" must be a file in the project`,
+            context: null,
+          }],
+        };
+      }
+    }
+
+    // --noconf: a biber.conf written by the document (filecontents) must not reconfigure biber
+    const args = tool === 'BIBER' ? ['--noconf', 'resume'] : ['resume'];
+    const { exitCode, timedOut } = await this.runSandboxed(workDir, command, args, deadline);
+    if (exitCode === EXIT_COMMAND_NOT_FOUND) {
+      return {
+        ran: false,
+        timedOut,
+        diagnostics: [{
+          line: null,
+          severity: 'error',
+          message: `${command} is not installed on the compile server`,
+          context: null,
+        }],
+      };
+    }
+
+    const blg = await fs.promises.readFile(path.join(workDir, 'resume.blg'), 'utf-8').catch(() => '');
+    const diagnostics = this.parseBibliographyLog(command, blg);
+
+    if (exitCode !== 0 && !timedOut && !diagnostics.some((diagnostic) => diagnostic.severity === 'error')) {
+      diagnostics.push({ line: null, severity: 'error', message: `${command} failed`, context: null });
+    }
+
+    return { ran: true, timedOut, diagnostics };
+  }
+
+  /**
+   * Run a TeX tool in the sandbox directory with sandbox settings
+   * The timeout is whatever is left until the build deadline
+   * Resolves with the exit code (null if killed) and whether the timeout fired
+   */
+  private runSandboxed(
+    workDir: string,
+    command: string,
+    commandArgs: string[],
+    deadline: number,
+  ): Promise<{ exitCode: number | null; timedOut: boolean }> {
+    const args = [
+      '-c',
+      LIMITED_EXEC_SCRIPT,
+      'sh',
+      String(this.limits.cpuSeconds),
+      String(this.limits.memoryMb * 1024),
+      String(this.limits.maxOutputMb * 2048),
+      command,
+      ...commandArgs,
+    ];
+
+    return new Promise((resolve, reject) => {
+      const child = spawn('/bin/sh', args, {
+        cwd: workDir,
+        env: {
+          PATH: process.env.PATH,
+          HOME: workDir,
+          TEXMFOUTPUT: workDir,
+          TEXMFVAR: path.join(workDir, 'texmf-var'),
+          openin_any: 'p',
+          openout_any: 'p',
+          shell_escape: 'f',
+          max_print_line: '10000', // Unwrapped log lines for parseDiagnostics
+        },
+        stdio: 'ignore',
+        detached: true, // Own process group, so the timeout kills the TeX process too
+      });
+
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        try {
+          process.kill(-child.pid, 'SIGKILL');
+        } catch {
+          // Already exited
+        }
+      }, Math.max(deadline - Date.now(), 0));
+
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+
+      child.on('close', (exitCode) => {
+        clearTimeout(timer);
+        resolve({ exitCode, timedOut });
+      });
+    });
+  }
+
+  /**
+   * Read the page layout from the engine log
+   * lastPageFill is the used height of the last page over its text height
+   * (null when the document ended on an empty page or the hook did not run)
+   */
+  private parsePageMetrics(logContent: string, hasPdf: boolean): PageMetrics {
+    const output = hasPdf ? logContent.match(OUTPUT_WRITTEN) : null;
+    const fill = output ? logContent.match(PAGE_FILL) : null;
+    let lastPageFill: number | null = null;
+
+    if (fill) {
+      const used = parseFloat(fill[1]);
+      const goal = parseFloat(fill[2]);
+      if (goal > 0 && goal < MAX_DIMEN_PT) {
+        lastPageFill = Math.round(Math.min(Math.max(used / goal, 0), 1) * 100) / 100;
+      }
+    }
+
+    return {
+      pageCount: output ? parseInt(output[1], 10) : null,
+      lastPageFill,
+      overfullBoxes: (logContent.match(OVERFULL_BOX) || []).length,
+    };
+  }
+
+  /**
+   * Parse a bibtex/biber log (.blg) into diagnostics (no source lines: they point into the .bib)
+   */
+  private parseBibliographyLog(command: string, blgContent: string): CompileDiagnostic[] {
+    const diagnostics: CompileDiagnostic[] = [];
+
+    for (const line of blgContent.split('\n').map((line) => line.replace(/\r$/, '').replace(/^\[\d+\] \S+:\d+> /, ''))) {
+      const error = line.match(BLG_ERROR);
+      const warning = error ? null : line.match(BLG_WARNING);
+      if (!error && !warning) continue;
+
+      diagnostics.push({
+        line: null,
+        severity: error ? 'error' : 'warning',
+        message: `${command}: ${(error ? error[1] ?? error[2] : warning[1] ?? warning[2]).trim()}`,
+        context: null,
+      });
+      if (diagnostics.length >= MAX_DIAGNOSTICS) break;
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Parse the engine log into diagnostics
+   *
+   * - Errors: "resume.tex:<line>: <message>" (-file-line-error) or "! <message>",
+   *   with the following "l.<n> <text>" line as context
+   * - Missing packages: "File `x.sty' not found" errors are reported as such
+   * - Warnings: Overfull \hbox/\vbox and LaTeX/Package/Class warnings
+   *   (continuation lines joined, "on input line <n>" used as line)
+   */
+  private parseDiagnostics(logContent: string): CompileDiagnostic[] {
+    const lines = logContent.split('\n').map((line) => line.replace(/\r$/, ''));
+    const diagnostics: CompileDiagnostic[] = [];
+    const seen = new Set<string>();
+
+    const add = (diagnostic: CompileDiagnostic) => {
+      const key = `${diagnostic.severity}:${diagnostic.line}:${diagnostic.message}`;
+      if (seen.has(key) || diagnostics.length >= MAX_DIAGNOSTICS) return;
+      seen.add(key);
+      diagnostics.push(diagnostic);
+    };
+
+    // Context ("l.<n> <text>") follows an error within a few lines
+    const findContext = (from: number): { line: number; text: string } | null => {
+      for (let i = from + 1; i < Math.min(lines.length, from + 12); i++) {
+        const match = lines[i].match(CONTEXT_LINE);
+        if (match) return { line: parseInt(match[1], 10), text: match[2].trim() };
+        if (MAIN_FILE_ERROR.test(lines[i]) || BARE_ERROR.test(lines[i])) break;
+      }
+      return null;
+    };
+
+    const describe = (message: string): string => {
+      const missing = message.match(MISSING_FILE);
+      if (missing && missing[1].endsWith('.sty')) {
+        return `Missing package "${missing[1].replace(/\.sty$/, '')}" (${missing[1]} not found)`;
+      }
+      return message.replace(/^LaTeX Error: /, '').replace(/\s+/g, ' ').trim();
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+
+      const mainError = line.match(MAIN_FILE_ERROR);
+      if (mainError) {
+        const context = findContext(i);
+        add({
+          line: parseInt(mainError[1], 10),
+          severity: 'error',
+          message: describe(mainError[2]),
+          context: context?.text ?? null,
+        });
+        continue;
+      }
+
+      const otherError = line.match(OTHER_FILE_ERROR);
+      if (otherError) {
+        add({
+          line: null,
+          severity: 'error',
+          message: `${path.basename(otherError[1])}:${otherError[2]}: ${describe(otherError[3])}`,
+          context: null,
+        });
+        continue;
+      }
+
+      const bareError = line.match(BARE_ERROR);
+      if (bareError) {
+        const context = findContext(i);
+        add({
+          line: context?.line ?? null,
+          severity: 'error',
+          message: describe(bareError[1]),
+          context: context?.text ?? null,
+        });
+        continue;
+      }
+
+      const boxWarning = line.match(BOX_WARNING);
+      if (boxWarning) {
+        const sourceLine = boxWarning[2] ?? boxWarning[3];
+        add({
+          line: sourceLine ? parseInt(sourceLine, 10) : null,
+          severity: 'warning',
+          message: boxWarning[1],
+          context: null,
+        });
+        continue;
+      }
+
+      const warning = line.match(GENERIC_WARNING);
+      if (warning) {
+        // Join continuation lines (until a blank line), dropping "(package)" prefixes
+        let message = warning[1];
+        while (i + 1 < lines.length && lines[i + 1].trim() !== '') {
+          message += ' ' + lines[++i].replace(/^\([^)]*\)/, '').trim();
+        }
+
+        const inputLine = message.match(INPUT_LINE);
+        add({
+          line: inputLine ? parseInt(inputLine[1], 10) : null,
+          severity: 'warning',
+          message: describe(message),
+          context: null,
+        });
+      }
+    }
+
+    return diagnostics;
+  }
+}
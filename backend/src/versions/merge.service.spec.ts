@@ -0,0 +1,231 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { BadRequestException } from '@nestjs/common';
+import { MergeService, POSTAMBLE_KEY, PREAMBLE_KEY } from './merge.service';
+import { LatexParserService } from './latex-parser.service';
+import { MergeSectionDto } from './dto/version.dto';
+
+const PREAMBLE = '\\documentclass{article}';
+
+/**
+ * Marker-format document (the format assembleSections writes)
+ */
+function doc(sections: Array<[string, string]>, preamble = PREAMBLE): string {
+  const body = sections
+    .map(([type, content]) => `% SECTION: ${type}\n${content}\n% END SECTION\n`)
+    .join('\n');
+  return `${preamble}\n\\begin{document}\n${body}\\end{document}\n`;
+}
+
+const byKey = (sections: MergeSectionDto[]) => new Map(sections.map((section) => [section.key, section]));
+
+const statuses = (sections: MergeSectionDto[]) =>
+  Object.fromEntries(sections.map((section) => [section.key, section.status]));
+
+describe('MergeService', () => {
+  let parser: LatexParserService;
+  let service: MergeService;
+
+  beforeEach(() => {
+    mock.method(console, 'log', () => undefined);
+    mock.method(console, 'warn', () => undefined);
+
+    parser = new LatexParserService();
+    service = new MergeService(parser);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  describe('mergeThreeWay', () => {
+    it('decides each section from base, ours and theirs', () => {
+      const base = doc([
+        ['EDUCATION', 'edu'],
+        ['EXPERIENCE', 'exp'],
+        ['SKILLS', 'skills'],
+        ['PROJECTS', 'projects'],
+        ['ACHIEVEMENTS', 'awards'],
+      ]);
+      const ours = doc([
+        ['EDUCATION', 'edu'],
+        ['EXPERIENCE', 'exp (ours)'],
+        ['SKILLS', 'skills'],
+        ['PROJECTS', 'projects v2'],
+        ['ACHIEVEMENTS', 'awards (ours)'],
+      ]);
+      const theirs = doc([
+        ['EDUCATION', 'edu'],
+        ['EXPERIENCE', 'exp'],
+        ['SKILLS', 'skills (theirs)'],
+        ['PROJECTS', 'projects v2'],
+        ['ACHIEVEMENTS', 'awards (theirs)'],
+      ]);
+
+      const sections = service.mergeThreeWay(base, ours, theirs);
+
+      assert.deepEqual(statuses(sections), {
+        [PREAMBLE_KEY]: 'UNCHANGED',
+        EDUCATION: 'UNCHANGED',
+        EXPERIENCE: 'OURS',
+        SKILLS: 'THEIRS',
+        PROJECTS: 'BOTH',
+        ACHIEVEMENTS: 'CONFLICT',
+        [POSTAMBLE_KEY]: 'UNCHANGED',
+      });
+
+      const merged = byKey(sections);
+      assert.equal(merged.get('EXPERIENCE').merged, 'exp (ours)');
+      assert.equal(merged.get('SKILLS').merged, 'skills (theirs)');
+      assert.equal(merged.get('PROJECTS').merged, 'projects v2');
+      assert.equal(merged.get('ACHIEVEMENTS').merged, null);
+      assert.equal(merged.get('ACHIEVEMENTS').ours, 'awards (ours)');
+      assert.equal(merged.get('ACHIEVEMENTS').theirs, 'awards (theirs)');
+      assert.equal(merged.get('ACHIEVEMENTS').base, 'awards');
+    });
+
+    it('ignores whitespace at the ends of a section', () => {
+      const base = doc([['SKILLS', 'skills']]);
+      const theirs = doc([['SKILLS', '  skills\n\n']]);
+
+      assert.equal(byKey(service.mergeThreeWay(base, base, theirs)).get('SKILLS').status, 'UNCHANGED');
+    });
+
+    it('takes sections added or removed on one side', () => {
+      const base = doc([
+        ['EDUCATION', 'edu'],
+        ['EXPERIENCE', 'exp'],
+        ['SKILLS', 'skills'],
+      ]);
+      const ours = doc([
+        ['EDUCATION', 'edu'],
+        ['EXPERIENCE', 'exp'],
+      ]);
+      const theirs = doc([
+        ['EDUCATION', 'edu'],
+        ['PROJECTS', 'projects'],
+        ['EXPERIENCE', 'exp'],
+        ['SKILLS', 'skills'],
+      ]);
+
+      const sections = service.mergeThreeWay(base, ours, theirs);
+
+      // Units only in theirs follow their predecessor in theirs
+      assert.deepEqual(sections.map((section) => section.key), [
+        PREAMBLE_KEY,
+        'EDUCATION',
+        'PROJECTS',
+        'EXPERIENCE',
+        'SKILLS',
+        POSTAMBLE_KEY,
+      ]);
+
+      const merged = byKey(sections);
+      assert.equal(merged.get('PROJECTS').status, 'THEIRS');
+      assert.equal(merged.get('PROJECTS').merged, 'projects');
+      assert.equal(merged.get('PROJECTS').base, null);
+      assert.equal(merged.get('SKILLS').status, 'OURS');
+      assert.equal(merged.get('SKILLS').merged, null);
+    });
+
+    it('reports a section removed on one side and changed on the other as a conflict', () => {
+      const base = doc([['EXPERIENCE', 'exp'], ['SKILLS', 'skills']]);
+      const ours = doc([['EXPERIENCE', 'exp']]);
+      const theirs = doc([['EXPERIENCE', 'exp'], ['SKILLS', 'skills (theirs)']]);
+
+      const skills = byKey(service.mergeThreeWay(base, ours, theirs)).get('SKILLS');
+      assert.equal(skills.status, 'CONFLICT');
+      assert.equal(skills.ours, null);
+    });
+
+    it('numbers repeated section types in order', () => {
+      const base = doc([
+        ['OTHER', 'header'],
+        ['EXPERIENCE', 'exp'],
+        ['OTHER', 'footer'],
+      ]);
+      const theirs = doc([
+        ['OTHER', 'header'],
+        ['EXPERIENCE', 'exp'],
+        ['OTHER', 'footer (theirs)'],
+      ]);
+
+      const sections = service.mergeThreeWay(base, base, theirs);
+
+      assert.deepEqual(statuses(sections), {
+        [PREAMBLE_KEY]: 'UNCHANGED',
+        OTHER: 'UNCHANGED',
+        EXPERIENCE: 'UNCHANGED',
+        'OTHER#2': 'THEIRS',
+        [POSTAMBLE_KEY]: 'UNCHANGED',
+      });
+      assert.equal(byKey(sections).get('OTHER#2').sectionType, 'OTHER');
+    });
+
+    it('merges and conflicts on the preamble like a section', () => {
+      const base = doc([['SKILLS', 'skills']]);
+      const oursOnly = doc([['SKILLS', 'skills']], '\\documentclass[11pt]{article}');
+      const theirsOther = doc([['SKILLS', 'skills']], '\\documentclass[10pt]{article}');
+
+      const oneSided = byKey(service.mergeThreeWay(base, oursOnly, base)).get(PREAMBLE_KEY);
+      assert.equal(oneSided.status, 'OURS');
+      assert.equal(oneSided.sectionType, null);
+
+      assert.equal(byKey(service.mergeThreeWay(base, oursOnly, theirsOther)).get(PREAMBLE_KEY).status, 'CONFLICT');
+    });
+
+    it('treats every difference as a conflict without a common base', () => {
+      const ours = doc([['EDUCATION', 'edu'], ['SKILLS', 'skills (ours)']]);
+      const theirs = doc([['EDUCATION', 'edu'], ['SKILLS', 'skills (theirs)']]);
+
+      const sections = service.mergeThreeWay(null, ours, theirs);
+
+      assert.equal(byKey(sections).get('EDUCATION').status, 'BOTH');
+      assert.equal(byKey(sections).get('SKILLS').status, 'CONFLICT');
+    });
+  });
+
+  describe('assembleMerge', () => {
+    const base = doc([['EXPERIENCE', 'exp'], ['SKILLS', 'skills']]);
+    const ours = doc([['EXPERIENCE', 'exp (ours)'], ['SKILLS', 'skills']], '\\documentclass[11pt]{article}');
+    const theirs = doc([['EXPERIENCE', 'exp'], ['PROJECTS', 'projects'], ['SKILLS', 'skills (theirs)']], '\\documentclass[10pt]{article}');
+
+    it('builds the document from merged sections and resolved conflicts', () => {
+      const sections = service.mergeThreeWay(base, ours, theirs);
+      const latex = service.assembleMerge(sections, new Map([[PREAMBLE_KEY, '\\documentclass[12pt]{article}\n\\begin{document}']]));
+
+      const parsed = parser.extractSections(latex);
+      assert.match(parsed.preamble, /\\documentclass\[12pt\]\{article\}/);
+      assert.deepEqual(
+        parsed.sections.map((section) => [section.sectionType, section.content]),
+        [['EXPERIENCE', 'exp (ours)'], ['PROJECTS', 'projects'], ['SKILLS', 'skills (theirs)']],
+      );
+      assert.match(parsed.postamble, /\\end\{document\}/);
+    });
+
+    it('drops sections removed by the merge or resolved to an empty string', () => {
+      const removed = doc([['EXPERIENCE', 'exp (ours)']]);
+      const sections = service.mergeThreeWay(base, removed, theirs);
+      assert.equal(byKey(sections).get('SKILLS').status, 'CONFLICT');
+
+      const latex = service.assembleMerge(sections, new Map([['SKILLS', '']]));
+
+      assert.deepEqual(
+        parser.extractSections(latex).sections.map((section) => section.sectionType),
+        ['EXPERIENCE', 'PROJECTS'],
+      );
+    });
+
+    it('rejects unresolved conflicts and resolutions that match no conflict', () => {
+      const sections = service.mergeThreeWay(base, ours, theirs);
+
+      assert.throws(() => service.assembleMerge(sections, new Map()), (error: Error) =>
+        error instanceof BadRequestException && /Unresolved merge conflicts: PREAMBLE/.test(error.message),
+      );
+      assert.throws(
+        () => service.assembleMerge(sections, new Map([[PREAMBLE_KEY, PREAMBLE], ['SKILLS', 'skills']])),
+        (error: Error) => error instanceof BadRequestException && /SKILLS does not match a conflict/.test(error.message),
+      );
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { LatexParserService, ExtractedSection } from './latex-parser.service';
+import { SectionType } from './dto/section.dto';
+import { MergeSectionDto } from './dto/version.dto';
+
+/**
+ * Merge Service
+ *
+ * VERSION MERGE: Section-wise three-way merge (used by POST /versions/merge)
+ * - All three versions are split with LatexParserService.extractSections
+ * - Units are matched by key: PREAMBLE, each section type, POSTAMBLE
+ * - A unit changed on one side only takes that side; changed differently on
+ *   both sides it is a conflict the user resolves
+ *
+ * Deterministic and text-only: no database access, no AI.
+ */
+
+export const PREAMBLE_KEY = 'PREAMBLE';
+export const POSTAMBLE_KEY = 'POSTAMBLE';
+
+interface MergeUnit {
+  key: string;
+  sectionType: SectionType | null;
+  content: string;
+}
+
+@Injectable()
+export class MergeService {
+  constructor(private readonly latexParser: LatexParserService) {}
+
+  /**
+   * Merge theirs into ours relative to base
+   *
+   * @param baseContent - LaTeX of the common ancestor (null: no shared history)
+   * @param oursContent - LaTeX of the version merged into
+   * @param theirsContent - LaTeX of the version merged in
+   * @returns One entry per unit, in the order of ours (units only in theirs follow their predecessor)
+   */
+  mergeThreeWay(baseContent: string | null, oursContent: string, theirsContent: string): MergeSectionDto[] {
+    const base = this.indexUnits(baseContent === null ? [] : this.toUnits(baseContent));
+    const ours = this.toUnits(oursContent);
+    const theirs = this.toUnits(theirsContent);
+    const oursByKey = this.indexUnits(ours);
+    const theirsByKey = this.indexUnits(theirs);
+
+    return this.orderKeys(ours, theirs)
+      .map(key => {
+        const unit = oursByKey.get(key) ?? theirsByKey.get(key);
+        const baseText = base.get(key)?.content ?? null;
+        const oursText = oursByKey.get(key)?.content ?? null;
+        const theirsText = theirsByKey.get(key)?.content ?? null;
+
+        return {
+          key,
+          sectionType: unit.sectionType,
+          ...this.mergeUnit(baseText, oursText, theirsText),
+          base: baseText,
+          ours: oursText,
+          theirs: theirsText,
+        };
+      });
+  }
+
+  /**
+   * Build the merged LaTeX
+   *
+   * @param sections - Result of mergeThreeWay
+   * @param resolutions - Content per CONFLICT key (empty string drops the section)
+   * @throws BadRequestException if a conflict is unresolved or a resolution matches no conflict
+   */
+  assembleMerge(sections: MergeSectionDto[], resolutions: Map<string, string>): string {
+    const conflictKeys = new Set(sections.filter(s => s.status === 'CONFLICT').map(s => s.key));
+
+    for (const key of resolutions.keys()) {
+      if (!conflictKeys.has(key)) {
+        throw new BadRequestException(`Resolution for ${key} does not match a conflict`);
+      }
+    }
+
+    const unresolved = [...conflictKeys].filter(key => !resolutions.has(key));
+    if (unresolved.length > 0) {
+      throw new BadRequestException(`Unresolved merge conflicts: ${unresolved.join(', ')}`);
+    }
+
+    const contentOf = (section: MergeSectionDto) =>
+      section.status === 'CONFLICT' ? resolutions.get(section.key) : section.merged;
+
+    const mergedSections: ExtractedSection[] = sections
+      .filter(section => section.sectionType !== null)
+      .map(section => ({ section, content: contentOf(section) }))
+      .filter(({ content }) => content !== null && content.trim().length > 0)
+      .map(({ section, content }, orderIndex) => ({
+        sectionType: section.sectionType,
+        content: content.trim(),
+        orderIndex,
+        isLocked: false,
+      }));
+
+    const preamble = sections.find(s => s.key === PREAMBLE_KEY);
+    const postamble = sections.find(s => s.key === POSTAMBLE_KEY);
+
+    return this.latexParser.assembleSections({
+      preamble: (preamble && contentOf(preamble)) ?? '',
+      sections: mergedSections,
+      postamble: (postamble && contentOf(postamble)) ?? '',
+    });
+  }
+
+  /**
+   * Three-way decision for one unit (whitespace at the ends is not a change)
+   */
+  private mergeUnit(
+    base: string | null,
+    ours: string | null,
+    theirs: string | null,
+  ): Pick<MergeSectionDto, 'status' | 'merged'> {
+    const same = (a: string | null, b: string | null) => (a === null ? b === null : b !== null && a.trim() === b.trim());
+
+    if (same(ours, theirs)) {
+      return { status: same(base, ours) ? 'UNCHANGED' : 'BOTH', merged: ours };
+    }
+    if (same(base, ours)) {
+      return { status: 'THEIRS', merged: theirs }; // null: removed in theirs
+    }
+    if (same(base, theirs)) {
+      return { status: 'OURS', merged: ours };
+    }
+    return { status: 'CONFLICT', merged: null };
+  }
+
+  /**
+   * Split a document into merge units
+   * Repeated section types are numbered in order: OTHER, OTHER#2, ...
+   */
+  private toUnits(latexContent: string): MergeUnit[] {
+    const parsed = this.latexParser.extractSections(latexContent);
+    const seen = new Map<SectionType, number>();
+
+    const sections = [...parsed.sections]
+      .sort((a, b) => a.orderIndex - b.orderIndex)
+      .map(section => {
+        const occurrence = (seen.get(section.sectionType) ?? 0) + 1;
+        seen.set(section.sectionType, occurrence);
+        return {
+          key: occurrence === 1 ? section.sectionType : `${section.sectionType}#${occurrence}`,
+          sectionType: section.sectionType,
+          content: section.content,
+        };
+      });
+
+    return [
+      { key: PREAMBLE_KEY, sectionType: null, content: parsed.preamble },
+      ...sections,
+      { key: POSTAMBLE_KEY, sectionType: null, content: parsed.postamble },
+    ];
+  }
+
+  private indexUnits(units: MergeUnit[]): Map<string, MergeUnit> {
+    return new Map(units.map(unit => [unit.key, unit]));
+  }
+
+  /**
+   * Keys of ours in order, with keys only in theirs inserted after their predecessor in theirs
+   * (units removed on both sides are gone from both lists)
+   */
+  private orderKeys(ours: MergeUnit[], theirs: MergeUnit[]): string[] {
+    const keys = ours.map(unit => unit.key);
+
+    theirs.forEach((unit, index) => {
+      if (keys.includes(unit.key)) return;
+
+      const predecessor = theirs.slice(0, index).reverse().find(prev => keys.includes(prev.key));
+      keys.splice(predecessor ? keys.indexOf(predecessor.key) + 1 : 0, 0, unit.key);
+    });
+
+    return keys;
+  }
+}
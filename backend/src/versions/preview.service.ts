@@ -0,0 +1,159 @@
+import { Injectable, NotFoundException, ForbiddenException, HttpException, HttpStatus } from '@nestjs/common';
+import { ResumeProject } from '@prisma/client';
+import { createHash } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { LatexCompilerService, LatexCompileResult, CompileSettings } from './latex-compiler.service';
+import { ProjectAssetsService } from './project-assets.service';
+import { PreviewCompileResponseDto } from './dto/version.dto';
+
+/**
+ * How long a compiled preview stays downloadable
+ */
+const PREVIEW_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Oldest previews are evicted beyond this many (PDFs are kept in memory)
+ */
+const MAX_CACHED_PREVIEWS = 100;
+
+interface CachedPreview {
+  projectId: string;
+  result: LatexCompileResult;
+  expiresAt: number;
+}
+
+/**
+ * Preview Service
+ *
+ * DRAFT PREVIEW: Compiles the editor's unsaved draft without creating a version
+ * - Same sandbox, project engine settings and assets as version compiles (LatexCompilerService)
+ * - Synchronous: the response carries diagnostics, the PDF is fetched by previewId
+ * - previewId is a hash of project + settings + assets + LaTeX, so an unchanged draft is a cache hit
+ * - Cached in memory for PREVIEW_TTL_MS (per backend instance; a miss just recompiles)
+ * - Concurrency capped by PREVIEW_CONCURRENCY (default 2), one preview per user at a time
+ *
+ * Forbidden:
+ * - No ResumeVersion writes, no StorageService uploads (previews are throwaway)
+ *
+ * From apis.md Sections 3.3 and 3.4
+ */
+@Injectable()
+export class PreviewService {
+  private readonly cache = new Map<string, CachedPreview>();
+  private readonly activeUsers = new Set<string>();
+  private readonly maxConcurrent = parseInt(process.env.PREVIEW_CONCURRENCY || '2', 10);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly latexCompiler: LatexCompilerService,
+    private readonly projectAssets: ProjectAssetsService,
+  ) {}
+
+  /**
+   * Compile an unsaved draft
+   * From apis.md Section 3.3
+   */
+  async createPreview(projectId: string, latexContent: string, userId: string): Promise<PreviewCompileResponseDto> {
+    const project = await this.verifyProjectOwnership(projectId, userId);
+    this.evictExpired();
+
+    const settings: CompileSettings = {
+      engine: project.latexEngine,
+      bibliographyTool: project.bibliographyTool,
+    };
+    const assets = await this.projectAssets.findForProject(projectId);
+    const previewId = createHash('sha256')
+      .update(`${projectId}\0${this.latexCompiler.settingsFingerprint(settings)}\0${this.projectAssets.fingerprint(assets)}\0`)
+      .update(latexContent)
+      .digest('hex');
+    const cached = this.cache.get(previewId);
+    if (cached) {
+      cached.expiresAt = Date.now() + PREVIEW_TTL_MS;
+      return this.toResponseDto(previewId, cached);
+    }
+
+    if (this.activeUsers.has(userId)) {
+      throw new HttpException('A preview is already compiling, try again when it finishes', HttpStatus.TOO_MANY_REQUESTS);
+    }
+
+    if (this.activeUsers.size >= this.maxConcurrent) {
+      throw new HttpException('Preview compiler is busy, try again in a moment', HttpStatus.TOO_MANY_REQUESTS);
+    }
+
+    this.activeUsers.add(userId);
+    try {
+      const files = await this.projectAssets.loadFiles(assets);
+      const result = await this.latexCompiler.compile(latexContent, settings, files);
+      const entry: CachedPreview = {
+        projectId,
+        result,
+        expiresAt: Date.now() + PREVIEW_TTL_MS,
+      };
+
+      this.cache.set(previewId, entry);
+      while (this.cache.size > MAX_CACHED_PREVIEWS) {
+        this.cache.delete(this.cache.keys().next().value);
+      }
+
+      return this.toResponseDto(previewId, entry);
+    } finally {
+      this.activeUsers.delete(userId);
+    }
+  }
+
+  /**
+   * Get the PDF of a cached preview
+   * From apis.md Section 3.4
+   */
+  async getPreviewPdf(projectId: string, previewId: string, userId: string): Promise<Buffer> {
+    await this.verifyProjectOwnership(projectId, userId);
+    this.evictExpired();
+
+    const cached = this.cache.get(previewId);
+    if (!cached || cached.projectId !== projectId || !cached.result.pdf) {
+      throw new NotFoundException('Preview expired or not found, compile the draft again');
+    }
+
+    return cached.result.pdf;
+  }
+
+  private async verifyProjectOwnership(projectId: string, userId: string): Promise<ResumeProject> {
+    const project = await this.prisma.resumeProject.findUnique({
+      where: { id: projectId },
+    });
+
+    if (!project) {
+      throw new NotFoundException(`Project ${projectId} not found`);
+    }
+
+    if (project.userId !== userId) {
+      throw new ForbiddenException('You do not have access to this project');
+    }
+
+    return project;
+  }
+
+  private evictExpired(): void {
+    const now = Date.now();
+    for (const [previewId, entry] of this.cache) {
+      if (entry.expiresAt <= now) {
+        this.cache.delete(previewId);
+      }
+    }
+  }
+
+  private toResponseDto(previewId: string, entry: CachedPreview): PreviewCompileResponseDto {
+    const { pdf, errors, diagnostics, engine, metrics } = entry.result;
+
+    return {
+      previewId,
+      engine,
+      result: !pdf ? 'error' : errors.length > 0 ? 'warning' : 'success',
+      hasPdf: !!pdf,
+      errors: !pdf && errors.length === 0 ? ['PDF file was not generated'] : errors,
+      diagnostics,
+      ...metrics,
+      expiresAt: new Date(entry.expiresAt).toISOString(),
+    };
+  }
+}
@@ -0,0 +1,339 @@
+import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
+import { Prisma, ProjectAsset } from '@prisma/client';
+import { createHash, randomUUID } from 'crypto';
+import * as path from 'path';
+import { PrismaService } from '../prisma/prisma.service';
+import { StorageService } from '../storage/storage.service';
+import { CompileInputFile } from './latex-compiler.service';
+import { ProjectAssetDto } from './dto/asset.dto';
+
+/**
+ * Per-file and per-project limits
+ */
+export const MAX_ASSET_BYTES = 10 * 1024 * 1024;
+const MAX_PROJECT_ASSET_BYTES = 50 * 1024 * 1024;
+const MAX_PROJECT_ASSETS = 200;
+
+// Relative path (no leading "/") of at most 5 segments; segments may not start with "."
+// (no "..", no dot files) or contain control characters
+const MAX_ASSET_PATH_DEPTH = 5;
+const MAX_ASSET_PATH_LENGTH = 200;
+const UNSAFE_SEGMENT = /^\.|[\u0000-\u001f\u007f]/;
+
+// Files the compiler writes next to resume.tex
+const RESERVED_PATHS = /^resume\.(?:tex|pdf|log|aux|out|toc|bbl|blg|bcf|run\.xml|fls|xdv|synctex(?:\.gz)?)$/;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.pdf': 'application/pdf',
+  '.eps': 'application/postscript',
+  '.svg': 'image/svg+xml',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+};
+
+/**
+ * File to add to a project (upload or zip import)
+ */
+export interface AssetFile {
+  path: string;
+  content: Buffer;
+}
+
+/**
+ * File of a zip import that was left out, with the reason
+ */
+export interface SkippedAssetFile {
+  path: string;
+  reason: string;
+}
+
+/**
+ * Project Assets Service
+ *
+ * PROJECT ASSETS: Support files shared by all versions of a project
+ * (.cls/.sty/.bst/.bib, images, fonts, \input files)
+ * - Stored through StorageService under assets/<projectId>/<assetId>
+ * - Copied next to resume.tex in the compile sandbox (LatexCompilerService)
+ * - Part of the compile cache key through fingerprint()
+ *
+ * Forbidden:
+ * - No compiling here, no version writes (assets are project state, not version state)
+ *
+ * From apis.md Sections 3.6 - 3.8
+ */
+@Injectable()
+export class ProjectAssetsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly storage: StorageService,
+  ) {}
+
+  /**
+   * List a project's assets
+   * From apis.md Section 3.6
+   */
+  async listAssets(projectId: string, userId: string): Promise<ProjectAssetDto[]> {
+    await this.verifyProjectOwnership(projectId, userId);
+
+    const assets = await this.prisma.projectAsset.findMany({
+      where: { projectId },
+      orderBy: { path: 'asc' },
+    });
+
+    return assets.map((asset) => this.toDto(asset));
+  }
+
+  /**
+   * Upload an asset; an existing asset at the same path is replaced
+   * From apis.md Section 3.7
+   */
+  async uploadAsset(
+    projectId: string,
+    assetPath: string,
+    content: Buffer,
+    userId: string,
+  ): Promise<ProjectAssetDto> {
+    await this.verifyProjectOwnership(projectId, userId);
+
+    const normalizedPath = this.normalizePath(assetPath);
+    if (content.length > MAX_ASSET_BYTES) {
+      throw new BadRequestException(`Asset exceeds ${MAX_ASSET_BYTES / 1024 / 1024} MB`);
+    }
+
+    const existing = await this.prisma.projectAsset.findMany({
+      where: { projectId },
+      select: { path: true, size: true },
+    });
+    const others = existing.filter((asset) => asset.path !== normalizedPath);
+    this.checkQuota(others.length + 1, others.reduce((total, asset) => total + asset.size, 0) + content.length);
+
+    const [prepared] = await this.prepareAssets(projectId, [{ path: normalizedPath, content }]);
+
+    let asset: ProjectAsset;
+    let replaced: ProjectAsset | null = null;
+    try {
+      asset = await this.prisma.$transaction(async (tx) => {
+        replaced = await tx.projectAsset.findUnique({
+          where: { projectId_path: { projectId, path: normalizedPath } },
+        });
+        if (replaced) {
+          await tx.projectAsset.delete({ where: { id: replaced.id } });
+        }
+        return tx.projectAsset.create({ data: prepared });
+      });
+    } catch (error) {
+      await this.discardPrepared([prepared]);
+      throw error;
+    }
+
+    if (replaced) {
+      await this.storage.delete(replaced.storageKey).catch((error) => {
+        console.error(`Failed to delete replaced asset ${replaced.storageKey}:`, error);
+      });
+    }
+
+    console.log(`📎 Asset ${normalizedPath} uploaded to project ${projectId}`);
+    return this.toDto(asset);
+  }
+
+  /**
+   * Delete an asset
+   * From apis.md Section 3.8
+   */
+  async deleteAsset(projectId: string, assetId: string, userId: string): Promise<void> {
+    await this.verifyProjectOwnership(projectId, userId);
+
+    const asset = await this.prisma.projectAsset.findUnique({
+      where: { id: assetId },
+    });
+
+    if (!asset || asset.projectId !== projectId) {
+      throw new NotFoundException(`Asset ${assetId} not found`);
+    }
+
+    await this.prisma.projectAsset.delete({ where: { id: assetId } });
+    await this.storage.delete(asset.storageKey).catch((error) => {
+      console.error(`Failed to delete stored asset ${asset.storageKey}:`, error);
+    });
+  }
+
+  /**
+   * Validate and store files of a project that is being created (zip import)
+   * Files with an unusable path or size are skipped and reported instead of failing the import
+   * Returns the rows to create inside the caller's transaction;
+   * call discardPrepared() if that transaction fails
+   */
+  async prepareImport(
+    projectId: string,
+    files: AssetFile[],
+  ): Promise<{ prepared: Prisma.ProjectAssetCreateManyInput[]; skipped: SkippedAssetFile[] }> {
+    const usable: AssetFile[] = [];
+    const skipped: SkippedAssetFile[] = [];
+
+    for (const file of files) {
+      const normalized = this.cleanPath(file.path);
+      const problem = this.pathProblem(normalized)
+        ?? (file.content.length > MAX_ASSET_BYTES ? `exceeds ${MAX_ASSET_BYTES / 1024 / 1024} MB` : null);
+
+      if (problem) {
+        skipped.push({ path: file.path, reason: problem });
+      } else {
+        usable.push({ path: normalized, content: file.content });
+      }
+    }
+
+    this.checkQuota(usable.length, usable.reduce((total, file) => total + file.content.length, 0));
+
+    return { prepared: await this.prepareAssets(projectId, usable), skipped };
+  }
+
+  /**
+   * Remove stored files of prepared rows that were never created
+   */
+  async discardPrepared(prepared: Array<{ storageKey: string }>): Promise<void> {
+    await Promise.all(prepared.map((asset) => this.storage.delete(asset.storageKey).catch(() => undefined)));
+  }
+
+  /**
+   * Asset rows of a project (metadata only)
+   */
+  findForProject(projectId: string): Promise<ProjectAsset[]> {
+    return this.prisma.projectAsset.findMany({
+      where: { projectId },
+      orderBy: { path: 'asc' },
+    });
+  }
+
+  /**
+   * COMPILE CACHE: Stable summary of the asset set ('' when the project has none)
+   */
+  fingerprint(assets: Array<{ path: string; contentHash: string }>): string {
+    if (assets.length === 0) return '';
+
+    const hash = createHash('sha256');
+    for (const asset of [...assets].sort((a, b) => a.path.localeCompare(b.path))) {
+      hash.update(`${asset.path}\0${asset.contentHash}\n`);
+    }
+    return hash.digest('hex');
+  }
+
+  /**
+   * Download asset contents for the compile sandbox
+   */
+  async loadFiles(assets: ProjectAsset[]): Promise<CompileInputFile[]> {
+    return Promise.all(assets.map(async (asset) => ({
+      path: asset.path,
+      content: await this.storage.getBuffer(asset.storageKey),
+    })));
+  }
+
+  /**
+   * Check an asset path and strip a leading "./"
+   */
+  normalizePath(assetPath: string): string {
+    const normalized = this.cleanPath(assetPath);
+    const problem = this.pathProblem(normalized);
+
+    if (problem) {
+      throw new BadRequestException(`Invalid asset path "${assetPath}": ${problem}`);
+    }
+
+    return normalized;
+  }
+
+  private cleanPath(assetPath: string): string {
+    return path.posix.normalize((assetPath || '').trim().replace(/\\/g, '/')).replace(/^\.\//, '');
+  }
+
+  /**
+   * Why a normalized path cannot be used (null when it can)
+   */
+  private pathProblem(normalized: string): string | null {
+    const segments = normalized.split('/');
+
+    if (normalized.length > MAX_ASSET_PATH_LENGTH) {
+      return `longer than ${MAX_ASSET_PATH_LENGTH} characters`;
+    }
+
+    if (segments.length > MAX_ASSET_PATH_DEPTH) {
+      return `more than ${MAX_ASSET_PATH_DEPTH - 1} folder levels`;
+    }
+
+    if (segments.some((segment) => segment === '' || UNSAFE_SEGMENT.test(segment))) {
+      return 'use a relative path without "..", hidden files or control characters';
+    }
+
+    if (RESERVED_PATHS.test(normalized)) {
+      return 'reserved for compiler output';
+    }
+
+    return null;
+  }
+
+  private checkQuota(count: number, totalBytes: number): void {
+    if (count > MAX_PROJECT_ASSETS) {
+      throw new BadRequestException(`A project can have at most ${MAX_PROJECT_ASSETS} assets`);
+    }
+
+    if (totalBytes > MAX_PROJECT_ASSET_BYTES) {
+      throw new BadRequestException(`Project assets exceed ${MAX_PROJECT_ASSET_BYTES / 1024 / 1024} MB in total`);
+    }
+  }
+
+  private async prepareAssets(projectId: string, files: AssetFile[]): Promise<Prisma.ProjectAssetCreateManyInput[]> {
+    const prepared: Prisma.ProjectAssetCreateManyInput[] = [];
+
+    try {
+      for (const file of files) {
+        const id = randomUUID();
+        const storageKey = `assets/${projectId}/${id}`;
+        const contentType = CONTENT_TYPES[path.posix.extname(file.path).toLowerCase()] || 'application/octet-stream';
+
+        await this.storage.put(storageKey, file.content, contentType);
+        prepared.push({
+          id,
+          projectId,
+          path: file.path,
+          storageKey,
+          contentType,
+          size: file.content.length,
+          contentHash: createHash('sha256').update(file.content).digest('hex'),
+        });
+      }
+    } catch (error) {
+      await this.discardPrepared(prepared);
+      throw error;
+    }
+
+    return prepared;
+  }
+
+  private async verifyProjectOwnership(projectId: string, userId: string): Promise<void> {
+    const project = await this.prisma.resumeProject.findUnique({
+      where: { id: projectId },
+    });
+
+    if (!project) {
+      throw new NotFoundException(`Project ${projectId} not found`);
+    }
+
+    if (project.userId !== userId) {
+      throw new ForbiddenException('You do not have access to this project');
+    }
+  }
+
+  private toDto(asset: ProjectAsset): ProjectAssetDto {
+    return {
+      assetId: asset.id,
+      path: asset.path,
+      contentType: asset.contentType,
+      size: asset.size,
+      updatedAt: asset.updatedAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,35 @@
+import { Controller, Patch, Param, Body, UseGuards } from '@nestjs/common';
+import { ClerkAuthGuard } from '../auth/guards/clerk-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { SectionsService } from './sections.service';
+import { SectionDto, UpdateSectionLockDto } from './dto/section.dto';
+
+/**
+ * Sections Controller
+ * 
+ * SECTION LOCKS: Lock/unlock individual resume sections
+ * - Locked sections are never sent to the AI
+ * - Section content stays immutable (edits create new versions)
+ * 
+ * Section listing lives on VersionsController (GET /versions/:versionId/sections)
+ */
+@Controller('sections')
+@UseGuards(ClerkAuthGuard)
+export class SectionsController {
+  constructor(private readonly sectionsService: SectionsService) {}
+
+  /**
+   * PATCH /api/sections/:sectionId
+   * Lock or unlock a section
+   * 
+   * Only isLocked can change; returns the updated section
+   */
+  @Patch(':sectionId')
+  async updateSectionLock(
+    @Param('sectionId') sectionId: string,
+    @Body() updateDto: UpdateSectionLockDto,
+    @CurrentUser() userId: string,
+  ): Promise<SectionDto> {
+    return this.sectionsService.updateSectionLock(sectionId, updateDto.isLocked, userId);
+  }
+}
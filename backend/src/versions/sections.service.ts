@@ -1,8 +1,8 @@
 import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { SectionDto, CreateSectionDto, UpdateSectionDto, SectionType } from './dto/section.dto';
-import { ResumeSection, ResumeSectionType } from '@prisma/client';
-import { LatexParserService } from './latex-parser.service';
+import { Prisma, ResumeSection, ResumeSectionType } from '@prisma/client';
+import { LatexParserService, ExtractedSection } from './latex-parser.service';
 
 /**
  * Sections Service
@@ -33,9 +33,11 @@ import { LatexParserService } from './latex-parser.service';
  * - V1 sections remain unchanged (immutability preserved)
  * 
  * Legacy Version Handling:
- * - Lazy extraction: sections extracted on-demand (AI job trigger)
- * - Never auto-extract on read operations
+ * - Lazy extraction: sections extracted on-demand (AI job trigger, or the
+ *   editor listing sections to show lock toggles)
+ * - Never auto-extract on version reads
  * - extractAndStoreSections() called explicitly when needed
+ * - Extracted sections inherit lock state from the parent version
  */
 @Injectable()
 export class SectionsService {
@@ -47,17 +49,15 @@ export class SectionsService {
   /**
    * Get all sections for a version
    * Ordered by orderIndex
+   * 
+   * SECTION LOCKS: Extracts sections on first request so users can
+   * lock them before starting an AI job
    */
   async getSectionsForVersion(versionId: string, userId: string): Promise<SectionDto[]> {
     // Verify ownership
     await this.verifyVersionOwnership(versionId, userId);
 
-    const sections = await this.prisma.resumeSection.findMany({
-      where: { versionId },
-      orderBy: { orderIndex: 'asc' },
-    });
-
-    return sections.map(this.toDto);
+    return this.extractAndStoreSections(versionId);
   }
 
   /**
@@ -182,7 +182,9 @@ export class SectionsService {
 
   /**
    * Update section lock state
-   * Allowed only for DRAFT versions
+   * 
+   * Lock state controls AI access only (not content), so it can change on
+   * any version status without breaking version immutability
    */
   async updateSectionLock(
     sectionId: string,
@@ -203,11 +205,6 @@ export class SectionsService {
       throw new ForbiddenException('You do not have access to this section');
     }
 
-    // Only allow lock changes on DRAFT versions
-    if (section.version.status !== 'DRAFT' && section.version.status !== 'ACTIVE') {
-      throw new BadRequestException('Can only modify section locks on DRAFT/ACTIVE versions');
-    }
-
     const updated = await this.prisma.resumeSection.update({
       where: { id: sectionId },
       data: { isLocked },
@@ -284,7 +281,7 @@ export class SectionsService {
    * 1. Check if version already has sections
    * 2. If yes, return existing sections
    * 3. If no, extract from latexContent
-   * 4. Store extracted sections in DB
+   * 4. Store extracted sections in DB (repeated types merged, locks inherited from parent version)
    * 5. Return sections
    * 
    * Idempotent: Safe to call multiple times
@@ -293,6 +290,7 @@ export class SectionsService {
     // Step 1: Check if sections already exist
     const existingSections = await this.prisma.resumeSection.findMany({
       where: { versionId },
+      orderBy: { orderIndex: 'asc' },
     });
 
     if (existingSections.length > 0) {
@@ -312,20 +310,43 @@ export class SectionsService {
     // Step 3: Extract sections using parser
     const parsed = this.latexParser.extractSections(version.latexContent);
 
-    // Step 4: Store sections in DB
-    const sectionsToCreate = parsed.sections.map(section => ({
+    // SECTION LOCKS: Sections locked in the parent version stay locked
+    const parentLocked = new Set<ResumeSectionType>();
+    if (version.parentVersionId) {
+      const parentSections = await this.prisma.resumeSection.findMany({
+        where: { versionId: version.parentVersionId, isLocked: true },
+        select: { sectionType: true },
+      });
+      parentSections.forEach(section => parentLocked.add(section.sectionType));
+    }
+
+    // Step 4: Store sections in DB (one row per section type)
+    const sectionsToCreate = this.mergeDuplicateTypes(parsed.sections).map(section => ({
       versionId,
       sectionType: section.sectionType as ResumeSectionType,
       content: section.content,
-      isLocked: section.isLocked,
+      isLocked: section.isLocked || parentLocked.has(section.sectionType as ResumeSectionType),
       orderIndex: section.orderIndex,
     }));
 
-    await this.prisma.$transaction(
-      sectionsToCreate.map(data =>
-        this.prisma.resumeSection.create({ data }),
-      ),
-    );
+    try {
+      await this.prisma.$transaction(
+        sectionsToCreate.map(data =>
+          this.prisma.resumeSection.create({ data }),
+        ),
+      );
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+
+      // Another request extracted this version concurrently: use its sections.
+      // Any other unique violation must not leave the version without sections.
+      const stored = await this.prisma.resumeSection.count({ where: { versionId } });
+      if (stored === 0) {
+        throw error;
+      }
+    }
 
     // Step 5: Return created sections
     const createdSections = await this.prisma.resumeSection.findMany({
@@ -336,6 +357,31 @@ export class SectionsService {
     return createdSections.map(this.toDto);
   }
 
+  /**
+   * Fold repeated section types into their first occurrence
+   *
+   * Sections are stored one row per type (unique versionId + sectionType), but the
+   * parser can return a type twice (e.g. two OTHER blocks). Later occurrences are
+   * appended to the first one so no content is dropped; the merged section is
+   * locked if any occurrence is.
+   */
+  private mergeDuplicateTypes(sections: ExtractedSection[]): ExtractedSection[] {
+    const byType = new Map<SectionType, ExtractedSection>();
+
+    for (const section of [...sections].sort((a, b) => a.orderIndex - b.orderIndex)) {
+      const first = byType.get(section.sectionType);
+      if (!first) {
+        byType.set(section.sectionType, { ...section });
+        continue;
+      }
+
+      first.content = `${first.content}\n\n${section.content}`;
+      first.isLocked = first.isLocked || section.isLocked;
+    }
+
+    return [...byType.values()];
+  }
+
   /**
    * Assemble sections into complete LaTeX document
    * 
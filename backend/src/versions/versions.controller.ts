@@ -1,15 +1,26 @@
-import { Controller, Get, Put, Post, Param, Body, Query, Res, UseGuards } from '@nestjs/common';
+import { Controller, Get, Put, Post, Patch, Param, Body, Query, Res, UseGuards } from '@nestjs/common';
 import { Response } from 'express';
 import { ClerkAuthGuard } from '../auth/guards/clerk-auth.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { VersionsService } from './versions.service';
+import { SectionsService } from './sections.service';
+import { CompileJobsService } from './compile-jobs.service';
+import { SectionDto } from './dto/section.dto';
 import {
   ResumeVersionDto,
   SaveResumeEditDto,
   SaveResumeEditResponseDto,
+  UpdateVersionAnnotationsDto,
+  ListVersionsQueryDto,
+  RestoreVersionResponseDto,
+  MergeVersionsDto,
+  MergeResultDto,
+  MergeVersionsResponseDto,
   CompileResumeResponseDto,
+  CompileJobStatusDto,
   VersionDiffDto,
   VersionListItemDto,
+  VersionTreeDto,
 } from './dto/version.dto';
 
 /**
@@ -26,7 +37,11 @@ import {
 @Controller('versions')
 @UseGuards(ClerkAuthGuard)
 export class VersionsController {
-  constructor(private readonly versionsService: VersionsService) {}
+  constructor(
+    private readonly versionsService: VersionsService,
+    private readonly sectionsService: SectionsService,
+    private readonly compileJobsService: CompileJobsService,
+  ) {}
 
   /**
    * GET /api/versions/project/:projectId
@@ -38,13 +53,94 @@ export class VersionsController {
    * 
    * Returns all versions ordered by creation date (newest first)
    * Used for version selector dropdown and version history
+   * Optional filters: ?q= (message/label/notes search), ?labeled=true|false, ?type=
    */
   @Get('project/:projectId')
   async listVersionsForProject(
     @Param('projectId') projectId: string,
+    @Query() query: ListVersionsQueryDto,
     @CurrentUser() userId: string,
   ): Promise<VersionListItemDto[]> {
-    return this.versionsService.listVersionsForProject(projectId, userId);
+    return this.versionsService.listVersionsForProject(projectId, userId, query);
+  }
+
+  /**
+   * GET /api/versions/project/:projectId/tree
+   * Get the version tree of a project
+   * From apis.md Section 4.8
+   *
+   * VERSION TREE: nodes (versions) and edges (parentVersionId links) for the history graph
+   */
+  @Get('project/:projectId/tree')
+  async getVersionTree(
+    @Param('projectId') projectId: string,
+    @CurrentUser() userId: string,
+  ): Promise<VersionTreeDto> {
+    return this.versionsService.getVersionTree(projectId, userId);
+  }
+
+  /**
+   * GET /api/versions/diff?from=&to=
+   * Get diff between two versions
+   * From apis.md Section 8.1
+   * 
+   * PHASE 4: Section-aware diff, cached in VersionDiff
+   * 
+   * CRITICAL: This MUST be defined BEFORE versions/:versionId route
+   * to avoid route collision (NestJS matches routes in order)
+   */
+  @Get('diff')
+  async getVersionDiff(
+    @Query('from') fromVersionId: string,
+    @Query('to') toVersionId: string,
+    @CurrentUser() userId: string,
+  ): Promise<VersionDiffDto> {
+    return this.versionsService.getVersionDiff(fromVersionId, toVersionId, userId);
+  }
+
+  /**
+   * POST /api/versions/merge
+   * Preview merging one version into another
+   * From apis.md Section 4.11
+   *
+   * VERSION MERGE: Three-way merge against the common ancestor, nothing is saved.
+   * Returns every section with its merge status and the conflicts to resolve.
+   */
+  @Post('merge')
+  async previewMerge(
+    @Body() mergeDto: MergeVersionsDto,
+    @CurrentUser() userId: string,
+  ): Promise<MergeResultDto> {
+    return this.versionsService.previewMerge(mergeDto, userId);
+  }
+
+  /**
+   * POST /api/versions/merge/apply
+   * Save the merge (with conflict resolutions) as a new MERGED version
+   * From apis.md Section 4.11
+   */
+  @Post('merge/apply')
+  async applyMerge(
+    @Body() mergeDto: MergeVersionsDto,
+    @CurrentUser() userId: string,
+  ): Promise<MergeVersionsResponseDto> {
+    return this.versionsService.applyMerge(mergeDto, userId);
+  }
+
+  /**
+   * GET /api/versions/compile-jobs/:jobId
+   * Get compile job status
+   * From apis.md Section 4.7
+   * 
+   * CRITICAL: This MUST be defined BEFORE versions/:versionId routes
+   * to avoid route collision (NestJS matches routes in order)
+   */
+  @Get('compile-jobs/:jobId')
+  async getCompileJobStatus(
+    @Param('jobId') jobId: string,
+    @CurrentUser() userId: string,
+  ): Promise<CompileJobStatusDto> {
+    return this.compileJobsService.getJobStatus(jobId, userId);
   }
 
   /**
@@ -62,6 +158,21 @@ export class VersionsController {
     return this.versionsService.getVersion(versionId, userId);
   }
 
+  /**
+   * GET /api/versions/:versionId/sections
+   * List detected sections of a version with their lock state
+   * 
+   * SECTION LOCKS: Sections are extracted on first request (lazy extraction)
+   * so the editor can show lock toggles before any AI job runs
+   */
+  @Get(':versionId/sections')
+  async getSections(
+    @Param('versionId') versionId: string,
+    @CurrentUser() userId: string,
+  ): Promise<SectionDto[]> {
+    return this.sectionsService.getSectionsForVersion(versionId, userId);
+  }
+
   /**
    * PUT /api/versions/:versionId
    * Save manual resume edit (creates new MANUAL version)
@@ -71,6 +182,8 @@ export class VersionsController {
    * Creates new version with parentVersionId
    * 
    * PHASE 2: Real database operation, creates new version
+   * 
+   * STALE PARENT: 409 if expectedActiveVersionId is no longer the active version
    */
   @Put(':versionId')
   async saveEdit(
@@ -81,35 +194,50 @@ export class VersionsController {
     return this.versionsService.saveEdit(versionId, saveEditDto, userId);
   }
 
+  /**
+   * PATCH /api/versions/:versionId
+   * Edit the label and notes of a version
+   * From apis.md Section 4.10
+   *
+   * ANNOTATIONS: Never touches the LaTeX content (versions stay immutable)
+   */
+  @Patch(':versionId')
+  async updateAnnotations(
+    @Param('versionId') versionId: string,
+    @Body() updateDto: UpdateVersionAnnotationsDto,
+    @CurrentUser() userId: string,
+  ): Promise<VersionListItemDto> {
+    return this.versionsService.updateAnnotations(versionId, updateDto, userId);
+  }
+
+  /**
+   * POST /api/versions/:versionId/restore
+   * Restore an older version as the new active version
+   * From apis.md Section 4.9
+   *
+   * RESTORE: Creates a RESTORED copy on top of the active version (never rewrites history)
+   */
+  @Post(':versionId/restore')
+  async restoreVersion(
+    @Param('versionId') versionId: string,
+    @CurrentUser() userId: string,
+  ): Promise<RestoreVersionResponseDto> {
+    return this.versionsService.restoreVersion(versionId, userId);
+  }
+
   /**
    * POST /api/versions/:versionId/compile
    * Compile resume version to PDF
    * From apis.md Section 4.3
    * 
-   * PHASE 2: Placeholder only (compilation in PHASE 4)
+   * Queues a sandboxed compile and returns the CompileJob to poll
    */
   @Post(':versionId/compile')
   async compileVersion(
     @Param('versionId') versionId: string,
     @CurrentUser() userId: string,
   ): Promise<CompileResumeResponseDto> {
-    return this.versionsService.compileVersion(versionId, userId);
-  }
-
-  /**
-   * GET /api/versions/diff
-   * Get diff between two versions
-   * From apis.md Section 7.1
-   * 
-   * PHASE 2: Placeholder only (diff logic in PHASE 4)
-   */
-  @Get('diff')
-  async getVersionDiff(
-    @Query('from') fromVersionId: string,
-    @Query('to') toVersionId: string,
-    @CurrentUser() userId: string,
-  ): Promise<VersionDiffDto> {
-    return this.versionsService.getVersionDiff(fromVersionId, toVersionId, userId);
+    return this.compileJobsService.startCompile(versionId, userId);
   }
 
   /**
@@ -117,17 +245,53 @@ export class VersionsController {
    * Download PDF version
    * From apis.md Section 8.1
    * 
-   * PHASE 8: Returns Cloudinary URL for direct download
-   * Frontend will redirect to this URL
+   * FILE STORAGE: Streams the PDF bytes (authenticated, any storage driver)
+   * ?disposition=inline for previews, attachment (default) for downloads
    */
   @Get(':versionId/download/pdf')
   async downloadPdf(
     @Param('versionId') versionId: string,
+    @Query('disposition') disposition: string,
     @CurrentUser() userId: string,
     @Res() res: Response,
   ): Promise<void> {
-    const url = await this.versionsService.downloadPdf(versionId, userId);
-    res.json({ url });
+    const stream = await this.versionsService.downloadPdf(versionId, userId);
+    const type = disposition === 'inline' ? 'inline' : 'attachment';
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `${type}; filename="resume-${versionId.substring(0, 8)}.pdf"`);
+    res.setHeader('Cache-Control', 'private, no-store');
+
+    stream.on('error', (error) => {
+      console.error(`❌ PDF stream failed for version ${versionId}:`, error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  }
+
+  /**
+   * GET /api/versions/:versionId/thumbnail
+   * First page of the compiled PDF as PNG
+   * From apis.md Section 9.3
+   *
+   * THUMBNAILS: Streamed like the PDF (authenticated); the frontend shows it from a blob URL
+   */
+  @Get(':versionId/thumbnail')
+  async downloadThumbnail(
+    @Param('versionId') versionId: string,
+    @CurrentUser() userId: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    const stream = await this.versionsService.downloadThumbnail(versionId, userId);
+
+    res.setHeader('Content-Type', 'image/png');
+    res.setHeader('Cache-Control', 'private, no-cache');
+
+    stream.on('error', (error) => {
+      console.error(`❌ Thumbnail stream failed for version ${versionId}:`, error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
   }
 
   /**
@@ -1,8 +1,16 @@
 import { Module } from '@nestjs/common';
 import { VersionsController } from './versions.controller';
+import { SectionsController } from './sections.controller';
 import { VersionsService } from './versions.service';
 import { SectionsService } from './sections.service';
 import { LatexParserService } from './latex-parser.service';
+import { DiffService } from './diff.service';
+import { MergeService } from './merge.service';
+import { LatexCompilerService } from './latex-compiler.service';
+import { CompileJobsService } from './compile-jobs.service';
+import { PreviewService } from './preview.service';
+import { CompileArtifactsService } from './compile-artifacts.service';
+import { ProjectAssetsService } from './project-assets.service';
 
 /**
  * Versions Module
@@ -12,10 +20,18 @@ import { LatexParserService } from './latex-parser.service';
  * 
  * GOAL 1: Added SectionsService for section-level operations
  * GOAL 2: Added LatexParserService for extraction & assembly
+ * PHASE 4: DiffService moved here for section-aware version diffs
+ * SECTION LOCKS: SectionsController exposes lock/unlock
+ * COMPILE SANDBOX: CompileJobsService queues compiles, LatexCompilerService runs pdflatex
+ * COMPILE CACHE: CompileArtifactsService shares PDFs between versions with identical content
+ * DRAFT PREVIEW: PreviewService compiles unsaved drafts (used by ProjectsController)
+ * PROJECT ASSETS: ProjectAssetsService stores support files (used by ProjectsController)
+ * PAGE METRICS: LatexCompilerService is exported for FIT_TO_PAGE AI jobs (recompile checks)
+ * VERSION MERGE: MergeService does the section-wise three-way merge
  */
 @Module({
-  controllers: [VersionsController],
-  providers: [VersionsService, SectionsService, LatexParserService],
-  exports: [VersionsService, SectionsService, LatexParserService],
+  controllers: [VersionsController, SectionsController],
+  providers: [VersionsService, SectionsService, LatexParserService, DiffService, MergeService, LatexCompilerService, CompileJobsService, PreviewService, CompileArtifactsService, ProjectAssetsService],
+  exports: [VersionsService, SectionsService, LatexParserService, DiffService, PreviewService, ProjectAssetsService, LatexCompilerService],
 })
 export class VersionsModule {}
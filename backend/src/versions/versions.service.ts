@@ -1,20 +1,46 @@
-import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
+import { Injectable, NotFoundException, ForbiddenException, BadRequestException, ConflictException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
-import { v2 as cloudinary } from 'cloudinary';
-import * as fs from 'fs';
-import * as path from 'path';
-import { promisify } from 'util';
-import { exec } from 'child_process';
+import { Readable } from 'stream';
+import { ReadableStream } from 'stream/web';
 import {
   ResumeVersionDto,
   SaveResumeEditDto,
   SaveResumeEditResponseDto,
-  CompileResumeResponseDto,
+  SaveEditConflictDto,
+  UpdateVersionAnnotationsDto,
+  ListVersionsQueryDto,
+  RestoreVersionResponseDto,
+  MergeVersionsDto,
+  MergeResultDto,
+  MergeVersionsResponseDto,
   VersionDiffDto,
+  SectionDiffDto,
   VersionListItemDto,
+  VersionTreeDto,
 } from './dto/version.dto';
+import { SectionType } from './dto/section.dto';
+import { LatexParserService } from './latex-parser.service';
+import { DiffService } from './diff.service';
+import { MergeService } from './merge.service';
+import { StorageService } from '../storage/storage.service';
+import { StorageObjectNotFoundError } from '../storage/storage.types';
 
-const execAsync = promisify(exec);
+/**
+ * Columns of a version list item (never the LaTeX content)
+ */
+const VERSION_LIST_SELECT = {
+  id: true,
+  projectId: true,
+  type: true,
+  compileStatus: true,
+  createdAt: true,
+  parentVersionId: true,
+  thumbnailKey: true,
+  message: true,
+  label: true,
+  notes: true,
+} satisfies Prisma.ResumeVersionSelect;
 
 /**
  * Versions Service
@@ -24,42 +50,31 @@ const execAsync = promisify(exec);
  * - Version creation with parentVersionId tracking
  * - Ownership enforcement via project relationship
  * - No LaTeX compilation (future phase)
- * - No diff logic (future phase)
  * 
  * PHASE 8: COMPILATION & OUTPUT
- * - LaTeX → PDF compilation using pdflatex
- * - Cloudinary upload for PDF storage
- * - Version immutability (no mutations, only status updates)
+ * - Compilation runs as CompileJobs (see CompileJobsService)
+ * - PDF read back through StorageService (local, S3-compatible or Cloudinary)
+ * 
+ * PHASE 4: VERSION DIFF
+ * - Section-aware bullet diff, cached in VersionDiff
+ * 
+ * VERSION TREE: parentVersionId links returned as nodes/edges for the history graph
+ * 
+ * ANNOTATIONS: Commit message (set on save), label and notes (editable; content stays immutable)
+ * 
+ * VERSION MERGE: Common ancestor lookup; the section-wise merge itself is MergeService
  * 
  * From apis.md Sections 4, 7, 8
  */
 @Injectable()
 export class VersionsService {
-  constructor(private readonly prisma: PrismaService) {
-   
-    
-    if (process.env.CLOUDINARY_URL) {
-      console.log('✅ Using CLOUDINARY_URL');
-      cloudinary.config({
-        cloudinary_url: process.env.CLOUDINARY_URL,
-      });
-    } else {
-      console.log('⚠️ Using individual config keys');
-      cloudinary.config({
-        cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
-        api_key: process.env.CLOUDINARY_API_KEY,
-        api_secret: process.env.CLOUDINARY_API_SECRET,
-      });
-    }
-    
-    // Log final config (without secrets)
-    const config = cloudinary.config();
-    console.log('📦 Final Cloudinary config:', {
-      cloud_name: config.cloud_name,
-      api_key: config.api_key ? 'SET' : 'NOT SET',
-      api_secret: config.api_secret ? 'SET' : 'NOT SET',
-    });
-  }
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly latexParser: LatexParserService,
+    private readonly diffService: DiffService,
+    private readonly mergeService: MergeService,
+    private readonly storage: StorageService,
+  ) {}
 
   /**
    * Create base version for new project
@@ -68,7 +83,7 @@ export class VersionsService {
    * PHASE 2: Real database operation
    * - Creates initial BASE version with placeholder content
    * - No parentVersionId (root of version tree)
-   * - Status DRAFT (not compiled yet)
+   * - compileStatus NOT_COMPILED (not compiled yet)
    */
   async createBaseVersion(projectId: string, initialContent?: string): Promise<string> {
     const defaultContent = initialContent || 
@@ -79,7 +94,6 @@ export class VersionsService {
         projectId,
         parentVersionId: null, // Base version has no parent
         type: 'BASE',
-        status: 'DRAFT',
         latexContent: defaultContent,
         pdfUrl: null,
       },
@@ -116,9 +130,15 @@ export class VersionsService {
       versionId: version.id,
       projectId: version.projectId,
       type: version.type,
-      status: version.status,
+      compileStatus: version.compileStatus,
+      isActive: version.project.activeVersionId === version.id,
+      activeVersionId: version.project.activeVersionId,
       latexContent: version.latexContent,
       pdfUrl: version.pdfUrl,
+      hasPdf: !!(version.pdfStorageKey || version.pdfUrl),
+      message: version.message,
+      label: version.label,
+      notes: version.notes,
       createdAt: version.createdAt.toISOString(),
     };
   }
@@ -131,12 +151,16 @@ export class VersionsService {
    * - Loads parent version to verify ownership
    * - Creates NEW version with type=MANUAL
    * - Sets parentVersionId to track lineage
+   * - Stores the optional commit message
    * - NEVER mutates existing version (immutability rule)
    * 
-   * CRITICAL FIX: ACTIVE status transfer
-   * - New version becomes ACTIVE
-   * - Old ACTIVE version becomes DRAFT
-   * - Ensures only ONE ACTIVE version per project
+   * ACTIVE VERSION: New version becomes the project's active version
+   * (ResumeProject.activeVersionId, so only ONE active version per project)
+   * 
+   * STALE PARENT: With expectedActiveVersionId the active pointer only moves if it
+   * still points there (compare-and-set in the transaction); otherwise nothing is
+   * saved and a 409 names the version that became active meanwhile.
+   * activate=false saves a branch without touching the active version.
    */
   async saveEdit(
     versionId: string,
@@ -157,31 +181,42 @@ export class VersionsService {
       throw new ForbiddenException('You do not have access to this version');
     }
 
-    // CRITICAL: Use transaction to atomically transfer ACTIVE status
+    // Use transaction so the new version and the active pointer move together
     const result = await this.prisma.$transaction(async (tx) => {
-      // Step 1: Demote current ACTIVE version to DRAFT
-      await tx.resumeVersion.updateMany({
-        where: {
-          projectId: parentVersion.projectId,
-          status: 'ACTIVE',
-        },
-        data: {
-          status: 'DRAFT',
-        },
-      });
-
-      // Step 2: Create new MANUAL version with ACTIVE status
+      // Step 1: Create new MANUAL version
       const newVersion = await tx.resumeVersion.create({
         data: {
           projectId: parentVersion.projectId,
           parentVersionId: versionId,
           type: 'MANUAL',
-          status: 'ACTIVE', // New version is now ACTIVE
           latexContent: saveEditDto.latexContent,
+          message: this.normalizeAnnotation(saveEditDto.message),
           pdfUrl: null,
         },
       });
 
+      if (saveEditDto.activate === false) {
+        return newVersion;
+      }
+
+      // Step 2: New version becomes the project's active version
+      // (only if it is still the one the edit was based on)
+      const expectedActiveVersionId = saveEditDto.expectedActiveVersionId;
+      const { count } = await tx.resumeProject.updateMany({
+        where: {
+          id: parentVersion.projectId,
+          ...(expectedActiveVersionId && { activeVersionId: expectedActiveVersionId }),
+        },
+        data: { activeVersionId: newVersion.id },
+      });
+
+      if (count === 0) {
+        // Rolls back the new version
+        throw new ConflictException(
+          await this.buildSaveConflict(tx, parentVersion.projectId, expectedActiveVersionId),
+        );
+      }
+
       return newVersion;
     });
 
@@ -191,31 +226,47 @@ export class VersionsService {
   }
 
   /**
-   * Compile resume version to PDF
-   * From apis.md Section 4.3
-   * 
-   * PHASE 8: REAL COMPILATION IMPLEMENTATION
-   * Per rules.md "Phase 8: Compilation & Output (STRICT)":
-   * - Compiler: pdflatex only
-   * - Execution: synchronous
-   * - Storage: Cloudinary (raw upload)
-   * - Immutability: NEVER creates versions, ONLY updates pdfUrl and status
-   * - If version.status === COMPILED → return success (idempotent)
-   * 
-   * Flow:
-   * 1. Verify ownership
-   * 2. Check if already compiled (idempotent)
-   * 3. Write LaTeX to temp directory (scoped by versionId)
-   * 4. Compile using pdflatex with security flags
-   * 5. Upload PDF to Cloudinary as raw file
-   * 6. Update version.pdfUrl and version.status
-   * 7. Clean up temp files
-   * 8. Return success or detailed errors
+   * Details of a stale save (409 body)
    */
-  async compileVersion(versionId: string, userId: string): Promise<CompileResumeResponseDto> {
-    console.log('🚀 Starting compilation for version:', versionId);
-    
-    // Step 1: Verify ownership
+  private async buildSaveConflict(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+    expectedActiveVersionId: string,
+  ): Promise<SaveEditConflictDto> {
+    const project = await tx.resumeProject.findUnique({
+      where: { id: projectId },
+      select: { activeVersionId: true },
+    });
+
+    const activeVersion = project.activeVersionId
+      ? await tx.resumeVersion.findUnique({
+          where: { id: project.activeVersionId },
+          select: VERSION_LIST_SELECT,
+        })
+      : null;
+
+    return {
+      statusCode: 409,
+      error: 'Conflict',
+      message: 'Another version became active since this edit was started',
+      expectedActiveVersionId,
+      activeVersionId: project.activeVersionId,
+      activeVersion: activeVersion ? this.toListItemDto(activeVersion, project.activeVersionId) : null,
+    };
+  }
+
+  /**
+   * Edit the label and notes of a version
+   * From apis.md Section 4.10
+   *
+   * ANNOTATIONS: The only fields of a version that change after creation
+   * (LaTeX content, type, lineage and commit message stay immutable)
+   */
+  async updateAnnotations(
+    versionId: string,
+    updateDto: UpdateVersionAnnotationsDto,
+    userId: string,
+  ): Promise<VersionListItemDto> {
     const version = await this.prisma.resumeVersion.findUnique({
       where: { id: versionId },
       include: { project: true },
@@ -229,212 +280,246 @@ export class VersionsService {
       throw new ForbiddenException('You do not have access to this version');
     }
 
-    console.log('✅ Ownership verified');
+    const updated = await this.prisma.resumeVersion.update({
+      where: { id: versionId },
+      data: {
+        ...(updateDto.label !== undefined && { label: this.normalizeAnnotation(updateDto.label) }),
+        ...(updateDto.notes !== undefined && { notes: this.normalizeAnnotation(updateDto.notes) }),
+      },
+      select: VERSION_LIST_SELECT,
+    });
+
+    return this.toListItemDto(updated, version.project.activeVersionId);
+  }
+
+  /**
+   * Restore an older version as the new active version
+   * From apis.md Section 4.9
+   *
+   * RESTORE: Versions are never rewritten, so a rollback is a new RESTORED version
+   * - Content copied from the restored version (restoredFromId points at it)
+   * - Child of the current active version, so the history keeps what is rolled back
+   * - Becomes the active version in the same transaction (as saveEdit)
+   * - Also undoes an AI acceptance: restore the accepted version's parent
+   */
+  async restoreVersion(versionId: string, userId: string): Promise<RestoreVersionResponseDto> {
+    const sourceVersion = await this.prisma.resumeVersion.findUnique({
+      where: { id: versionId },
+      include: { project: true },
+    });
 
-    // Step 2: If already compiled, return success (idempotent per rules.md)
-    if (version.status === 'COMPILED' && version.pdfUrl) {
-      console.log('ℹ️ Already compiled, returning cached result');
-      return {
-        status: 'success',
-        errors: [],
-      };
+    if (!sourceVersion) {
+      throw new NotFoundException(`Version ${versionId} not found`);
     }
 
-    // Step 3: Create temp directory scoped by versionId
-    const tempDir = path.join('/tmp', `resume-${versionId}`);
-    const texFilePath = path.join(tempDir, 'resume.tex');
-    const pdfFilePath = path.join(tempDir, 'resume.pdf');
-    const logFilePath = path.join(tempDir, 'resume.log');
+    if (sourceVersion.project.userId !== userId) {
+      throw new ForbiddenException('You do not have access to this version');
+    }
 
-    console.log('📁 Temp directory:', tempDir);
+    if (sourceVersion.project.activeVersionId === versionId) {
+      throw new BadRequestException('Version is already the active version');
+    }
 
-    try {
-      // Ensure temp directory exists
-      await fs.promises.mkdir(tempDir, { recursive: true });
-      console.log('✅ Temp directory created');
+    const result = await this.prisma.$transaction(async (tx) => {
+      // Step 1: Read the active pointer inside the transaction (parent of the restore)
+      const project = await tx.resumeProject.findUnique({
+        where: { id: sourceVersion.projectId },
+        select: { activeVersionId: true },
+      });
 
-      // Write LaTeX content to file
-      await fs.promises.writeFile(texFilePath, version.latexContent, 'utf-8');
-      console.log('✅ LaTeX file written');
+      // Step 2: Create the RESTORED version
+      const newVersion = await tx.resumeVersion.create({
+        data: {
+          projectId: sourceVersion.projectId,
+          parentVersionId: project.activeVersionId ?? versionId,
+          type: 'RESTORED',
+          restoredFromId: versionId,
+          latexContent: sourceVersion.latexContent,
+          pdfUrl: null,
+        },
+      });
 
-      // Step 4: Compile using pdflatex with security flags
-      // Flags per rules.md:
-      // - -interaction=nonstopmode (no user interaction)
-      // - -halt-on-error (stop on first error)
-      // - -no-shell-escape (security: disable shell commands)
-      const compileCommand = `pdflatex -interaction=nonstopmode -no-shell-escape -output-directory="${tempDir}" "${texFilePath}"`;
+      // Step 3: New version becomes the project's active version
+      await tx.resumeProject.update({
+        where: { id: sourceVersion.projectId },
+        data: { activeVersionId: newVersion.id },
+      });
 
-      console.log('🔨 Running pdflatex...');
+      return newVersion;
+    });
 
-      let compilationErrors: string[] = [];
-      let hasCompilationWarnings = false;
+    return {
+      newVersionId: result.id,
+      restoredFromVersionId: versionId,
+    };
+  }
 
-      try {
-        // Run pdflatex compilation
-        await execAsync(compileCommand, {
-          cwd: tempDir,
-          timeout: 30000, // 30 second timeout
-        });
-
-        console.log('✅ pdflatex completed');
-
-      } catch (compileError) {
-        console.error('⚠️ Compilation had errors:', compileError.message);
-        hasCompilationWarnings = true;
-        
-        // Parse compilation errors from log file
-        compilationErrors = await this.parseLatexErrors(logFilePath);
-        if (compilationErrors.length === 0) {
-          compilationErrors = [compileError.message || 'Compilation had warnings'];
-        }
-      }
+  /**
+   * Preview merging one version into another
+   * From apis.md Section 4.11
+   *
+   * VERSION MERGE: Nothing is written; the merge UI shows the sections and resolves conflicts
+   */
+  async previewMerge(mergeDto: MergeVersionsDto, userId: string): Promise<MergeResultDto> {
+    const { ours, theirs, base } = await this.loadMergeInputs(mergeDto, userId);
+    const sections = this.mergeService.mergeThreeWay(base?.latexContent ?? null, ours.latexContent, theirs.latexContent);
+    const conflicts = sections.filter(section => section.status === 'CONFLICT').map(section => section.key);
 
-      // Check if PDF was created (even if there were errors)
-      const pdfExists = await fs.promises.access(pdfFilePath, fs.constants.F_OK)
-        .then(() => true)
-        .catch(() => false);
-
-      if (!pdfExists) {
-        console.error('❌ PDF file was not generated');
-        
-        // Update version status to ERROR
-        await this.prisma.resumeVersion.update({
-          where: { id: versionId },
-          data: { status: 'ERROR' },
-        });
-
-        return {
-          status: 'error',
-          errors: compilationErrors.length > 0 ? compilationErrors : ['PDF file was not generated'],
-        };
-      }
+    return {
+      oursVersionId: ours.id,
+      theirsVersionId: theirs.id,
+      baseVersionId: base?.id ?? null,
+      sections,
+      conflicts,
+      mergedLatex: conflicts.length === 0 ? this.mergeService.assembleMerge(sections, new Map()) : null,
+    };
+  }
 
-      console.log('✅ PDF file created');
+  /**
+   * Merge one version into another as a new MERGED version
+   * From apis.md Section 4.11
+   *
+   * VERSION MERGE: The merge is recomputed here, so resolutions must cover exactly
+   * the conflicts of the current versions
+   * - parentVersionId = ours, mergedFromId = theirs (both parents stay immutable)
+   * - Becomes the active version in the same transaction (as saveEdit)
+   */
+  async applyMerge(mergeDto: MergeVersionsDto, userId: string): Promise<MergeVersionsResponseDto> {
+    const { ours, theirs, base } = await this.loadMergeInputs(mergeDto, userId);
+    const sections = this.mergeService.mergeThreeWay(base?.latexContent ?? null, ours.latexContent, theirs.latexContent);
+    const resolutions = new Map((mergeDto.resolutions ?? []).map(resolution => [resolution.key, resolution.content]));
+    const latexContent = this.mergeService.assembleMerge(sections, resolutions);
 
-      // If we have compilation warnings, log them but continue
-      if (hasCompilationWarnings) {
-        console.warn('⚠️ PDF created with warnings:', compilationErrors.join(', '));
-      }
+    const result = await this.prisma.$transaction(async (tx) => {
+      // Step 1: Create the MERGED version
+      const newVersion = await tx.resumeVersion.create({
+        data: {
+          projectId: ours.projectId,
+          parentVersionId: ours.id,
+          type: 'MERGED',
+          mergedFromId: theirs.id,
+          latexContent,
+          message: this.normalizeAnnotation(mergeDto.message)
+            ?? `Merge ${theirs.label ? `"${theirs.label}"` : `version ${theirs.id.substring(0, 8)}`}`,
+          pdfUrl: null,
+        },
+      });
 
-      // Step 5: Upload PDF to Cloudinary as raw file
-      console.log('Uploading to Cloudinary...');
-      
-      try {
-      const uploadResult = await cloudinary.uploader.upload(pdfFilePath, {
-        resource_type: "raw",
-        folder: "resumes",
-        public_id: `resume-${versionId}`,
-        overwrite: true,
+      // Step 2: New version becomes the project's active version
+      await tx.resumeProject.update({
+        where: { id: ours.projectId },
+        data: { activeVersionId: newVersion.id },
       });
 
-        const pdfUrl = uploadResult.secure_url;
-        console.log('✅ PDF uploaded to Cloudinary:', pdfUrl);
+      return newVersion;
+    });
 
-        // Step 6: Update version with pdfUrl and status COMPILED
-        // Per rules.md: Compilation ONLY updates pdfUrl and status
-        await this.prisma.resumeVersion.update({
-          where: { id: versionId },
-          data: {
-            pdfUrl,
-            status: 'COMPILED',
-          },
-        });
+    return {
+      newVersionId: result.id,
+      baseVersionId: base?.id ?? null,
+    };
+  }
 
-        console.log('✅ Database updated');
+  /**
+   * Load both sides of a merge and their common ancestor
+   *
+   * VERSION MERGE: Both versions must belong to the same project of the user.
+   * Merging a version that ours already contains is rejected (nothing to merge).
+   */
+  private async loadMergeInputs(mergeDto: MergeVersionsDto, userId: string) {
+    if (mergeDto.oursVersionId === mergeDto.theirsVersionId) {
+      throw new BadRequestException('Cannot merge a version into itself');
+    }
 
-        // Step 7: Clean up temp files
-        await this.cleanupTempDirectory(tempDir);
-        console.log('✅ Cleanup complete');
+    const [ours, theirs] = await Promise.all([
+      this.prisma.resumeVersion.findUnique({
+        where: { id: mergeDto.oursVersionId },
+        include: { project: true },
+      }),
+      this.prisma.resumeVersion.findUnique({
+        where: { id: mergeDto.theirsVersionId },
+        include: { project: true },
+      }),
+    ]);
 
-        // Step 8: Return success or warning
-        if (hasCompilationWarnings) {
-          return {
-            status: 'warning',
-            errors: compilationErrors,
-          };
-        }
-        
-        return {
-          status: 'success',
-          errors: [],
-        };
-      } catch (cloudinaryError) {
-        console.error('❌ Cloudinary upload failed:', cloudinaryError);
-        throw cloudinaryError;
-      }
+    if (!ours) {
+      throw new NotFoundException(`Version ${mergeDto.oursVersionId} not found`);
+    }
 
-    } catch (error) {
-      console.error('❌ Compilation error:', error);
-      
-      // Clean up on any error
-      await this.cleanupTempDirectory(tempDir);
-
-      // Update version status to ERROR
-      await this.prisma.resumeVersion.update({
-        where: { id: versionId },
-        data: { status: 'ERROR' },
-      });
+    if (!theirs) {
+      throw new NotFoundException(`Version ${mergeDto.theirsVersionId} not found`);
+    }
 
-      return {
-        status: 'error',
-        errors: [error.message || 'An unexpected error occurred during compilation'],
-      };
+    if (ours.project.userId !== userId || theirs.project.userId !== userId) {
+      throw new ForbiddenException('You do not have access to these versions');
     }
-  }
 
-  /**
-   * Parse LaTeX compilation errors from log file
-   * Extracts meaningful error messages for user display
-   */
-  private async parseLatexErrors(logFilePath: string): Promise<string[]> {
-    try {
-      const logContent = await fs.promises.readFile(logFilePath, 'utf-8');
-      const errors: string[] = [];
-
-      // Look for error patterns in LaTeX log
-      const errorLines = logContent.split('\n').filter(line => 
-        line.includes('!') || 
-        line.includes('Error:') || 
-        line.includes('Undefined control sequence')
-      );
+    if (ours.projectId !== theirs.projectId) {
+      throw new BadRequestException('Versions must belong to the same project');
+    }
 
-      // Extract first few meaningful errors
-      errorLines.slice(0, 5).forEach(line => {
-        const cleaned = line.trim();
-        if (cleaned.length > 0) {
-          errors.push(cleaned);
-        }
-      });
+    const baseVersionId = await this.findMergeBase(ours.projectId, ours.id, theirs.id);
 
-      return errors.length > 0 ? errors : ['LaTeX compilation failed. Check your syntax.'];
-    } catch {
-      return ['Could not read compilation log'];
+    if (baseVersionId === theirs.id) {
+      throw new BadRequestException('Nothing to merge: the version is already part of the history of the target');
     }
+
+    const base = baseVersionId
+      ? await this.prisma.resumeVersion.findUnique({ where: { id: baseVersionId } })
+      : null;
+
+    return { ours, theirs, base };
   }
 
   /**
-   * Clean up temporary compilation directory
+   * Nearest common ancestor of two versions
+   *
+   * Walks parentVersionId (and mergedFromId, so merging the same branches again
+   * starts from the previous merge). Returns null if the versions share no history.
    */
-  private async cleanupTempDirectory(dirPath: string): Promise<void> {
-    try {
-      await fs.promises.rm(dirPath, { recursive: true, force: true });
-    } catch (error) {
-      console.error(`Failed to clean up temp directory ${dirPath}:`, error);
-      // Non-fatal error, just log it
-    }
+  private async findMergeBase(projectId: string, oursVersionId: string, theirsVersionId: string): Promise<string | null> {
+    const versions = await this.prisma.resumeVersion.findMany({
+      where: { projectId },
+      select: { id: true, parentVersionId: true, mergedFromId: true },
+    });
+    const parentsOf = new Map(
+      versions.map(version => [version.id, [version.parentVersionId, version.mergedFromId].filter(Boolean)]),
+    );
+
+    // Breadth-first from a version: itself, its parents, their parents, ...
+    const ancestors = (startId: string): string[] => {
+      const order = [startId];
+      const seen = new Set(order);
+      for (let i = 0; i < order.length; i++) {
+        for (const parentId of parentsOf.get(order[i]) ?? []) {
+          if (!seen.has(parentId)) {
+            seen.add(parentId);
+            order.push(parentId);
+          }
+        }
+      }
+      return order;
+    };
+
+    const theirsAncestors = new Set(ancestors(theirsVersionId));
+    return ancestors(oursVersionId).find(id => theirsAncestors.has(id)) ?? null;
   }
 
   /**
    * Get diff between two versions
-   * From apis.md Section 7.1
+   * From apis.md Section 8.1
    * 
-   * PHASE 2: Placeholder with ownership verification (security stub)
-   * TODO: PHASE 4 - Implement diff logic
-   * TODO: PHASE 4 - Generate or retrieve VersionDiff
-   * TODO: PHASE 4 - Parse LaTeX changes
+   * PHASE 4: Section-aware diff
+   * - Both versions are split with LatexParserService.extractSections
+   * - Sections are matched by SectionType and diffed bullet by bullet
+   * - Result is cached in VersionDiff (versions are immutable)
    */
   async getVersionDiff(fromVersionId: string, toVersionId: string, userId: string): Promise<VersionDiffDto> {
-    // PHASE 2 HARDENING: Verify ownership of BOTH versions even in placeholder
+    if (!fromVersionId || !toVersionId) {
+      throw new BadRequestException('Both from and to version IDs are required');
+    }
+
+    // PHASE 2 HARDENING: Verify ownership of BOTH versions
     const [fromVersion, toVersion] = await Promise.all([
       this.prisma.resumeVersion.findUnique({
         where: { id: fromVersionId },
@@ -462,17 +547,114 @@ export class VersionsService {
       throw new ForbiddenException('You do not have access to the target version');
     }
 
-    // TODO: PHASE 4 - Real diff logic
-    // For now, return placeholder
+    if (fromVersion.projectId !== toVersion.projectId) {
+      throw new BadRequestException('Versions belong to different projects');
+    }
+
+    // Return cached diff if available
+    const cached = await this.prisma.versionDiff.findUnique({
+      where: {
+        fromVersionId_toVersionId: { fromVersionId, toVersionId },
+      },
+    });
+
+    if (cached) {
+      return this.toVersionDiffDto(
+        fromVersionId,
+        toVersionId,
+        cached.added as unknown as Array<{ sectionType: SectionType; text: string }>,
+        cached.removed as unknown as Array<{ sectionType: SectionType; text: string }>,
+        cached.rewritten as unknown as Array<{ sectionType: SectionType; before: string; after: string }>,
+      );
+    }
+
+    // Group section content by type (duplicate types are concatenated in order)
+    const groupSections = (latexContent: string): Map<SectionType, string> => {
+      const grouped = new Map<SectionType, string>();
+      for (const section of this.latexParser.extractSections(latexContent).sections) {
+        const existing = grouped.get(section.sectionType);
+        grouped.set(
+          section.sectionType,
+          existing ? `${existing}\n${section.content}` : section.content,
+        );
+      }
+      return grouped;
+    };
+
+    const fromSections = groupSections(fromVersion.latexContent);
+    const toSections = groupSections(toVersion.latexContent);
+
+    // Preserve document order: target sections first, then sections only in source
+    const sectionTypes = [
+      ...toSections.keys(),
+      ...[...fromSections.keys()].filter((type) => !toSections.has(type)),
+    ];
+
+    const added: Array<{ sectionType: SectionType; text: string }> = [];
+    const removed: Array<{ sectionType: SectionType; text: string }> = [];
+    const rewritten: Array<{ sectionType: SectionType; before: string; after: string }> = [];
+
+    for (const sectionType of sectionTypes) {
+      const bulletDiff = this.diffService.generateBulletDiff(
+        fromSections.get(sectionType) || '',
+        toSections.get(sectionType) || '',
+      );
+
+      added.push(...bulletDiff.added.map((text) => ({ sectionType, text })));
+      removed.push(...bulletDiff.removed.map((text) => ({ sectionType, text })));
+      rewritten.push(...bulletDiff.rewritten.map((pair) => ({ sectionType, ...pair })));
+    }
+
+    // Cache result (upsert tolerates concurrent requests for the same pair)
+    await this.prisma.versionDiff.upsert({
+      where: {
+        fromVersionId_toVersionId: { fromVersionId, toVersionId },
+      },
+      create: {
+        fromVersionId,
+        toVersionId,
+        added,
+        removed,
+        rewritten,
+      },
+      update: {},
+    });
+
+    return this.toVersionDiffDto(fromVersionId, toVersionId, added, removed, rewritten);
+  }
+
+  /**
+   * Build VersionDiffDto from stored diff entries
+   * Flat lists keep the apis.md shape; sections groups them by SectionType
+   */
+  private toVersionDiffDto(
+    fromVersionId: string,
+    toVersionId: string,
+    added: Array<{ sectionType: SectionType; text: string }>,
+    removed: Array<{ sectionType: SectionType; text: string }>,
+    rewritten: Array<{ sectionType: SectionType; before: string; after: string }>,
+  ): VersionDiffDto {
+    const sections = new Map<SectionType, SectionDiffDto>();
+    const sectionFor = (sectionType: SectionType): SectionDiffDto => {
+      if (!sections.has(sectionType)) {
+        sections.set(sectionType, { sectionType, added: [], removed: [], rewritten: [] });
+      }
+      return sections.get(sectionType)!;
+    };
+
+    for (const entry of added) sectionFor(entry.sectionType).added.push(entry.text);
+    for (const entry of removed) sectionFor(entry.sectionType).removed.push(entry.text);
+    for (const entry of rewritten) {
+      sectionFor(entry.sectionType).rewritten.push({ before: entry.before, after: entry.after });
+    }
+
     return {
-      added: ['New bullet point about Azure'],
-      removed: ['Old bullet point about AWS'],
-      rewritten: [
-        {
-          before: 'Developed web applications',
-          after: 'Engineered scalable web applications',
-        },
-      ],
+      fromVersionId,
+      toVersionId,
+      added: added.map((entry) => entry.text),
+      removed: removed.map((entry) => entry.text),
+      rewritten: rewritten.map(({ before, after }) => ({ before, after })),
+      sections: [...sections.values()],
     };
   }
 
@@ -481,11 +663,14 @@ export class VersionsService {
    * From apis.md Section 8.1
    * 
    * PHASE 8: Complete implementation
-   * - Returns Cloudinary PDF URL (no recompilation)
-   * - Requires version status === COMPILED
+   * - Streams the stored PDF (no recompilation)
+   * - Requires version compileStatus === COMPILED
    * - Ownership verified
+   * 
+   * FILE STORAGE: Reads pdfStorageKey through StorageService;
+   * versions compiled before pluggable storage are proxied from their Cloudinary pdfUrl
    */
-  async downloadPdf(versionId: string, userId: string): Promise<string> {
+  async downloadPdf(versionId: string, userId: string): Promise<Readable> {
     const version = await this.prisma.resumeVersion.findUnique({
       where: { id: versionId },
       include: { project: true },
@@ -500,17 +685,74 @@ export class VersionsService {
     }
 
     // Verify version is compiled
-    if (version.status !== 'COMPILED') {
+    if (version.compileStatus !== 'COMPILED') {
       throw new BadRequestException('Version must be compiled before downloading PDF');
     }
 
+    if (version.pdfStorageKey) {
+      try {
+        return await this.storage.getStream(version.pdfStorageKey);
+      } catch (error) {
+        if (error instanceof StorageObjectNotFoundError) {
+          throw new NotFoundException('PDF not found for this version');
+        }
+        throw error;
+      }
+    }
+
     // Verify PDF exists
     if (!version.pdfUrl) {
       throw new NotFoundException('PDF not found for this version');
     }
 
-    // Return Cloudinary URL (already public, no recompilation needed)
-    return version.pdfUrl;
+    // Legacy Cloudinary URL (public, proxied so the client only talks to the API)
+    const response = await fetch(version.pdfUrl);
+    if (!response.ok) {
+      throw new NotFoundException('PDF not found for this version');
+    }
+
+    // A successful response without body (e.g. 204) has nothing to stream
+    if (response.body === null) {
+      throw new NotFoundException('Stored PDF for this version is empty');
+    }
+
+    // fetch's DOM ReadableStream type and stream/web's are the same object at runtime
+    return Readable.fromWeb(response.body as ReadableStream<Uint8Array>);
+  }
+
+  /**
+   * Get the first-page thumbnail of a compiled version
+   * From apis.md Section 9.3
+   *
+   * THUMBNAILS: Rendered when the version's content was compiled (see CompileJobsService);
+   * versions compiled before thumbnails existed have none until their content is rebuilt
+   */
+  async downloadThumbnail(versionId: string, userId: string): Promise<Readable> {
+    const version = await this.prisma.resumeVersion.findUnique({
+      where: { id: versionId },
+      include: { project: true },
+    });
+
+    if (!version) {
+      throw new NotFoundException(`Version ${versionId} not found`);
+    }
+
+    if (version.project.userId !== userId) {
+      throw new ForbiddenException('You do not have access to this version');
+    }
+
+    if (version.compileStatus !== 'COMPILED' || !version.thumbnailKey) {
+      throw new NotFoundException('Thumbnail not found for this version');
+    }
+
+    try {
+      return await this.storage.getStream(version.thumbnailKey);
+    } catch (error) {
+      if (error instanceof StorageObjectNotFoundError) {
+        throw new NotFoundException('Thumbnail not found for this version');
+      }
+      throw error;
+    }
   }
 
   /**
@@ -546,8 +788,15 @@ export class VersionsService {
    * 
    * Returns all versions ordered by creation date (newest first)
    * Used for version selector dropdown and version history
+   * 
+   * ANNOTATIONS: q searches message, label and notes (case-insensitive);
+   * labeled and type narrow the list further
    */
-  async listVersionsForProject(projectId: string, userId: string): Promise<VersionListItemDto[]> {
+  async listVersionsForProject(
+    projectId: string,
+    userId: string,
+    query: ListVersionsQueryDto = {},
+  ): Promise<VersionListItemDto[]> {
     // Verify project ownership first
     const project = await this.prisma.resumeProject.findUnique({
       where: { id: projectId },
@@ -561,27 +810,146 @@ export class VersionsService {
       throw new ForbiddenException('You do not have access to this project');
     }
 
-    // Fetch all versions for the project
+    const where: Prisma.ResumeVersionWhereInput = { projectId };
+    const search = query.q?.trim();
+
+    if (search) {
+      where.OR = [
+        { message: { contains: search, mode: 'insensitive' } },
+        { label: { contains: search, mode: 'insensitive' } },
+        { notes: { contains: search, mode: 'insensitive' } },
+      ];
+    }
+
+    if (query.labeled !== undefined) {
+      where.label = query.labeled === 'true' ? { not: null } : null;
+    }
+
+    if (query.type) {
+      where.type = query.type;
+    }
+
+    // Fetch the versions for the project (latexContent is never listed)
     const versions = await this.prisma.resumeVersion.findMany({
-      where: { projectId },
+      where,
       orderBy: { createdAt: 'desc' }, // Newest first
+      select: VERSION_LIST_SELECT,
+    });
+
+    return versions.map(version => this.toListItemDto(version, project.activeVersionId));
+  }
+
+  /**
+   * Get the version tree of a project
+   * From apis.md Section 4.8
+   *
+   * VERSION TREE: One node per version (oldest first) and one edge per parentVersionId link.
+   * AI_GENERATED nodes carry the AI job (and JD) they were accepted from.
+   */
+  async getVersionTree(projectId: string, userId: string): Promise<VersionTreeDto> {
+    const project = await this.prisma.resumeProject.findUnique({
+      where: { id: projectId },
+    });
+
+    if (!project) {
+      throw new NotFoundException(`Project ${projectId} not found`);
+    }
+
+    if (project.userId !== userId) {
+      throw new ForbiddenException('You do not have access to this project');
+    }
+
+    const versions = await this.prisma.resumeVersion.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'asc' }, // Roots first, children after their parents
       select: {
         id: true,
-        projectId: true,
         type: true,
-        status: true,
+        compileStatus: true,
         createdAt: true,
         parentVersionId: true,
+        thumbnailKey: true,
+        message: true,
+        label: true,
+        notes: true,
+        restoredFromId: true,
+        mergedFromId: true,
+        sourceAiJob: {
+          select: {
+            id: true,
+            mode: true,
+            jd: { select: { id: true, roleType: true, seniority: true } },
+          },
+        },
       },
     });
 
-    return versions.map(version => ({
+    const nodes = versions.map(version => ({
       versionId: version.id,
-      projectId: version.projectId,
       type: version.type,
-      status: version.status,
+      compileStatus: version.compileStatus,
+      isActive: project.activeVersionId === version.id,
       createdAt: version.createdAt.toISOString(),
       parentVersionId: version.parentVersionId,
+      hasThumbnail: !!version.thumbnailKey,
+      message: version.message,
+      label: version.label,
+      notes: version.notes,
+      restoredFromVersionId: version.restoredFromId,
+      mergedFromVersionId: version.mergedFromId,
+      aiJob: version.sourceAiJob
+        ? {
+            aiJobId: version.sourceAiJob.id,
+            mode: version.sourceAiJob.mode,
+            jdId: version.sourceAiJob.jd?.id ?? null,
+            jdRoleType: version.sourceAiJob.jd?.roleType ?? null,
+            jdSeniority: version.sourceAiJob.jd?.seniority ?? null,
+          }
+        : null,
     }));
+
+    const edges = versions
+      .filter(version => version.parentVersionId)
+      .map(version => ({
+        fromVersionId: version.parentVersionId,
+        toVersionId: version.id,
+      }));
+
+    return {
+      projectId,
+      activeVersionId: project.activeVersionId,
+      nodes,
+      edges,
+    };
+  }
+
+  /**
+   * Map a version row to the list shape of apis.md Section 4.4
+   */
+  private toListItemDto(
+    version: Prisma.ResumeVersionGetPayload<{ select: typeof VERSION_LIST_SELECT }>,
+    activeVersionId: string | null,
+  ): VersionListItemDto {
+    return {
+      versionId: version.id,
+      projectId: version.projectId,
+      type: version.type,
+      compileStatus: version.compileStatus,
+      isActive: activeVersionId === version.id,
+      createdAt: version.createdAt.toISOString(),
+      parentVersionId: version.parentVersionId,
+      hasThumbnail: !!version.thumbnailKey,
+      message: version.message,
+      label: version.label,
+      notes: version.notes,
+    };
+  }
+
+  /**
+   * Trimmed annotation text; blank clears it (null)
+   */
+  private normalizeAnnotation(value: string | null | undefined): string | null {
+    const trimmed = value?.trim();
+    return trimmed ? trimmed : null;
   }
 }
@@ -8,6 +8,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { handleHttpError, getErrorMessage, isRetryableError } from '@/lib/errorHandling';
 import { apiUrl } from '@/lib/api';
 import { cn } from '@/lib/utils';
+import { VersionThumbnail } from '@/components/ui';
 import { 
   Plus, FileText, Clock, GitBranch, Upload, 
   Sparkles, TrendingUp, CheckCircle, AlertCircle,
@@ -25,6 +26,7 @@ import {
  * 
  * Visible Elements:
  * - List of Resume Projects (name, last updated, number of versions)
+ * - First-page thumbnail of the active (or newest compiled) version
  * - "Create New Resume Project" button
  * 
  * Allowed Actions:
@@ -41,6 +43,7 @@ interface ProjectListItem {
   name: string;
   updatedAt: string;
   versionCount: number;
+  thumbnailVersionId: string | null;  // THUMBNAILS: version whose first page is shown on the card
 }
 
 export default function DashboardPage() {
@@ -210,9 +213,10 @@ export default function DashboardPage() {
       const validTypes = ['application/pdf', 'application/x-tex', 'text/x-tex', 'text/plain'];
       const isPdf = file.type === 'application/pdf';
       const isTex = file.name.endsWith('.tex') || validTypes.includes(file.type);
+      const isZip = file.name.endsWith('.zip') || ['application/zip', 'application/x-zip-compressed'].includes(file.type);
       
-      if (!isPdf && !isTex) {
-        setCreateError('Please upload a PDF or LaTeX (.tex) file');
+      if (!isPdf && !isTex && !isZip) {
+        setCreateError('Please upload a PDF, LaTeX (.tex) or zip file');
         e.target.value = '';
         return;
       }
@@ -367,6 +371,22 @@ export default function DashboardPage() {
                 >
                   <Link href={`/projects/${project.projectId}`}>
                     <div className="group cursor-pointer h-full p-6 rounded-2xl bg-gray-900/50 backdrop-blur-sm border border-white/10 hover:bg-gray-900/70 hover:border-white/20 transition-all duration-200">
+                      {project.thumbnailVersionId && (
+                        <div className="mb-4 h-40 rounded-xl overflow-hidden border border-white/10 bg-gray-800/50">
+                          <VersionThumbnail
+                            versionId={project.thumbnailVersionId}
+                            getToken={getToken}
+                            alt={`${project.name} preview`}
+                            className="w-full h-full"
+                            fallback={
+                              <div className="w-full h-full flex items-center justify-center">
+                                <FileText className="w-8 h-8 text-gray-600" />
+                              </div>
+                            }
+                          />
+                        </div>
+                      )}
+
                       <div className="flex items-start justify-between mb-4">
                         <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-blue-500/20 to-indigo-500/20 flex items-center justify-center group-hover:scale-110 transition-transform">
                           <Folder className="w-6 h-6 text-blue-400" />
@@ -506,7 +526,7 @@ export default function DashboardPage() {
                           <Upload className="w-4 h-4 text-purple-400" />
                           Upload existing resume
                         </div>
-                        <div className="text-xs text-gray-500 mt-1">PDF or LaTeX (.tex) file</div>
+                        <div className="text-xs text-gray-500 mt-1">PDF, LaTeX (.tex) or Overleaf project (.zip)</div>
                       </div>
                     </label>
                   </div>
@@ -521,7 +541,7 @@ export default function DashboardPage() {
                     <input
                       id="resumeFile"
                       type="file"
-                      accept=".pdf,.tex,application/pdf,application/x-tex,text/x-tex"
+                      accept=".pdf,.tex,.zip,application/pdf,application/x-tex,text/x-tex,application/zip"
                       onChange={handleFileChange}
                       disabled={isCreating || isUploading}
                       className="w-full px-3 py-2 rounded-xl bg-white/5 border border-white/10 text-gray-300 focus:outline-none focus:ring-2 focus:ring-purple-500/50 disabled:opacity-50 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-semibold file:bg-purple-500/20 file:text-purple-300 hover:file:bg-purple-500/30 file:cursor-pointer cursor-pointer"
@@ -538,7 +558,9 @@ export default function DashboardPage() {
                           <span className="text-purple-300">
                             {uploadFile?.name.endsWith('.pdf') 
                               ? 'Extracting text and generating LaTeX...' 
-                              : 'Processing LaTeX file...'}
+                              : uploadFile?.name.endsWith('.zip')
+                                ? 'Importing project files...'
+                                : 'Processing LaTeX file...'}
                           </span>
                         </div>
                       </div>
@@ -17,16 +17,20 @@ import {
   Bot,
   ExternalLink,
   Copy,
-  Check
+  Check,
+  Server
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { apiUrl } from '@/lib/api';
 import { cn } from '@/lib/utils';
 
+type KeyProvider = 'AZURE_OPENAI' | 'GEMINI' | 'OPENAI_COMPATIBLE';
+
 interface ApiKey {
   id: string;
-  provider: 'AZURE_OPENAI' | 'GEMINI';
+  provider: KeyProvider;
   endpoint?: string;
+  model?: string | null;
   isValid: boolean;
   lastValidated: string | null;
   validationError: string | null;
@@ -43,9 +47,10 @@ export default function SettingsPage() {
   const [copiedId, setCopiedId] = useState<string | null>(null);
 
   // Form state
-  const [provider, setProvider] = useState<'AZURE_OPENAI' | 'GEMINI'>('GEMINI');
+  const [provider, setProvider] = useState<KeyProvider>('GEMINI');
   const [apiKey, setApiKey] = useState('');
   const [endpoint, setEndpoint] = useState('https://models.github.ai/inference');
+  const [model, setModel] = useState('');
   const [saving, setSaving] = useState(false);
 
   useEffect(() => {
@@ -83,19 +88,28 @@ export default function SettingsPage() {
       return;
     }
 
+    if (provider === 'OPENAI_COMPATIBLE' && !model.trim()) {
+      toast.error('Please enter a model name');
+      return;
+    }
+
     setSaving(true);
     try {
       const token = await getToken();
       
-      const body: { provider: string; apiKey: string; endpoint?: string } = {
+      const body: { provider: string; apiKey: string; endpoint?: string; model?: string } = {
         provider,
         apiKey,
       };
 
-      if (provider === 'AZURE_OPENAI') {
+      if (provider === 'AZURE_OPENAI' || provider === 'OPENAI_COMPATIBLE') {
         body.endpoint = endpoint;
       }
 
+      if (provider === 'OPENAI_COMPATIBLE') {
+        body.model = model.trim();
+      }
+
       const response = await fetch(apiUrl('/api/api-keys'), {
         method: 'POST',
         headers: {
@@ -114,6 +128,7 @@ export default function SettingsPage() {
       setShowAddModal(false);
       setApiKey('');
       setEndpoint('https://models.github.ai/inference');
+      setModel('');
       await loadApiKeys();
     } catch (error: any) {
       toast.error(error.message || 'Failed to save API key');
@@ -344,10 +359,14 @@ export default function SettingsPage() {
                             "w-10 h-10 rounded-lg flex items-center justify-center",
                             key.provider === 'GEMINI' 
                               ? "bg-gradient-to-br from-blue-500/20 to-cyan-500/20" 
-                              : "bg-gradient-to-br from-green-500/20 to-emerald-500/20"
+                              : key.provider === 'OPENAI_COMPATIBLE'
+                                ? "bg-gradient-to-br from-purple-500/20 to-fuchsia-500/20"
+                                : "bg-gradient-to-br from-green-500/20 to-emerald-500/20"
                           )}>
                             {key.provider === 'GEMINI' ? (
                               <Sparkles className="w-5 h-5 text-blue-400" />
+                            ) : key.provider === 'OPENAI_COMPATIBLE' ? (
+                              <Server className="w-5 h-5 text-purple-400" />
                             ) : (
                               <Bot className="w-5 h-5 text-green-400" />
                             )}
@@ -355,7 +374,11 @@ export default function SettingsPage() {
                           <div>
                             <div className="flex items-center gap-2 mb-1">
                               <h3 className="font-medium text-white">
-                                {key.provider === 'GEMINI' ? 'Google Gemini' : 'GitHub Models'}
+                                {key.provider === 'GEMINI'
+                                  ? 'Google Gemini'
+                                  : key.provider === 'OPENAI_COMPATIBLE'
+                                    ? 'OpenAI-compatible'
+                                    : 'GitHub Models'}
                               </h3>
                               {key.isValid ? (
                                 <span className="flex items-center gap-1 px-2 py-0.5 text-xs bg-emerald-500/20 text-emerald-400 rounded-full">
@@ -370,7 +393,11 @@ export default function SettingsPage() {
                               )}
                             </div>
                             <p className="text-xs text-gray-500">
-                              {key.provider === 'GEMINI' ? 'gemini-2.5-flash-lite' : 'openai/gpt-5'}
+                              {key.provider === 'GEMINI'
+                                ? 'gemini-2.5-flash-lite'
+                                : key.provider === 'OPENAI_COMPATIBLE'
+                                  ? key.model
+                                  : 'openai/gpt-5'}
                             </p>
                             {key.endpoint && (
                               <div className="flex items-center gap-2 mt-2">
@@ -488,9 +515,12 @@ export default function SettingsPage() {
                 {/* Provider Selection */}
                 <div>
                   <label className="block text-sm font-medium text-gray-300 mb-2">Provider</label>
-                  <div className="grid grid-cols-2 gap-3">
+                  <div className="grid grid-cols-3 gap-3">
                     <button
-                      onClick={() => setProvider('GEMINI')}
+                      onClick={() => {
+                        setProvider('GEMINI');
+                        setEndpoint('https://models.github.ai/inference');
+                      }}
                       className={cn(
                         "p-4 rounded-xl border transition-all text-left",
                         provider === 'GEMINI'
@@ -503,7 +533,10 @@ export default function SettingsPage() {
                       <p className="text-xs text-gray-500 mt-1">gemini-2.5-flash-lite</p>
                     </button>
                     <button
-                      onClick={() => setProvider('AZURE_OPENAI')}
+                      onClick={() => {
+                        setProvider('AZURE_OPENAI');
+                        setEndpoint('https://models.github.ai/inference');
+                      }}
                       className={cn(
                         "p-4 rounded-xl border transition-all text-left",
                         provider === 'AZURE_OPENAI'
@@ -515,6 +548,22 @@ export default function SettingsPage() {
                       <p className="text-white font-medium text-sm">GitHub Models</p>
                       <p className="text-xs text-gray-500 mt-1">openai/gpt-5</p>
                     </button>
+                    <button
+                      onClick={() => {
+                        setProvider('OPENAI_COMPATIBLE');
+                        setEndpoint('http://localhost:11434/v1');
+                      }}
+                      className={cn(
+                        "p-4 rounded-xl border transition-all text-left",
+                        provider === 'OPENAI_COMPATIBLE'
+                          ? "bg-purple-500/10 border-purple-500/30 ring-2 ring-purple-500/20"
+                          : "bg-white/5 border-white/10 hover:bg-white/10"
+                      )}
+                    >
+                      <Server className="w-5 h-5 text-purple-400 mb-2" />
+                      <p className="text-white font-medium text-sm">OpenAI-compatible</p>
+                      <p className="text-xs text-gray-500 mt-1">Ollama, llama.cpp</p>
+                    </button>
                   </div>
                 </div>
 
@@ -525,28 +574,51 @@ export default function SettingsPage() {
                     type="password"
                     value={apiKey}
                     onChange={(e) => setApiKey(e.target.value)}
-                    placeholder={provider === 'GEMINI' ? 'Enter Gemini API key' : 'Enter GitHub token'}
+                    placeholder={
+                      provider === 'GEMINI'
+                        ? 'Enter Gemini API key'
+                        : provider === 'OPENAI_COMPATIBLE'
+                          ? 'Enter API key (any value for local servers)'
+                          : 'Enter GitHub token'
+                    }
                     className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-transparent transition-all"
                   />
                   <p className="text-xs text-gray-500 mt-2 flex items-center gap-1">
                     <ExternalLink className="w-3 h-3" />
                     {provider === 'GEMINI' 
                       ? 'Get key from Google AI Studio'
-                      : 'Get token from GitHub Settings'}
+                      : provider === 'OPENAI_COMPATIBLE'
+                        ? 'Ollama and llama.cpp ignore the key'
+                        : 'Get token from GitHub Settings'}
                   </p>
                 </div>
 
-                {/* Endpoint (Azure only) */}
-                {provider === 'AZURE_OPENAI' && (
+                {/* Endpoint (Azure and OpenAI-compatible) */}
+                {(provider === 'AZURE_OPENAI' || provider === 'OPENAI_COMPATIBLE') && (
                   <div>
                     <label className="block text-sm font-medium text-gray-300 mb-2">Endpoint</label>
                     <input
                       type="text"
                       value={endpoint}
                       onChange={(e) => setEndpoint(e.target.value)}
-                      placeholder="https://models.github.ai/inference"
+                      placeholder={provider === 'OPENAI_COMPATIBLE' ? 'http://localhost:11434/v1' : 'https://models.github.ai/inference'}
+                      className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-transparent transition-all"
+                    />
+                  </div>
+                )}
+
+                {/* Model (OpenAI-compatible only) */}
+                {provider === 'OPENAI_COMPATIBLE' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">Model</label>
+                    <input
+                      type="text"
+                      value={model}
+                      onChange={(e) => setModel(e.target.value)}
+                      placeholder="llama3.1:8b"
                       className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-transparent transition-all"
                     />
+                    <p className="text-xs text-gray-500 mt-2">Must be listed by the server&apos;s /models endpoint</p>
                   </div>
                 )}
               </div>
@@ -557,6 +629,7 @@ export default function SettingsPage() {
                     setShowAddModal(false);
                     setApiKey('');
                     setEndpoint('https://models.github.ai/inference');
+                    setModel('');
                   }}
                   disabled={saving}
                   className="px-4 py-2 rounded-xl text-gray-400 hover:text-white hover:bg-white/5 transition-colors disabled:opacity-50"
@@ -7,7 +7,7 @@ import Link from 'next/link';
 import { motion } from 'framer-motion';
 import { handleHttpError, getErrorMessage } from '@/lib/errorHandling';
 import { apiUrl } from '@/lib/api';
-import { ArrowLeft, Zap, Calendar, Clock, ExternalLink, CheckCircle, XCircle, Loader2, AlertCircle } from 'lucide-react';
+import { ArrowLeft, Zap, Calendar, Clock, ExternalLink, CheckCircle, XCircle, Loader2, AlertCircle, Ban } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 /**
@@ -29,7 +29,7 @@ interface AIJob {
   projectId: string;
   jdId: string;
   baseVersionId: string;
-  status: 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+  status: 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
   createdAt: string;
   updatedAt: string;
 }
@@ -111,6 +111,12 @@ export default function AIJobsPage() {
           text: 'text-red-400', 
           icon: XCircle 
         };
+      case 'CANCELLED': 
+        return { 
+          bg: 'bg-gray-500/20', 
+          text: 'text-gray-400', 
+          icon: Ban 
+        };
       default: 
         return { 
           bg: 'bg-gray-500/20', 
@@ -0,0 +1,227 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { FolderOpen, Upload, Trash2, FileText, Image as ImageIcon, Type } from 'lucide-react';
+import { handleHttpError, getErrorMessage } from '@/lib/errorHandling';
+import { apiUrl } from '@/lib/api';
+
+/**
+ * PROJECT ASSETS: Support files of the project
+ *
+ * Classes, styles, bibliographies, images and fonts are placed next to resume.tex
+ * whenever any version of the project compiles.
+ * - GET /projects/{projectId}/assets (apis.md Section 3.6)
+ * - POST /projects/{projectId}/assets (Section 3.7, same path replaces)
+ * - DELETE /projects/{projectId}/assets/{assetId} (Section 3.8)
+ */
+
+interface ProjectAsset {
+  assetId: string;
+  path: string;
+  contentType: string;
+  size: number;
+  updatedAt: string;
+}
+
+interface ProjectAssetsProps {
+  projectId: string;
+  getToken: () => Promise<string | null>;
+}
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const AssetIcon = ({ asset }: { asset: ProjectAsset }) => {
+  if (asset.contentType.startsWith('image/')) return <ImageIcon className="w-4 h-4 text-emerald-400" />;
+  if (asset.contentType.startsWith('font/')) return <Type className="w-4 h-4 text-purple-400" />;
+  return <FileText className="w-4 h-4 text-blue-400" />;
+};
+
+export function ProjectAssets({ projectId, getToken }: ProjectAssetsProps) {
+  const [assets, setAssets] = useState<ProjectAsset[]>([]);
+  const [folder, setFolder] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchAssets = useCallback(async () => {
+    try {
+      const token = await getToken();
+
+      if (!token) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(apiUrl(`/api/projects/${projectId}/assets`), {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorInfo = await handleHttpError(response);
+        throw errorInfo;
+      }
+
+      setAssets(await response.json());
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  }, [projectId, getToken]);
+
+  useEffect(() => {
+    fetchAssets();
+  }, [fetchAssets]);
+
+  const uploadFiles = async (files: FileList) => {
+    setIsBusy(true);
+    setError(null);
+
+    try {
+      const token = await getToken();
+
+      if (!token) {
+        throw new Error('Not authenticated');
+      }
+
+      const prefix = folder.trim().replace(/^\/+|\/+$/g, '');
+      for (const file of Array.from(files)) {
+        const formData = new FormData();
+        formData.append('file', file);
+        formData.append('path', prefix ? `${prefix}/${file.name}` : file.name);
+
+        const response = await fetch(apiUrl(`/api/projects/${projectId}/assets`), {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${token}`,
+          },
+          body: formData,
+        });
+
+        if (!response.ok) {
+          const errorInfo = await handleHttpError(response);
+          throw errorInfo;
+        }
+      }
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+      await fetchAssets();
+      setIsBusy(false);
+    }
+  };
+
+  const deleteAsset = async (asset: ProjectAsset) => {
+    if (!confirm(`Delete ${asset.path}? Versions that use it will no longer compile.`)) return;
+
+    setIsBusy(true);
+    setError(null);
+
+    try {
+      const token = await getToken();
+
+      if (!token) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(apiUrl(`/api/projects/${projectId}/assets/${asset.assetId}`), {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorInfo = await handleHttpError(response);
+        throw errorInfo;
+      }
+
+      setAssets(prev => prev.filter(a => a.assetId !== asset.assetId));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.18 }}
+      className="rounded-2xl bg-gray-900/50 backdrop-blur-sm border border-white/10 p-6"
+    >
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <FolderOpen className="w-5 h-5 text-gray-400" />
+        <h3 className="text-lg font-semibold text-white">Project Files</h3>
+        <span className="text-xs text-gray-500">
+          {assets.length} file{assets.length !== 1 ? 's' : ''} · {formatSize(assets.reduce((total, a) => total + a.size, 0))}
+        </span>
+        <div className="ml-auto flex items-center gap-2">
+          <input
+            type="text"
+            value={folder}
+            onChange={(e) => setFolder(e.target.value)}
+            placeholder="folder (optional)"
+            disabled={isBusy}
+            className="w-40 px-3 py-1.5 rounded-lg bg-gray-800 border border-white/10 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-blue-500/50"
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isBusy}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-blue-500/20 border border-blue-500/30 text-sm text-blue-300 hover:bg-blue-500/30 transition-colors disabled:opacity-50"
+          >
+            {isBusy ? (
+              <div className="w-4 h-4 border-2 border-blue-400 border-t-transparent rounded-full animate-spin" />
+            ) : (
+              <Upload className="w-4 h-4" />
+            )}
+            Upload
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => e.target.files && e.target.files.length > 0 && uploadFiles(e.target.files)}
+          />
+        </div>
+      </div>
+
+      {assets.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No files yet. Upload .cls, .sty, .bib, images or fonts used by your LaTeX; they are placed next to resume.tex when compiling.
+        </p>
+      ) : (
+        <ul className="divide-y divide-white/5">
+          {assets.map(asset => (
+            <li key={asset.assetId} className="flex items-center gap-3 py-2">
+              <AssetIcon asset={asset} />
+              <span className="flex-1 min-w-0 font-mono text-sm text-gray-200 truncate">{asset.path}</span>
+              <span className="text-xs text-gray-500">{formatSize(asset.size)}</span>
+              <button
+                type="button"
+                onClick={() => deleteAsset(asset)}
+                disabled={isBusy}
+                title={`Delete ${asset.path}`}
+                className="p-1.5 rounded-lg text-gray-500 hover:text-red-400 hover:bg-red-500/10 transition-colors disabled:opacity-50"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <p className="mt-3 text-sm text-red-300">{error}</p>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,561 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { GitBranch, GitCompare, GitMerge, FileCode, Briefcase, FileText, RotateCcw, Search, MessageSquare } from 'lucide-react';
+import { handleHttpError, getErrorMessage } from '@/lib/errorHandling';
+import { apiUrl } from '@/lib/api';
+import { VersionThumbnail } from '@/components/ui';
+import { VersionCompareModal } from '../editor/components/VersionCompareModal';
+import { VersionMergeModal } from '../editor/components/VersionMergeModal';
+import { useVersionSearch } from '../editor/hooks/useVersionSearch';
+
+/**
+ * VERSION TREE: History graph of the project
+ *
+ * Draws GET /versions/project/{projectId}/tree (apis.md Section 4.8) as branches:
+ * time runs left to right, the first child of a version continues its lane and
+ * every further child opens a new lane. Clicking a node shows it with actions
+ * (open in the editor, compare with the active version, restore it as the active
+ * version via POST /versions/{versionId}/restore, Section 4.9).
+ * Restores are drawn as a dashed link from the restored version to its copy.
+ *
+ * VERSION MERGE: "Merge into active" merges the selected version into the active
+ * one (VersionMergeModal, Section 4.11); a MERGED version gets a dashed link from
+ * its second parent.
+ *
+ * ANNOTATIONS: Labels are drawn under their node; the selected version's label and
+ * notes are edited with PATCH /versions/{versionId} (Section 4.10). The search box
+ * (message, label, notes) dims versions that do not match.
+ */
+
+type VersionType = 'BASE' | 'MANUAL' | 'AI_GENERATED' | 'RESTORED' | 'MERGED';
+
+interface VersionTreeNode {
+  versionId: string;
+  type: VersionType;
+  compileStatus: 'NOT_COMPILED' | 'COMPILED' | 'ERROR';
+  isActive: boolean;
+  createdAt: string;
+  parentVersionId: string | null;
+  hasThumbnail: boolean;
+  message: string | null;
+  label: string | null;
+  notes: string | null;
+  restoredFromVersionId: string | null;
+  mergedFromVersionId: string | null;
+  aiJob: {
+    aiJobId: string;
+    mode: 'MINIMAL' | 'BALANCED' | 'AGGRESSIVE' | 'FIT_TO_PAGE';
+    jdId: string | null;
+    jdRoleType: string | null;
+    jdSeniority: string | null;
+  } | null;
+}
+
+interface VersionTree {
+  projectId: string;
+  activeVersionId: string | null;
+  nodes: VersionTreeNode[];
+  edges: Array<{ fromVersionId: string; toVersionId: string }>;
+}
+
+interface VersionHistoryProps {
+  projectId: string;
+  getToken: () => Promise<string | null>;
+}
+
+interface NodePosition {
+  x: number;
+  y: number;
+}
+
+const COLUMN_WIDTH = 56;
+const LANE_HEIGHT = 40;
+const PADDING = 24;
+const NODE_RADIUS = 8;
+const LABEL_MAX_CHARS = 9; // Node labels are cut to fit a column
+
+const TYPE_STYLES: Record<VersionType, { label: string; fill: string; text: string }> = {
+  BASE: { label: 'Base', fill: '#3b82f6', text: 'text-blue-300' },
+  MANUAL: { label: 'Manual', fill: '#f59e0b', text: 'text-amber-300' },
+  AI_GENERATED: { label: 'AI', fill: '#a855f7', text: 'text-purple-300' },
+  RESTORED: { label: 'Restored', fill: '#14b8a6', text: 'text-teal-300' },
+  MERGED: { label: 'Merged', fill: '#ec4899', text: 'text-pink-300' },
+};
+
+const MODE_LABELS: Record<NonNullable<VersionTreeNode['aiJob']>['mode'], string> = {
+  MINIMAL: 'Minimal',
+  BALANCED: 'Balanced',
+  AGGRESSIVE: 'Aggressive',
+  FIT_TO_PAGE: 'Fit to page',
+};
+
+const formatDate = (timestamp: string): string =>
+  new Date(timestamp).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const formatNodeLabel = (node: VersionTreeNode): string =>
+  `${TYPE_STYLES[node.type].label} - ${formatDate(node.createdAt)}${node.label ? ` [${node.label}]` : ''}${node.isActive ? ' (Active)' : ''}`;
+
+const truncateLabel = (label: string): string =>
+  label.length > LABEL_MAX_CHARS ? `${label.slice(0, LABEL_MAX_CHARS - 1)}…` : label;
+
+/**
+ * Column = position in time, lane = branch (nodes arrive oldest first, parents before children)
+ */
+const layoutTree = (nodes: VersionTreeNode[]): { positions: Map<string, NodePosition>; laneCount: number } => {
+  const positions = new Map<string, NodePosition>();
+  const laneOf = new Map<string, number>();
+  const continued = new Set<string>(); // Parents whose lane already has a child
+  let laneCount = 0;
+
+  nodes.forEach((node, column) => {
+    let lane: number;
+    const parentId = node.parentVersionId;
+
+    if (parentId && laneOf.has(parentId) && !continued.has(parentId)) {
+      lane = laneOf.get(parentId)!;
+      continued.add(parentId);
+    } else {
+      lane = laneCount++;
+    }
+
+    laneOf.set(node.versionId, lane);
+    positions.set(node.versionId, {
+      x: PADDING + column * COLUMN_WIDTH,
+      y: PADDING + lane * LANE_HEIGHT,
+    });
+  });
+
+  return { positions, laneCount };
+};
+
+export function VersionHistory({ projectId, getToken }: VersionHistoryProps) {
+  const [tree, setTree] = useState<VersionTree | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [isMerging, setIsMerging] = useState(false);
+  const [versionQuery, setVersionQuery] = useState('');
+  const [labelDraft, setLabelDraft] = useState('');
+  const [notesDraft, setNotesDraft] = useState('');
+  const [isSavingAnnotations, setIsSavingAnnotations] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { matchingIds } = useVersionSearch(projectId, versionQuery, getToken);
+
+  const fetchTree = useCallback(async () => {
+    try {
+      const token = await getToken();
+
+      if (!token) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(apiUrl(`/api/versions/project/${projectId}/tree`), {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorInfo = await handleHttpError(response);
+        throw errorInfo;
+      }
+
+      const data: VersionTree = await response.json();
+      setTree(data);
+      setSelectedId(current => current ?? data.activeVersionId);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  }, [projectId, getToken]);
+
+  useEffect(() => {
+    fetchTree();
+  }, [fetchTree]);
+
+  // Drafts follow the selected version (and its saved values after a refetch)
+  const selectedNode = tree?.nodes.find(n => n.versionId === selectedId) ?? null;
+  useEffect(() => {
+    setLabelDraft(selectedNode?.label ?? '');
+    setNotesDraft(selectedNode?.notes ?? '');
+  }, [selectedNode?.versionId, selectedNode?.label, selectedNode?.notes]);
+
+  const saveAnnotations = async (node: VersionTreeNode) => {
+    setIsSavingAnnotations(true);
+    setError(null);
+
+    try {
+      const token = await getToken();
+
+      if (!token) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(apiUrl(`/api/versions/${node.versionId}`), {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ label: labelDraft, notes: notesDraft }),
+      });
+
+      if (!response.ok) {
+        const errorInfo = await handleHttpError(response);
+        throw errorInfo;
+      }
+
+      await fetchTree();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSavingAnnotations(false);
+    }
+  };
+
+  const restoreVersion = async (node: VersionTreeNode) => {
+    if (!confirm(`Restore ${formatNodeLabel(node)}? A copy of it becomes the active version.`)) return;
+
+    setIsRestoring(true);
+    setError(null);
+
+    try {
+      const token = await getToken();
+
+      if (!token) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(apiUrl(`/api/versions/${node.versionId}/restore`), {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorInfo = await handleHttpError(response);
+        throw errorInfo;
+      }
+
+      const result: { newVersionId: string } = await response.json();
+      setSelectedId(result.newVersionId);
+      await fetchTree();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const handleMerged = async (newVersionId: string) => {
+    setIsMerging(false);
+    setSelectedId(newVersionId);
+    await fetchTree();
+  };
+
+  if (!tree) {
+    return error ? (
+      <div className="rounded-2xl bg-gray-900/50 border border-white/10 p-6 text-sm text-red-300">
+        Failed to load version history: {error}
+      </div>
+    ) : null;
+  }
+
+  const { positions, laneCount } = layoutTree(tree.nodes);
+  const width = PADDING * 2 + Math.max(tree.nodes.length - 1, 0) * COLUMN_WIDTH;
+  const height = PADDING * 2 + Math.max(laneCount - 1, 0) * LANE_HEIGHT;
+
+  const selected = selectedNode;
+  const active = tree.nodes.find(n => n.versionId === tree.activeVersionId) ?? null;
+
+  // Diff always runs older → newer (same as the editor's VersionSelector)
+  const comparePair = isComparing && selected && active && selected.versionId !== active.versionId
+    ? (new Date(selected.createdAt) <= new Date(active.createdAt) ? [selected, active] : [active, selected])
+    : null;
+
+  const mergePair = isMerging && selected && active && selected.versionId !== active.versionId
+    ? { ours: active, theirs: selected }
+    : null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.16 }}
+      className="rounded-2xl bg-gray-900/50 backdrop-blur-sm border border-white/10 p-6"
+    >
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <GitBranch className="w-5 h-5 text-gray-400" />
+        <h3 className="text-lg font-semibold text-white">Version History</h3>
+        <div className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-gray-800 border border-white/10">
+          <Search className="w-3.5 h-3.5 text-gray-500" />
+          <input
+            type="text"
+            value={versionQuery}
+            onChange={(e) => setVersionQuery(e.target.value)}
+            placeholder="Search messages, labels, notes"
+            className="w-52 bg-transparent text-sm text-white placeholder-gray-500 focus:outline-none"
+          />
+        </div>
+        <div className="ml-auto flex items-center gap-4 text-xs text-gray-400">
+          {(Object.keys(TYPE_STYLES) as VersionType[]).map(type => (
+            <span key={type} className="flex items-center gap-1.5">
+              <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: TYPE_STYLES[type].fill }} />
+              {TYPE_STYLES[type].label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto rounded-xl bg-gray-950/40 border border-white/5">
+        <svg width={width} height={height} className="block">
+          {tree.edges.map(edge => {
+            const from = positions.get(edge.fromVersionId);
+            const to = positions.get(edge.toVersionId);
+            if (!from || !to) return null;
+
+            // Same lane: straight line; new branch: bend down into the child's lane
+            const path = from.y === to.y
+              ? `M ${from.x} ${from.y} L ${to.x} ${to.y}`
+              : `M ${from.x} ${from.y} C ${from.x + COLUMN_WIDTH / 2} ${from.y}, ${to.x - COLUMN_WIDTH / 2} ${to.y}, ${to.x} ${to.y}`;
+
+            return (
+              <path
+                key={`${edge.fromVersionId}-${edge.toVersionId}`}
+                d={path}
+                fill="none"
+                stroke="rgba(255,255,255,0.2)"
+                strokeWidth={2}
+              />
+            );
+          })}
+
+          {tree.nodes.flatMap(node => [
+            { kind: 'restore', fromId: node.restoredFromVersionId, node, stroke: TYPE_STYLES.RESTORED.fill },
+            { kind: 'merge', fromId: node.mergedFromVersionId, node, stroke: TYPE_STYLES.MERGED.fill },
+          ]).filter(link => link.fromId).map(link => {
+            const from = positions.get(link.fromId!);
+            const to = positions.get(link.node.versionId)!;
+            if (!from) return null;
+
+            // Arc above both nodes so it does not run along the lane's own edges
+            const lift = LANE_HEIGHT / 2;
+            return (
+              <path
+                key={`${link.kind}-${link.node.versionId}`}
+                d={`M ${from.x} ${from.y} C ${from.x} ${Math.min(from.y, to.y) - lift}, ${to.x} ${Math.min(from.y, to.y) - lift}, ${to.x} ${to.y}`}
+                fill="none"
+                stroke={link.stroke}
+                strokeOpacity={0.6}
+                strokeWidth={1.5}
+                strokeDasharray="4 3"
+              />
+            );
+          })}
+
+          {tree.nodes.map(node => {
+            const position = positions.get(node.versionId)!;
+            const isSelected = node.versionId === selectedId;
+            const isDimmed = !!matchingIds && !matchingIds.has(node.versionId);
+
+            return (
+              <g
+                key={node.versionId}
+                onClick={() => setSelectedId(node.versionId)}
+                opacity={isDimmed ? 0.25 : 1}
+                className="cursor-pointer"
+              >
+                <title>{formatNodeLabel(node)}</title>
+                {node.isActive && (
+                  <circle cx={position.x} cy={position.y} r={NODE_RADIUS + 5} fill="none" stroke="#34d399" strokeWidth={2} />
+                )}
+                <circle
+                  cx={position.x}
+                  cy={position.y}
+                  r={isSelected ? NODE_RADIUS + 2 : NODE_RADIUS}
+                  fill={TYPE_STYLES[node.type].fill}
+                  stroke={isSelected ? '#ffffff' : node.compileStatus === 'ERROR' ? '#f87171' : 'transparent'}
+                  strokeWidth={2}
+                />
+                {node.label && (
+                  <text
+                    x={position.x}
+                    y={position.y + NODE_RADIUS + 12}
+                    textAnchor="middle"
+                    fontSize={9}
+                    fill="#5eead4"
+                  >
+                    {truncateLabel(node.label)}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      {selected && (
+        <div className="mt-4 flex gap-4">
+          <div className="shrink-0 w-20 h-28 rounded-lg overflow-hidden border border-white/10 bg-gray-800/50">
+            {selected.hasThumbnail && (
+              <VersionThumbnail
+                versionId={selected.versionId}
+                getToken={getToken}
+                className="w-full h-full"
+                fallback={
+                  <div className="w-full h-full flex items-center justify-center">
+                    <FileText className="w-6 h-6 text-gray-600" />
+                  </div>
+                }
+              />
+            )}
+          </div>
+
+          <div className="flex-1 min-w-0 space-y-2">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className={`font-medium ${TYPE_STYLES[selected.type].text}`}>{TYPE_STYLES[selected.type].label}</span>
+              <span className="text-gray-400">{formatDate(selected.createdAt)}</span>
+              {selected.isActive && (
+                <span className="px-2 py-0.5 rounded-full text-xs bg-emerald-500/15 text-emerald-300">Active</span>
+              )}
+              {selected.compileStatus === 'ERROR' && (
+                <span className="px-2 py-0.5 rounded-full text-xs bg-red-500/15 text-red-300">Compile error</span>
+              )}
+              {selected.compileStatus === 'NOT_COMPILED' && (
+                <span className="px-2 py-0.5 rounded-full text-xs bg-gray-500/15 text-gray-400">Not compiled</span>
+              )}
+            </div>
+
+            {selected.message && (
+              <div className="flex items-start gap-2 text-sm text-gray-300">
+                <MessageSquare className="w-3.5 h-3.5 mt-0.5 shrink-0 text-gray-500" />
+                <span className="break-words">{selected.message}</span>
+              </div>
+            )}
+
+            {selected.aiJob && (
+              <div className="flex items-center gap-2 text-xs text-gray-400">
+                <Briefcase className="w-3.5 h-3.5" />
+                <span>
+                  {MODE_LABELS[selected.aiJob.mode]} AI job
+                  {selected.aiJob.jdRoleType && ` for ${[selected.aiJob.jdSeniority, selected.aiJob.jdRoleType].filter(Boolean).join(' ')}`}
+                </span>
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2 pt-1">
+              <Link
+                href={`/projects/${projectId}/editor?versionId=${selected.versionId}`}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-blue-500/20 border border-blue-500/30 text-sm text-blue-300 hover:bg-blue-500/30 transition-colors"
+              >
+                <FileCode className="w-4 h-4" />
+                Open
+              </Link>
+              {active && selected.versionId !== active.versionId && (
+                <button
+                  type="button"
+                  onClick={() => setIsComparing(true)}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-white/10 text-sm text-gray-300 hover:text-white hover:bg-white/5 transition-colors"
+                >
+                  <GitCompare className="w-4 h-4" />
+                  Compare with active
+                </button>
+              )}
+              {active && selected.versionId !== active.versionId && (
+                <button
+                  type="button"
+                  onClick={() => setIsMerging(true)}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-pink-500/30 text-sm text-pink-300 hover:bg-pink-500/10 transition-colors"
+                >
+                  <GitMerge className="w-4 h-4" />
+                  Merge into active
+                </button>
+              )}
+              {!selected.isActive && (
+                <button
+                  type="button"
+                  onClick={() => restoreVersion(selected)}
+                  disabled={isRestoring}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-teal-500/30 text-sm text-teal-300 hover:bg-teal-500/10 transition-colors disabled:opacity-50"
+                >
+                  {isRestoring ? (
+                    <div className="w-4 h-4 border-2 border-teal-400 border-t-transparent rounded-full animate-spin" />
+                  ) : (
+                    <RotateCcw className="w-4 h-4" />
+                  )}
+                  Restore
+                </button>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 pt-2">
+              <input
+                type="text"
+                value={labelDraft}
+                onChange={(e) => setLabelDraft(e.target.value)}
+                maxLength={80}
+                placeholder="Label, e.g. Sent to Stripe 2026-09"
+                disabled={isSavingAnnotations}
+                className="px-3 py-1.5 rounded-lg bg-gray-800 border border-white/10 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-blue-500/50 disabled:opacity-60"
+              />
+              <textarea
+                value={notesDraft}
+                onChange={(e) => setNotesDraft(e.target.value)}
+                maxLength={5000}
+                rows={1}
+                placeholder="Notes"
+                disabled={isSavingAnnotations}
+                className="sm:col-span-2 px-3 py-1.5 rounded-lg bg-gray-800 border border-white/10 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-blue-500/50 resize-y disabled:opacity-60"
+              />
+            </div>
+            {(labelDraft !== (selected.label ?? '') || notesDraft !== (selected.notes ?? '')) && (
+              <button
+                type="button"
+                onClick={() => saveAnnotations(selected)}
+                disabled={isSavingAnnotations}
+                className="px-3 py-1.5 rounded-lg bg-blue-500/20 border border-blue-500/30 text-sm text-blue-300 hover:bg-blue-500/30 transition-colors disabled:opacity-50"
+              >
+                {isSavingAnnotations ? 'Saving...' : 'Save label & notes'}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <p className="mt-3 text-sm text-red-300">{error}</p>
+      )}
+
+      {comparePair && (
+        <VersionCompareModal
+          fromVersionId={comparePair[0].versionId}
+          toVersionId={comparePair[1].versionId}
+          fromLabel={formatNodeLabel(comparePair[0])}
+          toLabel={formatNodeLabel(comparePair[1])}
+          onClose={() => setIsComparing(false)}
+          getToken={getToken}
+        />
+      )}
+
+      {mergePair && (
+        <VersionMergeModal
+          oursVersionId={mergePair.ours.versionId}
+          theirsVersionId={mergePair.theirs.versionId}
+          oursLabel={formatNodeLabel(mergePair.ours)}
+          theirsLabel={formatNodeLabel(mergePair.theirs)}
+          onClose={() => setIsMerging(false)}
+          onMerged={handleMerged}
+          getToken={getToken}
+        />
+      )}
+    </motion.div>
+  );
+}
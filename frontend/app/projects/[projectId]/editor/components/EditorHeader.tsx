@@ -27,8 +27,13 @@ import {
   Settings,
   LayoutDashboard,
   LogOut,
-  User
+  User,
+  GitCompare,
+  Search,
+  Tag
 } from 'lucide-react';
+import { VersionCompareModal } from './VersionCompareModal';
+import { useVersionSearch } from '../hooks/useVersionSearch';
 
 /**
  * REFACTORED EDITOR HEADER
@@ -39,26 +44,32 @@ import {
  * - Compact version selector
  * - Panel mode toggle (PDF/AI)
  * - Actions collapsed into 3-dot menu
+ * - Version labels / commit messages in the dropdown, searchable (message, label, notes)
+ * - Optional commit message when saving
  */
 
 interface Version {
   versionId: string;
   projectId: string;
-  type: 'BASE' | 'MANUAL' | 'AI_GENERATED';
-  status: 'DRAFT' | 'COMPILED' | 'ERROR' | 'ACTIVE';
+  type: 'BASE' | 'MANUAL' | 'AI_GENERATED' | 'RESTORED' | 'MERGED';
+  compileStatus: 'NOT_COMPILED' | 'COMPILED' | 'ERROR';
+  isActive: boolean;
   createdAt: string;
   parentVersionId: string | null;
+  message: string | null;
+  label: string | null;
+  notes: string | null;
 }
 
 interface EditorHeaderProps {
   projectId: string;
   projectName?: string;
   currentVersionId: string | null;
-  currentVersionStatus?: 'DRAFT' | 'COMPILED' | 'ERROR' | 'ACTIVE' | null;
+  currentCompileStatus?: 'NOT_COMPILED' | 'COMPILED' | 'ERROR' | null;
   isDirty: boolean;
   isLoading: boolean;
   error?: string | null;
-  onSave: () => Promise<void>;
+  onSave: (message?: string) => Promise<boolean>; // false: nothing was saved (error or save conflict)
   onCompile?: () => Promise<void>;
   onVersionSwitch: (versionId: string) => Promise<void>;
   panelMode: 'pdf' | 'ai';
@@ -69,7 +80,7 @@ export function EditorHeader({
   projectId,
   projectName = 'Resume',
   currentVersionId,
-  currentVersionStatus,
+  currentCompileStatus,
   isDirty,
   isLoading,
   error,
@@ -93,6 +104,10 @@ export function EditorHeader({
   const [isCompiling, setIsCompiling] = useState(false);
   const [isDownloading, setIsDownloading] = useState(false);
   const [showSuccess, setShowSuccess] = useState<string | null>(null);
+  const [compareVersionId, setCompareVersionId] = useState<string | null>(null);
+  const [saveMessage, setSaveMessage] = useState('');
+  const [versionQuery, setVersionQuery] = useState('');
+  const { matchingIds, isSearching } = useVersionSearch(projectId, versionQuery, getToken);
   
   // Refs for click outside
   const versionRef = useRef<HTMLDivElement>(null);
@@ -158,8 +173,10 @@ export function EditorHeader({
   const handleSave = async () => {
     setIsSaving(true);
     try {
-      await onSave();
-      setShowSuccess('Saved');
+      if (await onSave(saveMessage)) {
+        setSaveMessage('');
+        setShowSuccess('Saved');
+      }
       setIsActionsOpen(false);
     } catch (err) {
       console.error('Save failed:', err);
@@ -209,8 +226,15 @@ export function EditorHeader({
       });
 
       if (!response.ok) throw new Error('Failed to download PDF');
-      const result = await response.json();
-      window.open(result.url, '_blank');
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `resume-${currentVersionId.substring(0, 8)}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
       setShowSuccess('Downloaded');
       setIsActionsOpen(false);
     } catch (err) {
@@ -251,12 +275,23 @@ export function EditorHeader({
   };
 
   const currentVersion = versions.find(v => v.versionId === currentVersionId);
+  const compareVersion = versions.find(v => v.versionId === compareVersionId);
+  const visibleVersions = matchingIds ? versions.filter(v => matchingIds.has(v.versionId)) : versions;
+
+  // Diff always runs older → newer regardless of which one is loaded
+  const comparePair = compareVersion && currentVersion
+    ? (new Date(compareVersion.createdAt) <= new Date(currentVersion.createdAt)
+        ? [compareVersion, currentVersion]
+        : [currentVersion, compareVersion])
+    : null;
   
   const getVersionIcon = (type: string) => {
     switch (type) {
       case 'BASE': return '🏠';
       case 'MANUAL': return '✏️';
       case 'AI_GENERATED': return '🤖';
+      case 'RESTORED': return '↩️';
+      case 'MERGED': return '🔀';
       default: return '📄';
     }
   };
@@ -273,7 +308,6 @@ export function EditorHeader({
 
   const getStatusColor = (status: string) => {
     switch (status) {
-      case 'ACTIVE': return 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30';
       case 'COMPILED': return 'bg-blue-500/20 text-blue-400 border-blue-500/30';
       case 'ERROR': return 'bg-red-500/20 text-red-400 border-red-500/30';
       default: return 'bg-gray-500/20 text-gray-400 border-gray-500/30';
@@ -330,7 +364,7 @@ export function EditorHeader({
             >
               <Clock className="w-4 h-4 text-gray-400" />
               <span className="text-gray-300 max-w-[120px] truncate">
-                {currentVersion ? formatTime(currentVersion.createdAt) : 'Select version'}
+                {currentVersion ? (currentVersion.label ?? formatTime(currentVersion.createdAt)) : 'Select version'}
               </span>
               <ChevronDown className={cn(
                 "w-3 h-3 text-gray-500 transition-transform",
@@ -348,35 +382,78 @@ export function EditorHeader({
                   transition={{ duration: 0.15 }}
                   className="absolute top-full left-0 mt-2 w-72 rounded-xl bg-gray-900/95 backdrop-blur-xl border border-white/10 shadow-2xl overflow-hidden"
                 >
-                  <div className="p-2 border-b border-white/5">
+                  <div className="p-2 border-b border-white/5 space-y-2">
                     <p className="text-xs text-gray-500 px-2">Version History</p>
+                    <div className="flex items-center gap-2 px-2 py-1.5 rounded-lg bg-white/5 border border-white/10">
+                      <Search className={cn("w-3.5 h-3.5 text-gray-500", isSearching && "animate-pulse")} />
+                      <input
+                        type="text"
+                        value={versionQuery}
+                        onChange={(e) => setVersionQuery(e.target.value)}
+                        placeholder="Search messages, labels, notes"
+                        className="flex-1 min-w-0 bg-transparent text-xs text-gray-200 placeholder-gray-500 focus:outline-none"
+                      />
+                    </div>
                   </div>
                   <div className="max-h-64 overflow-y-auto p-1">
-                    {versions.map((version) => (
-                      <button
-                        key={version.versionId}
-                        onClick={() => handleVersionSwitch(version.versionId)}
-                        className={cn(
-                          "w-full flex items-center justify-between px-3 py-2.5 rounded-lg text-left transition-all",
-                          version.versionId === currentVersionId
-                            ? "bg-blue-500/20 text-blue-300"
-                            : "hover:bg-white/5 text-gray-300"
-                        )}
-                      >
-                        <div className="flex items-center gap-2">
-                          <span>{getVersionIcon(version.type)}</span>
-                          <div>
-                            <p className="text-sm font-medium">{formatTime(version.createdAt)}</p>
-                            <p className="text-xs text-gray-500 capitalize">{version.type.toLowerCase().replace('_', ' ')}</p>
+                    {visibleVersions.length === 0 && (
+                      <p className="px-3 py-2.5 text-xs text-gray-500">No matching versions</p>
+                    )}
+                    {visibleVersions.map((version) => (
+                      <div key={version.versionId} className="flex items-center gap-1">
+                        <button
+                          onClick={() => handleVersionSwitch(version.versionId)}
+                          className={cn(
+                            "flex-1 flex items-center justify-between px-3 py-2.5 rounded-lg text-left transition-all",
+                            version.versionId === currentVersionId
+                              ? "bg-blue-500/20 text-blue-300"
+                              : "hover:bg-white/5 text-gray-300"
+                          )}
+                        >
+                          <div className="flex items-center gap-2 min-w-0">
+                            <span>{getVersionIcon(version.type)}</span>
+                            <div className="min-w-0">
+                              <p className="text-sm font-medium flex items-center gap-1.5">
+                                {formatTime(version.createdAt)}
+                                {version.label && (
+                                  <span className="flex items-center gap-0.5 max-w-[96px] text-[10px] px-1.5 py-0.5 rounded-full bg-teal-500/15 text-teal-300 truncate">
+                                    <Tag className="w-2.5 h-2.5 shrink-0" />
+                                    <span className="truncate">{version.label}</span>
+                                  </span>
+                                )}
+                              </p>
+                              <p className="text-xs text-gray-500 truncate" title={version.message ?? undefined}>
+                                {version.message ?? <span className="capitalize">{version.type.toLowerCase().replace('_', ' ')}</span>}
+                              </p>
+                            </div>
                           </div>
-                        </div>
-                        <span className={cn(
-                          "text-[10px] px-2 py-0.5 rounded-full border",
-                          getStatusColor(version.status)
-                        )}>
-                          {version.status}
-                        </span>
-                      </button>
+                          <div className="flex items-center gap-1">
+                            {version.isActive && (
+                              <span className="text-[10px] px-2 py-0.5 rounded-full border bg-emerald-500/20 text-emerald-400 border-emerald-500/30">
+                                ACTIVE
+                              </span>
+                            )}
+                            <span className={cn(
+                              "text-[10px] px-2 py-0.5 rounded-full border",
+                              getStatusColor(version.compileStatus)
+                            )}>
+                              {version.compileStatus.replace('_', ' ')}
+                            </span>
+                          </div>
+                        </button>
+                        {version.versionId !== currentVersionId && (
+                          <button
+                            onClick={() => {
+                              setIsVersionOpen(false);
+                              setCompareVersionId(version.versionId);
+                            }}
+                            title="Compare with current version"
+                            className="p-2 rounded-lg text-gray-500 hover:text-blue-300 hover:bg-white/5 transition-colors"
+                          >
+                            <GitCompare className="w-3.5 h-3.5" />
+                          </button>
+                        )}
+                      </div>
                     ))}
                   </div>
                 </motion.div>
@@ -460,6 +537,22 @@ export function EditorHeader({
                   className="absolute top-full right-0 mt-2 w-56 rounded-xl bg-gray-900/95 backdrop-blur-xl border border-white/10 shadow-2xl overflow-hidden"
                 >
                   <div className="p-1">
+                    {/* Commit message for the next save */}
+                    <div className="px-2 pt-1.5 pb-1">
+                      <input
+                        type="text"
+                        value={saveMessage}
+                        onChange={(e) => setSaveMessage(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter' && isDirty && !isSaving) handleSave();
+                        }}
+                        maxLength={500}
+                        disabled={!isDirty || isSaving}
+                        placeholder="Describe this change (optional)"
+                        className="w-full px-2.5 py-1.5 rounded-lg bg-white/5 border border-white/10 text-xs text-gray-200 placeholder-gray-500 focus:outline-none focus:border-blue-500/50 disabled:opacity-50"
+                      />
+                    </div>
+
                     {/* Save */}
                     <button
                       onClick={handleSave}
@@ -494,14 +587,14 @@ export function EditorHeader({
                     {/* Download PDF */}
                     <button
                       onClick={handleDownloadPdf}
-                      disabled={!currentVersionId || currentVersionStatus !== 'COMPILED' || isDownloading}
+                      disabled={!currentVersionId || currentCompileStatus !== 'COMPILED' || isDownloading}
                       className="w-full flex items-center gap-3 px-3 py-2.5 rounded-lg text-left hover:bg-white/5 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                     >
                       <FileText className="w-4 h-4 text-red-400" />
                       <div className="flex-1">
                         <p className="text-sm text-gray-300">Download PDF</p>
                         <p className="text-xs text-gray-500">
-                          {currentVersionStatus !== 'COMPILED' ? 'Compile first' : 'Export document'}
+                          {currentCompileStatus !== 'COMPILED' ? 'Compile first' : 'Export document'}
                         </p>
                       </div>
                     </button>
@@ -646,6 +739,17 @@ export function EditorHeader({
           </div>
         </div>
       </div>
+
+      {comparePair && (
+        <VersionCompareModal
+          fromVersionId={comparePair[0].versionId}
+          toVersionId={comparePair[1].versionId}
+          fromLabel={formatTime(comparePair[0].createdAt)}
+          toLabel={formatTime(comparePair[1].createdAt)}
+          onClose={() => setCompareVersionId(null)}
+          getToken={getToken}
+        />
+      )}
     </header>
   );
 }
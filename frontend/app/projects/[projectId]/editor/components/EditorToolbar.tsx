@@ -14,7 +14,7 @@ import { apiUrl } from '@/lib/api';
  * - Creates new MANUAL version
  * - Show minimal success feedback
  * - No autosave
- * - Download PDF (enabled only if status === COMPILED)
+ * - Download PDF (enabled only if compileStatus === COMPILED)
  * - Download LaTeX (always enabled)
  * 
  * Per userflow.md Section 2.5:
@@ -29,7 +29,7 @@ interface EditorToolbarProps {
   onCompile?: () => Promise<void>;
   currentVersionId: string | null;
   projectId: string;
-  currentVersionStatus?: 'DRAFT' | 'COMPILED' | 'ERROR' | 'ACTIVE' | null;
+  currentCompileStatus?: 'NOT_COMPILED' | 'COMPILED' | 'ERROR' | null;
   getToken: () => Promise<string | null>;
   onSaveSuccess?: () => void;
 }
@@ -41,7 +41,7 @@ export function EditorToolbar({
   onCompile,
   currentVersionId,
   projectId,
-  currentVersionStatus,
+  currentCompileStatus,
   getToken,
   onSaveSuccess,
 }: EditorToolbarProps) {
@@ -109,10 +109,15 @@ export function EditorToolbar({
         throw new Error('Failed to download PDF');
       }
 
-      const result = await response.json();
-      
-      // Open Cloudinary URL in new tab to download
-      window.open(result.url, '_blank');
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `resume-${currentVersionId.substring(0, 8)}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
     } catch (err) {
       console.error('Download failed:', err);
       alert('Failed to download PDF. Please ensure the version is compiled.');
@@ -217,9 +222,9 @@ export function EditorToolbar({
         <button
           type="button"
           onClick={handleDownloadPdf}
-          disabled={!currentVersionId || currentVersionStatus !== 'COMPILED' || isDownloading}
+          disabled={!currentVersionId || currentCompileStatus !== 'COMPILED' || isDownloading}
           className="px-4 py-2 text-sm font-medium text-zinc-200 bg-zinc-800/60 backdrop-blur-sm border border-white/10 rounded-md hover:bg-zinc-800/80 disabled:bg-zinc-900/30 disabled:text-zinc-600 disabled:cursor-not-allowed transition-colors"
-          title={currentVersionStatus === 'COMPILED' ? 'Download compiled PDF' : 'Compile resume first to download PDF'}
+          title={currentCompileStatus === 'COMPILED' ? 'Download compiled PDF' : 'Compile resume first to download PDF'}
         >
           {isDownloading ? '↓...' : '↓ PDF'}
         </button>
@@ -4,11 +4,15 @@ import React, { useEffect } from 'react';
 import { useAuth } from '@clerk/nextjs';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { motion } from 'framer-motion';
-import { useEditorState } from '../hooks/useEditorState';
+import { useEditorState, type SaveConflictResolution } from '../hooks/useEditorState';
 import { useToast } from '@/components/ui/Toast';
+import { getErrorMessage } from '@/lib/errorHandling';
 import { EditorHeader } from './EditorHeader';
 import { LaTeXEditor } from './LaTeXEditor';
+import { SectionLocks } from './SectionLocks';
 import { PDFPreview } from './PDFPreview';
+import { SaveConflictDialog } from './SaveConflictDialog';
+import { VersionMergeModal } from './VersionMergeModal';
 import { AiPanel } from './ai/AiPanel';
 import { FileText, Sparkles } from 'lucide-react';
 
@@ -20,6 +24,8 @@ import { FileText, Sparkles } from 'lucide-react';
  * - Smooth panel transitions
  * - Modern empty states
  * - Toast notifications for feedback
+ * - One-click undo after accepting an AI proposal (restores the version the job started from)
+ * - Stale-save handling: merge, overwrite or branch when the active version changed meanwhile
  */
 
 interface EditorWorkspaceProps {
@@ -42,10 +48,18 @@ export function EditorWorkspace({ projectId, initialVersionId }: EditorWorkspace
     isCompiling,
     error,
     currentVersion,
+    diagnostics,
+    pageMetrics,
+    saveConflict,
+    pendingMerge,
     loadVersion,
     updateDraft,
     switchVersion,
     saveEdit,
+    resolveSaveConflict,
+    dismissSaveConflict,
+    clearPendingMerge,
+    restoreVersion,
     compileVersion,
   } = useEditorState(projectId, getToken);
 
@@ -59,7 +73,8 @@ export function EditorWorkspace({ projectId, initialVersionId }: EditorWorkspace
     router.replace(`/projects/${projectId}/editor?${params.toString()}`, { scroll: false });
   };
 
-  const handleSave = async () => {
+  // Returns false when nothing was saved (error, or a conflict left to SaveConflictDialog)
+  const handleSave = async (message?: string) => {
     const toastId = addToast({
       type: 'loading',
       title: 'Saving changes...',
@@ -67,15 +82,20 @@ export function EditorWorkspace({ projectId, initialVersionId }: EditorWorkspace
     });
     
     try {
-      await saveEdit((newVersionId) => {
+      const newVersionId = await saveEdit((savedVersionId) => {
         updateToast(toastId, {
           type: 'success',
           title: 'Saved successfully',
           message: 'New version created',
           duration: 3000,
         });
-        updateUrlWithVersion(newVersionId);
-      });
+        updateUrlWithVersion(savedVersionId);
+      }, message);
+
+      if (!newVersionId) {
+        removeToast(toastId);
+      }
+      return !!newVersionId;
     } catch {
       updateToast(toastId, {
         type: 'error',
@@ -83,9 +103,57 @@ export function EditorWorkspace({ projectId, initialVersionId }: EditorWorkspace
         message: error || 'Could not save changes',
         duration: 5000,
       });
+      return false;
+    }
+  };
+
+  const handleResolveConflict = async (resolution: SaveConflictResolution) => {
+    const toastId = addToast({
+      type: 'loading',
+      title: resolution === 'overwrite' ? 'Saving changes...' : 'Saving as a separate version...',
+    });
+
+    try {
+      const newVersionId = await resolveSaveConflict(resolution);
+
+      // Changed again meanwhile: the dialog is shown again
+      if (!newVersionId) {
+        removeToast(toastId);
+        return;
+      }
+
+      updateUrlWithVersion(newVersionId);
+      if (resolution === 'merge') {
+        removeToast(toastId); // VersionMergeModal takes over
+      } else {
+        updateToast(toastId, {
+          type: 'success',
+          title: 'Saved successfully',
+          message: resolution === 'overwrite' ? 'Your edit is now the active version' : 'Saved as a branch, the other version stays active',
+          duration: 3000,
+        });
+      }
+    } catch (err) {
+      updateToast(toastId, {
+        type: 'error',
+        title: 'Save failed',
+        message: getErrorMessage(err),
+        duration: 5000,
+      });
     }
   };
 
+  const handleMerged = async (mergedVersionId: string) => {
+    await switchVersion(mergedVersionId);
+    updateUrlWithVersion(mergedVersionId);
+    addToast({
+      type: 'success',
+      title: 'Versions merged',
+      message: 'Merged version created and set as active',
+      duration: 3000,
+    });
+  };
+
   const handleCompile = async () => {
     const toastId = addToast({
       type: 'loading',
@@ -130,6 +198,52 @@ export function EditorWorkspace({ projectId, initialVersionId }: EditorWorkspace
     }
   };
 
+  // AI acceptance: the accepted version is a child of the version the AI panel worked on
+  const handleProposalAccepted = async (newVersionId: string) => {
+    const baseVersionId = currentVersionId;
+
+    await switchVersion(newVersionId);
+    updateUrlWithVersion(newVersionId);
+
+    if (!baseVersionId) return;
+
+    addToast({
+      type: 'success',
+      title: 'AI changes accepted',
+      message: 'New version created and set as active',
+      duration: 10000,
+      action: {
+        label: 'Undo',
+        onClick: () => handleUndoAccept(baseVersionId),
+      },
+    });
+  };
+
+  const handleUndoAccept = async (baseVersionId: string) => {
+    const toastId = addToast({
+      type: 'loading',
+      title: 'Undoing AI changes...',
+    });
+
+    try {
+      const restoredVersionId = await restoreVersion(baseVersionId);
+      updateToast(toastId, {
+        type: 'success',
+        title: 'AI changes undone',
+        message: 'Previous version restored as active',
+        duration: 3000,
+      });
+      updateUrlWithVersion(restoredVersionId);
+    } catch (err) {
+      updateToast(toastId, {
+        type: 'error',
+        title: 'Undo failed',
+        message: getErrorMessage(err),
+        duration: 5000,
+      });
+    }
+  };
+
   // Load version from URL param
   useEffect(() => {
     if (initialVersionId) {
@@ -153,7 +267,7 @@ export function EditorWorkspace({ projectId, initialVersionId }: EditorWorkspace
       <EditorHeader
         projectId={projectId}
         currentVersionId={currentVersionId}
-        currentVersionStatus={currentVersion?.status || null}
+        currentCompileStatus={currentVersion?.compileStatus || null}
         isDirty={isDirty}
         isLoading={isLoading}
         error={error}
@@ -171,17 +285,24 @@ export function EditorWorkspace({ projectId, initialVersionId }: EditorWorkspace
           initial={{ opacity: 0, x: -20 }}
           animate={{ opacity: 1, x: 0 }}
           transition={{ delay: 0.1 }}
-          className="w-1/2 rounded-2xl overflow-hidden border border-white/10 bg-gray-900/50 backdrop-blur-sm shadow-2xl"
+          className="w-1/2 rounded-2xl overflow-hidden border border-white/10 bg-gray-900/50 backdrop-blur-sm shadow-2xl flex flex-col"
         >
           {!currentVersionId && !isLoading ? (
             <EmptyEditorState />
           ) : (
-            <LaTeXEditor
-              value={latexDraft}
-              onChange={updateDraft}
-              isDirty={isDirty}
-              isLoading={isLoading}
-            />
+            <>
+              {/* SECTION LOCKS: Keep sections out of AI tailoring */}
+              <SectionLocks versionId={currentVersionId} getToken={getToken} />
+              <div className="flex-1 min-h-0">
+                <LaTeXEditor
+                  value={latexDraft}
+                  onChange={updateDraft}
+                  isDirty={isDirty}
+                  isLoading={isLoading}
+                  diagnostics={diagnostics}
+                />
+              </div>
+            </>
           )}
         </motion.div>
 
@@ -201,8 +322,13 @@ export function EditorWorkspace({ projectId, initialVersionId }: EditorWorkspace
             }`}
           >
             <PDFPreview
-              pdfUrl={currentVersion?.pdfUrl || null}
+              projectId={projectId}
               versionId={currentVersionId}
+              hasPdf={!!currentVersion?.hasPdf}
+              latexDraft={latexDraft}
+              isDirty={isDirty}
+              pageMetrics={pageMetrics}
+              getToken={getToken}
             />
           </div>
           
@@ -218,10 +344,7 @@ export function EditorWorkspace({ projectId, initialVersionId }: EditorWorkspace
               projectId={projectId} 
               baseVersionId={currentVersionId}
               baseLatexContent={latexDraft}
-              onVersionChange={async (newVersionId) => {
-                await switchVersion(newVersionId);
-                updateUrlWithVersion(newVersionId);
-              }}
+              onVersionChange={handleProposalAccepted}
               getToken={getToken}
               isEditorLocked={isSaving || isCompiling}
             />
@@ -229,6 +352,28 @@ export function EditorWorkspace({ projectId, initialVersionId }: EditorWorkspace
         </motion.div>
       </div>
 
+      {/* STALE PARENT: Save conflict, then the optional merge of the saved branch */}
+      {saveConflict && (
+        <SaveConflictDialog
+          conflict={saveConflict}
+          isSaving={isSaving}
+          onResolve={handleResolveConflict}
+          onCancel={dismissSaveConflict}
+        />
+      )}
+
+      {pendingMerge && (
+        <VersionMergeModal
+          oursVersionId={pendingMerge.oursVersionId}
+          theirsVersionId={pendingMerge.theirsVersionId}
+          oursLabel="Active version"
+          theirsLabel="Your edit"
+          onClose={clearPendingMerge}
+          onMerged={handleMerged}
+          getToken={getToken}
+        />
+      )}
+
       {/* Loading Overlay - Only on initial load */}
       {isLoading && !currentVersionId && (
         <motion.div 
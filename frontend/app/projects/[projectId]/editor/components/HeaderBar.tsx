@@ -18,21 +18,26 @@ import { HoverBorderGradient } from '@/components/ui/hover-border-gradient';
  * - Compressed version selector
  * - Icon-only actions
  * - Enhanced glassmorphism
+ * - Version label / commit message shown in the version dropdown
  */
 
 interface Version {
   versionId: string;
   projectId: string;
-  type: 'BASE' | 'MANUAL' | 'AI_GENERATED';
-  status: 'DRAFT' | 'COMPILED' | 'ERROR' | 'ACTIVE';
+  type: 'BASE' | 'MANUAL' | 'AI_GENERATED' | 'RESTORED' | 'MERGED';
+  compileStatus: 'NOT_COMPILED' | 'COMPILED' | 'ERROR';
+  isActive: boolean;
   createdAt: string;
   parentVersionId: string | null;
+  message: string | null;
+  label: string | null;
+  notes: string | null;
 }
 
 interface HeaderBarProps {
   projectId: string;
   currentVersionId: string | null;
-  currentVersionStatus?: 'DRAFT' | 'COMPILED' | 'ERROR' | 'ACTIVE' | null;
+  currentCompileStatus?: 'NOT_COMPILED' | 'COMPILED' | 'ERROR' | null;
   isDirty: boolean;
   isLoading: boolean;
   error?: string | null;
@@ -47,7 +52,7 @@ interface HeaderBarProps {
 export function HeaderBar({
   projectId,
   currentVersionId,
-  currentVersionStatus,
+  currentCompileStatus,
   isDirty,
   isLoading,
   error,
@@ -181,8 +186,15 @@ export function HeaderBar({
       });
 
       if (!response.ok) throw new Error('Failed to download PDF');
-      const result = await response.json();
-      window.open(result.url, '_blank');
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `resume-${currentVersionId.substring(0, 8)}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
     } catch (err) {
       console.error('Download failed:', err);
     } finally {
@@ -224,6 +236,7 @@ export function HeaderBar({
   // Compact version label (time only for header, full in dropdown)
   const formatVersionLabel = (version: Version | undefined): string => {
     if (!version) return 'Select';
+    if (version.label) return version.label;
     const date = new Date(version.createdAt);
     return date.toLocaleString([], {
       month: 'short',
@@ -238,6 +251,8 @@ export function HeaderBar({
       BASE: '🏠',
       MANUAL: '✏️',
       AI_GENERATED: '🤖',
+      RESTORED: '↩️',
+      MERGED: '🔀',
     };
     const date = new Date(version.createdAt).toLocaleString([], {
       month: 'short',
@@ -292,15 +307,21 @@ export function HeaderBar({
                           : 'text-dark-200 hover:bg-white/10'
                       }`}
                     >
-                      <div className="flex items-center justify-between">
+                      <div className="flex items-center justify-between gap-1">
                         <span className="font-mono">{formatVersionDropdown(version)}</span>
-                        {version.status === 'ACTIVE' && (
+                        {version.label && (
+                          <span className="max-w-[96px] truncate text-[9px] px-1.5 py-0.5 bg-white/10 text-dark-200 rounded font-medium">{version.label}</span>
+                        )}
+                        {version.isActive && (
                           <span className="text-[9px] px-1.5 py-0.5 bg-accent-500/20 text-accent-400 rounded font-medium">Active</span>
                         )}
-                        {version.status === 'COMPILED' && (
+                        {version.compileStatus === 'COMPILED' && (
                           <span className="text-[9px] px-1.5 py-0.5 bg-primary-500/20 text-primary-400 rounded font-medium">Ready</span>
                         )}
                       </div>
+                      {version.message && (
+                        <p className="mt-0.5 truncate text-[10px] text-dark-400" title={version.message}>{version.message}</p>
+                      )}
                     </button>
                   ))}
                 </div>
@@ -416,9 +437,9 @@ export function HeaderBar({
         <button
           type="button"
           onClick={handleDownloadPdf}
-          disabled={!currentVersionId || currentVersionStatus !== 'COMPILED' || isDownloading}
+          disabled={!currentVersionId || currentCompileStatus !== 'COMPILED' || isDownloading}
           className="px-4 py-1.5 text-sm font-medium text-zinc-300 hover:text-zinc-100 bg-white/[0.06] hover:bg-white/[0.10] border border-white/[0.08] rounded-md transition-all disabled:opacity-30 disabled:cursor-not-allowed"
-          title={currentVersionStatus === 'COMPILED' ? 'Download PDF' : 'Compile first to download PDF'}
+          title={currentCompileStatus === 'COMPILED' ? 'Download PDF' : 'Compile first to download PDF'}
         >
           PDF ↓
         </button>
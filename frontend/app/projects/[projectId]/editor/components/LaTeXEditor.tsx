@@ -1,8 +1,11 @@
 'use client';
 
+import { useState } from 'react';
 import dynamic from 'next/dynamic';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Circle } from 'lucide-react';
+import { ProblemsPanel } from './ProblemsPanel';
+import type { CompileDiagnostic } from '../hooks/useEditorState';
 
 /**
  * REFACTORED LATEX EDITOR
@@ -11,6 +14,7 @@ import { Circle } from 'lucide-react';
  * - No header (cleaner look)
  * - Subtle unsaved indicator
  * - Monaco Editor for code editing
+ * - Compile diagnostics as markers plus a problems list
  */
 
 // SSR-safe Monaco import
@@ -34,9 +38,12 @@ interface LaTeXEditorProps {
   onChange: (newValue: string) => void;
   isDirty: boolean;
   isLoading: boolean;
+  diagnostics?: CompileDiagnostic[];
 }
 
-export function LaTeXEditor({ value, onChange, isDirty, isLoading }: LaTeXEditorProps) {
+export function LaTeXEditor({ value, onChange, isDirty, isLoading, diagnostics = [] }: LaTeXEditorProps) {
+  const [revealLine, setRevealLine] = useState<{ line: number } | null>(null);
+
   return (
     <div className="h-full flex flex-col relative">
       {/* Editor */}
@@ -46,25 +53,32 @@ export function LaTeXEditor({ value, onChange, isDirty, isLoading }: LaTeXEditor
           onChange={onChange}
           disabled={isLoading}
           className="absolute inset-0"
+          diagnostics={diagnostics}
+          revealLine={revealLine}
         />
+
+        {/* Unsaved changes indicator - floating */}
+        <AnimatePresence>
+          {isDirty && (
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 10 }}
+              className="absolute bottom-4 left-4 z-10"
+            >
+              <div className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-amber-500/20 border border-amber-500/30 backdrop-blur-sm">
+                <Circle className="w-2 h-2 text-amber-400 fill-amber-400 animate-pulse" />
+                <span className="text-xs text-amber-300 font-medium">Unsaved</span>
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
       </div>
 
-      {/* Unsaved changes indicator - floating */}
-      <AnimatePresence>
-        {isDirty && (
-          <motion.div
-            initial={{ opacity: 0, y: 10 }}
-            animate={{ opacity: 1, y: 0 }}
-            exit={{ opacity: 0, y: 10 }}
-            className="absolute bottom-4 left-4 z-10"
-          >
-            <div className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-amber-500/20 border border-amber-500/30 backdrop-blur-sm">
-              <Circle className="w-2 h-2 text-amber-400 fill-amber-400 animate-pulse" />
-              <span className="text-xs text-amber-300 font-medium">Unsaved</span>
-            </div>
-          </motion.div>
-        )}
-      </AnimatePresence>
+      <ProblemsPanel
+        diagnostics={diagnostics}
+        onSelectLine={line => setRevealLine({ line })}
+      />
 
       {/* Loading overlay */}
       {isLoading && (
@@ -1,8 +1,9 @@
 'use client';
 
-import { useRef, useEffect } from 'react';
+import { useRef, useEffect, useState } from 'react';
 import Editor, { OnChange, OnMount } from '@monaco-editor/react';
 import type * as Monaco from 'monaco-editor';
+import type { CompileDiagnostic } from '../hooks/useEditorState';
 
 /**
  * Monaco Editor wrapper for LaTeX editing
@@ -23,51 +24,58 @@ interface MonacoLatexEditorProps {
   onBlur?: () => void;
   disabled?: boolean;
   className?: string;
+  diagnostics?: CompileDiagnostic[];
+  revealLine?: { line: number } | null; // New object = scroll to and select that line
 }
 
-export interface ErrorHighlight {
-  line: number;
-  message: string;
-}
+const MARKER_OWNER = 'latex-compile';
 
 /**
- * Optional helper for highlighting compilation errors
- * Call this from parent component after compilation fails
+ * Helper for highlighting compilation diagnostics
+ * Diagnostics become Monaco markers (squiggles, hover, overview ruler);
+ * diagnostics without a source line are left to the problems list
  */
 export function useMonacoErrorHighlighting() {
   const editorRef = useRef<Monaco.editor.IStandaloneCodeEditor | null>(null);
-  const decorationsRef = useRef<string[]>([]);
-
-  const highlightErrors = (errors: ErrorHighlight[]) => {
-    if (!editorRef.current) return;
-
-    const newDecorations: Monaco.editor.IModelDeltaDecoration[] = errors.map((error) => ({
-      range: new (window as any).monaco.Range(error.line, 1, error.line, 1),
-      options: {
-        isWholeLine: true,
-        className: 'bg-red-100',
-        glyphMarginClassName: 'text-red-600',
-        hoverMessage: { value: error.message },
-        minimap: {
-          color: '#ef4444',
-          position: 2, // inline
-        },
-      },
-    }));
+  const monacoRef = useRef<typeof Monaco | null>(null);
+
+  const highlightErrors = (diagnostics: CompileDiagnostic[]) => {
+    const editor = editorRef.current;
+    const monaco = monacoRef.current;
+    const model = editor?.getModel();
+    if (!monaco || !model) return;
+
+    const lineCount = model.getLineCount();
+    const markers: Monaco.editor.IMarkerData[] = diagnostics
+      .filter((diagnostic) => diagnostic.line !== null)
+      .map((diagnostic) => {
+        const line = Math.min(Math.max(diagnostic.line!, 1), lineCount);
+        return {
+          severity: diagnostic.severity === 'error'
+            ? monaco.MarkerSeverity.Error
+            : monaco.MarkerSeverity.Warning,
+          message: diagnostic.context
+            ? `${diagnostic.message}\n${diagnostic.context}`
+            : diagnostic.message,
+          startLineNumber: line,
+          startColumn: model.getLineFirstNonWhitespaceColumn(line) || 1,
+          endLineNumber: line,
+          endColumn: model.getLineMaxColumn(line),
+        };
+      });
 
-    decorationsRef.current = editorRef.current.deltaDecorations(
-      decorationsRef.current,
-      newDecorations
-    );
+    monaco.editor.setModelMarkers(model, MARKER_OWNER, markers);
   };
 
   const clearErrors = () => {
-    if (!editorRef.current) return;
-    decorationsRef.current = editorRef.current.deltaDecorations(decorationsRef.current, []);
+    const model = editorRef.current?.getModel();
+    if (!monacoRef.current || !model) return;
+    monacoRef.current.editor.setModelMarkers(model, MARKER_OWNER, []);
   };
 
   return {
     editorRef,
+    monacoRef,
     highlightErrors,
     clearErrors,
   };
@@ -79,11 +87,16 @@ export function MonacoLatexEditor({
   onBlur,
   disabled = false,
   className = '',
+  diagnostics = [],
+  revealLine = null,
 }: MonacoLatexEditorProps) {
-  const editorRef = useRef<Monaco.editor.IStandaloneCodeEditor | null>(null);
+  const { editorRef, monacoRef, highlightErrors } = useMonacoErrorHighlighting();
+  const [isMounted, setIsMounted] = useState(false);
 
   const handleEditorMount: OnMount = (editor, monaco) => {
     editorRef.current = editor;
+    monacoRef.current = monaco;
+    setIsMounted(true);
 
     // Blur handler
     if (onBlur) {
@@ -122,6 +135,28 @@ export function MonacoLatexEditor({
     onChange(newValue ?? '');
   };
 
+  // Show compile diagnostics as markers
+  useEffect(() => {
+    if (isMounted) {
+      highlightErrors(diagnostics);
+    }
+  }, [isMounted, diagnostics]);
+
+  // Jump to a line picked in the problems list
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!isMounted || !editor || !revealLine) return;
+
+    editor.revealLineInCenter(revealLine.line);
+    editor.setSelection({
+      startLineNumber: revealLine.line,
+      startColumn: 1,
+      endLineNumber: revealLine.line,
+      endColumn: editor.getModel()?.getLineMaxColumn(revealLine.line) ?? 1,
+    });
+    editor.focus();
+  }, [isMounted, revealLine]);
+
   // Disable/enable editor when disabled prop changes
   useEffect(() => {
     if (editorRef.current) {
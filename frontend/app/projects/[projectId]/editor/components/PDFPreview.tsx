@@ -1,8 +1,12 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { FileText, Zap, ExternalLink } from 'lucide-react';
+import { FileText, Zap, ExternalLink, RefreshCw, AlertCircle } from 'lucide-react';
+import { handleHttpError, getErrorMessage } from '@/lib/errorHandling';
+import { apiUrl } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import type { PageMetrics } from '../hooks/useEditorState';
 
 /**
  * REFACTORED PDF PREVIEW
@@ -11,34 +15,275 @@ import { FileText, Zap, ExternalLink } from 'lucide-react';
  * - No header (cleaner look)
  * - Beautiful empty state
  * - Smooth transitions
+ *
+ * The PDF is streamed from GET /api/versions/{versionId}/download/pdf with the
+ * Bearer token and shown from a blob URL (stored PDFs are never public).
+ *
+ * DRAFT PREVIEW: While the draft has unsaved changes it can be compiled with
+ * POST /api/projects/{projectId}/preview (no version is created). With auto-refresh
+ * on, the draft is previewed once typing pauses for PREVIEW_DEBOUNCE_MS.
+ *
+ * PAGE METRICS: A badge shows the page count of the shown PDF (draft preview or
+ * last compile), how far it spills onto its last page and overfull boxes.
  */
 
 interface PDFPreviewProps {
-  pdfUrl: string | null;
+  projectId: string;
   versionId: string | null;
+  hasPdf: boolean;
+  latexDraft: string;
+  isDirty: boolean;
+  pageMetrics: PageMetrics | null;
+  getToken: () => Promise<string | null>;
 }
 
-export function PDFPreview({ pdfUrl, versionId }: PDFPreviewProps) {
+/**
+ * Typing pause before an auto-refresh preview compile
+ */
+const PREVIEW_DEBOUNCE_MS = 1500;
+
+/**
+ * Page count, spill onto the last page and overfull boxes of the shown PDF
+ */
+function PageMetricsBadge({ metrics }: { metrics: PageMetrics }) {
+  if (metrics.pageCount === null) return null;
+
+  const spill = metrics.pageCount > 1 && metrics.lastPageFill !== null
+    ? ` · ${Math.round(metrics.lastPageFill * 100)}% of page ${metrics.pageCount} used`
+    : '';
+
+  return (
+    <div
+      className={cn(
+        'absolute bottom-4 left-4 px-3 py-2 rounded-lg backdrop-blur-sm border text-xs',
+        metrics.pageCount > 1
+          ? 'bg-amber-500/15 border-amber-500/30 text-amber-200'
+          : 'bg-gray-900/90 border-white/10 text-gray-300',
+      )}
+    >
+      {metrics.pageCount} page{metrics.pageCount !== 1 ? 's' : ''}{spill}
+      {metrics.overfullBoxes > 0 && (
+        <span className="text-red-300"> · {metrics.overfullBoxes} overfull box{metrics.overfullBoxes !== 1 ? 'es' : ''}</span>
+      )}
+    </div>
+  );
+}
+
+export function PDFPreview({ projectId, versionId, hasPdf, latexDraft, isDirty, pageMetrics, getToken }: PDFPreviewProps) {
   const [displayUrl, setDisplayUrl] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Draft preview state
+  const [autoRefresh, setAutoRefresh] = useState(true);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [previewMetrics, setPreviewMetrics] = useState<PageMetrics | null>(null);
+  const previewRequestRef = useRef(0);
+
+  /**
+   * Compile the current draft and show its PDF
+   * Older responses are dropped if the draft changed meanwhile
+   */
+  const previewDraft = useCallback(async (content: string) => {
+    const requestId = ++previewRequestRef.current;
+    setIsPreviewing(true);
+    setPreviewError(null);
+
+    try {
+      const token = await getToken();
+
+      if (!token) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(apiUrl(`/api/projects/${projectId}/preview`), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ latexContent: content }),
+      });
+
+      // Compiler busy: the next pause (or click) tries again
+      if (response.status === 429) return;
+
+      if (!response.ok) {
+        const errorInfo = await handleHttpError(response);
+        throw errorInfo;
+      }
+
+      const preview = await response.json();
+      if (requestId !== previewRequestRef.current) return;
+
+      if (!preview.hasPdf) {
+        setPreviewError(preview.errors[0] || 'Draft does not compile');
+        return;
+      }
+
+      const pdfResponse = await fetch(apiUrl(`/api/projects/${projectId}/preview/${preview.previewId}`), {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!pdfResponse.ok) {
+        const errorInfo = await handleHttpError(pdfResponse);
+        throw errorInfo;
+      }
+
+      const blob = await pdfResponse.blob();
+      if (requestId !== previewRequestRef.current) return;
+
+      setPreviewUrl(prev => {
+        if (prev) URL.revokeObjectURL(prev);
+        return URL.createObjectURL(blob);
+      });
+      setPreviewMetrics({
+        pageCount: preview.pageCount,
+        lastPageFill: preview.lastPageFill,
+        overfullBoxes: preview.overfullBoxes,
+      });
+      if (preview.result === 'warning') {
+        setPreviewError(`Compiled with warnings: ${preview.errors[0]}`);
+      }
+    } catch (err) {
+      if (requestId === previewRequestRef.current) {
+        setPreviewError(getErrorMessage(err));
+      }
+    } finally {
+      if (requestId === previewRequestRef.current) {
+        setIsPreviewing(false);
+      }
+    }
+  }, [projectId, getToken]);
+
+  // Auto-refresh: preview the draft once typing pauses
+  useEffect(() => {
+    if (!autoRefresh || !isDirty) return;
+
+    const timer = setTimeout(() => previewDraft(latexDraft), PREVIEW_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [autoRefresh, isDirty, latexDraft, previewDraft]);
 
-  // Update display URL with cache-busting when pdfUrl changes
+  // Saved state (or another version) shown again: drop the draft preview
   useEffect(() => {
-    if (pdfUrl) {
+    if (isDirty) return;
+
+    previewRequestRef.current++;
+    setIsPreviewing(false);
+    setPreviewError(null);
+    setPreviewMetrics(null);
+    setPreviewUrl(prev => {
+      if (prev) URL.revokeObjectURL(prev);
+      return null;
+    });
+  }, [isDirty, versionId]);
+
+  // Fetch the PDF whenever the version (or its compiled state) changes
+  useEffect(() => {
+    setDisplayUrl(null);
+    setError(null);
+    setIsLoading(false);
+    if (!versionId || !hasPdf) return;
+
+    let isCancelled = false;
+    let objectUrl: string | null = null;
+
+    const fetchPdf = async () => {
       setIsLoading(true);
-      // Add timestamp to force iframe reload (cache-busting)
-      const cacheBustedUrl = `${pdfUrl}?t=${Date.now()}`;
-      setDisplayUrl(cacheBustedUrl);
-    } else {
-      setDisplayUrl(null);
-    }
-  }, [pdfUrl, versionId]);
+
+      try {
+        const token = await getToken();
+
+        if (!token) {
+          throw new Error('Not authenticated');
+        }
+
+        const response = await fetch(apiUrl(`/api/versions/${versionId}/download/pdf?disposition=inline`), {
+          headers: {
+            'Authorization': `Bearer ${token}`,
+          },
+        });
+
+        if (!response.ok) {
+          const errorInfo = await handleHttpError(response);
+          throw errorInfo;
+        }
+
+        const blob = await response.blob();
+        if (isCancelled) return;
+
+        objectUrl = URL.createObjectURL(blob);
+        setDisplayUrl(objectUrl);
+      } catch (err) {
+        if (!isCancelled) {
+          setError(getErrorMessage(err));
+          setIsLoading(false);
+        }
+      }
+    };
+
+    fetchPdf();
+
+    return () => {
+      isCancelled = true;
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl);
+      }
+    };
+  }, [versionId, hasPdf, getToken]);
+
+  const shownUrl = isDirty && previewUrl ? previewUrl : displayUrl;
+  const shownMetrics = isDirty && previewUrl ? previewMetrics : pageMetrics;
 
   return (
     <div className="h-full flex flex-col">
+      {/* Draft preview bar */}
+      {isDirty && (
+        <div className="flex items-center gap-2 px-3 py-2 border-b border-white/10 bg-gray-900/60 text-xs">
+          <span className="text-amber-300 font-medium whitespace-nowrap">
+            {previewUrl ? 'Draft preview' : 'Unsaved changes'}
+          </span>
+
+          {previewError && (
+            <span className="flex items-center gap-1 text-red-400 truncate" title={previewError}>
+              <AlertCircle className="w-3.5 h-3.5 shrink-0" />
+              <span className="truncate">{previewError}</span>
+            </span>
+          )}
+
+          <label className="ml-auto flex items-center gap-1.5 text-gray-400 whitespace-nowrap cursor-pointer">
+            <input
+              type="checkbox"
+              checked={autoRefresh}
+              onChange={e => setAutoRefresh(e.target.checked)}
+              className="accent-blue-500"
+            />
+            Auto-refresh
+          </label>
+
+          <button
+            type="button"
+            onClick={() => previewDraft(latexDraft)}
+            disabled={isPreviewing}
+            className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg border border-white/10 bg-white/5 text-gray-300 hover:bg-white/10 hover:text-white disabled:opacity-50 transition-colors whitespace-nowrap"
+          >
+            <RefreshCw className={cn('w-3.5 h-3.5', isPreviewing && 'animate-spin')} />
+            Preview
+          </button>
+        </div>
+      )}
+
       {/* PDF Content */}
       <div className="flex-1 relative">
-        {displayUrl ? (
+        {error && !(isDirty && previewUrl) ? (
+          <div className="h-full flex items-center justify-center p-8">
+            <p className="text-sm text-red-400 text-center max-w-sm">{error}</p>
+          </div>
+        ) : shownUrl || isLoading ? (
           <>
             {/* Loading overlay */}
             {isLoading && (
@@ -51,26 +296,33 @@ export function PDFPreview({ pdfUrl, versionId }: PDFPreviewProps) {
             )}
             
             {/* PDF iframe */}
-            <iframe
-              key={displayUrl}
-              src={displayUrl}
-              className="w-full h-full bg-white"
-              title="Resume PDF Preview"
-              onLoad={() => setIsLoading(false)}
-            />
+            {shownUrl && (
+              <iframe
+                key={shownUrl}
+                src={shownUrl}
+                className="w-full h-full bg-white"
+                title="Resume PDF Preview"
+                onLoad={() => setIsLoading(false)}
+              />
+            )}
             
+            {/* Page count of the shown PDF */}
+            {shownUrl && shownMetrics && <PageMetricsBadge metrics={shownMetrics} />}
+
             {/* Open in new tab button */}
-            <motion.a
-              href={pdfUrl || '#'}
-              target="_blank"
-              rel="noopener noreferrer"
-              initial={{ opacity: 0, y: 10 }}
-              animate={{ opacity: 1, y: 0 }}
-              className="absolute bottom-4 right-4 flex items-center gap-2 px-3 py-2 rounded-lg bg-gray-900/90 backdrop-blur-sm border border-white/10 text-sm text-gray-300 hover:text-white hover:bg-gray-800 transition-colors"
-            >
-              <ExternalLink className="w-4 h-4" />
-              <span>Open</span>
-            </motion.a>
+            {shownUrl && (
+              <motion.a
+                href={shownUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="absolute bottom-4 right-4 flex items-center gap-2 px-3 py-2 rounded-lg bg-gray-900/90 backdrop-blur-sm border border-white/10 text-sm text-gray-300 hover:text-white hover:bg-gray-800 transition-colors"
+              >
+                <ExternalLink className="w-4 h-4" />
+                <span>Open</span>
+              </motion.a>
+            )}
           </>
         ) : (
           <div className="h-full flex items-center justify-center p-8">
@@ -0,0 +1,86 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertCircle, AlertTriangle, ChevronDown, ChevronUp } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { CompileDiagnostic } from '../hooks/useEditorState';
+
+/**
+ * COMPILE DIAGNOSTICS: Problems list under the LaTeX editor
+ *
+ * Shows errors and warnings parsed from the last compile's TeX and bibliography logs.
+ * Clicking a problem with a line jumps the editor to it (onSelectLine).
+ * Lines refer to the compiled version, so they may drift while the draft is edited.
+ */
+
+interface ProblemsPanelProps {
+  diagnostics: CompileDiagnostic[];
+  onSelectLine: (line: number) => void;
+}
+
+export function ProblemsPanel({ diagnostics, onSelectLine }: ProblemsPanelProps) {
+  const [isOpen, setIsOpen] = useState(true);
+
+  if (diagnostics.length === 0) {
+    return null;
+  }
+
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+  const warningCount = diagnostics.length - errorCount;
+
+  return (
+    <div className="border-t border-white/10 bg-gray-900/80">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center gap-3 px-3 py-1.5 text-xs text-gray-400 hover:text-gray-200 transition-colors"
+      >
+        <span className="font-medium">Problems</span>
+        <span className="flex items-center gap-1 text-red-400">
+          <AlertCircle className="w-3 h-3" />
+          {errorCount}
+        </span>
+        <span className="flex items-center gap-1 text-amber-400">
+          <AlertTriangle className="w-3 h-3" />
+          {warningCount}
+        </span>
+        <span className="ml-auto">
+          {isOpen ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronUp className="w-3.5 h-3.5" />}
+        </span>
+      </button>
+
+      {isOpen && (
+        <ul className="max-h-40 overflow-y-auto pb-1">
+          {diagnostics.map((diagnostic, index) => (
+            <li key={index}>
+              <button
+                type="button"
+                disabled={diagnostic.line === null}
+                onClick={() => diagnostic.line !== null && onSelectLine(diagnostic.line)}
+                className={cn(
+                  'w-full flex items-start gap-2 px-3 py-1 text-left text-xs transition-colors',
+                  diagnostic.line !== null ? 'hover:bg-white/5 cursor-pointer' : 'cursor-default',
+                )}
+              >
+                {diagnostic.severity === 'error' ? (
+                  <AlertCircle className="w-3.5 h-3.5 mt-0.5 shrink-0 text-red-400" />
+                ) : (
+                  <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0 text-amber-400" />
+                )}
+                <span className="flex-1 min-w-0">
+                  <span className="text-gray-200 break-words">{diagnostic.message}</span>
+                  {diagnostic.context && (
+                    <span className="block font-mono text-gray-500 truncate">{diagnostic.context}</span>
+                  )}
+                </span>
+                {diagnostic.line !== null && (
+                  <span className="shrink-0 text-gray-500">Ln {diagnostic.line}</span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import { motion, AnimatePresence } from 'framer-motion';
+import { AlertTriangle, GitMerge, GitBranch, Save, X } from 'lucide-react';
+import type { SaveConflict, SaveConflictResolution } from '../hooks/useEditorState';
+
+/**
+ * STALE PARENT: Save Conflict Dialog
+ *
+ * Shown when a save returns 409 because another version became active since the
+ * edit was started (another tab, an accepted AI proposal). Nothing was saved yet;
+ * the user picks how to save the draft (useEditorState.resolveSaveConflict).
+ */
+
+interface SaveConflictDialogProps {
+  conflict: SaveConflict;
+  isSaving: boolean;
+  onResolve: (resolution: SaveConflictResolution) => void;
+  onCancel: () => void;
+}
+
+const TYPE_LABELS: Record<NonNullable<SaveConflict['activeVersion']>['type'], string> = {
+  BASE: 'Base',
+  MANUAL: 'Manual edit',
+  AI_GENERATED: 'AI version',
+  RESTORED: 'Restored version',
+  MERGED: 'Merged version',
+};
+
+export function SaveConflictDialog({ conflict, isSaving, onResolve, onCancel }: SaveConflictDialogProps) {
+  const active = conflict.activeVersion;
+
+  const options: Array<{
+    resolution: SaveConflictResolution;
+    icon: typeof Save;
+    title: string;
+    description: string;
+    className: string;
+    disabled?: boolean;
+  }> = [
+    {
+      resolution: 'merge',
+      icon: GitMerge,
+      title: 'Merge',
+      description: 'Save your edit and merge it with the active version (sections changed on both sides are resolved by you).',
+      className: 'border-pink-500/30 text-pink-200 hover:bg-pink-500/10',
+      disabled: !conflict.activeVersionId,
+    },
+    {
+      resolution: 'overwrite',
+      icon: Save,
+      title: 'Overwrite',
+      description: 'Save your edit as the active version. The other version stays in the history.',
+      className: 'border-amber-500/30 text-amber-200 hover:bg-amber-500/10',
+    },
+    {
+      resolution: 'branch',
+      icon: GitBranch,
+      title: 'Branch',
+      description: 'Save your edit as a separate version. The other version stays active.',
+      className: 'border-blue-500/30 text-blue-200 hover:bg-blue-500/10',
+    },
+  ];
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4"
+      >
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95, y: 20 }}
+          animate={{ opacity: 1, scale: 1, y: 0 }}
+          exit={{ opacity: 0, scale: 0.95, y: 20 }}
+          transition={{ type: "spring", damping: 25, stiffness: 300 }}
+          className="w-full max-w-lg overflow-hidden rounded-2xl border border-gray-700/50 bg-gradient-to-br from-gray-900 via-gray-900 to-gray-950 shadow-2xl"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-700/50 bg-gray-900/80">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-gradient-to-br from-amber-500 to-orange-600 rounded-xl flex items-center justify-center shadow-lg shadow-amber-500/20">
+                <AlertTriangle className="w-5 h-5 text-white" />
+              </div>
+              <div>
+                <h2 className="text-base font-bold text-white">The active version changed</h2>
+                <p className="text-xs text-gray-400">Your edit has not been saved yet</p>
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={isSaving}
+              className="text-gray-400 hover:text-white transition-colors p-2 hover:bg-gray-800 rounded-lg disabled:opacity-50"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 space-y-4">
+            <div className="rounded-xl border border-gray-700/50 bg-gray-800/40 px-4 py-3 text-sm">
+              {active ? (
+                <>
+                  <p className="text-gray-300">
+                    Now active: <span className="font-medium text-white">{TYPE_LABELS[active.type]}</span>
+                    {' '}from {new Date(active.createdAt).toLocaleString()}
+                    {active.label && <span className="ml-1.5 px-1.5 py-0.5 rounded bg-teal-500/15 text-xs text-teal-300">{active.label}</span>}
+                  </p>
+                  {active.message && (
+                    <p className="mt-1 text-xs text-gray-400 truncate">{active.message}</p>
+                  )}
+                </>
+              ) : (
+                <p className="text-gray-300">{conflict.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              {options.map(option => (
+                <button
+                  key={option.resolution}
+                  type="button"
+                  onClick={() => onResolve(option.resolution)}
+                  disabled={isSaving || option.disabled}
+                  className={`w-full flex items-start gap-3 px-4 py-3 rounded-xl border text-left transition-colors disabled:opacity-50 ${option.className}`}
+                >
+                  <option.icon className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <span>
+                    <span className="block text-sm font-medium">{option.title}</span>
+                    <span className="block text-xs text-gray-400">{option.description}</span>
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
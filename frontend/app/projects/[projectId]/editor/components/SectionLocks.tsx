@@ -0,0 +1,169 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Lock, Unlock, Loader2 } from 'lucide-react';
+import { handleHttpError, getErrorMessage } from '@/lib/errorHandling';
+import { apiUrl } from '@/lib/api';
+import { cn } from '@/lib/utils';
+
+/**
+ * SECTION LOCKS: Lock toggles for detected resume sections
+ *
+ * WHY THIS EXISTS:
+ * Users must be able to keep sections (e.g. EDUCATION) out of AI tailoring entirely.
+ * Locked sections are never sent to the AI and are preserved byte-for-byte in proposals.
+ *
+ * Data:
+ * - GET /api/versions/{versionId}/sections (sections detected in the saved version)
+ * - PATCH /api/sections/{sectionId} { isLocked }
+ *
+ * Locks belong to the saved version; new versions inherit them.
+ */
+
+interface Section {
+  id: string;
+  sectionType: string;
+  isLocked: boolean;
+  orderIndex: number;
+}
+
+interface SectionLocksProps {
+  versionId: string | null;
+  getToken: () => Promise<string | null>;
+}
+
+export function SectionLocks({ versionId, getToken }: SectionLocksProps) {
+  const [sections, setSections] = useState<Section[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!versionId) {
+      setSections([]);
+      return;
+    }
+
+    let isCancelled = false;
+
+    const fetchSections = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const token = await getToken();
+
+        if (!token) {
+          throw new Error('Not authenticated');
+        }
+
+        const response = await fetch(apiUrl(`/api/versions/${versionId}/sections`), {
+          headers: {
+            'Authorization': `Bearer ${token}`,
+          },
+        });
+
+        if (!response.ok) {
+          const errorInfo = await handleHttpError(response);
+          throw errorInfo;
+        }
+
+        const result: Section[] = await response.json();
+        if (!isCancelled) {
+          setSections(result);
+        }
+      } catch (err) {
+        if (!isCancelled) {
+          setError(getErrorMessage(err));
+          setSections([]);
+        }
+      } finally {
+        if (!isCancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    fetchSections();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [versionId, getToken]);
+
+  const toggleLock = async (section: Section) => {
+    setUpdatingId(section.id);
+    setError(null);
+
+    try {
+      const token = await getToken();
+
+      if (!token) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(apiUrl(`/api/sections/${section.id}`), {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ isLocked: !section.isLocked }),
+      });
+
+      if (!response.ok) {
+        const errorInfo = await handleHttpError(response);
+        throw errorInfo;
+      }
+
+      const updated: Section = await response.json();
+      setSections(prev => prev.map(s => (s.id === updated.id ? { ...s, isLocked: updated.isLocked } : s)));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  if (!versionId || (!isLoading && sections.length === 0 && !error)) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-2 px-3 py-2 border-b border-white/10 bg-gray-900/60 overflow-x-auto">
+      <span className="text-xs text-gray-500 whitespace-nowrap">AI locks</span>
+
+      {isLoading && <Loader2 className="w-3.5 h-3.5 text-gray-500 animate-spin" />}
+
+      {sections.map(section => (
+        <motion.button
+          key={section.id}
+          type="button"
+          onClick={() => toggleLock(section)}
+          disabled={updatingId !== null}
+          title={section.isLocked ? 'Locked: AI will not modify this section' : 'Unlocked: AI may modify this section'}
+          className={cn(
+            'flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium border whitespace-nowrap transition-colors disabled:cursor-not-allowed',
+            section.isLocked
+              ? 'bg-amber-500/15 border-amber-500/30 text-amber-300 hover:bg-amber-500/25'
+              : 'bg-white/5 border-white/10 text-gray-400 hover:bg-white/10 hover:text-gray-200',
+          )}
+          whileHover={{ scale: 1.03 }}
+          whileTap={{ scale: 0.97 }}
+        >
+          {updatingId === section.id ? (
+            <Loader2 className="w-3 h-3 animate-spin" />
+          ) : section.isLocked ? (
+            <Lock className="w-3 h-3" />
+          ) : (
+            <Unlock className="w-3 h-3" />
+          )}
+          {section.sectionType}
+        </motion.button>
+      ))}
+
+      {error && <span className="text-xs text-red-400 whitespace-nowrap">{error}</span>}
+    </div>
+  );
+}
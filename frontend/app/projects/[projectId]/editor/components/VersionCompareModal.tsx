@@ -0,0 +1,198 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, GitCompare, Loader2, AlertTriangle, Plus, Minus, ArrowRight } from 'lucide-react';
+import { handleHttpError, getErrorMessage } from '@/lib/errorHandling';
+import { apiUrl } from '@/lib/api';
+
+/**
+ * PHASE 4: Version Compare Modal
+ *
+ * Shows the section-aware diff between any two versions of a project
+ * (GET /api/versions/diff?from=&to=). Read-only: comparing never changes
+ * which version is loaded in the editor.
+ */
+
+interface SectionDiff {
+  sectionType: string;
+  added: string[];
+  removed: string[];
+  rewritten: Array<{ before: string; after: string }>;
+}
+
+interface VersionDiff {
+  fromVersionId: string;
+  toVersionId: string;
+  added: string[];
+  removed: string[];
+  rewritten: Array<{ before: string; after: string }>;
+  sections: SectionDiff[];
+}
+
+interface VersionCompareModalProps {
+  fromVersionId: string;
+  toVersionId: string;
+  fromLabel: string;
+  toLabel: string;
+  onClose: () => void;
+  getToken: () => Promise<string | null>;
+}
+
+export function VersionCompareModal({
+  fromVersionId,
+  toVersionId,
+  fromLabel,
+  toLabel,
+  onClose,
+  getToken,
+}: VersionCompareModalProps) {
+  const [diff, setDiff] = useState<VersionDiff | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchDiff = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const token = await getToken();
+
+        if (!token) {
+          throw new Error('Not authenticated');
+        }
+
+        const response = await fetch(
+          apiUrl(`/api/versions/diff?from=${fromVersionId}&to=${toVersionId}`),
+          {
+            headers: {
+              'Authorization': `Bearer ${token}`,
+            },
+          }
+        );
+
+        if (!response.ok) {
+          const errorInfo = await handleHttpError(response);
+          throw errorInfo;
+        }
+
+        const result: VersionDiff = await response.json();
+        setDiff(result);
+      } catch (err) {
+        setError(getErrorMessage(err));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchDiff();
+  }, [fromVersionId, toVersionId, getToken]);
+
+  const formatSectionType = (sectionType: string) =>
+    sectionType.charAt(0) + sectionType.slice(1).toLowerCase();
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4"
+      >
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95, y: 20 }}
+          animate={{ opacity: 1, scale: 1, y: 0 }}
+          exit={{ opacity: 0, scale: 0.95, y: 20 }}
+          transition={{ type: "spring", damping: 25, stiffness: 300 }}
+          className="w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden rounded-2xl border border-gray-700/50 bg-gradient-to-br from-gray-900 via-gray-900 to-gray-950 shadow-2xl"
+        >
+          {/* Header */}
+          <div className="flex-shrink-0 flex items-center justify-between px-6 py-4 border-b border-gray-700/50 bg-gray-900/80">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-xl flex items-center justify-center shadow-lg shadow-blue-500/20">
+                <GitCompare className="w-5 h-5 text-white" />
+              </div>
+              <div>
+                <h2 className="text-base font-bold text-white">Compare Versions</h2>
+                <p className="text-xs text-gray-400 flex items-center gap-1.5">
+                  {fromLabel}
+                  <ArrowRight className="w-3 h-3" />
+                  {toLabel}
+                </p>
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={onClose}
+              className="text-gray-400 hover:text-white transition-colors p-2 hover:bg-gray-800 rounded-lg"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="flex-1 min-h-0 overflow-y-auto p-6 space-y-4">
+            {isLoading && (
+              <div className="flex items-center justify-center py-16 text-gray-400 text-sm gap-2">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Computing diff...
+              </div>
+            )}
+
+            {!isLoading && error && (
+              <div className="flex items-start gap-2 p-4 rounded-xl bg-red-500/10 border border-red-500/30 text-red-300 text-sm">
+                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                {error}
+              </div>
+            )}
+
+            {!isLoading && !error && diff && diff.sections.length === 0 && (
+              <div className="py-16 text-center text-sm text-gray-400">
+                No content differences between these versions.
+              </div>
+            )}
+
+            {!isLoading && !error && diff?.sections.map((section) => (
+              <div
+                key={section.sectionType}
+                className="rounded-xl border border-gray-700/50 bg-gray-900/60 overflow-hidden"
+              >
+                <div className="flex items-center justify-between px-4 py-2 border-b border-gray-700/50 bg-gray-800/40">
+                  <h3 className="text-sm font-semibold text-white">
+                    {formatSectionType(section.sectionType)}
+                  </h3>
+                  <div className="flex items-center gap-3 text-xs">
+                    <span className="text-emerald-400">+{section.added.length}</span>
+                    <span className="text-red-400">-{section.removed.length}</span>
+                    <span className="text-amber-400">~{section.rewritten.length}</span>
+                  </div>
+                </div>
+                <div className="p-3 space-y-1.5 font-mono text-xs">
+                  {section.rewritten.map((pair, idx) => (
+                    <div key={`rewritten-${idx}`} className="rounded-lg border border-amber-500/20 bg-amber-500/5 p-2 space-y-1">
+                      <p className="text-red-300/80 line-through whitespace-pre-wrap break-words">{pair.before}</p>
+                      <p className="text-emerald-300 whitespace-pre-wrap break-words">{pair.after}</p>
+                    </div>
+                  ))}
+                  {section.removed.map((line, idx) => (
+                    <div key={`removed-${idx}`} className="flex items-start gap-2 rounded-lg bg-red-500/10 px-2 py-1 text-red-300">
+                      <Minus className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                      <span className="whitespace-pre-wrap break-words">{line}</span>
+                    </div>
+                  ))}
+                  {section.added.map((line, idx) => (
+                    <div key={`added-${idx}`} className="flex items-start gap-2 rounded-lg bg-emerald-500/10 px-2 py-1 text-emerald-300">
+                      <Plus className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                      <span className="whitespace-pre-wrap break-words">{line}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
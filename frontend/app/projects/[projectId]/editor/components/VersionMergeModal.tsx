@@ -0,0 +1,319 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, GitMerge, Loader2, AlertTriangle, ArrowRight, Check } from 'lucide-react';
+import { handleHttpError, getErrorMessage } from '@/lib/errorHandling';
+import { apiUrl } from '@/lib/api';
+import { MonacoDiffViewer } from './ai/MonacoDiffViewer';
+
+/**
+ * VERSION MERGE: Merge Modal
+ *
+ * Merges theirs into ours (POST /api/versions/merge, apis.md Section 4.11):
+ * sections changed on one side are merged automatically, conflicting sections
+ * are shown in MonacoDiffViewer (ours left, resolution right). The right side
+ * starts as theirs and can be edited, or replaced with ours / theirs.
+ * POST /api/versions/merge/apply saves the result as a new MERGED version
+ * that becomes the active version.
+ */
+
+type MergeStatus = 'UNCHANGED' | 'OURS' | 'THEIRS' | 'BOTH' | 'CONFLICT';
+
+interface MergeSection {
+  key: string;
+  sectionType: string | null;
+  status: MergeStatus;
+  base: string | null;
+  ours: string | null;
+  theirs: string | null;
+  merged: string | null;
+}
+
+interface MergeResult {
+  oursVersionId: string;
+  theirsVersionId: string;
+  baseVersionId: string | null;
+  sections: MergeSection[];
+  conflicts: string[];
+  mergedLatex: string | null;
+}
+
+interface VersionMergeModalProps {
+  oursVersionId: string;
+  theirsVersionId: string;
+  oursLabel: string;
+  theirsLabel: string;
+  onClose: () => void;
+  onMerged: (newVersionId: string) => void;
+  getToken: () => Promise<string | null>;
+}
+
+const STATUS_STYLES: Record<Exclude<MergeStatus, 'UNCHANGED'>, { label: string; className: string }> = {
+  OURS: { label: 'Kept ours', className: 'bg-blue-500/15 text-blue-300' },
+  THEIRS: { label: 'Took theirs', className: 'bg-purple-500/15 text-purple-300' },
+  BOTH: { label: 'Same change', className: 'bg-emerald-500/15 text-emerald-300' },
+  CONFLICT: { label: 'Conflict', className: 'bg-red-500/15 text-red-300' },
+};
+
+const formatKey = (key: string) =>
+  key.charAt(0) + key.slice(1).toLowerCase().replace('#', ' #');
+
+export function VersionMergeModal({
+  oursVersionId,
+  theirsVersionId,
+  oursLabel,
+  theirsLabel,
+  onClose,
+  onMerged,
+  getToken,
+}: VersionMergeModalProps) {
+  const [result, setResult] = useState<MergeResult | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, string>>({});
+  const [editorNonce, setEditorNonce] = useState<Record<string, number>>({}); // Remounts a viewer after Use ours/theirs
+  const [message, setMessage] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isMerging, setIsMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchMerge = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const token = await getToken();
+
+        if (!token) {
+          throw new Error('Not authenticated');
+        }
+
+        const response = await fetch(apiUrl('/api/versions/merge'), {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`,
+          },
+          body: JSON.stringify({ oursVersionId, theirsVersionId }),
+        });
+
+        if (!response.ok) {
+          const errorInfo = await handleHttpError(response);
+          throw errorInfo;
+        }
+
+        const data: MergeResult = await response.json();
+        setResult(data);
+        setResolutions({});
+      } catch (err) {
+        setError(getErrorMessage(err));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchMerge();
+  }, [oursVersionId, theirsVersionId, getToken]);
+
+  const resolveWith = (section: MergeSection, content: string) => {
+    setResolutions(prev => ({ ...prev, [section.key]: content }));
+    setEditorNonce(prev => ({ ...prev, [section.key]: (prev[section.key] ?? 0) + 1 }));
+  };
+
+  const applyMerge = async () => {
+    if (!result) return;
+
+    setIsMerging(true);
+    setError(null);
+
+    try {
+      const token = await getToken();
+
+      if (!token) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(apiUrl('/api/versions/merge/apply'), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          oursVersionId,
+          theirsVersionId,
+          resolutions: result.conflicts.map(key => ({ key, content: resolutions[key] })),
+          ...(message.trim() && { message: message.trim() }),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorInfo = await handleHttpError(response);
+        throw errorInfo;
+      }
+
+      const merged: { newVersionId: string } = await response.json();
+      onMerged(merged.newVersionId);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const changedSections = result?.sections.filter(section => section.status !== 'UNCHANGED') ?? [];
+  const unresolvedCount = result?.conflicts.filter(key => resolutions[key] === undefined).length ?? 0;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4"
+      >
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95, y: 20 }}
+          animate={{ opacity: 1, scale: 1, y: 0 }}
+          exit={{ opacity: 0, scale: 0.95, y: 20 }}
+          transition={{ type: "spring", damping: 25, stiffness: 300 }}
+          className="w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden rounded-2xl border border-gray-700/50 bg-gradient-to-br from-gray-900 via-gray-900 to-gray-950 shadow-2xl"
+        >
+          {/* Header */}
+          <div className="flex-shrink-0 flex items-center justify-between px-6 py-4 border-b border-gray-700/50 bg-gray-900/80">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-gradient-to-br from-pink-500 to-rose-600 rounded-xl flex items-center justify-center shadow-lg shadow-pink-500/20">
+                <GitMerge className="w-5 h-5 text-white" />
+              </div>
+              <div>
+                <h2 className="text-base font-bold text-white">Merge Versions</h2>
+                <p className="text-xs text-gray-400 flex items-center gap-1.5">
+                  {theirsLabel}
+                  <ArrowRight className="w-3 h-3" />
+                  {oursLabel}
+                </p>
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={onClose}
+              className="text-gray-400 hover:text-white transition-colors p-2 hover:bg-gray-800 rounded-lg"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="flex-1 min-h-0 overflow-y-auto p-6 space-y-4">
+            {isLoading && (
+              <div className="flex items-center justify-center py-16 text-gray-400 text-sm gap-2">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Merging...
+              </div>
+            )}
+
+            {!isLoading && error && (
+              <div className="flex items-start gap-2 p-4 rounded-xl bg-red-500/10 border border-red-500/30 text-red-300 text-sm">
+                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                {error}
+              </div>
+            )}
+
+            {!isLoading && result && (
+              <p className="text-sm text-gray-400">
+                {result.baseVersionId
+                  ? `${changedSections.length - result.conflicts.length} section(s) merged automatically, ${result.conflicts.length} conflict(s).`
+                  : 'These versions share no history: every section that differs is a conflict.'}
+              </p>
+            )}
+
+            {!isLoading && changedSections.map((section) => {
+              const status = STATUS_STYLES[section.status as Exclude<MergeStatus, 'UNCHANGED'>];
+              const isConflict = section.status === 'CONFLICT';
+              const isResolved = resolutions[section.key] !== undefined;
+
+              return (
+                <div
+                  key={section.key}
+                  className="rounded-xl border border-gray-700/50 bg-gray-900/60 overflow-hidden"
+                >
+                  <div className="flex items-center justify-between gap-3 px-4 py-2 border-b border-gray-700/50 bg-gray-800/40">
+                    <h3 className="text-sm font-semibold text-white">{formatKey(section.key)}</h3>
+                    <div className="flex items-center gap-2 text-xs">
+                      {isConflict && (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => resolveWith(section, section.ours ?? '')}
+                            className="px-2 py-1 rounded-md border border-blue-500/30 text-blue-300 hover:bg-blue-500/10 transition-colors"
+                          >
+                            Use ours
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => resolveWith(section, section.theirs ?? '')}
+                            className="px-2 py-1 rounded-md border border-purple-500/30 text-purple-300 hover:bg-purple-500/10 transition-colors"
+                          >
+                            Use theirs
+                          </button>
+                        </>
+                      )}
+                      <span className={`px-2 py-0.5 rounded-full ${isResolved ? 'bg-emerald-500/15 text-emerald-300' : status.className}`}>
+                        {isResolved ? 'Resolved' : status.label}
+                      </span>
+                    </div>
+                  </div>
+
+                  {isConflict ? (
+                    <div className="h-64">
+                      <MonacoDiffViewer
+                        key={`${section.key}-${editorNonce[section.key] ?? 0}`}
+                        originalContent={section.ours ?? ''}
+                        modifiedContent={resolutions[section.key] ?? section.theirs ?? ''}
+                        originalLabel={oursLabel}
+                        modifiedLabel="Resolution"
+                        readOnly={false}
+                        onModifiedChange={(value) => setResolutions(prev => ({ ...prev, [section.key]: value }))}
+                      />
+                    </div>
+                  ) : (
+                    <pre className="max-h-40 overflow-y-auto p-3 font-mono text-xs text-gray-300 whitespace-pre-wrap break-words">
+                      {section.merged ?? '(section removed)'}
+                    </pre>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Footer */}
+          {result && (
+            <div className="flex-shrink-0 flex items-center gap-3 px-6 py-4 border-t border-gray-700/50 bg-gray-900/80">
+              <input
+                type="text"
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                maxLength={500}
+                placeholder="Merge message (optional)"
+                disabled={isMerging}
+                className="flex-1 px-3 py-2 rounded-lg bg-gray-800 border border-white/10 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-pink-500/50 disabled:opacity-60"
+              />
+              <span className="text-xs text-gray-400">
+                {unresolvedCount > 0 ? `${unresolvedCount} conflict(s) left` : 'Ready to merge'}
+              </span>
+              <button
+                type="button"
+                onClick={applyMerge}
+                disabled={isMerging || unresolvedCount > 0}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-pink-500/20 border border-pink-500/30 text-sm text-pink-200 hover:bg-pink-500/30 transition-colors disabled:opacity-50"
+              >
+                {isMerging ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                Merge
+              </button>
+            </div>
+          )}
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
@@ -4,6 +4,9 @@ import { useState, useEffect } from 'react';
 import { useAuth } from '@clerk/nextjs';
 import { handleHttpError, getErrorMessage } from '@/lib/errorHandling';
 import { apiUrl } from '@/lib/api';
+import { VersionThumbnail } from '@/components/ui';
+import { VersionCompareModal } from './VersionCompareModal';
+import { useVersionSearch } from '../hooks/useVersionSearch';
 
 /**
  * PHASE 3: Version Selector Component
@@ -17,15 +20,24 @@ import { apiUrl } from '@/lib/api';
  * WHY WARN ON DIRTY:
  * If user has typed changes but not saved, switching versions would silently lose that work.
  * The confirmation dialog forces an intentional choice: save first, or discard.
+ * 
+ * PHASE 4: Compare any version against the loaded one (read-only diff modal)
+ * THUMBNAILS: Each row shows the first page of compiled versions (loaded only while open)
+ * ANNOTATIONS: Rows show label and commit message; the search box filters on the server
  */
 
 interface Version {
   versionId: string;
   projectId: string;
-  type: 'BASE' | 'MANUAL' | 'AI_GENERATED';
-  status: 'DRAFT' | 'COMPILED' | 'ERROR' | 'ACTIVE';
+  type: 'BASE' | 'MANUAL' | 'AI_GENERATED' | 'RESTORED' | 'MERGED';
+  compileStatus: 'NOT_COMPILED' | 'COMPILED' | 'ERROR';
+  isActive: boolean;
   createdAt: string;
   parentVersionId: string | null;
+  hasThumbnail: boolean;
+  message: string | null;
+  label: string | null;
+  notes: string | null;
 }
 
 interface VersionSelectorProps {
@@ -46,6 +58,9 @@ export function VersionSelector({
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
+  const [compareVersionId, setCompareVersionId] = useState<string | null>(null);
+  const [versionQuery, setVersionQuery] = useState('');
+  const { matchingIds } = useVersionSearch(projectId, versionQuery, getToken);
 
   // Fetch versions on mount, when projectId changes, or when currentVersionId changes
   // This ensures the list updates after saving (which creates a new version)
@@ -110,9 +125,11 @@ export function VersionSelector({
       BASE: '🏠 Base',
       MANUAL: '✏️ Manual',
       AI_GENERATED: '🤖 AI',
+      RESTORED: '↩️ Restored',
+      MERGED: '🔀 Merged',
     };
 
-    const statusBadge = version.status === 'ACTIVE' ? ' (Active)' : '';
+    const statusBadge = version.isActive ? ' (Active)' : '';
     const date = new Date(version.createdAt).toLocaleString([], {
       month: 'short',
       day: 'numeric',
@@ -120,10 +137,26 @@ export function VersionSelector({
       minute: '2-digit',
     });
 
-    return `${typeLabels[version.type]} - ${date}${statusBadge}`;
+    const label = version.label ? ` [${version.label}]` : '';
+
+    return `${typeLabels[version.type]} - ${date}${label}${statusBadge}`;
   };
 
   const currentVersion = versions.find(v => v.versionId === currentVersionId);
+  const compareVersion = versions.find(v => v.versionId === compareVersionId);
+  const visibleVersions = matchingIds ? versions.filter(v => matchingIds.has(v.versionId)) : versions;
+
+  // Diff always runs older → newer regardless of which one is loaded
+  const comparePair = compareVersion && currentVersion
+    ? (new Date(compareVersion.createdAt) <= new Date(currentVersion.createdAt)
+        ? [compareVersion, currentVersion]
+        : [currentVersion, compareVersion])
+    : null;
+
+  const handleCompare = (versionId: string) => {
+    setIsDropdownOpen(false);
+    setCompareVersionId(versionId);
+  };
 
   return (
     <div className="px-4 py-3 border-b border-white/10 bg-zinc-900/40 backdrop-blur-sm">
@@ -160,19 +193,53 @@ export function VersionSelector({
 
           {isDropdownOpen && versions.length > 0 && (
             <div className="absolute z-10 w-full mt-1 bg-zinc-900/95 backdrop-blur-md border border-white/10 rounded-md shadow-lg max-h-60 overflow-y-auto">
-              {versions.map((version) => (
-                <button
-                  key={version.versionId}
-                  type="button"
-                  onClick={() => handleSwitch(version.versionId)}
-                  className={`w-full text-left px-3 py-2 text-sm hover:bg-zinc-800/80 transition-colors ${
-                    version.versionId === currentVersionId
-                      ? 'bg-blue-600/20 text-blue-300 font-medium'
-                      : 'text-zinc-300'
-                  }`}
-                >
-                  {formatVersionLabel(version)}
-                </button>
+              <div className="p-2 border-b border-white/10">
+                <input
+                  type="text"
+                  value={versionQuery}
+                  onChange={(e) => setVersionQuery(e.target.value)}
+                  placeholder="Search messages, labels, notes"
+                  className="w-full px-2 py-1 text-xs bg-zinc-800/60 border border-white/10 rounded text-zinc-200 placeholder-zinc-500 focus:outline-none focus:ring-1 focus:ring-blue-500/50"
+                />
+              </div>
+              {visibleVersions.map((version) => (
+                <div key={version.versionId} className="flex items-center hover:bg-zinc-800/80 transition-colors">
+                  <button
+                    type="button"
+                    onClick={() => handleSwitch(version.versionId)}
+                    className={`flex-1 flex items-center gap-2 text-left px-3 py-2 text-sm ${
+                      version.versionId === currentVersionId
+                        ? 'bg-blue-600/20 text-blue-300 font-medium'
+                        : 'text-zinc-300'
+                    }`}
+                  >
+                    <span className="shrink-0 w-8 h-10 rounded-sm overflow-hidden border border-white/10 bg-zinc-800/60">
+                      {version.hasThumbnail && (
+                        <VersionThumbnail
+                          versionId={version.versionId}
+                          getToken={getToken}
+                          className="w-full h-full"
+                        />
+                      )}
+                    </span>
+                    <span className="min-w-0">
+                      <span className="block">{formatVersionLabel(version)}</span>
+                      {version.message && (
+                        <span className="block text-xs text-zinc-500 truncate" title={version.message}>{version.message}</span>
+                      )}
+                    </span>
+                  </button>
+                  {version.versionId !== currentVersionId && (
+                    <button
+                      type="button"
+                      onClick={() => handleCompare(version.versionId)}
+                      title="Compare with current version"
+                      className="px-2 py-1 mr-2 text-xs text-zinc-400 hover:text-blue-300 border border-white/10 rounded transition-colors"
+                    >
+                      Compare
+                    </button>
+                  )}
+                </div>
               ))}
             </div>
           )}
@@ -186,6 +253,17 @@ export function VersionSelector({
           No version loaded
         </div>
       )}
+
+      {comparePair && (
+        <VersionCompareModal
+          fromVersionId={comparePair[0].versionId}
+          toVersionId={comparePair[1].versionId}
+          fromLabel={formatVersionLabel(comparePair[0])}
+          toLabel={formatVersionLabel(comparePair[1])}
+          onClose={() => setCompareVersionId(null)}
+          getToken={getToken}
+        />
+      )}
     </div>
   );
 }
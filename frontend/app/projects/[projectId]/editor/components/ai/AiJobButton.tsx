@@ -1,7 +1,8 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect } from 'react';
 import { ProposalModal } from './ProposalModal';
+import { useAiJobEvents, formatAiJobProgress } from '../../hooks/useAiJobEvents';
 import { handleHttpError, getErrorMessage } from '@/lib/errorHandling';
 import { apiUrl } from '@/lib/api';
 
@@ -16,21 +17,34 @@ import { apiUrl } from '@/lib/api';
  * AI output never directly modifies user data. Instead, AI creates a PROPOSAL (ProposedVersion)
  * which remains quarantined until the user explicitly reviews and accepts it.
  * 
- * WHY POLLING:
- * AI processing takes time (seconds to minutes). Polling keeps the UI responsive and allows
- * users to navigate away and return. The job persists on the backend; polling just syncs UI state.
+ * WHY STREAMING:
+ * AI processing takes time (seconds to minutes). The job event stream (useAiJobEvents) keeps the
+ * UI responsive and shows per-section progress. The job persists on the backend; the stream just
+ * syncs UI state.
  * 
  * WHY NO AUTO-ACCEPTANCE:
  * Users must see the diff and click "Accept". No silent updates. This is the core safety guarantee.
  * Even if the AI job completes, the proposal stays in limbo until explicit user consent.
  * 
  * PHASE 7.3: Refresh Behavior
- * - Component state (jobId, status, polling) resets on refresh
+ * - Component state (jobId, status, stream) resets on refresh
  * - This is EXPECTED - job data persists on backend
  * - User can view all jobs on /projects/{projectId}/ai-jobs page
  * - No stuck UI states - component always starts fresh
+ * 
+ * PAGE METRICS: "Fit to page" mode (FIT_TO_PAGE) shortens the least important
+ * bullets until the recompiled resume fits the chosen page count
  */
 
+type TailoringMode = 'MINIMAL' | 'BALANCED' | 'AGGRESSIVE' | 'FIT_TO_PAGE';
+
+const TAILORING_MODES: Array<{ value: TailoringMode; label: string }> = [
+  { value: 'MINIMAL', label: 'Minimal' },
+  { value: 'BALANCED', label: 'Balanced' },
+  { value: 'AGGRESSIVE', label: 'Aggressive' },
+  { value: 'FIT_TO_PAGE', label: 'Fit to page' },
+];
+
 interface AiJobButtonProps {
   projectId: string;
   baseVersionId: string | null;
@@ -49,24 +63,26 @@ export function AiJobButton({
   getToken,
 }: AiJobButtonProps) {
   const [jobId, setJobId] = useState<string | null>(null);
-  const [status, setStatus] = useState<'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED' | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [isStarting, setIsStarting] = useState(false);
-  const [isPolling, setIsPolling] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
   const [showProposal, setShowProposal] = useState(false);
-  
-  // PHASE 7.3: Ref to track polling timeout for cleanup
-  const pollingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const [mode, setMode] = useState<TailoringMode>('BALANCED');
+  const [targetPages, setTargetPages] = useState(1);
 
-  // PHASE 7.3: Cleanup polling on unmount
+  // PROGRESS STREAMING: Job status/progress pushed by the backend (stream closes on unmount)
+  const job = useAiJobEvents(jobId, getToken);
+  const status = jobId ? job.status ?? 'QUEUED' : null;
+  const progressLabel = status === 'RUNNING' ? formatAiJobProgress(job.progress) : null;
+  const displayedError = errorMessage || job.errorMessage || job.streamError;
+
+  // PHASE 7.2: Only show proposal modal automatically on first completion
+  // User can click "Review Proposal" button to re-open if closed
   useEffect(() => {
-    return () => {
-      if (pollingTimeoutRef.current) {
-        clearTimeout(pollingTimeoutRef.current);
-        pollingTimeoutRef.current = null;
-      }
-    };
-  }, []);
+    if (job.status === 'COMPLETED') {
+      setShowProposal(true);
+    }
+  }, [job.status]);
 
   const canStart = baseVersionId && selectedJdId && !jobId;
 
@@ -94,7 +110,8 @@ export function AiJobButton({
           projectId,
           baseVersionId,
           jdId: selectedJdId,
-          mode: 'BALANCED',
+          mode,
+          ...(mode === 'FIT_TO_PAGE' ? { targetPages } : {}),
           lockedSections: [],
         }),
       });
@@ -105,11 +122,9 @@ export function AiJobButton({
       }
 
       const result = await response.json();
-      setJobId(result.jobId);
-      setStatus('QUEUED');
 
-      // Start polling
-      pollJobStatus(result.jobId);
+      // Subscribes to the job's event stream
+      setJobId(result.jobId);
     } catch (err) {
       setErrorMessage(getErrorMessage(err));
     } finally {
@@ -117,76 +132,45 @@ export function AiJobButton({
     }
   };
 
-  const pollJobStatus = async (id: string) => {
-    // PHASE 7.3: Set polling state
-    setIsPolling(true);
-
-    const poll = async () => {
-      try {
-        const token = await getToken();
-        
-        if (!token) {
-          setIsPolling(false);
-          setErrorMessage('Not authenticated');
-          return;
-        }
-
-        const response = await fetch(apiUrl(`/api/ai/jobs/${id}`), {
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`,
-          },
-        });
-
-        if (!response.ok) {
-          const errorInfo = await handleHttpError(response);
-          throw errorInfo;
-        }
-
-        const result = await response.json();
-        setStatus(result.status);
-        setErrorMessage(result.errorMessage);
-
-        // PHASE 7.2: Only show proposal modal automatically on first completion
-        // User can click "Review Proposal" button to re-open if closed
-        if (result.status === 'COMPLETED' && !showProposal) {
-          setIsPolling(false);
-          setShowProposal(true);
-          return;
-        }
-
-        // PHASE 7.3: Stop polling on FAILED state
-        if (result.status === 'FAILED') {
-          setIsPolling(false);
-          return;
-        }
-
-        // Continue polling if not complete
-        if (result.status === 'QUEUED' || result.status === 'RUNNING') {
-          // PHASE 7.3: Store timeout ref for cleanup
-          pollingTimeoutRef.current = setTimeout(() => poll(), 2000);
-        } else {
-          setIsPolling(false);
-        }
-      } catch (err) {
-        setErrorMessage(getErrorMessage(err));
-        setIsPolling(false);
+  // Stop a queued/running job; the backend halts before its next section
+  const cancelJob = async () => {
+    if (!jobId) return;
+
+    setIsCancelling(true);
+    setErrorMessage(null);
+
+    try {
+      const token = await getToken();
+
+      if (!token) {
+        throw new Error('Not authenticated');
       }
-    };
 
-    poll();
+      const response = await fetch(apiUrl(`/api/ai/jobs/${jobId}/cancel`), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorInfo = await handleHttpError(response);
+        throw errorInfo;
+      }
+
+      // CANCELLED arrives on the event stream
+    } catch (err) {
+      setErrorMessage(getErrorMessage(err));
+    } finally {
+      setIsCancelling(false);
+    }
   };
 
   const resetJob = () => {
-    // PHASE 7.3: Clear polling timeout if active
-    if (pollingTimeoutRef.current) {
-      clearTimeout(pollingTimeoutRef.current);
-      pollingTimeoutRef.current = null;
-    }
+    // Clearing jobId closes the event stream
     setJobId(null);
-    setStatus(null);
     setErrorMessage(null);
-    setIsPolling(false);
     setShowProposal(false);
   };
 
@@ -231,9 +215,9 @@ export function AiJobButton({
       )}
 
       {/* Error Display */}
-      {errorMessage && (
+      {displayedError && (
         <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded text-sm text-red-800">
-          <strong>Error:</strong> {errorMessage}
+          <strong>Error:</strong> {displayedError}
         </div>
       )}
 
@@ -242,13 +226,14 @@ export function AiJobButton({
         <div className="mb-3">
           <div className="text-xs text-gray-500 mb-1">Job Status</div>
           <div className="flex items-center gap-2">
-            {/* PHASE 7.3: Loading indicator while polling */}
-            {isPolling && (
+            {/* PHASE 7.3: Loading indicator while the job is in progress */}
+            {job.isStreaming && (
               <div className="animate-spin rounded-full h-3 w-3 border-2 border-blue-600 border-t-transparent" />
             )}
             <div className={`text-sm font-medium ${
               status === 'COMPLETED' ? 'text-green-600' :
               status === 'FAILED' ? 'text-red-600' :
+              status === 'CANCELLED' ? 'text-gray-500' :
               status === 'RUNNING' ? 'text-blue-600' :
               'text-gray-600'
             }`}>
@@ -256,8 +241,12 @@ export function AiJobButton({
               {status === 'RUNNING' && '▶ Running'}
               {status === 'COMPLETED' && '✓ Completed'}
               {status === 'FAILED' && '✗ Failed'}
+              {status === 'CANCELLED' && '■ Cancelled'}
             </div>
           </div>
+          {progressLabel && (
+            <div className="text-xs text-blue-600 mt-1">{progressLabel}</div>
+          )}
           {jobId && (
             <div className="text-xs text-gray-400 mt-1">
               Job ID: {jobId.substring(0, 8)}...
@@ -266,6 +255,35 @@ export function AiJobButton({
         </div>
       )}
 
+      {/* Tailoring mode */}
+      {!jobId && (
+        <div className="mb-3 flex items-center gap-2 text-sm">
+          <label htmlFor="tailoring-mode" className="text-xs text-gray-500">Mode</label>
+          <select
+            id="tailoring-mode"
+            value={mode}
+            onChange={(e) => setMode(e.target.value as TailoringMode)}
+            className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm text-gray-800 bg-white"
+          >
+            {TAILORING_MODES.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          {mode === 'FIT_TO_PAGE' && (
+            <select
+              value={targetPages}
+              onChange={(e) => setTargetPages(Number(e.target.value))}
+              title="Target page count"
+              className="px-2 py-1 border border-gray-300 rounded text-sm text-gray-800 bg-white"
+            >
+              {[1, 2, 3].map(pages => (
+                <option key={pages} value={pages}>{pages} page{pages !== 1 ? 's' : ''}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+
       {/* Action Buttons */}
       {!jobId ? (
         /* PHASE 7.2: Start AI Tailoring button with gating */
@@ -287,8 +305,8 @@ export function AiJobButton({
         >
           Review Proposal
         </button>
-      ) : status === 'FAILED' ? (
-        /* PHASE 7.3: Failed state - allow retry with clear button */
+      ) : status === 'FAILED' || status === 'CANCELLED' ? (
+        /* PHASE 7.3: Failed/cancelled state - allow retry with clear button */
         <button
           type="button"
           onClick={resetJob}
@@ -297,20 +315,30 @@ export function AiJobButton({
           ↻ Retry AI Tailoring
         </button>
       ) : (
-        /* In progress - show disabled button */
-        <button
-          type="button"
-          disabled
-          className="w-full px-4 py-2 text-sm font-medium text-gray-500 bg-gray-100 rounded cursor-not-allowed"
-        >
-          {status === 'QUEUED' ? 'Queued...' : 'Processing...'}
-        </button>
+        /* In progress - show disabled button with cancel */
+        <div className="flex gap-2">
+          <button
+            type="button"
+            disabled
+            className="flex-1 px-4 py-2 text-sm font-medium text-gray-500 bg-gray-100 rounded cursor-not-allowed"
+          >
+            {status === 'QUEUED' ? 'Queued...' : 'Processing...'}
+          </button>
+          <button
+            type="button"
+            onClick={cancelJob}
+            disabled={isCancelling}
+            className="px-4 py-2 text-sm font-medium text-red-600 bg-white border border-red-200 rounded hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isCancelling ? 'Cancelling...' : 'Cancel'}
+          </button>
+        </div>
       )}
 
       {/* Phase Notice */}
       <div className="mt-3 pt-3 border-t border-gray-200">
         <div className="text-xs text-gray-500">
-          PHASE 7.3: Lifecycle hardening - polling cleanup, loading state, graceful error handling.
+          PHASE 7.3: Lifecycle hardening - stream cleanup, loading state, graceful error handling.
         </div>
       </div>
 
@@ -3,7 +3,7 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { ChatMode, type Message } from './ChatMode';
-import { EditMode } from './EditMode';
+import { EditMode, type AiModelProvider } from './EditMode';
 import { JdInputModal } from './JdInputModal';
 import { ModeSwitcher } from '@/components/ui/mode-switcher';
 import { apiUrl } from '@/lib/api';
@@ -28,6 +28,9 @@ import { handleHttpError, getErrorMessage } from '@/lib/errorHandling';
  * - Optional context for both modes
  * - Stored at panel level
  * - Can be added/edited/removed
+ *
+ * AI PROVIDERS: The provider picked in Edit mode is stored at panel level
+ * and also used for chat and JD analysis
  */
 
 type PanelMode = 'chat' | 'edit';
@@ -55,6 +58,7 @@ export function AiPanel({
   const [isJdModalOpen, setIsJdModalOpen] = useState(false);
   const [isLoadingJds, setIsLoadingJds] = useState(true);
   const [jdError, setJdError] = useState<string | null>(null);
+  const [modelProvider, setModelProvider] = useState<AiModelProvider>('QWEN');
   
   // Lift chat messages state to persist across panel hide/show
   const [chatMessages, setChatMessages] = useState<Message[]>([
@@ -122,6 +126,7 @@ export function AiPanel({
         body: JSON.stringify({
           projectId,
           rawText: jdText,
+          modelProvider,
         }),
       });
 
@@ -190,6 +195,7 @@ export function AiPanel({
                 isLoadingJds={isLoadingJds}
                 jdError={jdError}
                 onRemoveJd={handleRemoveJd}
+                modelProvider={modelProvider}
               />
             </motion.div>
           ) : (
@@ -218,6 +224,8 @@ export function AiPanel({
                 isLoadingJds={isLoadingJds}
                 jdError={jdError}
                 onRemoveJd={handleRemoveJd}
+                modelProvider={modelProvider}
+                onModelProviderChange={setModelProvider}
               />
             </motion.div>
           )}
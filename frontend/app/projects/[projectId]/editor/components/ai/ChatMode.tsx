@@ -9,6 +9,7 @@ import { motion } from 'framer-motion';
 import { apiUrl } from '@/lib/api';
 import { handleHttpError, getErrorMessage } from '@/lib/errorHandling';
 import { GradientAIChatInput } from '@/components/ui/gradient-ai-chat-input';
+import type { AiModelProvider } from './EditMode';
 
 /**
  * CHAT MODE — CONVERSATIONAL AI ASSISTANT
@@ -49,6 +50,7 @@ interface ChatModeProps {
   isLoadingJds: boolean;
   jdError: string | null;
   onRemoveJd: () => void;
+  modelProvider: AiModelProvider; // Provider picked in Edit mode (AiPanel)
 }
 
 export function ChatMode({
@@ -66,6 +68,7 @@ export function ChatMode({
   isLoadingJds,
   jdError,
   onRemoveJd,
+  modelProvider,
 }: ChatModeProps) {
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -113,6 +116,7 @@ export function ChatMode({
               role: m.role,
               content: m.content,
             })),
+          modelProvider,
         }),
       });
 
@@ -1,9 +1,10 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { FileText, Settings, Sparkles, AlertCircle, CheckCircle, XCircle, Loader2 } from 'lucide-react';
+import { FileText, Settings, Sparkles, AlertCircle, CheckCircle, XCircle, Loader2, Ban } from 'lucide-react';
 import { ProposalModal } from './ProposalModal';
+import { useAiJobEvents, formatAiJobProgress } from '../../hooks/useAiJobEvents';
 import { handleHttpError, getErrorMessage } from '@/lib/errorHandling';
 import { apiUrl } from '@/lib/api';
 import { GradientAIChatInput } from '@/components/ui/gradient-ai-chat-input';
@@ -28,6 +29,16 @@ import { GradientAIChatInput } from '@/components/ui/gradient-ai-chat-input';
  * - Versioning system
  */
 
+export type AiModelProvider = 'QWEN' | 'AZURE_OPENAI' | 'GEMINI' | 'OPENAI_COMPATIBLE';
+
+/**
+ * Stored key as listed by GET /api/api-keys (only the fields used here)
+ */
+interface StoredApiKey {
+  provider: Exclude<AiModelProvider, 'QWEN'>;
+  isValid: boolean;
+}
+
 interface EditModeProps {
   projectId: string;
   baseVersionId: string | null;
@@ -41,6 +52,8 @@ interface EditModeProps {
   isLoadingJds: boolean;
   jdError: string | null;
   onRemoveJd: () => void;
+  modelProvider: AiModelProvider; // Owned by AiPanel (also used for chat and JD analysis)
+  onModelProviderChange: (provider: AiModelProvider) => void;
 }
 
 export function EditMode({
@@ -56,20 +69,33 @@ export function EditMode({
   isLoadingJds,
   jdError,
   onRemoveJd,
+  modelProvider,
+  onModelProviderChange,
 }: EditModeProps) {
   const [instruction, setInstruction] = useState('');
-  const [modelProvider, setModelProvider] = useState<'QWEN' | 'AZURE_OPENAI' | 'GEMINI'>('QWEN');
   const [hasAzureKey, setHasAzureKey] = useState(false);
   const [hasGeminiKey, setHasGeminiKey] = useState(false);
+  const [hasCompatibleKey, setHasCompatibleKey] = useState(false);
   const [checkingAzureKey, setCheckingAzureKey] = useState(true);
   const [checkingGeminiKey, setCheckingGeminiKey] = useState(true);
   const [jobId, setJobId] = useState<string | null>(null);
-  const [status, setStatus] = useState<'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED' | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [isStarting, setIsStarting] = useState(false);
-  const [isPolling, setIsPolling] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
   const [showProposal, setShowProposal] = useState(false);
-  const pollingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  // PROGRESS STREAMING: Job status/progress pushed by the backend
+  const job = useAiJobEvents(jobId, getToken);
+  const status = jobId ? job.status ?? 'QUEUED' : null;
+  const progressLabel = status === 'RUNNING' ? formatAiJobProgress(job.progress) : null;
+  const displayedError = errorMessage || job.errorMessage || job.streamError;
+
+  // Open the proposal as soon as the job completes
+  useEffect(() => {
+    if (job.status === 'COMPLETED') {
+      setShowProposal(true);
+    }
+  }, [job.status]);
 
   // Check if user has API keys configured
   useEffect(() => {
@@ -86,11 +112,13 @@ export function EditMode({
       });
 
       if (response.ok) {
-        const keys = await response.json();
-        const azureKey = keys.find((k: any) => k.provider === 'AZURE_OPENAI' && k.isValid);
-        const geminiKey = keys.find((k: any) => k.provider === 'GEMINI' && k.isValid);
+        const keys: StoredApiKey[] = await response.json();
+        const azureKey = keys.find(k => k.provider === 'AZURE_OPENAI' && k.isValid);
+        const geminiKey = keys.find(k => k.provider === 'GEMINI' && k.isValid);
+        const compatibleKey = keys.find(k => k.provider === 'OPENAI_COMPATIBLE' && k.isValid);
         setHasAzureKey(!!azureKey);
         setHasGeminiKey(!!geminiKey);
+        setHasCompatibleKey(!!compatibleKey);
       }
     } catch (err) {
       console.error('Failed to check API keys:', err);
@@ -100,16 +128,6 @@ export function EditMode({
     }
   };
 
-  // Cleanup polling on unmount
-  useEffect(() => {
-    return () => {
-      if (pollingTimeoutRef.current) {
-        clearTimeout(pollingTimeoutRef.current);
-        pollingTimeoutRef.current = null;
-      }
-    };
-  }, []);
-
   const canSubmit = baseVersionId && instruction.trim() && !jobId && !isLocked;
 
   const handleSendInstruction = async (message: string) => {
@@ -149,12 +167,8 @@ export function EditMode({
       }
 
       const result = await response.json();
-      setJobId(result.jobId);
-      setStatus('QUEUED');
-      setIsPolling(true); // Set polling state immediately
+      setJobId(result.jobId); // Subscribes to the job's event stream
       setInstruction('');
-
-      pollJobStatus(result.jobId);
     } catch (err) {
       setErrorMessage(getErrorMessage(err));
     } finally {
@@ -201,13 +215,8 @@ export function EditMode({
       }
 
       const result = await response.json();
-      setJobId(result.jobId);
-      setStatus('QUEUED');
-      setIsPolling(true); // Set polling state immediately
+      setJobId(result.jobId); // Subscribes to the job's event stream
       setInstruction(''); // Clear input on success
-
-      // Start polling
-      pollJobStatus(result.jobId);
     } catch (err) {
       setErrorMessage(getErrorMessage(err));
     } finally {
@@ -215,70 +224,45 @@ export function EditMode({
     }
   };
 
-  const pollJobStatus = async (id: string) => {
-    setIsPolling(true);
-
-    const poll = async () => {
-      try {
-        const token = await getToken();
-        
-        if (!token) {
-          setIsPolling(false);
-          setErrorMessage('Not authenticated');
-          return;
-        }
-
-        const response = await fetch(apiUrl(`/api/ai/jobs/${id}`), {
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`,
-          },
-        });
-
-        if (!response.ok) {
-          const errorInfo = await handleHttpError(response);
-          throw errorInfo;
-        }
-
-        const result = await response.json();
-        setStatus(result.status);
-        setErrorMessage(result.errorMessage);
-
-        if (result.status === 'COMPLETED') {
-          setIsPolling(false);
-          setShowProposal(true);
-          return;
-        }
-
-        if (result.status === 'FAILED') {
-          setIsPolling(false);
-          return;
-        }
-
-        // Continue polling
-        if (result.status === 'QUEUED' || result.status === 'RUNNING') {
-          pollingTimeoutRef.current = setTimeout(() => poll(), 2000);
-        } else {
-          setIsPolling(false);
-        }
-      } catch (err) {
-        setErrorMessage(getErrorMessage(err));
-        setIsPolling(false);
+  // Stop the running job on the backend (it halts before its next section)
+  const cancelJob = async () => {
+    if (!jobId) return;
+
+    setIsCancelling(true);
+    setErrorMessage(null);
+
+    try {
+      const token = await getToken();
+
+      if (!token) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(apiUrl(`/api/ai/jobs/${jobId}/cancel`), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorInfo = await handleHttpError(response);
+        throw errorInfo;
       }
-    };
 
-    poll();
+      // CANCELLED arrives on the event stream
+    } catch (err) {
+      setErrorMessage(getErrorMessage(err));
+    } finally {
+      setIsCancelling(false);
+    }
   };
 
   const resetJob = () => {
-    if (pollingTimeoutRef.current) {
-      clearTimeout(pollingTimeoutRef.current);
-      pollingTimeoutRef.current = null;
-    }
+    // Clearing jobId closes the event stream
     setJobId(null);
-    setStatus(null);
     setErrorMessage(null);
-    setIsPolling(false);
     setShowProposal(false);
   };
 
@@ -367,6 +351,8 @@ export function EditMode({
                   ? 'bg-gradient-to-br from-green-900/40 to-emerald-900/20 border-green-600/30' 
                   : status === 'FAILED'
                   ? 'bg-gradient-to-br from-red-900/40 to-rose-900/20 border-red-600/30'
+                  : status === 'CANCELLED'
+                  ? 'bg-gradient-to-br from-gray-800/80 to-gray-800/40 border-gray-700/50'
                   : 'bg-gradient-to-br from-blue-900/40 to-indigo-900/20 border-blue-600/30'
               }`}
             >
@@ -380,24 +366,32 @@ export function EditMode({
                 {status === 'FAILED' && (
                   <XCircle className="w-5 h-5 text-red-400" />
                 )}
+                {status === 'CANCELLED' && (
+                  <Ban className="w-5 h-5 text-gray-400" />
+                )}
                 <span className="text-base font-semibold text-gray-200">
                   {status === 'QUEUED' && 'Queued...'}
                   {status === 'RUNNING' && 'AI is processing...'}
                   {status === 'COMPLETED' && 'Proposal Ready!'}
                   {status === 'FAILED' && 'Processing Failed'}
+                  {status === 'CANCELLED' && 'Job Cancelled'}
                 </span>
               </div>
               
+              {progressLabel && (
+                <p className="text-xs text-blue-300 mb-1">{progressLabel}</p>
+              )}
+
               {(status === 'QUEUED' || status === 'RUNNING') && (
                 <p className="text-xs text-gray-400">
                   This may take a moment. You can continue working while we process your request.
                 </p>
               )}
               
-              {errorMessage && (
+              {displayedError && (
                 <div className="flex items-start gap-2 mt-3 p-3 bg-red-950/30 rounded-lg">
                   <AlertCircle className="w-4 h-4 text-red-400 flex-shrink-0 mt-0.5" />
-                  <p className="text-xs text-red-300">{errorMessage}</p>
+                  <p className="text-xs text-red-300">{displayedError}</p>
                 </div>
               )}
             </motion.div>
@@ -418,17 +412,37 @@ export function EditMode({
                 </motion.button>
               )}
               
-              <motion.button
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: 0.1 }}
-                onClick={resetJob}
-                className="w-full px-4 py-2.5 bg-gray-800/80 hover:bg-gray-700/80 text-gray-300 rounded-xl text-sm transition-all border border-gray-700/50"
-                whileHover={{ scale: 1.01 }}
-                whileTap={{ scale: 0.99 }}
-              >
-                {status === 'FAILED' ? 'Try Again' : 'Cancel & Start Over'}
-              </motion.button>
+              {status === 'QUEUED' || status === 'RUNNING' ? (
+                <motion.button
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.1 }}
+                  onClick={cancelJob}
+                  disabled={isCancelling}
+                  className="w-full px-4 py-2.5 bg-gray-800/80 hover:bg-red-900/30 text-gray-300 hover:text-red-300 rounded-xl text-sm transition-all border border-gray-700/50 hover:border-red-700/40 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                  whileHover={{ scale: 1.01 }}
+                  whileTap={{ scale: 0.99 }}
+                >
+                  {isCancelling ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Ban className="w-4 h-4" />
+                  )}
+                  {isCancelling ? 'Cancelling...' : 'Cancel Job'}
+                </motion.button>
+              ) : (
+                <motion.button
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.1 }}
+                  onClick={resetJob}
+                  className="w-full px-4 py-2.5 bg-gray-800/80 hover:bg-gray-700/80 text-gray-300 rounded-xl text-sm transition-all border border-gray-700/50"
+                  whileHover={{ scale: 1.01 }}
+                  whileTap={{ scale: 0.99 }}
+                >
+                  {status === 'FAILED' || status === 'CANCELLED' ? 'Try Again' : 'Start Over'}
+                </motion.button>
+              )}
             </div>
           </div>
         )}
@@ -505,7 +519,8 @@ export function EditMode({
             dropdownOptions={[
               { id: 'qwen', label: 'Default Model', value: 'QWEN' },
               { id: 'gemini', label: 'Gemini', value: 'GEMINI' },
-              { id: 'azure', label: 'Azure GPT-5', value: 'AZURE_OPENAI' }
+              { id: 'azure', label: 'Azure GPT-5', value: 'AZURE_OPENAI' },
+              { id: 'compatible', label: 'OpenAI-compatible', value: 'OPENAI_COMPATIBLE' }
             ]}
             selectedOptionValue={modelProvider}
             onOptionSelect={(option) => {
@@ -517,7 +532,11 @@ export function EditMode({
                 alert('Please add Gemini API key in Settings first');
                 return;
               }
-              setModelProvider(option.value as 'QWEN' | 'AZURE_OPENAI' | 'GEMINI');
+              if (option.value === 'OPENAI_COMPATIBLE' && !hasCompatibleKey) {
+                alert('Please add an OpenAI-compatible endpoint in Settings first');
+                return;
+              }
+              onModelProviderChange(option.value as AiModelProvider);
             }}
             customButtons={
               <>
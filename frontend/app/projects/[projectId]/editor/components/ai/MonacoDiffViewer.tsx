@@ -11,6 +11,9 @@ import type * as Monaco from 'monaco-editor';
  * - Red highlighting for removed lines
  * - Green highlighting for added lines
  * - Side-by-side or inline view
+ *
+ * VERSION MERGE: With readOnly={false} the modified side is editable and
+ * onModifiedChange receives its content (used to resolve merge conflicts)
  */
 
 interface MonacoDiffViewerProps {
@@ -21,6 +24,7 @@ interface MonacoDiffViewerProps {
   language?: string;
   readOnly?: boolean;
   className?: string;
+  onModifiedChange?: (value: string) => void;
 }
 
 export function MonacoDiffViewer({
@@ -31,11 +35,19 @@ export function MonacoDiffViewer({
   language = 'latex',
   readOnly = true,
   className = '',
+  onModifiedChange,
 }: MonacoDiffViewerProps) {
   const diffEditorRef = useRef<Monaco.editor.IStandaloneDiffEditor | null>(null);
+  const onModifiedChangeRef = useRef(onModifiedChange);
+  onModifiedChangeRef.current = onModifiedChange;
 
   const handleEditorDidMount = (editor: Monaco.editor.IStandaloneDiffEditor) => {
     diffEditorRef.current = editor;
+
+    const modifiedEditor = editor.getModifiedEditor();
+    modifiedEditor.onDidChangeModelContent(() => {
+      onModifiedChangeRef.current?.(modifiedEditor.getValue());
+    });
   };
 
   // Cleanup effect to prevent "TextModel got disposed before DiffEditorWidget" error
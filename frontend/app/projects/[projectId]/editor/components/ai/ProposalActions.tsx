@@ -23,10 +23,10 @@ import { apiUrl } from '@/lib/api';
  * Version creation happens server-side to enforce immutability guarantees. Frontend never
  * directly writes to the version graph. This prevents race conditions and ensures audit integrity.
  * 
- * WHY NO UNDO AFTER ACCEPT:
- * Once accepted, the AI-generated version is indistinguishable from any other version.
- * Users can switch back to previous versions via the version selector, but there's no
- * "undo AI accept" button. This simplifies the mental model: versions are immutable.
+ * UNDO AFTER ACCEPT:
+ * Accepting never rewrites history, so undo does not either: the editor offers an "Undo"
+ * toast that restores the version the job started from as a new RESTORED version
+ * (POST /versions/{versionId}/restore). The AI-generated version stays in the history.
  */
 
 interface ProposalActionsProps {
@@ -3,12 +3,17 @@
 import { useState, useRef, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { Send, Loader2, MessageCircle } from 'lucide-react';
+import { apiUrl } from '@/lib/api';
 
 /**
  * GOAL 6: Chat-driven iteration component
  * 
  * Allows users to provide natural language feedback on AI proposals
  * and trigger refinement iterations
+ * 
+ * The conversation is rebuilt from the refine chain stored on the backend
+ * (GET /api/ai/jobs/:jobId/refinements), so earlier feedback stays visible
+ * after reopening the proposal.
  */
 
 interface ChatMessage {
@@ -17,11 +22,49 @@ interface ChatMessage {
   timestamp: Date;
 }
 
+interface RefinementEntry {
+  jobId: string;
+  parentJobId: string | null;
+  feedback: string | null;
+  status: 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+  createdAt: string;
+}
+
 interface ProposalChatProps {
   aiJobId: string;
   projectId: string;
   onRefineRequest: (feedback: string) => void;
   isRefining: boolean;
+  refineProgress?: string | null; // e.g. "EXPERIENCE done, 2 of 5"
+  getToken: () => Promise<string | null>;
+}
+
+const INTRO_MESSAGE: ChatMessage = {
+  role: 'system',
+  content: 'Provide feedback on the AI proposal. For example: "Make the experience section more technical" or "Add more keywords from the job description".',
+  timestamp: new Date(),
+};
+
+function toMessages(history: RefinementEntry[]): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+
+  for (const entry of history) {
+    if (!entry.feedback) continue;
+
+    const timestamp = new Date(entry.createdAt);
+    messages.push({ role: 'user', content: entry.feedback, timestamp });
+    messages.push({
+      role: 'assistant',
+      content: entry.status === 'FAILED'
+        ? `Refinement failed (job ${entry.jobId.substring(0, 8)})`
+        : entry.status === 'CANCELLED'
+        ? `Refinement cancelled (job ${entry.jobId.substring(0, 8)})`
+        : `Refined proposal generated (job ${entry.jobId.substring(0, 8)})`,
+      timestamp,
+    });
+  }
+
+  return messages;
 }
 
 export function ProposalChat({
@@ -29,24 +72,56 @@ export function ProposalChat({
   projectId,
   onRefineRequest,
   isRefining,
+  refineProgress,
+  getToken,
 }: ProposalChatProps) {
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    {
-      role: 'system',
-      content: 'Provide feedback on the AI proposal. For example: "Make the experience section more technical" or "Add more keywords from the job description".',
-      timestamp: new Date(),
-    },
-  ]);
+  const [history, setHistory] = useState<ChatMessage[]>([]);
+  const [pendingMessage, setPendingMessage] = useState<ChatMessage | null>(null);
   const [input, setInput] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
+  const messages = [INTRO_MESSAGE, ...history, ...(pendingMessage ? [pendingMessage] : [])];
+
+  // Load the refine chain whenever the displayed job changes
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        const token = await getToken();
+        if (!token) return;
+
+        const response = await fetch(apiUrl(`/api/ai/jobs/${aiJobId}/refinements`), {
+          headers: {
+            'Authorization': `Bearer ${token}`,
+          },
+        });
+
+        if (!response.ok) return;
+
+        const result: RefinementEntry[] = await response.json();
+        setHistory(toMessages(result));
+        setPendingMessage(null);
+      } catch (err) {
+        console.error('Failed to load refinement history:', err);
+      }
+    };
+
+    fetchHistory();
+  }, [aiJobId, getToken]);
+
+  // Drop the optimistic message if the refinement ended without a new proposal
+  useEffect(() => {
+    if (!isRefining) {
+      setPendingMessage(null);
+    }
+  }, [isRefining]);
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [history, pendingMessage]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -59,7 +134,7 @@ export function ProposalChat({
       timestamp: new Date(),
     };
 
-    setMessages(prev => [...prev, userMessage]);
+    setPendingMessage(userMessage);
     onRefineRequest(input.trim());
     setInput('');
   };
@@ -119,7 +194,9 @@ export function ProposalChat({
             <div className="bg-gray-800 border border-gray-700 rounded-xl px-4 py-3">
               <div className="flex items-center space-x-2">
                 <Loader2 className="w-4 h-4 text-blue-400 animate-spin" />
-                <span className="text-xs text-gray-400">AI is refining...</span>
+                <span className="text-xs text-gray-400">
+                  {refineProgress ? `AI is refining... ${refineProgress}` : 'AI is refining...'}
+                </span>
               </div>
             </div>
           </motion.div>
@@ -7,6 +7,7 @@ import { DiffViewer } from './DiffViewer';
 import { SectionDiffViewer } from './SectionDiffViewer';
 import { ProposalActions } from './ProposalActions';
 import { ProposalChat } from './ProposalChat';
+import { useAiJobEvents, formatAiJobProgress } from '../../hooks/useAiJobEvents';
 import { handleHttpError, getErrorMessage } from '@/lib/errorHandling';
 import { apiUrl } from '@/lib/api';
 
@@ -72,6 +73,8 @@ export function ProposalModal({
 }: ProposalModalProps) {
   const [proposedContent, setProposedContent] = useState<string | null>(null);
   const [sectionProposals, setSectionProposals] = useState<SectionProposal[]>([]);
+  // PAGE METRICS: Recompiled page count of FIT_TO_PAGE proposals (null for other modes)
+  const [pageFit, setPageFit] = useState<{ pageCount: number; fitsTarget: boolean } | null>(null);
   const [acceptedSections, setAcceptedSections] = useState<Set<SectionType>>(new Set());
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -80,6 +83,28 @@ export function ProposalModal({
   const [showChat, setShowChat] = useState(false);
   const [isRefining, setIsRefining] = useState(false);
   const [currentJobId, setCurrentJobId] = useState(aiJobId);
+  const [refiningJobId, setRefiningJobId] = useState<string | null>(null);
+
+  // PROGRESS STREAMING: Follow the refinement job until it finishes
+  const refineJob = useAiJobEvents(refiningJobId, getToken);
+
+  useEffect(() => {
+    if (!refiningJobId) return;
+
+    if (refineJob.status === 'COMPLETED') {
+      // Trigger re-fetch of proposal via useEffect
+      setCurrentJobId(refiningJobId);
+      setRefiningJobId(null);
+    } else if (refineJob.status === 'FAILED' || refineJob.status === 'CANCELLED' || refineJob.streamError) {
+      setError(
+        refineJob.status === 'CANCELLED'
+          ? 'Refinement was cancelled'
+          : refineJob.errorMessage || refineJob.streamError || 'Refinement failed',
+      );
+      setRefiningJobId(null);
+      setIsRefining(false);
+    }
+  }, [refiningJobId, refineJob.status, refineJob.errorMessage, refineJob.streamError]);
 
   useEffect(() => {
     const fetchProposal = async () => {
@@ -118,6 +143,9 @@ export function ProposalModal({
         }
         
         setProposedContent(result.proposedLatexContent);
+        setPageFit(result.pageCount !== null && result.pageCount !== undefined
+          ? { pageCount: result.pageCount, fitsTarget: !!result.fitsTarget }
+          : null);
         
         // GOAL 4: Extract section proposals if available
         if (result.sectionProposals && Array.isArray(result.sectionProposals)) {
@@ -206,67 +234,15 @@ export function ProposalModal({
 
       const result = await response.json();
       
-      // Start polling for the new job
-      setCurrentJobId(result.jobId);
-      pollForCompletion(result.jobId);
+      // Follow the new job's event stream
+      // currentJobId switches only once the refined proposal is ready
+      setRefiningJobId(result.jobId);
     } catch (err) {
       setError(getErrorMessage(err));
       setIsRefining(false);
     }
   };
 
-  // GOAL 6: Poll for refinement completion
-  const pollForCompletion = async (jobId: string) => {
-    const maxAttempts = 60; // 1 minute max
-    let attempts = 0;
-
-    const poll = async () => {
-      if (attempts >= maxAttempts) {
-        setError('Refinement timed out. Please try again.');
-        setIsRefining(false);
-        return;
-      }
-
-      try {
-        const token = await getToken();
-        
-        if (!token) {
-          throw new Error('Not authenticated');
-        }
-
-        const response = await fetch(apiUrl(`/api/ai/jobs/${jobId}`), {
-          method: 'GET',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-          },
-        });
-
-        if (!response.ok) {
-          throw new Error('Failed to check job status');
-        }
-
-        const jobStatus = await response.json();
-
-        if (jobStatus.status === 'COMPLETED') {
-          // Trigger re-fetch of proposal via useEffect
-          setCurrentJobId(jobId);
-          return;
-        } else if (jobStatus.status === 'FAILED') {
-          throw new Error(jobStatus.errorMessage || 'Refinement failed');
-        } else {
-          // Continue polling
-          attempts++;
-          setTimeout(poll, 1000);
-        }
-      } catch (err) {
-        setError(getErrorMessage(err));
-        setIsRefining(false);
-      }
-    };
-
-    poll();
-  };
-
   return (
     <AnimatePresence>
       <motion.div 
@@ -419,6 +395,19 @@ export function ProposalModal({
                         </div>
                       </motion.div>
 
+                    {/* PAGE METRICS: Result of the fit-to-page recompile */}
+                    {pageFit && (
+                      <div className={`rounded-xl px-4 py-3 text-sm border ${
+                        pageFit.fitsTarget
+                          ? 'bg-green-500/10 border-green-500/30 text-green-300'
+                          : 'bg-amber-500/10 border-amber-500/30 text-amber-300'
+                      }`}>
+                        {pageFit.fitsTarget
+                          ? `Recompiled: fits on ${pageFit.pageCount} page${pageFit.pageCount !== 1 ? 's' : ''} with all shortened sections accepted`
+                          : `Recompiled: still ${pageFit.pageCount} pages after shortening. Lock fewer sections or trim manually.`}
+                      </div>
+                    )}
+
                     {/* Section Diffs */}
                     <div className="space-y-2 md:space-y-3">
                       {sectionProposals.map((proposal) => (
@@ -466,6 +455,8 @@ export function ProposalModal({
                 projectId={projectId}
                 onRefineRequest={handleRefineRequest}
                 isRefining={isRefining}
+                refineProgress={formatAiJobProgress(refineJob.progress)}
+                getToken={getToken}
               />
             </div>
           )}
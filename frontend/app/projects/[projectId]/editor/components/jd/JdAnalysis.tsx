@@ -0,0 +1,201 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { apiUrl } from '@/lib/api';
+import { handleHttpError, getErrorMessage } from '@/lib/errorHandling';
+import { JobDescription, formatRoleType } from './JdList';
+
+/**
+ * JD ANALYSIS: Selected JD details
+ *
+ * Shows the structured analysis for one JD (GET /jd/{jdId}):
+ * role type, seniority, required vs nice-to-have skills, keywords.
+ * Polls while the analysis is PENDING (up to MAX_ANALYSIS_POLLS) and offers
+ * to run it (POST /jd/{jdId}/analyze) when it FAILED, was never started
+ * (JDs from before analysis existed) or is still PENDING after polling stops.
+ */
+
+const ANALYSIS_POLL_INTERVAL_MS = 3000;
+const MAX_ANALYSIS_POLLS = 40; // ~2 minutes
+
+interface JdAnalysisProps {
+  jdId: string;
+  getToken: () => Promise<string | null>;
+}
+
+export function JdAnalysis({ jdId, getToken }: JdAnalysisProps) {
+  const [jd, setJd] = useState<JobDescription | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [pollCount, setPollCount] = useState(0);
+
+  const loadJd = useCallback(async () => {
+    try {
+      const token = await getToken();
+
+      if (!token) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(apiUrl(`/api/jd/${jdId}`), {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorInfo = await handleHttpError(response);
+        throw errorInfo;
+      }
+
+      const data: JobDescription = await response.json();
+      setJd(data);
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  }, [jdId, getToken]);
+
+  useEffect(() => {
+    setJd(null);
+    setPollCount(0);
+    loadJd();
+  }, [loadJd]);
+
+  // Poll until the analysis finishes or the poll budget runs out
+  const isPolling = jd?.analysisStatus === 'PENDING' && pollCount < MAX_ANALYSIS_POLLS;
+  const isStale = jd?.analysisStatus === 'PENDING' && !isPolling;
+  useEffect(() => {
+    if (!isPolling) return;
+    const timer = setTimeout(() => {
+      setPollCount(count => count + 1);
+      loadJd();
+    }, ANALYSIS_POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [isPolling, jd, loadJd]);
+
+  const retryAnalysis = async () => {
+    setIsRetrying(true);
+    try {
+      const token = await getToken();
+
+      if (!token) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(apiUrl(`/api/jd/${jdId}/analyze`), {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorInfo = await handleHttpError(response);
+        throw errorInfo;
+      }
+
+      const data: JobDescription = await response.json();
+      setPollCount(0);
+      setJd(data);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  const renderRetry = (label: string) => (
+    <button
+      type="button"
+      onClick={retryAnalysis}
+      disabled={isRetrying}
+      className="text-xs text-blue-600 hover:text-blue-700 disabled:text-gray-400"
+    >
+      {isRetrying ? 'Retrying...' : label}
+    </button>
+  );
+
+  const renderSkills = (label: string, skills: string[], className: string) => (
+    skills.length > 0 && (
+      <div>
+        <div className="text-xs font-medium text-gray-600 mb-1">{label}</div>
+        <div className="flex flex-wrap gap-1">
+          {skills.map(skill => (
+            <span key={skill} className={`text-[11px] px-1.5 py-0.5 rounded ${className}`}>
+              {skill}
+            </span>
+          ))}
+        </div>
+      </div>
+    )
+  );
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <h3 className="text-sm font-semibold text-gray-700 mb-3">JD Analysis</h3>
+
+      {error && (
+        <div className="text-sm text-red-600 mb-3">
+          <strong>Error:</strong> {error}
+        </div>
+      )}
+
+      {!jd && !error && (
+        <div className="text-sm text-gray-500">Loading...</div>
+      )}
+
+      {isPolling && (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <div className="animate-spin rounded-full h-3 w-3 border-2 border-blue-600 border-t-transparent" />
+          Analyzing job description...
+        </div>
+      )}
+
+      {isStale && (
+        <div className="space-y-2">
+          <div className="text-sm text-gray-500">
+            Analysis is taking longer than expected{jd.analysisError ? ` (${jd.analysisError})` : ''}
+          </div>
+          {renderRetry('↻ Retry analysis')}
+        </div>
+      )}
+
+      {jd?.analysisStatus === 'NOT_STARTED' && (
+        <div className="space-y-2">
+          <div className="text-sm text-gray-500">
+            This job description has not been analyzed yet
+          </div>
+          {renderRetry('Analyze now')}
+        </div>
+      )}
+
+      {jd?.analysisStatus === 'FAILED' && (
+        <div className="space-y-2">
+          <div className="text-sm text-red-600">
+            Analysis failed{jd.analysisError ? `: ${jd.analysisError}` : ''}
+          </div>
+          {renderRetry('↻ Retry analysis')}
+        </div>
+      )}
+
+      {jd?.analysisStatus === 'COMPLETED' && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-2 text-xs">
+            <span className="px-2 py-0.5 rounded bg-purple-50 text-purple-700">
+              {formatRoleType(jd.roleType || 'OTHER')}
+            </span>
+            {jd.seniority && (
+              <span className="px-2 py-0.5 rounded bg-blue-50 text-blue-700">
+                {formatRoleType(jd.seniority)}
+              </span>
+            )}
+          </div>
+          {renderSkills('Required skills', jd.extractedSkills.required, 'bg-green-50 text-green-800')}
+          {renderSkills('Nice to have', jd.extractedSkills.niceToHave, 'bg-gray-100 text-gray-700')}
+          {renderSkills('Keywords', jd.keywords, 'bg-amber-50 text-amber-800')}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -11,21 +11,41 @@ import { apiUrl } from '@/lib/api';
  * 
  * Per apis.md Section 5.3:
  * - GET /jd/project/{projectId}
- * - Returns: [{ jdId, projectId, rawText, createdAt }]
+ * - Returns: [{ jdId, projectId, rawText, analysisStatus, roleType, seniority, ... }]
+ * 
+ * JD ANALYSIS: Shows role/seniority badges from the backend analysis and
+ * refreshes quietly while any analysis is still PENDING
  * 
  * Forbidden:
  * - No search
  * - No filters
- * - No derived metadata
  */
 
-interface JobDescription {
+export interface JobDescription {
   jdId: string;
   projectId: string;
   rawText: string;
+  analysisStatus: 'NOT_STARTED' | 'PENDING' | 'COMPLETED' | 'FAILED';
+  analysisError: string | null;
+  extractedSkills: {
+    required: string[];
+    niceToHave: string[];
+  };
+  keywords: string[];
+  roleType: string | null;
+  seniority: string | null;
   createdAt: string;
 }
 
+const ANALYSIS_POLL_INTERVAL_MS = 3000;
+const MAX_ANALYSIS_POLLS = 40; // ~2 minutes, JdAnalysis offers a retry after that
+
+export const formatRoleType = (value: string): string =>
+  value
+    .split('_')
+    .map(word => word.charAt(0) + word.slice(1).toLowerCase())
+    .join(' ');
+
 interface JdListProps {
   projectId: string;
   selectedJdId: string | null;
@@ -38,9 +58,10 @@ export function JdList({ projectId, selectedJdId, onJdSelected, refreshTrigger,
   const [jds, setJds] = useState<JobDescription[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [pollCount, setPollCount] = useState(0);
 
-  const loadJds = async () => {
-    setIsLoading(true);
+  const loadJds = async (silent: boolean = false) => {
+    if (!silent) setIsLoading(true);
     setError(null);
 
     try {
@@ -73,9 +94,21 @@ export function JdList({ projectId, selectedJdId, onJdSelected, refreshTrigger,
 
   // Load JDs on mount and when refreshTrigger changes
   useEffect(() => {
+    setPollCount(0);
     loadJds();
   }, [projectId, refreshTrigger]);
 
+  // JD ANALYSIS: Re-check while analyses are still running (bounded)
+  const hasPendingAnalysis = jds.some(jd => jd.analysisStatus === 'PENDING');
+  useEffect(() => {
+    if (!hasPendingAnalysis || pollCount >= MAX_ANALYSIS_POLLS) return;
+    const timer = setTimeout(() => {
+      setPollCount(count => count + 1);
+      loadJds(true);
+    }, ANALYSIS_POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [hasPendingAnalysis, jds, pollCount]);
+
   const truncateText = (text: string, maxLength: number = 100): string => {
     if (text.length <= maxLength) return text;
     return text.substring(0, maxLength) + '...';
@@ -94,7 +127,7 @@ export function JdList({ projectId, selectedJdId, onJdSelected, refreshTrigger,
         </h3>
         <button
           type="button"
-          onClick={loadJds}
+          onClick={() => loadJds()}
           disabled={isLoading}
           className="text-xs text-blue-600 hover:text-blue-700 disabled:text-gray-400"
         >
@@ -131,8 +164,23 @@ export function JdList({ projectId, selectedJdId, onJdSelected, refreshTrigger,
                   : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
               }`}
             >
-              <div className="text-xs text-gray-500 mb-1">
-                {formatDate(jd.createdAt)}
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <span className="text-xs text-gray-500">{formatDate(jd.createdAt)}</span>
+                {jd.analysisStatus === 'PENDING' && (
+                  <span className="text-[10px] px-1.5 py-0.5 rounded bg-gray-100 text-gray-500">Analyzing...</span>
+                )}
+                {jd.analysisStatus === 'NOT_STARTED' && (
+                  <span className="text-[10px] px-1.5 py-0.5 rounded bg-gray-100 text-gray-500">Not analyzed</span>
+                )}
+                {jd.analysisStatus === 'FAILED' && (
+                  <span className="text-[10px] px-1.5 py-0.5 rounded bg-red-50 text-red-600">Analysis failed</span>
+                )}
+                {jd.analysisStatus === 'COMPLETED' && jd.roleType && (
+                  <span className="text-[10px] px-1.5 py-0.5 rounded bg-purple-50 text-purple-700">
+                    {formatRoleType(jd.roleType)}
+                    {jd.seniority && ` · ${formatRoleType(jd.seniority)}`}
+                  </span>
+                )}
               </div>
               <div className="text-sm text-gray-700 font-mono">
                 {truncateText(jd.rawText, 100)}
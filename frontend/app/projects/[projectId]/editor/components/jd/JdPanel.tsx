@@ -3,6 +3,7 @@
 import { useState } from 'react';
 import { JdInput } from './JdInput';
 import { JdList } from './JdList';
+import { JdAnalysis } from './JdAnalysis';
 import { AiJobButton } from '../ai/AiJobButton';
 
 /**
@@ -22,6 +23,8 @@ import { AiJobButton } from '../ai/AiJobButton';
  * - Selection must NOT trigger version creation
  * 
  * This selection exists ONLY for future phases.
+ * 
+ * JD ANALYSIS: Selected JD shows its structured analysis (read-only)
  */
 
 interface JdPanelProps {
@@ -82,6 +85,15 @@ export function JdPanel({ projectId, baseVersionId, baseLatexContent, onVersionC
           getToken={getToken}
         />
 
+        {/* JD ANALYSIS: Structured details for the selected JD */}
+        {selectedJdId && (
+          <JdAnalysis
+            key={`${selectedJdId}-${refreshTrigger}`}
+            jdId={selectedJdId}
+            getToken={getToken}
+          />
+        )}
+
         {/* PHASE 7.2: AI Tailoring Section Header */}
         <div className="pt-4 border-t border-gray-200">
           <h3 className="text-sm font-semibold text-gray-900 mb-1">AI Tailoring</h3>
@@ -0,0 +1,220 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { handleHttpError, getErrorMessage } from '@/lib/errorHandling';
+import { apiUrl } from '@/lib/api';
+
+/**
+ * PROGRESS STREAMING: AI Job Events Hook
+ *
+ * WHY THIS EXISTS:
+ * AiJobButton, EditMode and ProposalModal each polled GET /ai/jobs/{jobId} on their own
+ * timers. This hook subscribes once to GET /ai/jobs/{jobId}/events (server-sent events)
+ * and exposes the latest status plus per-section progress ("EXPERIENCE done, 2 of 5").
+ *
+ * WHY FETCH INSTEAD OF EventSource:
+ * EventSource cannot send the Authorization header the Clerk guard requires, so the
+ * stream is read from a fetch response body and parsed here.
+ *
+ * Lifecycle:
+ * - Passing null (or a new jobId) closes the current stream and resets state
+ * - The server closes the stream after COMPLETED, FAILED or CANCELLED
+ * - Dropped connections are reopened a few times; the first event is always
+ *   a fresh snapshot, so nothing is missed
+ */
+
+export type AiJobStatus = 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+export interface AiJobProgress {
+  completedSections: number;
+  totalSections: number;
+  lastSection: string | null;
+}
+
+interface AiJobEvent {
+  type: 'status' | 'progress';
+  jobId: string;
+  status: AiJobStatus;
+  errorMessage: string | null;
+  progress: AiJobProgress | null;
+}
+
+interface AiJobEventsState {
+  status: AiJobStatus | null;
+  errorMessage: string | null;
+  progress: AiJobProgress | null;
+  isStreaming: boolean;
+  streamError: string | null;
+}
+
+const INITIAL_STATE: AiJobEventsState = {
+  status: null,
+  errorMessage: null,
+  progress: null,
+  isStreaming: false,
+  streamError: null,
+};
+
+const TERMINAL_STATUSES: AiJobStatus[] = ['COMPLETED', 'FAILED', 'CANCELLED'];
+const RECONNECT_DELAY_MS = 2000;
+const MAX_RECONNECTS = 5;
+
+export function isTerminalAiJobStatus(status: AiJobStatus | null): boolean {
+  return status !== null && TERMINAL_STATUSES.includes(status);
+}
+
+/**
+ * Human-readable progress, e.g. "EXPERIENCE done, 2 of 5"
+ */
+export function formatAiJobProgress(progress: AiJobProgress | null): string | null {
+  if (!progress || progress.totalSections === 0) return null;
+
+  if (!progress.lastSection) {
+    return `Starting, 0 of ${progress.totalSections}`;
+  }
+
+  return `${progress.lastSection} done, ${progress.completedSections} of ${progress.totalSections}`;
+}
+
+export function useAiJobEvents(jobId: string | null, getToken: () => Promise<string | null>) {
+  const [state, setState] = useState<AiJobEventsState>(INITIAL_STATE);
+
+  // Latest getToken without reopening the stream when its identity changes
+  const getTokenRef = useRef(getToken);
+  useEffect(() => {
+    getTokenRef.current = getToken;
+  }, [getToken]);
+
+  useEffect(() => {
+    setState(INITIAL_STATE);
+    if (!jobId) return;
+
+    const controller = new AbortController();
+    let isFinished = false;
+    let reconnects = 0;
+    let reconnectTimeout: NodeJS.Timeout | null = null;
+
+    const handleFrame = (frame: string) => {
+      let eventType = 'message';
+      const dataLines: string[] = [];
+
+      for (const line of frame.split('\n')) {
+        if (line.startsWith('event:')) {
+          eventType = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.slice(5).replace(/^ /, ''));
+        }
+      }
+
+      if (dataLines.length === 0) return;
+      const data = dataLines.join('\n');
+
+      // Server-side failure (e.g. job not found or not owned)
+      if (eventType === 'error') {
+        isFinished = true;
+        setState((prev) => ({ ...prev, isStreaming: false, streamError: data }));
+        return;
+      }
+
+      const event = JSON.parse(data) as AiJobEvent;
+      reconnects = 0;
+      if (isTerminalAiJobStatus(event.status)) {
+        isFinished = true;
+      }
+
+      setState((prev) => ({
+        ...prev,
+        status: event.status,
+        errorMessage: event.errorMessage,
+        progress: event.progress ?? (event.status === 'RUNNING' ? prev.progress : null),
+        isStreaming: !isTerminalAiJobStatus(event.status),
+        streamError: null,
+      }));
+    };
+
+    const connect = async () => {
+      setState((prev) => ({ ...prev, isStreaming: true }));
+      let lastError: string | null = null;
+
+      try {
+        const token = await getTokenRef.current();
+
+        if (!token) {
+          isFinished = true;
+          throw new Error('Not authenticated');
+        }
+
+        const response = await fetch(apiUrl(`/api/ai/jobs/${jobId}/events`), {
+          headers: {
+            'Accept': 'text/event-stream',
+            'Authorization': `Bearer ${token}`,
+          },
+          signal: controller.signal,
+        });
+
+        if (!response.ok) {
+          const errorInfo = await handleHttpError(response);
+          isFinished = !errorInfo.isRetryable;
+          throw errorInfo;
+        }
+
+        if (!response.body) {
+          isFinished = true;
+          throw new Error('Streaming is not supported by this browser');
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n');
+
+          let boundary = buffer.indexOf('\n\n');
+          while (boundary !== -1) {
+            handleFrame(buffer.slice(0, boundary));
+            buffer = buffer.slice(boundary + 2);
+            boundary = buffer.indexOf('\n\n');
+          }
+        }
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        lastError = getErrorMessage(err);
+      }
+
+      if (controller.signal.aborted || isFinished) {
+        if (lastError) {
+          setState((prev) => ({ ...prev, isStreaming: false, streamError: lastError }));
+        }
+        return;
+      }
+
+      // Stream ended before a terminal status: reconnect
+      if (reconnects < MAX_RECONNECTS) {
+        reconnects++;
+        reconnectTimeout = setTimeout(connect, RECONNECT_DELAY_MS);
+        return;
+      }
+
+      setState((prev) => ({
+        ...prev,
+        isStreaming: false,
+        streamError: lastError || 'Lost connection to job updates',
+      }));
+    };
+
+    connect();
+
+    return () => {
+      controller.abort();
+      if (reconnectTimeout) {
+        clearTimeout(reconnectTimeout);
+      }
+    };
+  }, [jobId]);
+
+  return state;
+}
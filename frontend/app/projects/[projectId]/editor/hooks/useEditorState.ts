@@ -26,18 +26,93 @@ import { apiUrl } from '@/lib/api';
  * - isSaving: True during save operation (non-blocking)
  * - isCompiling: True during compile operation (non-blocking)
  * - isLoading: True during initial load only
+ * 
+ * STALE PARENT (apis.md Section 4.2):
+ * Saves send the active version seen when the version was loaded. If another tab or an
+ * accepted AI proposal made a different version active meanwhile, the save returns 409
+ * and saveConflict is set; resolveSaveConflict then overwrites (save as active anyway),
+ * branches (save without activating) or merges (save a branch, then pendingMerge opens
+ * the merge of it into the active version).
  */
 
 interface ResumeVersion {
   versionId: string;
   projectId: string;
-  type: 'BASE' | 'MANUAL' | 'AI_GENERATED';
-  status: 'DRAFT' | 'COMPILED' | 'ERROR' | 'ACTIVE';
+  type: 'BASE' | 'MANUAL' | 'AI_GENERATED' | 'RESTORED' | 'MERGED';
+  compileStatus: 'NOT_COMPILED' | 'COMPILED' | 'ERROR';
+  isActive: boolean;
+  activeVersionId: string | null; // Project's active version when loaded
   latexContent: string;
   pdfUrl: string | null;
+  hasPdf: boolean;
+  message: string | null; // Commit message given on save
+  label: string | null;
+  notes: string | null;
   createdAt: string;
 }
 
+/**
+ * Problem parsed from the compile log (line is null when it points into a package)
+ */
+export interface CompileDiagnostic {
+  line: number | null;
+  severity: 'error' | 'warning';
+  message: string;
+  context: string | null;
+}
+
+/**
+ * Page layout of a compiled PDF (lastPageFill: 0-1 of the last page's text height)
+ */
+export interface PageMetrics {
+  pageCount: number | null;
+  lastPageFill: number | null;
+  overfullBoxes: number;
+}
+
+interface CompileJobStatus extends PageMetrics {
+  jobId: string;
+  versionId: string;
+  status: 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+  engine: 'PDFLATEX' | 'XELATEX' | 'LUALATEX';
+  result: 'success' | 'warning' | 'error' | null;
+  errors: string[];
+  diagnostics: CompileDiagnostic[];
+  errorMessage: string | null;
+}
+
+/**
+ * 409 body of a stale save (apis.md Section 4.2)
+ */
+export interface SaveConflict {
+  message: string;
+  expectedActiveVersionId: string;
+  activeVersionId: string | null;
+  activeVersion: {
+    versionId: string;
+    type: ResumeVersion['type'];
+    createdAt: string;
+    message: string | null;
+    label: string | null;
+  } | null;
+  saveMessage?: string; // Commit message of the save that conflicted (reused on resolve)
+}
+
+export type SaveConflictResolution = 'overwrite' | 'branch' | 'merge';
+
+/**
+ * Merge of a saved branch into the active version (opened after resolving with 'merge')
+ */
+export interface PendingMerge {
+  oursVersionId: string;   // Active version
+  theirsVersionId: string; // The edit, saved as a branch
+}
+
+/**
+ * How often a running compile job is polled
+ */
+const COMPILE_POLL_INTERVAL_MS = 1000;
+
 interface EditorState {
   currentVersionId: string | null;
   latexDraft: string;
@@ -47,6 +122,10 @@ interface EditorState {
   isCompiling: boolean;
   error: string | null;
   currentVersion: ResumeVersion | null;
+  diagnostics: CompileDiagnostic[]; // From the last compile of currentVersion
+  pageMetrics: PageMetrics | null;   // From the last successful compile of currentVersion
+  saveConflict: SaveConflict | null;
+  pendingMerge: PendingMerge | null;
 }
 
 export function useEditorState(projectId: string, getToken: () => Promise<string | null>) {
@@ -59,6 +138,10 @@ export function useEditorState(projectId: string, getToken: () => Promise<string
     isCompiling: false,
     error: null,
     currentVersion: null,
+    diagnostics: [],
+    pageMetrics: null,
+    saveConflict: null,
+    pendingMerge: null,
   });
 
   /**
@@ -100,6 +183,10 @@ export function useEditorState(projectId: string, getToken: () => Promise<string
         isCompiling: false,
         error: null,
         currentVersion: version,
+        diagnostics: [],
+        pageMetrics: null,
+        saveConflict: null,
+        pendingMerge: null,
       });
     } catch (err) {
       setState(prev => ({
@@ -141,6 +228,8 @@ export function useEditorState(projectId: string, getToken: () => Promise<string
       isCompiling: false,
       error: null,
       currentVersion: null,
+      diagnostics: [],
+      saveConflict: null,
     }));
 
     await loadVersion(versionId);
@@ -173,39 +262,183 @@ export function useEditorState(projectId: string, getToken: () => Promise<string
       isCompiling: false,
       error: 'No version specified. Please select a version from the dashboard.',
       currentVersion: null,
+      diagnostics: [],
     }));
   }, []);
 
+  /**
+   * PUT /api/versions/{versionId} with the current draft
+   * Returns newVersionId, or null on a 409 (saveConflict is set, isSaving reset)
+   */
+  const submitEdit = useCallback(async (
+    options: { message?: string; expectedActiveVersionId?: string | null; activate?: boolean },
+  ): Promise<string | null> => {
+    if (!state.currentVersionId) {
+      throw new Error('No version loaded');
+    }
+
+    // PHASE 8: Real Clerk JWT authentication
+    const token = await getToken();
+    
+    if (!token) {
+      throw new Error('Not authenticated');
+    }
+
+    const response = await fetch(apiUrl(`/api/versions/${state.currentVersionId}`), {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({
+        latexContent: state.latexDraft,
+        ...(options.message?.trim() && { message: options.message.trim() }),
+        ...(options.expectedActiveVersionId && { expectedActiveVersionId: options.expectedActiveVersionId }),
+        ...(options.activate === false && { activate: false }),
+      }),
+    });
+
+    if (response.status === 409) {
+      const conflict: SaveConflict = await response.json();
+      setState(prev => ({
+        ...prev,
+        isSaving: false,
+        saveConflict: { ...conflict, saveMessage: options.message },
+      }));
+      return null;
+    }
+
+    if (!response.ok) {
+      const errorInfo = await handleHttpError(response);
+      throw errorInfo;
+    }
+
+    const result = await response.json();
+    return result.newVersionId;
+  }, [state.currentVersionId, state.latexDraft, getToken]);
+
   /**
    * Save manual edit (NON-BLOCKING)
    * Per apis.md Section 4.2: PUT /api/versions/{versionId}
    * Creates new MANUAL version, returns newVersionId
    * Uses isSaving state instead of blocking isLoading
+   * message: optional commit message stored on the new version
+   * 
+   * STALE PARENT: Returns null (onSuccess not called) if the active version changed
+   * since the version was loaded; saveConflict is set for the user to resolve
    */
-  const saveEdit = useCallback(async (onSuccess?: (newVersionId: string) => void) => {
+  const saveEdit = useCallback(async (onSuccess?: (newVersionId: string) => void, message?: string) => {
     if (!state.currentVersionId) {
       throw new Error('No version loaded');
     }
 
+    setState(prev => ({ ...prev, isSaving: true, error: null, saveConflict: null }));
+
+    try {
+      const newVersionId = await submitEdit({
+        message,
+        expectedActiveVersionId: state.currentVersion?.activeVersionId,
+      });
+
+      if (!newVersionId) return null;
+
+      // Load the newly created version (this will reset isSaving)
+      await loadVersion(newVersionId);
+
+      // Trigger success callback if provided
+      if (onSuccess) {
+        onSuccess(newVersionId);
+      }
+
+      return newVersionId;
+    } catch (err) {
+      setState(prev => ({
+        ...prev,
+        isSaving: false,
+        error: getErrorMessage(err),
+      }));
+      throw err;
+    }
+  }, [state.currentVersionId, state.currentVersion?.activeVersionId, submitEdit, loadVersion]);
+
+  /**
+   * Resolve a stale save (saveConflict)
+   * - overwrite: save again against the version that is active now (the edit becomes active)
+   * - branch: save without activating (the other version stays active)
+   * - merge: save as a branch, then set pendingMerge (branch into the active version)
+   * The saved version is loaded either way; returns its id (null on another 409)
+   */
+  const resolveSaveConflict = useCallback(async (resolution: SaveConflictResolution) => {
+    const conflict = state.saveConflict;
+    if (!conflict) return null;
+
+    setState(prev => ({ ...prev, isSaving: true, error: null, saveConflict: null }));
+
+    try {
+      const newVersionId = await submitEdit(
+        resolution === 'overwrite'
+          ? { message: conflict.saveMessage, expectedActiveVersionId: conflict.activeVersionId }
+          : { message: conflict.saveMessage, activate: false },
+      );
+
+      if (!newVersionId) return null;
+
+      // Load the saved version (this will reset isSaving)
+      await loadVersion(newVersionId);
+
+      if (resolution === 'merge' && conflict.activeVersionId) {
+        setState(prev => ({
+          ...prev,
+          pendingMerge: { oursVersionId: conflict.activeVersionId!, theirsVersionId: newVersionId },
+        }));
+      }
+
+      return newVersionId;
+    } catch (err) {
+      setState(prev => ({
+        ...prev,
+        isSaving: false,
+        error: getErrorMessage(err),
+      }));
+      throw err;
+    }
+  }, [state.saveConflict, submitEdit, loadVersion]);
+
+  /**
+   * Close the conflict without saving (the draft stays as it is)
+   */
+  const dismissSaveConflict = useCallback(() => {
+    setState(prev => ({ ...prev, saveConflict: null }));
+  }, []);
+
+  /**
+   * Close the merge opened by resolveSaveConflict('merge') (the branch stays saved)
+   */
+  const clearPendingMerge = useCallback(() => {
+    setState(prev => ({ ...prev, pendingMerge: null }));
+  }, []);
+
+  /**
+   * Restore an older version as the new active version
+   * Per apis.md Section 4.9: POST /api/versions/{versionId}/restore
+   * Creates new RESTORED version (content of versionId) and loads it
+   * Unsaved edits of the loaded version are discarded like on switchVersion
+   */
+  const restoreVersion = useCallback(async (versionId: string) => {
     setState(prev => ({ ...prev, isSaving: true, error: null }));
 
     try {
-      // PHASE 8: Real Clerk JWT authentication
       const token = await getToken();
       
       if (!token) {
         throw new Error('Not authenticated');
       }
 
-      const response = await fetch(apiUrl(`/api/versions/${state.currentVersionId}`), {
-        method: 'PUT',
+      const response = await fetch(apiUrl(`/api/versions/${versionId}/restore`), {
+        method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
           'Authorization': `Bearer ${token}`,
         },
-        body: JSON.stringify({
-          latexContent: state.latexDraft,
-        }),
       });
 
       if (!response.ok) {
@@ -214,16 +447,11 @@ export function useEditorState(projectId: string, getToken: () => Promise<string
       }
 
       const result = await response.json();
-      const newVersionId = result.newVersionId;
+      const newVersionId: string = result.newVersionId;
 
-      // Load the newly created version (this will reset isSaving)
+      // Load the restored copy (this will reset isSaving)
       await loadVersion(newVersionId);
 
-      // Trigger success callback if provided
-      if (onSuccess) {
-        onSuccess(newVersionId);
-      }
-
       return newVersionId;
     } catch (err) {
       setState(prev => ({
@@ -233,19 +461,18 @@ export function useEditorState(projectId: string, getToken: () => Promise<string
       }));
       throw err;
     }
-  }, [state.currentVersionId, state.latexDraft, loadVersion]);
+  }, [getToken, loadVersion]);
 
   /**
    * Compile current version to PDF (NON-BLOCKING)
    * Per apis.md Section 4.3: POST /api/versions/{versionId}/compile
    * Uses isCompiling state instead of blocking isLoading
    * 
-   * PHASE 8: LaTeX compilation with pdflatex
-   * - Calls backend compile endpoint
-   * - Backend compiles LaTeX → PDF
-   * - Backend uploads to Cloudinary
-   * - Backend updates version.pdfUrl
-   * - Frontend reloads version to get updated pdfUrl
+   * PHASE 8: LaTeX compilation with the project's TeX engine
+   * - Calls backend compile endpoint, which queues a CompileJob
+   * - Polls GET /api/versions/compile-jobs/{jobId} until COMPLETED or FAILED
+   * - Backend stores the PDF (local disk, S3-compatible or Cloudinary)
+   * - Frontend reloads version to get updated hasPdf
    */
   const compileVersion = useCallback(async () => {
     if (!state.currentVersionId) {
@@ -274,33 +501,65 @@ export function useEditorState(projectId: string, getToken: () => Promise<string
         throw errorInfo;
       }
 
-      const result = await response.json();
+      const { jobId } = await response.json();
+
+      const fetchCompileJob = async (): Promise<CompileJobStatus> => {
+        const jobResponse = await fetch(apiUrl(`/api/versions/compile-jobs/${jobId}`), {
+          headers: {
+            'Authorization': `Bearer ${await getToken()}`,
+          },
+        });
+
+        if (!jobResponse.ok) {
+          const errorInfo = await handleHttpError(jobResponse);
+          throw errorInfo;
+        }
+
+        return jobResponse.json();
+      };
 
-      if (result.status === 'error') {
+      // Poll the compile job until it finishes
+      let result = await fetchCompileJob();
+      while (result.status === 'QUEUED' || result.status === 'RUNNING') {
+        await new Promise(resolve => setTimeout(resolve, COMPILE_POLL_INTERVAL_MS));
+        result = await fetchCompileJob();
+      }
+
+      if (result.result === 'error') {
         // Compilation failed completely
         const errorMsg = result.errors.length > 0 
-          ? `Compilation failed:\n${result.errors.join('\n')}`
-          : 'Compilation failed';
+          ? `Compilation failed (${result.engine.toLowerCase()}):\n${result.errors.join('\n')}`
+          : result.errorMessage || 'Compilation failed';
         
         setState(prev => ({
           ...prev,
           isCompiling: false,
           error: errorMsg,
+          diagnostics: result.diagnostics,
         }));
         throw new Error(errorMsg);
       }
 
-      // Compilation succeeded (with or without warnings) - reload version to get updated pdfUrl
+      // Compilation succeeded (with or without warnings) - reload version to get updated hasPdf
       await loadVersion(state.currentVersionId);
       
-      // Reset compiling state after reload
-      setState(prev => ({ ...prev, isCompiling: false }));
+      // Reset compiling state after reload (reload clears diagnostics and page metrics)
+      setState(prev => ({
+        ...prev,
+        isCompiling: false,
+        diagnostics: result.diagnostics,
+        pageMetrics: {
+          pageCount: result.pageCount,
+          lastPageFill: result.lastPageFill,
+          overfullBoxes: result.overfullBoxes,
+        },
+      }));
       
       // If there were warnings, show them but don't block
-      if (result.status === 'warning' && result.errors.length > 0) {
+      if (result.result === 'warning' && result.errors.length > 0) {
         setState(prev => ({
           ...prev,
-          error: `⚠️ PDF compiled with warnings:\n${result.errors.join('\n')}`,
+          error: `⚠️ PDF compiled with warnings (${result.engine.toLowerCase()}):\n${result.errors.join('\n')}`,
         }));
       }
 
@@ -324,6 +583,10 @@ export function useEditorState(projectId: string, getToken: () => Promise<string
     isCompiling: state.isCompiling,
     error: state.error,
     currentVersion: state.currentVersion,
+    diagnostics: state.diagnostics,
+    pageMetrics: state.pageMetrics,
+    saveConflict: state.saveConflict,
+    pendingMerge: state.pendingMerge,
     
     // Actions
     loadVersion,
@@ -331,6 +594,10 @@ export function useEditorState(projectId: string, getToken: () => Promise<string
     updateDraft,
     switchVersion,
     saveEdit,
+    resolveSaveConflict,
+    dismissSaveConflict,
+    clearPendingMerge,
+    restoreVersion,
     compileVersion,
   };
 }
@@ -0,0 +1,70 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { apiUrl } from '@/lib/api';
+
+/**
+ * ANNOTATIONS: Server-side version search
+ *
+ * Runs GET /api/versions/project/{projectId}?q= (apis.md Section 4.4) for the
+ * typed query and returns the ids of matching versions, so lists keep their full
+ * data and only filter what they render. null = no active search (show all).
+ */
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+export function useVersionSearch(
+  projectId: string,
+  query: string,
+  getToken: () => Promise<string | null>,
+) {
+  const [matchingIds, setMatchingIds] = useState<Set<string> | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  useEffect(() => {
+    const search = query.trim();
+
+    if (!search) {
+      setMatchingIds(null);
+      setIsSearching(false);
+      return;
+    }
+
+    let isCancelled = false;
+    setIsSearching(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const token = await getToken();
+        if (!token) return;
+
+        const response = await fetch(
+          apiUrl(`/api/versions/project/${projectId}?q=${encodeURIComponent(search)}`),
+          {
+            headers: {
+              'Authorization': `Bearer ${token}`,
+            },
+          },
+        );
+
+        if (!response.ok || isCancelled) return;
+
+        const results: Array<{ versionId: string }> = await response.json();
+        if (!isCancelled) {
+          setMatchingIds(new Set(results.map(version => version.versionId)));
+        }
+      } catch (err) {
+        console.error('Version search failed:', err);
+      } finally {
+        if (!isCancelled) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      isCancelled = true;
+      clearTimeout(timer);
+    };
+  }, [projectId, query, getToken]);
+
+  return { matchingIds, isSearching };
+}
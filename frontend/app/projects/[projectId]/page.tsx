@@ -7,9 +7,11 @@ import Link from 'next/link';
 import { motion } from 'framer-motion';
 import { handleHttpError, getErrorMessage } from '@/lib/errorHandling';
 import { apiUrl } from '@/lib/api';
+import { ProjectAssets } from './components/ProjectAssets';
+import { VersionHistory } from './components/VersionHistory';
 import { 
   FileCode, Briefcase, Zap, Calendar, GitBranch, 
-  ArrowLeft, Sparkles, Clock, ArrowRight, AlertCircle
+  ArrowLeft, Sparkles, Clock, ArrowRight, AlertCircle, Settings2
 } from 'lucide-react';
 
 /**
@@ -21,6 +23,9 @@ import {
  * - Navigation hub for project
  * - Shows project metadata
  * - Provides links to Editor, Job Descriptions, AI Jobs
+ * - Compile settings (TeX engine, bibliography tool) via PATCH /projects/{projectId}/settings
+ * - Project files (assets placed next to resume.tex at compile time)
+ * - Version history graph (open / compare / restore any version)
  * 
  * Forbidden:
  * - No editor rendering here
@@ -29,19 +34,37 @@ import {
  * - No business logic
  */
 
+type LatexEngine = 'PDFLATEX' | 'XELATEX' | 'LUALATEX';
+type BibliographyTool = 'NONE' | 'BIBTEX' | 'BIBER';
+
 interface ProjectMetadata {
   projectId: string;
   name: string;
   createdAt: string;
   updatedAt: string;
   versionCount: number;
+  latexEngine: LatexEngine;
+  bibliographyTool: BibliographyTool;
 }
 
+const ENGINE_OPTIONS: Array<{ value: LatexEngine; label: string; hint: string }> = [
+  { value: 'PDFLATEX', label: 'pdfLaTeX', hint: 'Classic templates' },
+  { value: 'XELATEX', label: 'XeLaTeX', hint: 'fontspec, system fonts' },
+  { value: 'LUALATEX', label: 'LuaLaTeX', hint: 'fontspec, Lua' },
+];
+
+const BIBLIOGRAPHY_OPTIONS: Array<{ value: BibliographyTool; label: string }> = [
+  { value: 'NONE', label: 'None' },
+  { value: 'BIBTEX', label: 'BibTeX' },
+  { value: 'BIBER', label: 'Biber (biblatex)' },
+];
+
 interface VersionListItem {
   versionId: string;
   projectId: string;
-  type: 'BASE' | 'MANUAL' | 'AI_GENERATED';
-  status: 'DRAFT' | 'COMPILED' | 'ERROR' | 'ACTIVE';
+  type: 'BASE' | 'MANUAL' | 'AI_GENERATED' | 'RESTORED' | 'MERGED';
+  compileStatus: 'NOT_COMPILED' | 'COMPILED' | 'ERROR';
+  isActive: boolean;
   createdAt: string;
   parentVersionId: string | null;
 }
@@ -56,6 +79,8 @@ export default function ProjectPage() {
   const [versions, setVersions] = useState<VersionListItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [isSavingSettings, setIsSavingSettings] = useState(false);
+  const [settingsError, setSettingsError] = useState<string | null>(null);
 
   useEffect(() => {
     fetchProjectData();
@@ -127,6 +152,44 @@ export default function ProjectPage() {
     }
   };
 
+  /**
+   * Change compile settings via PATCH /projects/{projectId}/settings (apis.md Section 3.5)
+   * Versions compiled with other settings are rebuilt on their next compile
+   */
+  const updateSettings = async (changes: { latexEngine?: LatexEngine; bibliographyTool?: BibliographyTool }) => {
+    setIsSavingSettings(true);
+    setSettingsError(null);
+
+    try {
+      const token = await getToken();
+
+      if (!token) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(apiUrl(`/api/projects/${projectId}/settings`), {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify(changes),
+      });
+
+      if (!response.ok) {
+        const errorInfo = await handleHttpError(response);
+        throw errorInfo;
+      }
+
+      const settings: Pick<ProjectMetadata, 'latexEngine' | 'bibliographyTool'> = await response.json();
+      setProject(prev => prev ? { ...prev, latexEngine: settings.latexEngine, bibliographyTool: settings.bibliographyTool } : prev);
+    } catch (err) {
+      setSettingsError(getErrorMessage(err));
+    } finally {
+      setIsSavingSettings(false);
+    }
+  };
+
   const formatDate = (dateString: string): string => {
     const date = new Date(dateString);
     return date.toLocaleDateString() + ' ' + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
@@ -250,6 +313,68 @@ export default function ProjectPage() {
               </div>
             </motion.div>
 
+            {/* Compile Settings */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.15 }}
+              className="rounded-2xl bg-gray-900/50 backdrop-blur-sm border border-white/10 p-6"
+            >
+              <div className="flex items-center gap-2 mb-4">
+                <Settings2 className="w-5 h-5 text-gray-400" />
+                <h3 className="text-lg font-semibold text-white">Compile Settings</h3>
+                {isSavingSettings && (
+                  <div className="w-4 h-4 border-2 border-blue-400 border-t-transparent rounded-full animate-spin" />
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                <label className="space-y-1.5 block">
+                  <span className="text-sm text-gray-500">TeX engine</span>
+                  <select
+                    value={project.latexEngine}
+                    disabled={isSavingSettings}
+                    onChange={(e) => updateSettings({ latexEngine: e.target.value as LatexEngine })}
+                    className="w-full px-3 py-2 rounded-xl bg-gray-800 border border-white/10 text-white text-sm focus:outline-none focus:border-blue-500/50 disabled:opacity-60"
+                  >
+                    {ENGINE_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>
+                        {option.label} — {option.hint}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="space-y-1.5 block">
+                  <span className="text-sm text-gray-500">Bibliography</span>
+                  <select
+                    value={project.bibliographyTool}
+                    disabled={isSavingSettings}
+                    onChange={(e) => updateSettings({ bibliographyTool: e.target.value as BibliographyTool })}
+                    className="w-full px-3 py-2 rounded-xl bg-gray-800 border border-white/10 text-white text-sm focus:outline-none focus:border-blue-500/50 disabled:opacity-60"
+                  >
+                    {BIBLIOGRAPHY_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+
+              <p className="mt-3 text-xs text-gray-500">
+                Applies to new compiles and previews. Cross-references and page counts are rerun automatically.
+              </p>
+              {settingsError && (
+                <p className="mt-2 text-sm text-red-300">{settingsError}</p>
+              )}
+            </motion.div>
+
+            {/* Version History */}
+            <VersionHistory projectId={projectId} getToken={getToken} />
+
+            {/* Project Files */}
+            <ProjectAssets projectId={projectId} getToken={getToken} />
+
             {/* Quick Actions */}
             <motion.div
               initial={{ opacity: 0, y: 20 }}
@@ -261,7 +386,7 @@ export default function ProjectPage() {
               <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                 {/* Editor Link */}
                 {versions.length > 0 ? (
-                  <Link href={`/projects/${projectId}/editor?versionId=${versions[0].versionId}`}>
+                  <Link href={`/projects/${projectId}/editor?versionId=${(versions.find(v => v.isActive) ?? versions[0]).versionId}`}>
                     <div className="group cursor-pointer h-full p-6 rounded-2xl bg-gray-900/50 backdrop-blur-sm border border-white/10 hover:bg-gray-900/70 hover:border-blue-500/30 transition-all">
                       <div className="w-14 h-14 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-xl flex items-center justify-center mb-4 group-hover:scale-110 transition-transform shadow-lg shadow-blue-500/20">
                         <FileCode className="w-7 h-7 text-white" />
@@ -13,6 +13,8 @@ import React, { createContext, useContext, useState, useCallback, useEffect } fr
  * - success: Success messages (green)
  * - error: Error messages (red)
  * - loading: In-progress operations (animated)
+ * 
+ * An optional action renders a button (e.g. "Undo") that dismisses the toast when clicked.
  */
 
 export type ToastType = 'info' | 'success' | 'error' | 'loading';
@@ -24,6 +26,12 @@ export interface Toast {
   message?: string;
   duration?: number; // ms, 0 = persistent until dismissed
   dismissible?: boolean;
+  action?: ToastAction;
+}
+
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
 }
 
 interface ToastContextValue {
@@ -144,6 +152,19 @@ function ToastItem({ toast, onRemove }: { toast: Toast; onRemove: (id: string) =
           )}
         </div>
 
+        {/* Action button */}
+        {toast.action && toast.type !== 'loading' && (
+          <button
+            onClick={() => {
+              onRemove(toast.id);
+              toast.action!.onClick();
+            }}
+            className="flex-shrink-0 px-2 py-0.5 rounded text-xs font-medium text-white bg-white/10 hover:bg-white/20 transition-colors"
+          >
+            {toast.action.label}
+          </button>
+        )}
+
         {/* Dismiss button */}
         {toast.dismissible && toast.type !== 'loading' && (
           <button
@@ -0,0 +1,70 @@
+'use client';
+
+import { useState, useEffect, type ReactNode } from 'react';
+import { apiUrl } from '@/lib/api';
+import { cn } from '@/lib/utils';
+
+/**
+ * THUMBNAILS: First page of a compiled version
+ *
+ * Loaded from GET /api/versions/{versionId}/thumbnail with the Bearer token and shown
+ * from a blob URL (like the PDF preview; stored files are never public).
+ * fallback is rendered while loading and when the version has no thumbnail.
+ */
+
+interface VersionThumbnailProps {
+  versionId: string | null;
+  getToken: () => Promise<string | null>;
+  alt?: string;
+  className?: string;
+  fallback?: ReactNode;
+}
+
+export function VersionThumbnail({ versionId, getToken, alt = 'Resume thumbnail', className, fallback = null }: VersionThumbnailProps) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUrl(null);
+    if (!versionId) return;
+
+    let isCancelled = false;
+    let objectUrl: string | null = null;
+
+    const fetchThumbnail = async () => {
+      try {
+        const token = await getToken();
+        if (!token) return;
+
+        const response = await fetch(apiUrl(`/api/versions/${versionId}/thumbnail`), {
+          headers: {
+            'Authorization': `Bearer ${token}`,
+          },
+        });
+
+        // No thumbnail (not compiled yet, or compiled before thumbnails): keep the fallback
+        if (!response.ok) return;
+
+        const blob = await response.blob();
+        if (isCancelled) return;
+
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      } catch {
+        // Decorative only: the fallback stays
+      }
+    };
+
+    fetchThumbnail();
+
+    return () => {
+      isCancelled = true;
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl);
+      }
+    };
+  }, [versionId, getToken]);
+
+  if (!url) return <>{fallback}</>;
+
+  return <img src={url} alt={alt} className={cn('bg-white object-cover object-top', className)} />;
+}
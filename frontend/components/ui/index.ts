@@ -1,7 +1,7 @@
 // UI Components Index
 // Re-export all UI components for easy importing
 
-export { ToastProvider, useToast, type Toast, type ToastType } from './Toast';
+export { ToastProvider, useToast, type Toast, type ToastType, type ToastAction } from './Toast';
 export { 
   ProcessIndicator, 
   InlineLoading, 
@@ -12,3 +12,4 @@ export {
 export { GradientAIChatInput } from './gradient-ai-chat-input';
 export { ModeSwitcher } from './mode-switcher';
 export { FloatingNavbar } from './floating-navbar';
+export { VersionThumbnail } from './VersionThumbnail';